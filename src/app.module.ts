@@ -17,6 +17,8 @@ import { AdminModule } from './modules/admin/admin.module.js';
 import { ErrorsModule } from './modules/errors/errors.module.js';
 import { EmailModule } from './modules/email/email.module.js';
 import { FeedbackModule } from './modules/feedback/feedback.module.js';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module.js';
+import { WebhookEndpointsModule } from './modules/webhook-endpoints/webhook-endpoints.module.js';
 import appConfig from './config/app.config.js';
 import { GoogleAuthProvider } from './config/google-auth.provider.js';
 
@@ -48,6 +50,8 @@ import { GoogleAuthProvider } from './config/google-auth.provider.js';
     ErrorsModule,
     EmailModule,
     FeedbackModule,
+    ApiKeysModule,
+    WebhookEndpointsModule,
   ],
   controllers: [AppController],
   providers: [
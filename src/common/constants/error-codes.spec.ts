@@ -18,6 +18,7 @@ describe('getErrorTypeFromCode', () => {
       ErrorCodes.ACCESS_DENIED,
       ErrorCodes.USER_NOT_FOUND,
       ErrorCodes.BATCH_NOT_ALLOWED,
+      ErrorCodes.API_KEYS_NOT_ALLOWED,
     ])('clasifica %s como ACCESS_DENIED', (code) => {
       expect(getErrorTypeFromCode(code)).toBe('ACCESS_DENIED');
     });
@@ -9,17 +9,34 @@ export const ErrorCodes = {
   INVALID_LABEL_SIZE: 'INVALID_LABEL_SIZE',
   INVALID_INPUT: 'INVALID_INPUT',
   NO_FILES: 'NO_FILES',
+  /** URL de webhook que no es HTTPS o apunta a una red privada */
+  INVALID_WEBHOOK_URL: 'INVALID_WEBHOOK_URL',
+  /** El ZPL usa un comando que el renderizador local no sabe dibujar */
+  UNSUPPORTED_ZPL_COMMAND: 'UNSUPPORTED_ZPL_COMMAND',
+  /** Archivo .zip/.tar.gz de batch corrupto o con rutas fuera de su carpeta */
+  INVALID_ARCHIVE: 'INVALID_ARCHIVE',
+  /** Imagen a convertir en gráfico ZPL ilegible o en un formato no soportado */
+  INVALID_IMAGE: 'INVALID_IMAGE',
+  /** PDF a convertir en ZPL ilegible, cifrado o sin páginas */
+  INVALID_PDF: 'INVALID_PDF',
 
   // Errores de límites (400/403)
   LABEL_LIMIT_EXCEEDED: 'LABEL_LIMIT_EXCEEDED',
   MONTHLY_LIMIT_EXCEEDED: 'MONTHLY_LIMIT_EXCEEDED',
   BATCH_LIMIT_EXCEEDED: 'BATCH_LIMIT_EXCEEDED',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  /** Demasiadas etiquetas para la conversión síncrona; usar /convert */
+  SYNC_LABEL_LIMIT_EXCEEDED: 'SYNC_LABEL_LIMIT_EXCEEDED',
 
   // Errores de permisos (403)
   IMAGE_FORMAT_PRO_ONLY: 'IMAGE_FORMAT_PRO_ONLY',
   BATCH_NOT_ALLOWED: 'BATCH_NOT_ALLOWED',
   ACCESS_DENIED: 'ACCESS_DENIED',
+  API_KEYS_NOT_ALLOWED: 'API_KEYS_NOT_ALLOWED',
+  /** La API key no tiene el permiso que exige el endpoint */
+  API_KEY_SCOPE_DENIED: 'API_KEY_SCOPE_DENIED',
+  API_KEY_LIMIT_EXCEEDED: 'API_KEY_LIMIT_EXCEEDED',
+  WEBHOOK_ENDPOINT_LIMIT_EXCEEDED: 'WEBHOOK_ENDPOINT_LIMIT_EXCEEDED',
 
   // Errores de recursos (404/410)
   JOB_NOT_FOUND: 'JOB_NOT_FOUND',
@@ -27,13 +44,28 @@ export const ErrorCodes = {
   BATCH_NOT_FOUND: 'BATCH_NOT_FOUND',
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   DOWNLOAD_NOT_AVAILABLE: 'DOWNLOAD_NOT_AVAILABLE',
+  API_KEY_NOT_FOUND: 'API_KEY_NOT_FOUND',
+  WEBHOOK_ENDPOINT_NOT_FOUND: 'WEBHOOK_ENDPOINT_NOT_FOUND',
+  WEBHOOK_DELIVERY_NOT_FOUND: 'WEBHOOK_DELIVERY_NOT_FOUND',
 
   // Errores de estado (400)
   BATCH_PROCESSING: 'BATCH_PROCESSING',
   JOB_NOT_COMPLETE: 'JOB_NOT_COMPLETE',
+  /** Otra instancia tiene el lease del job; la cola debe reintentar luego */
+  JOB_IN_PROGRESS: 'JOB_IN_PROGRESS',
+  /** El usuario canceló la conversión; el resto de sus chunks no se renderiza */
+  JOB_CANCELLED: 'JOB_CANCELLED',
+  /** Se pidió cancelar un job que ya terminó (completado, fallido o cancelado) */
+  JOB_ALREADY_FINISHED: 'JOB_ALREADY_FINISHED',
+  BATCH_ALREADY_FINISHED: 'BATCH_ALREADY_FINISHED',
 
   // Errores de servidor (500/503/504)
   SERVER_ERROR: 'SERVER_ERROR',
+  /**
+   * La instancia que procesaba la conversión desapareció (reciclado, deploy)
+   * y el job agotó sus reintentos o no se pudo reanudar.
+   */
+  JOB_ORPHANED: 'JOB_ORPHANED',
   /**
    * El cambio de plan SÍ se cobró en Stripe, pero la escritura del plan no se
    * confirmó en el mismo ciclo. Va aparte de SERVICE_UNAVAILABLE porque el
@@ -42,11 +74,14 @@ export const ErrorCodes = {
    */
   UPGRADE_APPLIED_SYNC_PENDING: 'UPGRADE_APPLIED_SYNC_PENDING',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  /** Circuito hacia Labelary abierto tras fallos seguidos; reintentar luego */
+  LABELARY_UNAVAILABLE: 'LABELARY_UNAVAILABLE',
   PROCESSING_TIMEOUT: 'PROCESSING_TIMEOUT',
 
   // Errores de autenticación (401)
   UNAUTHORIZED: 'UNAUTHORIZED',
   INVALID_TOKEN: 'INVALID_TOKEN',
+  INVALID_API_KEY: 'INVALID_API_KEY',
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -60,6 +95,11 @@ export const ErrorHttpStatus: Record<ErrorCode, number> = {
   [ErrorCodes.INVALID_LABEL_SIZE]: 400,
   [ErrorCodes.INVALID_INPUT]: 400,
   [ErrorCodes.NO_FILES]: 400,
+  [ErrorCodes.INVALID_ARCHIVE]: 400,
+  [ErrorCodes.INVALID_IMAGE]: 400,
+  [ErrorCodes.INVALID_PDF]: 400,
+  [ErrorCodes.INVALID_WEBHOOK_URL]: 400,
+  [ErrorCodes.UNSUPPORTED_ZPL_COMMAND]: 400,
   [ErrorCodes.LABEL_LIMIT_EXCEEDED]: 400,
   [ErrorCodes.BATCH_PROCESSING]: 400,
   [ErrorCodes.JOB_NOT_COMPLETE]: 400,
@@ -67,6 +107,7 @@ export const ErrorHttpStatus: Record<ErrorCode, number> = {
   // 401 Unauthorized
   [ErrorCodes.UNAUTHORIZED]: 401,
   [ErrorCodes.INVALID_TOKEN]: 401,
+  [ErrorCodes.INVALID_API_KEY]: 401,
 
   // 403 Forbidden
   [ErrorCodes.MONTHLY_LIMIT_EXCEEDED]: 403,
@@ -74,24 +115,40 @@ export const ErrorHttpStatus: Record<ErrorCode, number> = {
   [ErrorCodes.IMAGE_FORMAT_PRO_ONLY]: 403,
   [ErrorCodes.BATCH_NOT_ALLOWED]: 403,
   [ErrorCodes.ACCESS_DENIED]: 403,
+  [ErrorCodes.API_KEYS_NOT_ALLOWED]: 403,
+  [ErrorCodes.API_KEY_SCOPE_DENIED]: 403,
+  [ErrorCodes.API_KEY_LIMIT_EXCEEDED]: 403,
+  [ErrorCodes.WEBHOOK_ENDPOINT_LIMIT_EXCEEDED]: 403,
 
   // 404 Not Found
   [ErrorCodes.JOB_NOT_FOUND]: 404,
   [ErrorCodes.BATCH_NOT_FOUND]: 404,
   [ErrorCodes.USER_NOT_FOUND]: 404,
   [ErrorCodes.DOWNLOAD_NOT_AVAILABLE]: 404,
+  [ErrorCodes.API_KEY_NOT_FOUND]: 404,
+  [ErrorCodes.WEBHOOK_ENDPOINT_NOT_FOUND]: 404,
+  [ErrorCodes.WEBHOOK_DELIVERY_NOT_FOUND]: 404,
 
   // 410 Gone
   [ErrorCodes.JOB_EXPIRED]: 410,
 
+  // 409 Conflict
+  [ErrorCodes.JOB_IN_PROGRESS]: 409,
+  [ErrorCodes.JOB_CANCELLED]: 409,
+  [ErrorCodes.JOB_ALREADY_FINISHED]: 409,
+  [ErrorCodes.BATCH_ALREADY_FINISHED]: 409,
+
   // 413 Payload Too Large
   [ErrorCodes.FILE_TOO_LARGE]: 413,
+  [ErrorCodes.SYNC_LABEL_LIMIT_EXCEEDED]: 413,
 
   // 500 Internal Server Error
   [ErrorCodes.SERVER_ERROR]: 500,
+  [ErrorCodes.JOB_ORPHANED]: 500,
 
   // 503 Service Unavailable
   [ErrorCodes.SERVICE_UNAVAILABLE]: 503,
+  [ErrorCodes.LABELARY_UNAVAILABLE]: 503,
   [ErrorCodes.UPGRADE_APPLIED_SYNC_PENDING]: 503,
 
   // 504 Gateway Timeout
@@ -106,6 +163,13 @@ export const ErrorMessagesEs: Record<ErrorCode, string> = {
   [ErrorCodes.INVALID_LABEL_SIZE]: 'El tamaño de etiqueta no es válido',
   [ErrorCodes.INVALID_INPUT]: 'Los datos de entrada no son válidos',
   [ErrorCodes.NO_FILES]: 'Se requiere al menos un archivo',
+  [ErrorCodes.INVALID_ARCHIVE]: 'El archivo comprimido no es válido',
+  [ErrorCodes.INVALID_IMAGE]: 'La imagen no es un PNG, JPEG o SVG válido',
+  [ErrorCodes.INVALID_PDF]: 'El PDF no se puede leer',
+  [ErrorCodes.INVALID_WEBHOOK_URL]:
+    'La URL del webhook debe ser HTTPS y pública',
+  [ErrorCodes.UNSUPPORTED_ZPL_COMMAND]:
+    'El ZPL usa un comando que el renderizador local no soporta',
   [ErrorCodes.LABEL_LIMIT_EXCEEDED]:
     'Se excedió el límite de etiquetas por PDF',
   [ErrorCodes.MONTHLY_LIMIT_EXCEEDED]:
@@ -113,25 +177,48 @@ export const ErrorMessagesEs: Record<ErrorCode, string> = {
   [ErrorCodes.BATCH_LIMIT_EXCEEDED]:
     'Se excedió el límite de archivos por batch',
   [ErrorCodes.FILE_TOO_LARGE]: 'El archivo excede el tamaño máximo permitido',
+  [ErrorCodes.SYNC_LABEL_LIMIT_EXCEEDED]:
+    'Demasiadas etiquetas para la conversión síncrona',
   [ErrorCodes.IMAGE_FORMAT_PRO_ONLY]:
     'El formato de imagen seleccionado requiere plan Pro',
   [ErrorCodes.BATCH_NOT_ALLOWED]: 'El procesamiento batch requiere plan Pro',
   [ErrorCodes.ACCESS_DENIED]: 'No tienes acceso a este recurso',
+  [ErrorCodes.API_KEYS_NOT_ALLOWED]: 'Las API keys requieren plan Pro',
+  [ErrorCodes.API_KEY_SCOPE_DENIED]:
+    'La API key no tiene permiso para esta operación',
+  [ErrorCodes.API_KEY_LIMIT_EXCEEDED]:
+    'Se alcanzó el máximo de API keys activas',
+  [ErrorCodes.WEBHOOK_ENDPOINT_LIMIT_EXCEEDED]:
+    'Se alcanzó el máximo de webhooks',
   [ErrorCodes.JOB_NOT_FOUND]: 'Trabajo no encontrado',
   [ErrorCodes.JOB_EXPIRED]: 'El trabajo ha expirado y ya no está disponible',
   [ErrorCodes.BATCH_NOT_FOUND]: 'Batch no encontrado',
   [ErrorCodes.USER_NOT_FOUND]: 'Usuario no encontrado',
   [ErrorCodes.DOWNLOAD_NOT_AVAILABLE]:
     'No hay archivos disponibles para descargar',
+  [ErrorCodes.API_KEY_NOT_FOUND]: 'API key no encontrada',
+  [ErrorCodes.WEBHOOK_ENDPOINT_NOT_FOUND]: 'Webhook no encontrado',
+  [ErrorCodes.WEBHOOK_DELIVERY_NOT_FOUND]: 'Entrega de webhook no encontrada',
   [ErrorCodes.BATCH_PROCESSING]: 'El batch aún está procesándose',
   [ErrorCodes.JOB_NOT_COMPLETE]: 'La conversión no está completa',
+  [ErrorCodes.JOB_IN_PROGRESS]: 'La conversión ya se está procesando',
+  [ErrorCodes.JOB_CANCELLED]: 'La conversión fue cancelada',
+  [ErrorCodes.JOB_ALREADY_FINISHED]:
+    'La conversión ya terminó y no se puede cancelar',
+  [ErrorCodes.BATCH_ALREADY_FINISHED]:
+    'El batch ya terminó y no se puede cancelar',
   [ErrorCodes.SERVER_ERROR]: 'Error interno del servidor',
+  [ErrorCodes.JOB_ORPHANED]:
+    'La conversión se interrumpió y no pudo reanudarse; inténtalo de nuevo',
   [ErrorCodes.SERVICE_UNAVAILABLE]: 'Servicio temporalmente no disponible',
+  [ErrorCodes.LABELARY_UNAVAILABLE]:
+    'El servicio de renderizado no está disponible; inténtalo en unos minutos',
   [ErrorCodes.UPGRADE_APPLIED_SYNC_PENDING]:
     'Tu pago se procesó; el plan estará disponible en unos momentos',
   [ErrorCodes.PROCESSING_TIMEOUT]: 'La conversión tomó demasiado tiempo',
   [ErrorCodes.UNAUTHORIZED]: 'Autenticación requerida',
   [ErrorCodes.INVALID_TOKEN]: 'Token de acceso inválido o expirado',
+  [ErrorCodes.INVALID_API_KEY]: 'API key inválida o revocada',
 };
 
 /**
@@ -142,27 +229,56 @@ export const ErrorMessagesEn: Record<ErrorCode, string> = {
   [ErrorCodes.INVALID_LABEL_SIZE]: 'Label size is not valid',
   [ErrorCodes.INVALID_INPUT]: 'Invalid input data',
   [ErrorCodes.NO_FILES]: 'At least one file is required',
+  [ErrorCodes.INVALID_ARCHIVE]: 'The archive is not valid',
+  [ErrorCodes.INVALID_IMAGE]: 'The image is not a valid PNG, JPEG or SVG',
+  [ErrorCodes.INVALID_PDF]: 'The PDF cannot be read',
+  [ErrorCodes.INVALID_WEBHOOK_URL]: 'Webhook URL must be public HTTPS',
+  [ErrorCodes.UNSUPPORTED_ZPL_COMMAND]:
+    'ZPL uses a command the local renderer does not support',
   [ErrorCodes.LABEL_LIMIT_EXCEEDED]: 'Label limit per PDF exceeded',
   [ErrorCodes.MONTHLY_LIMIT_EXCEEDED]: 'Monthly conversion quota exhausted',
   [ErrorCodes.BATCH_LIMIT_EXCEEDED]: 'Batch file limit exceeded',
   [ErrorCodes.FILE_TOO_LARGE]: 'File exceeds maximum allowed size',
+  [ErrorCodes.SYNC_LABEL_LIMIT_EXCEEDED]:
+    'Too many labels for a synchronous conversion',
   [ErrorCodes.IMAGE_FORMAT_PRO_ONLY]: 'Selected image format requires Pro plan',
   [ErrorCodes.BATCH_NOT_ALLOWED]: 'Batch processing requires Pro plan',
   [ErrorCodes.ACCESS_DENIED]: 'Access denied to this resource',
+  [ErrorCodes.API_KEYS_NOT_ALLOWED]: 'API keys require Pro plan',
+  [ErrorCodes.API_KEY_SCOPE_DENIED]:
+    'API key is not allowed to perform this operation',
+  [ErrorCodes.API_KEY_LIMIT_EXCEEDED]:
+    'Maximum number of active API keys reached',
+  [ErrorCodes.WEBHOOK_ENDPOINT_LIMIT_EXCEEDED]:
+    'Maximum number of webhooks reached',
   [ErrorCodes.JOB_NOT_FOUND]: 'Job not found',
   [ErrorCodes.JOB_EXPIRED]: 'Job has expired and is no longer available',
   [ErrorCodes.BATCH_NOT_FOUND]: 'Batch not found',
   [ErrorCodes.USER_NOT_FOUND]: 'User not found',
   [ErrorCodes.DOWNLOAD_NOT_AVAILABLE]: 'No files available for download',
+  [ErrorCodes.API_KEY_NOT_FOUND]: 'API key not found',
+  [ErrorCodes.WEBHOOK_ENDPOINT_NOT_FOUND]: 'Webhook not found',
+  [ErrorCodes.WEBHOOK_DELIVERY_NOT_FOUND]: 'Webhook delivery not found',
   [ErrorCodes.BATCH_PROCESSING]: 'Batch is still processing',
   [ErrorCodes.JOB_NOT_COMPLETE]: 'Conversion is not complete',
+  [ErrorCodes.JOB_IN_PROGRESS]: 'Conversion is already being processed',
+  [ErrorCodes.JOB_CANCELLED]: 'The conversion was cancelled',
+  [ErrorCodes.JOB_ALREADY_FINISHED]:
+    'The conversion has already finished and cannot be cancelled',
+  [ErrorCodes.BATCH_ALREADY_FINISHED]:
+    'The batch has already finished and cannot be cancelled',
   [ErrorCodes.SERVER_ERROR]: 'Internal server error',
+  [ErrorCodes.JOB_ORPHANED]:
+    'The conversion was interrupted and could not be resumed; please try again',
   [ErrorCodes.SERVICE_UNAVAILABLE]: 'Service temporarily unavailable',
+  [ErrorCodes.LABELARY_UNAVAILABLE]:
+    'The rendering service is unavailable; please try again in a few minutes',
   [ErrorCodes.UPGRADE_APPLIED_SYNC_PENDING]:
     'Your payment went through; your plan will be available shortly',
   [ErrorCodes.PROCESSING_TIMEOUT]: 'Conversion took too long',
   [ErrorCodes.UNAUTHORIZED]: 'Authentication required',
   [ErrorCodes.INVALID_TOKEN]: 'Invalid or expired access token',
+  [ErrorCodes.INVALID_API_KEY]: 'Invalid or revoked API key',
 };
 
 /**
@@ -197,6 +313,7 @@ export function getErrorTypeFromCode(code: string): string {
     // El batch bloqueado por plan es fricción de acceso (señal de upsell), no
     // presión de cuota: el usuario no agotó nada, su plan no incluye la feature.
     case ErrorCodes.BATCH_NOT_ALLOWED:
+    case ErrorCodes.API_KEYS_NOT_ALLOWED:
       return 'ACCESS_DENIED';
     default:
       // Fallback conservador: mantiene el comportamiento previo para códigos
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import type { ApiKeyScope } from '../interfaces/api-key.interface.js';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Permisos que necesita una API key para usar el endpoint. Sin este decorador
+ * ApiKeyAuthGuard solo acepta tokens Firebase.
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -1 +1,2 @@
 export * from './current-user.decorator.js';
+export * from './api-key-scopes.decorator.js';
@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FirebaseAuthGuard } from './firebase-auth.guard.js';
+import {
+  API_KEY_PREFIX,
+  ApiKeysService,
+} from '../../modules/api-keys/api-keys.service.js';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator.js';
+import { ErrorCodes } from '../constants/error-codes.js';
+import type { ApiKeyScope } from '../interfaces/api-key.interface.js';
+
+/**
+ * Acepta una API key (header `X-API-Key` o `Authorization: Bearer zpk_...`)
+ * o, si no la hay, un token Firebase como FirebaseAuthGuard. En ambos casos
+ * deja en `request.user` el mismo FirebaseUser, así que los endpoints no
+ * distinguen el origen. La API key debe tener los permisos declarados con
+ * @ApiKeyScopes.
+ */
+@Injectable()
+export class ApiKeyAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(FirebaseAuthGuard)
+    private readonly firebaseAuthGuard: FirebaseAuthGuard,
+    @Inject(ApiKeysService)
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  private extractApiKey(headers: Record<string, unknown>): string | null {
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header.trim()) {
+      return header.trim();
+    }
+
+    const authorization = headers.authorization;
+    if (typeof authorization === 'string') {
+      const token = authorization.replace(/^Bearer\s+/i, '');
+      if (token.startsWith(API_KEY_PREFIX)) return token;
+    }
+    return null;
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const key = this.extractApiKey(request.headers);
+    if (!key) {
+      return this.firebaseAuthGuard.canActivate(context);
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+      API_KEY_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    const { apiKey, user } = await this.apiKeysService.authenticate(key);
+
+    if (
+      !requiredScopes?.length ||
+      !ApiKeysService.hasScopes(apiKey, requiredScopes)
+    ) {
+      throw new ForbiddenException({
+        error: ErrorCodes.API_KEY_SCOPE_DENIED,
+        message: requiredScopes?.length
+          ? `This API key requires the scopes: ${requiredScopes.join(', ')}`
+          : 'This endpoint does not accept API keys',
+        data: { required: requiredScopes ?? [], granted: apiKey.scopes },
+      });
+    }
+
+    request.user = {
+      uid: user.id,
+      email: user.email,
+      name: user.displayName,
+    };
+    request.apiKeyId = apiKey.id;
+    return true;
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OAuth2Client } from 'google-auth-library';
+
+/**
+ * Acepta solo peticiones firmadas por Cloud Tasks: un ID token de Google con
+ * la audiencia del servicio, emitido para la cuenta de servicio de la cola.
+ */
+@Injectable()
+export class CloudTasksOidcGuard implements CanActivate {
+  private readonly logger = new Logger(CloudTasksOidcGuard.name);
+  private readonly oauthClient = new OAuth2Client();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const audience = this.configService.get<string>('SERVICE_URL');
+    const serviceAccountEmail = this.configService.get<string>(
+      'GCP_SERVICE_ACCOUNT_EMAIL',
+    );
+
+    if (!audience || !serviceAccountEmail) {
+      throw new UnauthorizedException('Task authentication not configured');
+    }
+
+    const authHeader: string | undefined = request.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new UnauthorizedException('Missing task OIDC token');
+    }
+
+    let payload: { email?: string; email_verified?: boolean } | undefined;
+    try {
+      const ticket = await this.oauthClient.verifyIdToken({
+        idToken: authHeader.slice('Bearer '.length),
+        audience,
+      });
+      payload = ticket.getPayload();
+    } catch (error) {
+      this.logger.warn(`Invalid task OIDC token: ${error.message}`);
+      throw new UnauthorizedException('Invalid task OIDC token');
+    }
+
+    if (payload?.email !== serviceAccountEmail || !payload.email_verified) {
+      this.logger.warn(`Task token issued for unexpected ${payload?.email}`);
+      throw new UnauthorizedException('Invalid task OIDC token');
+    }
+
+    return true;
+  }
+}
@@ -1,3 +1,5 @@
 export * from './firebase-auth.guard.js';
 export * from './cron-auth.guard.js';
 export * from './custom-throttler.guard.js';
+export * from './api-key-auth.guard.js';
+export * from './cloud-tasks-oidc.guard.js';
@@ -0,0 +1,23 @@
+/** Permisos que puede tener una API key */
+export const API_KEY_SCOPES = ['convert', 'batch', 'history'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Documento de la colección `api_keys`. La clave solo se muestra al crearla;
+ * se guarda su SHA-256 y un prefijo para que el usuario la reconozca.
+ */
+export interface ApiKey {
+  id: string;
+  userId: string;
+  label: string;
+  /** Primeros caracteres de la clave (`zpk_AbCd1234`) */
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+/** API key tal como se devuelve al usuario (sin el hash) */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'userId'>;
@@ -1,10 +1,15 @@
+import type { LabelDimensions } from '../../modules/zpl/interfaces/label-dimensions.interface.js';
+import type { HistoryOutputFormat } from '../../modules/zpl/enums/output-format.enum.js';
+
 export interface ConversionHistory {
   userId: string;
   jobId: string;
   labelCount: number;
   labelSize: string;
+  /** Medidas originales si el usuario pidió un tamaño personalizado */
+  labelDimensions?: LabelDimensions;
   status: 'completed' | 'failed';
-  outputFormat: 'pdf' | 'png' | 'jpeg';
+  outputFormat: HistoryOutputFormat;
   fileUrl?: string;
   createdAt: Date;
 }
@@ -1,3 +1,5 @@
 export * from './user.interface.js';
 export * from './usage.interface.js';
 export * from './conversion-history.interface.js';
+export * from './api-key.interface.js';
+export * from './webhook-endpoint.interface.js';
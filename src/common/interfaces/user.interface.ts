@@ -23,8 +23,21 @@ export interface PlanFeatures {
   hasHighPriority: boolean;
   /** Conserva el nombre original del archivo en la descarga */
   preservesOriginalFilename: boolean;
+  /** API keys para integraciones servidor a servidor */
+  canUseApiKeys: boolean;
+  /**
+   * Peso en el reparto justo de Labelary entre usuarios de la misma cola:
+   * con peso 2 un usuario despacha dos chunks por cada uno de un usuario con
+   * peso 1 mientras ambos tengan trabajo pendiente
+   */
+  queueWeight: number;
 }
 
+/** Features de PLAN_FEATURES que se conceden o no (sin los pesos numéricos) */
+export type BooleanPlanFeature = {
+  [K in keyof PlanFeatures]: PlanFeatures[K] extends boolean ? K : never;
+}[keyof PlanFeatures];
+
 export interface User {
   id: string;
   email: string;
@@ -93,33 +106,44 @@ export const DEFAULT_PLAN_LIMITS: Record<PlanType, PlanLimits> = {
 
 /**
  * Features premium por plan. Free y Lite NO desbloquean ninguna feature premium
- * (Lite solo compra más cuota). Pro/Pro Max/Enterprise desbloquean todas.
+ * (Lite solo compra más cuota). Pro/Pro Max/Enterprise desbloquean todas; el
+ * peso en cola es lo único que distingue a los planes altos entre sí.
  */
 export const PLAN_FEATURES: Record<PlanType, PlanFeatures> = {
   free: {
     canViewHistory: false,
     hasHighPriority: false,
     preservesOriginalFilename: false,
+    canUseApiKeys: false,
+    queueWeight: 1,
   },
   lite: {
     canViewHistory: false,
     hasHighPriority: false,
     preservesOriginalFilename: false,
+    canUseApiKeys: false,
+    queueWeight: 1,
   },
   pro: {
     canViewHistory: true,
     hasHighPriority: true,
     preservesOriginalFilename: true,
+    canUseApiKeys: true,
+    queueWeight: 1,
   },
   promax: {
     canViewHistory: true,
     hasHighPriority: true,
     preservesOriginalFilename: true,
+    canUseApiKeys: true,
+    queueWeight: 2,
   },
   enterprise: {
     canViewHistory: true,
     hasHighPriority: true,
     preservesOriginalFilename: true,
+    canUseApiKeys: true,
+    queueWeight: 4,
   },
 };
 
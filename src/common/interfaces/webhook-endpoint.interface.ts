@@ -0,0 +1,75 @@
+/**
+ * Webhooks salientes: URLs HTTPS que registra el usuario para enterarse de
+ * que una conversión o un batch terminó (o se canceló) sin tener que
+ * consultar /status.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'conversion.completed',
+  'conversion.failed',
+  'conversion.cancelled',
+  'batch.completed',
+  'batch.partial',
+  'batch.failed',
+  'batch.cancelled',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  description: string | null;
+  /** Secreto para firmar los envíos (HMAC-SHA256); solo se muestra al crear */
+  secret: string;
+  events: WebhookEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Endpoint tal como se devuelve al usuario (sin el secreto) */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret' | 'userId'>;
+
+/** Cuerpo JSON que recibe el endpoint */
+export interface WebhookEventPayload {
+  /** Identificador del evento; se conserva en reintentos y reenvíos */
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Archivo del resultado en el bucket. No viaja en el payload: con él se firma
+ * una URL de descarga nueva en cada intento.
+ */
+export interface WebhookDownloadRef {
+  path: string;
+  filename: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  userId: string;
+  event: WebhookEventType;
+  payload: WebhookEventPayload;
+  /** pending mientras quedan reintentos; failed al agotarlos */
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** Status HTTP del último intento, null si no hubo respuesta */
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  /** Entrega original si esta es un reenvío manual */
+  redeliveryOf: string | null;
+  /** Resultado descargable del evento, null si no hay */
+  download: WebhookDownloadRef | null;
+}
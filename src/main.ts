@@ -52,6 +52,8 @@ async function bootstrap() {
         ],
     methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'],
     credentials: true,
+    // Cabeceras de /zpl/convert/sync que el navegador debe poder leer
+    exposedHeaders: ['Content-Disposition', 'X-Job-Id', 'X-Label-Count'],
   });
 
   // Configurar el prefijo global de la API
@@ -75,6 +77,7 @@ async function bootstrap() {
     .setVersion('2.0')
     .addTag('zpl', 'ZPL to PDF conversion endpoints')
     .addTag('users', 'User management endpoints')
+    .addTag('api-keys', 'Developer API key endpoints')
     .addTag('payments', 'Payment and subscription endpoints')
     .addTag('contact', 'Contact form endpoints')
     .addTag('cron', 'Cron job endpoints')
@@ -87,6 +90,15 @@ async function bootstrap() {
       },
       'Firebase',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'API key de desarrollador (zpk_...)',
+      },
+      'api-key',
+    )
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api/docs', app, document);
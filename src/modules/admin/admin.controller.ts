@@ -715,6 +715,10 @@ export class AdminController {
                 uniqueLabelsConverted: { type: 'number', example: 12500 },
                 deduplicationRatio: { type: 'number', example: 16.7 },
                 apiCallsSaved: { type: 'number', example: 2500 },
+                documentCacheHits: { type: 'number', example: 120 },
+                documentCacheHitRate: { type: 'number', example: 8.5 },
+                blockCacheHits: { type: 'number', example: 3100 },
+                blockCacheHitRate: { type: 'number', example: 24.8 },
               },
             },
             saturation: {
@@ -733,6 +737,32 @@ export class AdminController {
                 },
               },
             },
+            rateControl: {
+              type: 'object',
+              description:
+                'Adaptive rate control and circuit breaker state of the instance that served the request',
+              properties: {
+                circuit: {
+                  type: 'string',
+                  enum: ['closed', 'open', 'half_open'],
+                  example: 'closed',
+                },
+                intervalMs: { type: 'number', example: 900 },
+                callsPerMinute: { type: 'number', example: 67 },
+                pausedUntil: {
+                  type: 'string',
+                  nullable: true,
+                  example: null,
+                },
+                openUntil: { type: 'string', nullable: true, example: null },
+                consecutiveFailures: { type: 'number', example: 0 },
+                lastRateLimitAt: {
+                  type: 'string',
+                  nullable: true,
+                  example: '2026-01-15T14:32:10.000Z',
+                },
+              },
+            },
           },
         },
       },
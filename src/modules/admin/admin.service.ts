@@ -1258,6 +1258,12 @@ export class AdminService {
             ) / 10
           : 0;
 
+      // Caché de renderizado: conversiones y etiquetas que no se renderizaron
+      const hitRate = (hits: number, misses: number) =>
+        hits + misses > 0
+          ? Math.round((hits / (hits + misses)) * 1000) / 10
+          : 0;
+
       // Calcular saturación
       const saturationPercent = Math.round(
         (todayStats.totalCalls / this.DAILY_LIMIT) * 100,
@@ -1288,12 +1294,23 @@ export class AdminService {
             uniqueLabelsConverted,
             deduplicationRatio,
             apiCallsSaved,
+            documentCacheHits: todayStats.documentCacheHits,
+            documentCacheHitRate: hitRate(
+              todayStats.documentCacheHits,
+              todayStats.documentCacheMisses,
+            ),
+            blockCacheHits: todayStats.blockCacheHits,
+            blockCacheHitRate: hitRate(
+              todayStats.blockCacheHits,
+              todayStats.blockCacheMisses,
+            ),
           },
           saturation: {
             current: saturationPercent,
             level: saturationLevel,
             estimatedExhaustion,
           },
+          rateControl: this.labelaryQueueService.getRateControlState(),
         },
       };
 
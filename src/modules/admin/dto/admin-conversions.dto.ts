@@ -10,6 +10,8 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { PaginationDto } from '../../../common/dto/pagination.dto.js';
+import { HISTORY_OUTPUT_FORMAT_VALUES } from '../../zpl/enums/output-format.enum.js';
+import type { HistoryOutputFormat } from '../../zpl/enums/output-format.enum.js';
 
 export class GetConversionsQueryDto {
   @ApiPropertyOptional({ enum: ['day', 'week', 'month'], default: 'week' })
@@ -187,8 +189,11 @@ class ConversionItemDto {
   })
   status: 'completed' | 'failed';
 
-  @ApiProperty({ enum: ['pdf', 'png', 'jpeg'], description: 'Output format' })
-  outputFormat: 'pdf' | 'png' | 'jpeg';
+  @ApiProperty({
+    enum: HISTORY_OUTPUT_FORMAT_VALUES,
+    description: 'Output format',
+  })
+  outputFormat: HistoryOutputFormat;
 
   @ApiPropertyOptional({ description: 'File URL if available' })
   fileUrl?: string;
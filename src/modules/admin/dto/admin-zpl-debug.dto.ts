@@ -10,6 +10,7 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { PaginationDto } from '../../../common/dto/pagination.dto.js';
+import { OUTPUT_FORMAT_VALUES } from '../../zpl/enums/output-format.enum.js';
 
 export class GetZplDebugFilesQueryDto {
   @ApiProperty({ description: 'User email to search for' })
@@ -82,7 +83,7 @@ class ZplDebugFileDto {
   errorCode?: string;
 
   @ApiProperty({
-    enum: ['pdf', 'png', 'jpeg'],
+    enum: OUTPUT_FORMAT_VALUES,
     description: 'Output format requested',
   })
   outputFormat: string;
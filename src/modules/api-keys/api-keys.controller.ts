@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FirebaseAuthGuard } from '../../common/guards/firebase-auth.guard.js';
+import { CurrentUser } from '../../common/decorators/current-user.decorator.js';
+import type { FirebaseUser } from '../../common/decorators/current-user.decorator.js';
+import { ApiKeysService } from './api-keys.service.js';
+import { CreateApiKeyDto } from './dto/create-api-key.dto.js';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto.js';
+
+/**
+ * Gestión de API keys. Solo con token Firebase: una API key no puede crear ni
+ * revocar otras.
+ */
+@ApiTags('api-keys')
+@ApiBearerAuth()
+@Controller('api-keys')
+@UseGuards(FirebaseAuthGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Crear una API key (Pro, Pro Max y Enterprise)',
+    description:
+      'Devuelve la clave completa una sola vez; despues solo se muestra su prefijo. Enviarla en el header X-API-Key o como Authorization: Bearer.',
+  })
+  @ApiResponse({ status: 201, description: 'API key creada' })
+  @ApiResponse({
+    status: 403,
+    description: 'El plan no incluye API keys o se alcanzo el maximo activo',
+  })
+  create(@CurrentUser() user: FirebaseUser, @Body() dto: CreateApiKeyDto) {
+    return this.apiKeysService.create(user.uid, dto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar API keys',
+    description:
+      'Incluye las revocadas, con su prefijo, permisos y ultimo uso (nunca la clave)',
+  })
+  list(@CurrentUser() user: FirebaseUser) {
+    return this.apiKeysService.list(user.uid);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Renombrar una API key' })
+  @ApiResponse({ status: 404, description: 'API key no encontrada' })
+  update(
+    @CurrentUser() user: FirebaseUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateApiKeyDto,
+  ) {
+    return this.apiKeysService.updateLabel(user.uid, id, dto.label);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Revocar una API key',
+    description: 'La clave deja de aceptarse de inmediato',
+  })
+  @ApiResponse({ status: 404, description: 'API key no encontrada' })
+  revoke(@CurrentUser() user: FirebaseUser, @Param('id') id: string) {
+    return this.apiKeysService.revoke(user.uid, id);
+  }
+}
@@ -0,0 +1,18 @@
+import { Global, Module, forwardRef } from '@nestjs/common';
+import { ApiKeysController } from './api-keys.controller.js';
+import { ApiKeysService } from './api-keys.service.js';
+import { CacheModule } from '../cache/cache.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+/**
+ * Global para que ApiKeyAuthGuard pueda usarse en cualquier controller,
+ * igual que FirebaseAuthGuard desde AuthModule.
+ */
+@Global()
+@Module({
+  imports: [CacheModule, forwardRef(() => UsersModule)],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
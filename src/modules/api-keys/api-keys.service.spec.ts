@@ -0,0 +1,116 @@
+import { ApiKeysService } from './api-keys.service';
+import { ErrorCodes } from '../../common/constants/error-codes';
+import type { ApiKey } from '../../common/interfaces/api-key.interface';
+
+describe('ApiKeysService', () => {
+  const user = { id: 'uid-1', email: 'dev@ejemplo.com', plan: 'pro' };
+
+  function buildService(overrides: Record<string, jest.Mock> = {}) {
+    const firestoreService = {
+      getUserById: jest.fn().mockResolvedValue(user),
+      getApiKeysByUser: jest.fn().mockResolvedValue([]),
+      createApiKey: jest.fn().mockResolvedValue(undefined),
+      getApiKeyByHash: jest.fn().mockResolvedValue(null),
+      getApiKeyById: jest.fn().mockResolvedValue(null),
+      updateApiKey: jest.fn().mockResolvedValue(undefined),
+      ...overrides,
+    };
+    const usersService = { hasPlanFeature: jest.fn().mockReturnValue(true) };
+    const service = new ApiKeysService(
+      firestoreService as any,
+      usersService as any,
+    );
+    return { service, firestoreService, usersService };
+  }
+
+  function storedKey(partial: Partial<ApiKey> = {}): ApiKey {
+    return {
+      id: 'key-1',
+      userId: 'uid-1',
+      label: 'ERP',
+      prefix: 'zpk_abcdefgh',
+      keyHash: 'hash',
+      scopes: ['convert'],
+      createdAt: new Date('2026-01-01'),
+      lastUsedAt: null,
+      revokedAt: null,
+      ...partial,
+    };
+  }
+
+  it('guarda solo el hash y devuelve la clave completa una vez', async () => {
+    const { service, firestoreService } = buildService();
+
+    const created = await service.create('uid-1', {
+      label: ' ERP ',
+      scopes: ['convert', 'convert', 'batch'],
+    });
+
+    const saved: ApiKey = firestoreService.createApiKey.mock.calls[0][0];
+    expect(created.key.startsWith('zpk_')).toBe(true);
+    expect(saved.keyHash).toBe(ApiKeysService.hashKey(created.key));
+    expect(saved.label).toBe('ERP');
+    expect(saved.scopes).toEqual(['convert', 'batch']);
+    expect(created.prefix).toBe(created.key.slice(0, 12));
+    expect(created).not.toHaveProperty('keyHash');
+    expect(created).not.toHaveProperty('userId');
+  });
+
+  it('rechaza crear claves si el plan no las incluye', async () => {
+    const { service, usersService } = buildService();
+    usersService.hasPlanFeature.mockReturnValue(false);
+
+    await expect(
+      service.create('uid-1', { label: 'ERP', scopes: ['convert'] }),
+    ).rejects.toMatchObject({
+      response: { error: ErrorCodes.API_KEYS_NOT_ALLOWED },
+    });
+  });
+
+  it('trata la clave de otro usuario como inexistente', async () => {
+    const { service } = buildService({
+      getApiKeyById: jest
+        .fn()
+        .mockResolvedValue(storedKey({ userId: 'otro-uid' })),
+    });
+
+    await expect(service.revoke('uid-1', 'key-1')).rejects.toMatchObject({
+      response: { error: ErrorCodes.API_KEY_NOT_FOUND },
+    });
+  });
+
+  it('no autentica claves revocadas', async () => {
+    const { service } = buildService({
+      getApiKeyByHash: jest
+        .fn()
+        .mockResolvedValue(storedKey({ revokedAt: new Date() })),
+    });
+
+    await expect(service.authenticate('zpk_x')).rejects.toMatchObject({
+      response: { error: ErrorCodes.INVALID_API_KEY },
+    });
+  });
+
+  it('autentica y actualiza lastUsedAt como mucho una vez por minuto', async () => {
+    const getApiKeyByHash = jest
+      .fn()
+      .mockResolvedValueOnce(storedKey())
+      .mockResolvedValueOnce(storedKey({ lastUsedAt: new Date() }));
+    const { service, firestoreService } = buildService({ getApiKeyByHash });
+
+    const result = await service.authenticate('zpk_x');
+    await service.authenticate('zpk_x');
+
+    expect(result.user).toBe(user);
+    expect(getApiKeyByHash).toHaveBeenCalledWith(
+      ApiKeysService.hashKey('zpk_x'),
+    );
+    expect(firestoreService.updateApiKey).toHaveBeenCalledTimes(1);
+  });
+
+  it('comprueba que la clave tenga todos los permisos', () => {
+    const apiKey = storedKey({ scopes: ['convert', 'history'] });
+    expect(ApiKeysService.hasScopes(apiKey, ['convert'])).toBe(true);
+    expect(ApiKeysService.hasScopes(apiKey, ['convert', 'batch'])).toBe(false);
+  });
+});
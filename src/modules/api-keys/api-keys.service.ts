@@ -0,0 +1,191 @@
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+  forwardRef,
+} from '@nestjs/common';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { FirestoreService } from '../cache/firestore.service.js';
+import { UsersService } from '../users/users.service.js';
+import { ErrorCodes } from '../../common/constants/error-codes.js';
+import type {
+  ApiKey,
+  ApiKeyScope,
+  ApiKeySummary,
+} from '../../common/interfaces/api-key.interface.js';
+import type { User } from '../../common/interfaces/user.interface.js';
+import type { CreateApiKeyDto } from './dto/create-api-key.dto.js';
+
+/** Prefijo de todas las claves: permite distinguirlas de un token Firebase */
+export const API_KEY_PREFIX = 'zpk_';
+
+/** Claves activas (no revocadas) por usuario */
+const MAX_ACTIVE_KEYS = 10;
+
+/** lastUsedAt se actualiza como mucho una vez por minuto por clave */
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly firestoreService: FirestoreService,
+    @Inject(forwardRef(() => UsersService))
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * SHA-256 de la clave. Las claves tienen 256 bits aleatorios, así que no
+   * hace falta un hash lento como con las contraseñas.
+   */
+  static hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private toSummary({ keyHash: _, userId: __, ...summary }: ApiKey) {
+    return summary as ApiKeySummary;
+  }
+
+  private async getUserWithApiKeys(userId: string): Promise<User> {
+    const user = await this.firestoreService.getUserById(userId);
+    if (!user) {
+      throw new NotFoundException({
+        error: ErrorCodes.USER_NOT_FOUND,
+        message: 'User not found',
+      });
+    }
+    if (!this.usersService.hasPlanFeature(user, 'canUseApiKeys')) {
+      throw new ForbiddenException({
+        error: ErrorCodes.API_KEYS_NOT_ALLOWED,
+        message:
+          'API keys are only available for Pro, Pro Max and Enterprise plans',
+      });
+    }
+    return user;
+  }
+
+  /**
+   * Crea una API key. La clave completa solo se devuelve aquí.
+   */
+  async create(
+    userId: string,
+    dto: CreateApiKeyDto,
+  ): Promise<ApiKeySummary & { key: string }> {
+    await this.getUserWithApiKeys(userId);
+
+    const active = (
+      await this.firestoreService.getApiKeysByUser(userId)
+    ).filter((apiKey) => !apiKey.revokedAt);
+    if (active.length >= MAX_ACTIVE_KEYS) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.API_KEY_LIMIT_EXCEEDED,
+          message: `Maximum of ${MAX_ACTIVE_KEYS} active API keys reached. Revoke one to create another`,
+          data: { allowed: MAX_ACTIVE_KEYS },
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      userId,
+      label: dto.label.trim(),
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: ApiKeysService.hashKey(key),
+      scopes: [...new Set(dto.scopes)],
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    await this.firestoreService.createApiKey(apiKey);
+
+    return { ...this.toSummary(apiKey), key };
+  }
+
+  async list(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await this.firestoreService.getApiKeysByUser(userId);
+    return keys.map((apiKey) => this.toSummary(apiKey));
+  }
+
+  private async getOwnedKey(userId: string, id: string): Promise<ApiKey> {
+    const apiKey = await this.firestoreService.getApiKeyById(id);
+    // Una clave de otro usuario se trata como inexistente
+    if (!apiKey || apiKey.userId !== userId) {
+      throw new NotFoundException({
+        error: ErrorCodes.API_KEY_NOT_FOUND,
+        message: 'API key not found',
+      });
+    }
+    return apiKey;
+  }
+
+  async updateLabel(
+    userId: string,
+    id: string,
+    label: string,
+  ): Promise<ApiKeySummary> {
+    const apiKey = await this.getOwnedKey(userId, id);
+    await this.firestoreService.updateApiKey(id, { label: label.trim() });
+    return this.toSummary({ ...apiKey, label: label.trim() });
+  }
+
+  /** Revoca la clave. Es idempotente: revocar dos veces no falla */
+  async revoke(userId: string, id: string): Promise<ApiKeySummary> {
+    const apiKey = await this.getOwnedKey(userId, id);
+    if (apiKey.revokedAt) {
+      return this.toSummary(apiKey);
+    }
+
+    const revokedAt = new Date();
+    await this.firestoreService.updateApiKey(id, { revokedAt });
+    this.logger.log(`API key revocada: ${id} (usuario ${userId})`);
+    return this.toSummary({ ...apiKey, revokedAt });
+  }
+
+  /**
+   * Resuelve una clave recibida en una petición. Falla si no existe, está
+   * revocada o el plan del dueño ya no incluye API keys (p. ej. tras un
+   * downgrade).
+   */
+  async authenticate(key: string): Promise<{ apiKey: ApiKey; user: User }> {
+    const apiKey = await this.firestoreService.getApiKeyByHash(
+      ApiKeysService.hashKey(key),
+    );
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException({
+        error: ErrorCodes.INVALID_API_KEY,
+        message: 'Invalid or revoked API key',
+      });
+    }
+
+    const user = await this.getUserWithApiKeys(apiKey.userId);
+
+    const lastUsed = apiKey.lastUsedAt
+      ? new Date(apiKey.lastUsedAt).getTime()
+      : 0;
+    if (Date.now() - lastUsed > LAST_USED_THROTTLE_MS) {
+      this.firestoreService
+        .updateApiKey(apiKey.id, { lastUsedAt: new Date() })
+        .catch((err) =>
+          this.logger.warn(
+            `Error actualizando lastUsedAt de ${apiKey.id}: ${err.message}`,
+          ),
+        );
+    }
+
+    return { apiKey, user };
+  }
+
+  /** Indica si la clave incluye todos los permisos pedidos */
+  static hasScopes(apiKey: ApiKey, scopes: ApiKeyScope[]): boolean {
+    return scopes.every((scope) => apiKey.scopes.includes(scope));
+  }
+}
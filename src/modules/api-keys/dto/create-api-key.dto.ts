@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { API_KEY_SCOPES } from '../../../common/interfaces/api-key.interface.js';
+import type { ApiKeyScope } from '../../../common/interfaces/api-key.interface.js';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Nombre para reconocer la clave (p. ej. "WMS producción")',
+    example: 'WMS producción',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  label: string;
+
+  @ApiProperty({
+    description:
+      'Permisos de la clave: convert (convertir y descargar), batch (conversiones batch), history (historial de conversiones)',
+    enum: [...API_KEY_SCOPES],
+    isArray: true,
+    example: ['convert'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+}
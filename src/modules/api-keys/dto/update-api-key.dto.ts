@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class UpdateApiKeyDto {
+  @ApiProperty({
+    description: 'Nuevo nombre de la clave',
+    example: 'WMS staging',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  label: string;
+}
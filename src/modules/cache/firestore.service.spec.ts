@@ -1117,3 +1117,130 @@ describe('FirestoreService — la baja y su evento van en la misma transacción'
     expect(set).not.toHaveBeenCalled();
   });
 });
+
+/**
+ * El 'completed' se escribía sin leer el documento: una cancelación que llegaba
+ * mientras se subía el resultado quedaba pisada y el job se cobraba igual.
+ */
+describe('FirestoreService — completeConversionJob', () => {
+  function buildService(docData?: Record<string, unknown>) {
+    const update = jest
+      .fn()
+      .mockImplementation((_ref: unknown, data: Record<string, unknown>) => {
+        Object.assign(docData!, data);
+      });
+
+    const service: any = Object.create(FirestoreService.prototype);
+    service.collectionName = 'zpl-conversions';
+    service.logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    service.firestore = {
+      collection: () => ({ doc: () => ({ id: 'job-1' }) }),
+      runTransaction: (fn: (t: unknown) => Promise<unknown>) =>
+        fn({
+          get: async () => ({ exists: !!docData, data: () => docData }),
+          update,
+        }),
+    };
+
+    return { service, update };
+  }
+
+  const result = { resultUrl: 'https://signed.test/x', filename: 'a.pdf' };
+
+  it('guarda el resultado de un job que sigue en curso', async () => {
+    const docData: Record<string, unknown> = {
+      status: 'processing',
+      leaseOwner: 'inst-1',
+    };
+    const { service } = buildService(docData);
+
+    await expect(
+      service.completeConversionJob('job-1', result),
+    ).resolves.toEqual({ outcome: 'completed' });
+    expect(docData).toMatchObject({
+      ...result,
+      status: 'completed',
+      progress: 100,
+      leaseOwner: null,
+    });
+  });
+
+  it('no completa un job cuyo lease ya es de otra instancia', async () => {
+    const { service, update } = buildService({
+      status: 'processing',
+      leaseOwner: 'inst-2',
+    });
+
+    await expect(
+      service.completeConversionJob('job-1', result, 'inst-1'),
+    ).resolves.toEqual({
+      outcome: 'blocked',
+      reason: 'lost',
+      status: 'processing',
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('no pisa una cancelación', async () => {
+    const { service, update } = buildService({ status: 'cancelled' });
+
+    await expect(
+      service.completeConversionJob('job-1', result),
+    ).resolves.toEqual({
+      outcome: 'blocked',
+      reason: 'finished',
+      status: 'cancelled',
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('FirestoreService — cancelConversionJob', () => {
+  function buildService(docData: Record<string, unknown>) {
+    const update = jest.fn();
+
+    const service: any = Object.create(FirestoreService.prototype);
+    service.collectionName = 'zpl-conversions';
+    service.logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    service.firestore = {
+      collection: () => ({ doc: () => ({ id: 'job-1' }) }),
+      runTransaction: (fn: (t: unknown) => Promise<unknown>) =>
+        fn({
+          get: async () => ({ exists: true, data: () => docData }),
+          update,
+        }),
+    };
+
+    return { service, update };
+  }
+
+  it('cancela el job de su dueño', async () => {
+    const { service, update } = buildService({
+      status: 'processing',
+      userId: 'uid-1',
+    });
+
+    await expect(
+      service.cancelConversionJob('job-1', 'uid-1'),
+    ).resolves.toMatchObject({ outcome: 'cancelled' });
+    expect(update).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ status: 'cancelled', leaseOwner: null }),
+    );
+  });
+
+  it.each([
+    ['de otro usuario', { userId: 'uid-2' }],
+    ['sin dueño', {}],
+  ])('no deja cancelar un job %s', async (_caso, owner) => {
+    const { service, update } = buildService({
+      status: 'processing',
+      ...owner,
+    });
+
+    await expect(
+      service.cancelConversionJob('job-1', 'uid-1'),
+    ).resolves.toEqual({ outcome: 'blocked', reason: 'forbidden' });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
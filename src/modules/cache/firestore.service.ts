@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Firestore, FieldValue } from '@google-cloud/firestore';
+import { Firestore, FieldPath, FieldValue } from '@google-cloud/firestore';
 import { ConfigService } from '@nestjs/config';
 import { randomUUID } from 'node:crypto';
 import {
@@ -21,7 +21,27 @@ import type {
   CfdiClaim,
 } from '../../common/interfaces/cfdi.interface.js';
 import type { ConversionHistory } from '../../common/interfaces/conversion-history.interface.js';
-import type { BatchJob } from '../zpl/interfaces/batch.interface.js';
+import type { ApiKey } from '../../common/interfaces/api-key.interface.js';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '../../common/interfaces/webhook-endpoint.interface.js';
+import type {
+  BatchJob,
+  BatchJobCancel,
+} from '../zpl/interfaces/batch.interface.js';
+import type { LabelDimensions } from '../zpl/interfaces/label-dimensions.interface.js';
+import type { ConversionOptions } from '../zpl/interfaces/conversion-options.interface.js';
+import type {
+  HistoryOutputFormat,
+  OutputFormatValue,
+} from '../zpl/enums/output-format.enum.js';
+import type {
+  ConversionJobCancel,
+  ConversionJobClaim,
+  ConversionJobCompletion,
+  PersistedPeriodInfo,
+} from '../zpl/interfaces/conversion-job-queue.interface.js';
 import type { HourlyLabelaryStats } from '../zpl/interfaces/labelary-analytics.interface.js';
 import { getDateStringInTimezone } from '../../utils/timezone.util.js';
 import type {
@@ -184,13 +204,19 @@ export interface PaginatedUsers {
 }
 
 export interface ConversionStatus {
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   progress: number;
   userId?: string;
   resultUrl?: string;
   filename?: string;
   zplContent?: string;
   labelSize?: string;
+  /** Medidas originales si el usuario pidió un tamaño personalizado */
+  labelDimensions?: LabelDimensions;
+  /** Tamaños usados cuando se pidió labelSize "auto" o un labelSizeMap */
+  detectedLabelSizes?: string[];
+  /** Resolución de impresora usada (puntos por mm) */
+  dpmm?: number;
   outputFormat?: string;
   zplHash?: string;
   createdAt: string;
@@ -200,6 +226,27 @@ export interface ConversionStatus {
   phase?: 'validating' | 'processing' | 'merging' | 'uploading';
   chunksCompleted?: number;
   chunksTotal?: number;
+  /** Código de error estable cuando status es 'error' (p. ej. JOB_ORPHANED) */
+  errorCode?: string;
+  // Cola persistente: lo necesario para que otra instancia retome el job
+  inputPath?: string;
+  originalFilename?: string;
+  options?: ConversionOptions;
+  userPlan?: string;
+  labelCount?: number;
+  periodInfo?: PersistedPeriodInfo;
+  attempts?: number;
+  leaseOwner?: string | null;
+  leaseExpiresAt?: string | null;
+}
+
+/** Un job completado, fallido o cancelado ya no se procesa */
+function isFinishedConversion(status: ConversionStatus): boolean {
+  return (
+    status.status === 'completed' ||
+    status.status === 'error' ||
+    status.status === 'cancelled'
+  );
 }
 
 // ============== ZPL Debug Files ==============
@@ -212,7 +259,7 @@ export interface ZplDebugFileInput {
   labelSize: string;
   labelCount: number;
   fileSize: number;
-  outputFormat: 'pdf' | 'png' | 'jpeg';
+  outputFormat: OutputFormatValue;
 }
 
 export interface ZplDebugFile extends ZplDebugFileInput {
@@ -347,6 +394,255 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Reclama un job de conversión para procesarlo en `owner`.
+   *
+   * La lectura y la escritura del lease van en la misma transacción: si dos
+   * instancias detectan a la vez el mismo job huérfano, solo una lo encuentra
+   * libre y la otra se topa con el lease recién escrito. El dueño actual puede
+   * reclamarlo aunque su lease siga vigente (el que se escribe al crear el job).
+   */
+  async claimConversionJob(
+    jobId: string,
+    owner: string,
+    leaseMs: number,
+    maxAttempts: number,
+  ): Promise<ConversionJobClaim> {
+    const ref = this.firestore.collection(this.collectionName).doc(jobId);
+
+    return this.firestore.runTransaction<ConversionJobClaim>(
+      async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { outcome: 'blocked', reason: 'missing' };
+        }
+
+        const current = snapshot.data() as ConversionStatus;
+        if (isFinishedConversion(current)) {
+          return { outcome: 'blocked', reason: 'finished' };
+        }
+
+        const now = Date.now();
+        const leaseExpiresMs = current.leaseExpiresAt
+          ? new Date(current.leaseExpiresAt).getTime()
+          : NaN;
+        if (
+          current.leaseOwner &&
+          current.leaseOwner !== owner &&
+          leaseExpiresMs > now
+        ) {
+          return { outcome: 'blocked', reason: 'leased' };
+        }
+
+        const attempts = (current.attempts ?? 0) + 1;
+        if (attempts > maxAttempts) {
+          return { outcome: 'blocked', reason: 'exhausted' };
+        }
+
+        const lease = {
+          leaseOwner: owner,
+          leaseExpiresAt: new Date(now + leaseMs).toISOString(),
+          attempts,
+          updatedAt: new Date(now).toISOString(),
+        };
+        transaction.update(ref, lease);
+        return { outcome: 'granted', job: { ...current, ...lease } };
+      },
+    );
+  }
+
+  /**
+   * Extiende el lease de un job que `owner` sigue procesando.
+   * @returns `false` si el job ya terminó o lo reclamó otra instancia; quien
+   *   llama debe dejar de renovarlo
+   */
+  async renewConversionJobLease(
+    jobId: string,
+    owner: string,
+    leaseMs: number,
+  ): Promise<boolean> {
+    const ref = this.firestore.collection(this.collectionName).doc(jobId);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const current = snapshot.data() as ConversionStatus | undefined;
+      if (
+        !current ||
+        current.leaseOwner !== owner ||
+        isFinishedConversion(current)
+      ) {
+        return false;
+      }
+
+      transaction.update(ref, {
+        leaseExpiresAt: new Date(Date.now() + leaseMs).toISOString(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Marca como fallido un job cuyo procesamiento se perdió. Va en transacción
+   * para que dos instancias que lo detecten a la vez no lo den por fallido dos
+   * veces (cada una registraría el fallo en el historial y en los webhooks).
+   * @returns `false` si el job ya terminó o otra instancia renovó su lease
+   */
+  async markConversionJobOrphaned(
+    jobId: string,
+    owner: string,
+    errorCode: string,
+    errorMessage: string,
+  ): Promise<boolean> {
+    const ref = this.firestore.collection(this.collectionName).doc(jobId);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const current = snapshot.data() as ConversionStatus | undefined;
+      if (!current || isFinishedConversion(current)) {
+        return false;
+      }
+      if (
+        current.leaseOwner !== owner &&
+        current.leaseExpiresAt &&
+        new Date(current.leaseExpiresAt).getTime() > Date.now()
+      ) {
+        return false;
+      }
+
+      transaction.update(ref, {
+        status: 'error',
+        errorCode,
+        errorMessage,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date().toISOString(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Marca como completado un job que aún no terminó. Va en transacción para
+   * que una cancelación llegada durante la subida del resultado no quede
+   * sobrescrita por el 'completed'. Sin documento (no llegó a guardarse)
+   * nadie pudo cancelarlo, así que se da por completado.
+   * @param owner Instancia que procesa el job con lease; si se indica, el
+   *   lease tiene que seguir siendo suyo
+   */
+  async completeConversionJob(
+    jobId: string,
+    result: Pick<ConversionStatus, 'resultUrl' | 'filename'>,
+    owner?: string,
+  ): Promise<ConversionJobCompletion> {
+    const ref = this.firestore.collection(this.collectionName).doc(jobId);
+
+    return this.firestore.runTransaction<ConversionJobCompletion>(
+      async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { outcome: 'completed' };
+        }
+
+        const current = snapshot.data() as ConversionStatus;
+        if (isFinishedConversion(current)) {
+          return {
+            outcome: 'blocked',
+            reason: 'finished',
+            status: current.status,
+          };
+        }
+        if (owner && current.leaseOwner !== owner) {
+          return { outcome: 'blocked', reason: 'lost', status: current.status };
+        }
+
+        transaction.update(ref, {
+          ...result,
+          status: 'completed',
+          progress: 100,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: new Date().toISOString(),
+        });
+        return { outcome: 'completed' };
+      },
+    );
+  }
+
+  /**
+   * Cancela un job de conversión de `userId` si aún no terminó. Va en
+   * transacción con el mismo criterio que el reclamo: un job cancelado cuenta
+   * como terminado, así que ningún worker lo vuelve a tomar, y el lease se
+   * libera para que la recuperación no lo dé por huérfano.
+   */
+  async cancelConversionJob(
+    jobId: string,
+    userId: string,
+  ): Promise<ConversionJobCancel> {
+    const ref = this.firestore.collection(this.collectionName).doc(jobId);
+
+    return this.firestore.runTransaction<ConversionJobCancel>(
+      async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { outcome: 'blocked', reason: 'missing' };
+        }
+
+        // Un job sin dueño tampoco es de `userId`: nadie puede cancelarlo
+        const current = snapshot.data() as ConversionStatus;
+        if (current.userId !== userId) {
+          return { outcome: 'blocked', reason: 'forbidden' };
+        }
+        if (isFinishedConversion(current)) {
+          return {
+            outcome: 'blocked',
+            reason: 'finished',
+            status: current.status,
+          };
+        }
+
+        transaction.update(ref, {
+          status: 'cancelled',
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: new Date().toISOString(),
+        });
+        return { outcome: 'cancelled', job: current };
+      },
+    );
+  }
+
+  /**
+   * Una página de jobs de conversión que aún no terminan (pending o
+   * processing), por id. El filtro por lease vencido se hace en memoria y
+   * así la consulta no necesita índice compuesto; el llamador pagina con
+   * `startAfterJobId` hasta recorrerlos todos.
+   */
+  async getUnfinishedConversionJobs(
+    limit: number,
+    startAfterJobId?: string,
+  ): Promise<Array<ConversionStatus & { jobId: string }>> {
+    try {
+      let query = this.firestore
+        .collection(this.collectionName)
+        .where('status', 'in', ['pending', 'processing'])
+        .orderBy(FieldPath.documentId());
+      if (startAfterJobId) {
+        query = query.startAfter(startAfterJobId);
+      }
+      const snapshot = await query.limit(limit).get();
+
+      return snapshot.docs.map((doc) => ({
+        ...(doc.data() as ConversionStatus),
+        jobId: doc.id,
+      }));
+    } catch (error) {
+      this.logger.error(
+        `Error al obtener conversiones sin terminar: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
   // ============== Users ==============
 
   async createUser(user: User): Promise<void> {
@@ -1326,6 +1622,355 @@ export class FirestoreService {
     }
   }
 
+  // ============== API Keys ==============
+
+  private readonly apiKeysCollection = 'api_keys';
+
+  private toApiKey(id: string, data: FirebaseFirestore.DocumentData): ApiKey {
+    return {
+      id,
+      userId: data.userId,
+      label: data.label,
+      prefix: data.prefix,
+      keyHash: data.keyHash,
+      scopes: data.scopes ?? [],
+      createdAt: data.createdAt?.toDate?.() || data.createdAt,
+      lastUsedAt: data.lastUsedAt?.toDate?.() || data.lastUsedAt || null,
+      revokedAt: data.revokedAt?.toDate?.() || data.revokedAt || null,
+    };
+  }
+
+  async createApiKey(apiKey: ApiKey): Promise<void> {
+    try {
+      const { id, ...data } = apiKey;
+      await this.firestore.collection(this.apiKeysCollection).doc(id).set(data);
+      this.logger.log(`API key creada: ${id} (usuario ${apiKey.userId})`);
+    } catch (error) {
+      this.logger.error(`Error al crear API key: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca una API key por el hash de la clave (where de un solo campo, sin
+   * índice compuesto). Incluye las revocadas: el llamador decide.
+   */
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.apiKeysCollection)
+        .where('keyHash', '==', keyHash)
+        .limit(1)
+        .get();
+
+      if (snapshot.empty) {
+        return null;
+      }
+      const [doc] = snapshot.docs;
+      return this.toApiKey(doc.id, doc.data());
+    } catch (error) {
+      this.logger.error(`Error al buscar API key: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKey | null> {
+    try {
+      const doc = await this.firestore
+        .collection(this.apiKeysCollection)
+        .doc(id)
+        .get();
+      return doc.exists ? this.toApiKey(doc.id, doc.data()) : null;
+    } catch (error) {
+      this.logger.error(`Error al obtener API key: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /** API keys del usuario, más recientes primero (orden en memoria) */
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.apiKeysCollection)
+        .where('userId', '==', userId)
+        .get();
+
+      return snapshot.docs
+        .map((doc) => this.toApiKey(doc.id, doc.data()))
+        .sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+        );
+    } catch (error) {
+      this.logger.error(`Error al listar API keys: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async updateApiKey(
+    id: string,
+    data: Partial<Pick<ApiKey, 'label' | 'lastUsedAt' | 'revokedAt'>>,
+  ): Promise<void> {
+    try {
+      await this.firestore
+        .collection(this.apiKeysCollection)
+        .doc(id)
+        .update(data);
+    } catch (error) {
+      this.logger.error(`Error al actualizar API key: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // ============== Webhook Endpoints ==============
+
+  private readonly webhookEndpointsCollection = 'webhook_endpoints';
+  private readonly webhookDeliveriesCollection = 'webhook_deliveries';
+
+  private toWebhookEndpoint(
+    id: string,
+    data: FirebaseFirestore.DocumentData,
+  ): WebhookEndpoint {
+    return {
+      id,
+      userId: data.userId,
+      url: data.url,
+      description: data.description ?? null,
+      secret: data.secret,
+      events: data.events ?? [],
+      active: data.active !== false,
+      createdAt: data.createdAt?.toDate?.() || data.createdAt,
+      updatedAt: data.updatedAt?.toDate?.() || data.updatedAt,
+    };
+  }
+
+  private toWebhookDelivery(
+    id: string,
+    data: FirebaseFirestore.DocumentData,
+  ): WebhookDelivery {
+    return {
+      id,
+      endpointId: data.endpointId,
+      userId: data.userId,
+      event: data.event,
+      payload: data.payload,
+      status: data.status,
+      attempts: data.attempts ?? 0,
+      responseStatus: data.responseStatus ?? null,
+      error: data.error ?? null,
+      createdAt: data.createdAt?.toDate?.() || data.createdAt,
+      lastAttemptAt:
+        data.lastAttemptAt?.toDate?.() || data.lastAttemptAt || null,
+      nextAttemptAt:
+        data.nextAttemptAt?.toDate?.() || data.nextAttemptAt || null,
+      deliveredAt: data.deliveredAt?.toDate?.() || data.deliveredAt || null,
+      redeliveryOf: data.redeliveryOf ?? null,
+      download: data.download ?? null,
+    };
+  }
+
+  async createWebhookEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    try {
+      const { id, ...data } = endpoint;
+      await this.firestore
+        .collection(this.webhookEndpointsCollection)
+        .doc(id)
+        .set(data);
+      this.logger.log(`Webhook creado: ${id} (usuario ${endpoint.userId})`);
+    } catch (error) {
+      this.logger.error(`Error al crear webhook: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async getWebhookEndpointById(id: string): Promise<WebhookEndpoint | null> {
+    try {
+      const doc = await this.firestore
+        .collection(this.webhookEndpointsCollection)
+        .doc(id)
+        .get();
+      return doc.exists ? this.toWebhookEndpoint(doc.id, doc.data()) : null;
+    } catch (error) {
+      this.logger.error(`Error al obtener webhook: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /** Webhooks del usuario, más recientes primero (orden en memoria) */
+  async getWebhookEndpointsByUser(userId: string): Promise<WebhookEndpoint[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.webhookEndpointsCollection)
+        .where('userId', '==', userId)
+        .get();
+
+      return snapshot.docs
+        .map((doc) => this.toWebhookEndpoint(doc.id, doc.data()))
+        .sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+        );
+    } catch (error) {
+      this.logger.error(`Error al listar webhooks: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async updateWebhookEndpoint(
+    id: string,
+    data: Partial<
+      Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'active'>
+    >,
+  ): Promise<void> {
+    try {
+      await this.firestore
+        .collection(this.webhookEndpointsCollection)
+        .doc(id)
+        .update({ ...data, updatedAt: new Date() });
+    } catch (error) {
+      this.logger.error(`Error al actualizar webhook: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /** Elimina el webhook junto con su historial de entregas */
+  async deleteWebhookEndpoint(id: string): Promise<void> {
+    try {
+      const deliveries = await this.firestore
+        .collection(this.webhookDeliveriesCollection)
+        .where('endpointId', '==', id)
+        .get();
+
+      // Firestore limita los batch a 500 operaciones
+      for (let i = 0; i < deliveries.docs.length; i += 500) {
+        const batch = this.firestore.batch();
+        deliveries.docs
+          .slice(i, i + 500)
+          .forEach((doc) => batch.delete(doc.ref));
+        await batch.commit();
+      }
+
+      await this.firestore
+        .collection(this.webhookEndpointsCollection)
+        .doc(id)
+        .delete();
+      this.logger.log(
+        `Webhook eliminado: ${id} (${deliveries.size} entregas borradas)`,
+      );
+    } catch (error) {
+      this.logger.error(`Error al eliminar webhook: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async createWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+    try {
+      const { id, ...data } = delivery;
+      await this.firestore
+        .collection(this.webhookDeliveriesCollection)
+        .doc(id)
+        .set(data);
+    } catch (error) {
+      this.logger.error(`Error al crear entrega de webhook: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    try {
+      const doc = await this.firestore
+        .collection(this.webhookDeliveriesCollection)
+        .doc(id)
+        .get();
+      return doc.exists ? this.toWebhookDelivery(doc.id, doc.data()) : null;
+    } catch (error) {
+      this.logger.error(
+        `Error al obtener entrega de webhook: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /** Entregas de un webhook, más recientes primero (orden en memoria) */
+  async getWebhookDeliveriesByEndpoint(
+    endpointId: string,
+    limit = 50,
+  ): Promise<WebhookDelivery[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.webhookDeliveriesCollection)
+        .where('endpointId', '==', endpointId)
+        .get();
+
+      return snapshot.docs
+        .map((doc) => this.toWebhookDelivery(doc.id, doc.data()))
+        .sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+        )
+        .slice(0, limit);
+    } catch (error) {
+      this.logger.error(
+        `Error al listar entregas de webhook: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Entregas pendientes cuyo reintento ya venció. Filtra por status en
+   * Firestore y por fecha en memoria para no requerir índice compuesto.
+   */
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.webhookDeliveriesCollection)
+        .where('status', '==', 'pending')
+        .get();
+
+      return snapshot.docs
+        .map((doc) => this.toWebhookDelivery(doc.id, doc.data()))
+        .filter(
+          (delivery) =>
+            !delivery.nextAttemptAt ||
+            new Date(delivery.nextAttemptAt).getTime() <= now.getTime(),
+        );
+    } catch (error) {
+      this.logger.error(
+        `Error al obtener entregas de webhook pendientes: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    data: Partial<
+      Pick<
+        WebhookDelivery,
+        | 'status'
+        | 'attempts'
+        | 'responseStatus'
+        | 'error'
+        | 'lastAttemptAt'
+        | 'nextAttemptAt'
+        | 'deliveredAt'
+      >
+    >,
+  ): Promise<void> {
+    try {
+      await this.firestore
+        .collection(this.webhookDeliveriesCollection)
+        .doc(id)
+        .update(data);
+    } catch (error) {
+      this.logger.error(
+        `Error al actualizar entrega de webhook: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
   // ============== Database Access ==============
 
   /**
@@ -1641,6 +2286,42 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Marca como cancelado un batch de `userId` que sigue procesándose. La
+   * instancia que lo procesa lo detecta antes del siguiente archivo y se
+   * encarga del resto (archivos pendientes, reembolso, temporales).
+   */
+  async cancelBatchJob(
+    batchId: string,
+    userId: string,
+  ): Promise<BatchJobCancel> {
+    const ref = this.firestore.collection(this.batchCollection).doc(batchId);
+
+    return this.firestore.runTransaction<BatchJobCancel>(
+      async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return { outcome: 'blocked', reason: 'missing' };
+        }
+
+        const current = snapshot.data() as BatchJob;
+        if (current.userId !== userId) {
+          return { outcome: 'blocked', reason: 'forbidden' };
+        }
+        if (current.status !== 'processing') {
+          return {
+            outcome: 'blocked',
+            reason: 'finished',
+            status: current.status,
+          };
+        }
+
+        transaction.update(ref, { status: 'cancelled', updatedAt: new Date() });
+        return { outcome: 'cancelled' };
+      },
+    );
+  }
+
   // ============== Admin: Error Logs ==============
 
   /**
@@ -3374,7 +4055,7 @@ export class FirestoreService {
       labelCount: number;
       labelSize: string;
       status: 'completed' | 'failed';
-      outputFormat: 'pdf' | 'png' | 'jpeg';
+      outputFormat: HistoryOutputFormat;
       fileUrl?: string;
     }>;
     pagination: {
@@ -3458,7 +4139,7 @@ export class FirestoreService {
           labelCount: data.labelCount || 0,
           labelSize: data.labelSize || 'unknown',
           status: data.status as 'completed' | 'failed',
-          outputFormat: data.outputFormat as 'pdf' | 'png' | 'jpeg',
+          outputFormat: data.outputFormat as HistoryOutputFormat,
           fileUrl: data.fileUrl,
         };
       });
@@ -3525,6 +4206,16 @@ export class FirestoreService {
             labelCount: existing.labelCount + stats.labelCount,
             uniqueLabelCount:
               (existing.uniqueLabelCount || 0) + (stats.uniqueLabelCount || 0),
+            documentCacheHits:
+              (existing.documentCacheHits || 0) +
+              (stats.documentCacheHits || 0),
+            documentCacheMisses:
+              (existing.documentCacheMisses || 0) +
+              (stats.documentCacheMisses || 0),
+            blockCacheHits:
+              (existing.blockCacheHits || 0) + (stats.blockCacheHits || 0),
+            blockCacheMisses:
+              (existing.blockCacheMisses || 0) + (stats.blockCacheMisses || 0),
             updatedAt: new Date(),
           });
         } else {
@@ -3657,6 +4348,10 @@ export class FirestoreService {
     avgResponseTimeMs: number;
     labelCount: number;
     uniqueLabelCount: number;
+    documentCacheHits: number;
+    documentCacheMisses: number;
+    blockCacheHits: number;
+    blockCacheMisses: number;
     peakHour: string;
     peakHourRequests: number;
   }> {
@@ -3678,6 +4373,10 @@ export class FirestoreService {
       let totalResponseTimeMs = 0;
       let labelCount = 0;
       let uniqueLabelCount = 0;
+      let documentCacheHits = 0;
+      let documentCacheMisses = 0;
+      let blockCacheHits = 0;
+      let blockCacheMisses = 0;
       let peakHour = '';
       let peakHourRequests = 0;
 
@@ -3690,6 +4389,10 @@ export class FirestoreService {
         totalResponseTimeMs += data.totalResponseTimeMs;
         labelCount += data.labelCount;
         uniqueLabelCount += data.uniqueLabelCount || 0;
+        documentCacheHits += data.documentCacheHits || 0;
+        documentCacheMisses += data.documentCacheMisses || 0;
+        blockCacheHits += data.blockCacheHits || 0;
+        blockCacheMisses += data.blockCacheMisses || 0;
 
         if (data.totalCalls > peakHourRequests) {
           peakHourRequests = data.totalCalls;
@@ -3708,6 +4411,10 @@ export class FirestoreService {
           totalCalls > 0 ? Math.round(totalResponseTimeMs / totalCalls) : 0,
         labelCount,
         uniqueLabelCount,
+        documentCacheHits,
+        documentCacheMisses,
+        blockCacheHits,
+        blockCacheMisses,
         peakHour: peakHour || '00:00',
         peakHourRequests,
       };
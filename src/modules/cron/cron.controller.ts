@@ -17,6 +17,8 @@ import {
   MigrateSubscriptionPeriodsResult,
   ResetUSCountriesResult,
 } from './cron.service.js';
+import type { ProcessWebhookRetriesResult } from '../webhook-endpoints/webhook-dispatcher.service.js';
+import type { RecoverConversionJobsResult } from '../zpl/interfaces/conversion-job-queue.interface.js';
 import { CronAuthGuard } from '../../common/guards/cron-auth.guard.js';
 
 @ApiTags('cron')
@@ -245,6 +247,71 @@ export class CronController {
     return this.cronService.migrateSubscriptionPeriods();
   }
 
+  @Post('webhook-retries')
+  @UseGuards(CronAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Retry overdue webhook deliveries (Cloud Scheduler)',
+    description:
+      'Recovers pending webhook deliveries whose in-memory retry was lost, e.g. after an instance restart.',
+  })
+  @ApiHeader({
+    name: 'X-Cron-Secret',
+    description: 'Secret key for cron authentication',
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook retries processed',
+    schema: {
+      properties: {
+        processed: { type: 'number', example: 3 },
+        succeeded: { type: 'number', example: 2 },
+        executedAt: { type: 'string', format: 'date-time' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid cron secret',
+  })
+  async retryWebhookDeliveries(): Promise<ProcessWebhookRetriesResult> {
+    return this.cronService.retryWebhookDeliveries();
+  }
+
+  @Post('recover-conversion-jobs')
+  @UseGuards(CronAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Recover orphaned conversion jobs (Cloud Scheduler)',
+    description:
+      'Re-runs async conversions whose instance stopped renewing the job lease, or marks them failed with JOB_ORPHANED once retries are exhausted. Run every 5 minutes.',
+  })
+  @ApiHeader({
+    name: 'X-Cron-Secret',
+    description: 'Secret key for cron authentication',
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Orphaned conversion jobs processed',
+    schema: {
+      properties: {
+        scanned: { type: 'number', example: 12 },
+        redriven: { type: 'number', example: 1 },
+        failed: { type: 'number', example: 0 },
+        executedAt: { type: 'string', format: 'date-time' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid cron secret',
+  })
+  async recoverConversionJobs(): Promise<RecoverConversionJobsResult> {
+    return this.cronService.recoverConversionJobs();
+  }
+
   @Post('reset-us-countries')
   @UseGuards(CronAuthGuard)
   @HttpCode(HttpStatus.OK)
@@ -5,6 +5,8 @@ import { CacheModule } from '../cache/cache.module.js';
 import { PeriodModule } from '../../common/services/period.module.js';
 import { AdminModule } from '../admin/admin.module.js';
 import { AnalyticsModule } from '../analytics/analytics.module.js';
+import { WebhookEndpointsModule } from '../webhook-endpoints/webhook-endpoints.module.js';
+import { ZplModule } from '../zpl/zpl.module.js';
 
 @Module({
   imports: [
@@ -12,6 +14,8 @@ import { AnalyticsModule } from '../analytics/analytics.module.js';
     PeriodModule,
     forwardRef(() => AdminModule),
     AnalyticsModule,
+    WebhookEndpointsModule,
+    forwardRef(() => ZplModule),
   ],
   controllers: [CronController],
   providers: [CronService],
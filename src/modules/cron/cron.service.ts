@@ -8,6 +8,10 @@ import { ExpenseService } from '../admin/services/expense.service.js';
 import { GoalsService } from '../admin/services/goals.service.js';
 import { GA4Service } from '../analytics/ga4.service.js';
 import { extractBillingPeriod } from '../../common/utils/stripe-billing-period.util.js';
+import { WebhookDispatcherService } from '../webhook-endpoints/webhook-dispatcher.service.js';
+import type { ProcessWebhookRetriesResult } from '../webhook-endpoints/webhook-dispatcher.service.js';
+import { ZplService } from '../zpl/zpl.service.js';
+import type { RecoverConversionJobsResult } from '../zpl/interfaces/conversion-job-queue.interface.js';
 
 export interface ResetUsageResult {
   resetCount: number;
@@ -71,6 +75,9 @@ export class CronService {
     @Inject(forwardRef(() => GoalsService))
     private readonly goalsService: GoalsService,
     private readonly ga4Service: GA4Service,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
+    @Inject(forwardRef(() => ZplService))
+    private readonly zplService: ZplService,
   ) {
     const stripeKey = this.configService.get<string>('STRIPE_SECRET_KEY');
     if (stripeKey) {
@@ -164,6 +171,44 @@ export class CronService {
     }
   }
 
+  /**
+   * Reintenta las entregas de webhooks vencidas que el proceso no llegó a
+   * reintentar (p. ej. por un reinicio de la instancia)
+   * Ejecutar cada 10 minutos
+   */
+  async retryWebhookDeliveries(): Promise<ProcessWebhookRetriesResult> {
+    this.logger.log('Starting webhook retries cron job...');
+
+    try {
+      return await this.webhookDispatcherService.processDueDeliveries();
+    } catch (error) {
+      this.logger.error(`Error in webhook retries cron job: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Reanuda o marca como fallidas las conversiones que quedaron huérfanas
+   * (lease vencido) tras reciclarse la instancia que las procesaba.
+   * Ejecutar cada 5 minutos
+   */
+  async recoverConversionJobs(): Promise<RecoverConversionJobsResult> {
+    this.logger.log('Starting conversion job recovery cron job...');
+
+    try {
+      const result = await this.zplService.recoverConversionJobs();
+      this.logger.log(
+        `Conversion job recovery completed: ${result.redriven} redriven, ${result.failed} failed`,
+      );
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error in conversion job recovery cron job: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Actualiza el tipo de cambio USD/MXN desde Banxico
    * Ejecutar diariamente a las 6:00 AM (GMT-6)
@@ -1,9 +1,19 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
 import { CloudTasksClient, protos } from '@google-cloud/tasks';
 import { ConfigService } from '@nestjs/config';
+import type {
+  ConversionTask,
+  ConversionTaskQueue,
+} from './interfaces/conversion-task.interface.js';
+
+// Código gRPC ALREADY_EXISTS: ya hay (o hubo hace poco) una tarea con ese nombre
+const GRPC_ALREADY_EXISTS = 6;
+
+// Máximo que permite Cloud Tasks para tareas HTTP; los jobs grandes tardan
+const DISPATCH_DEADLINE_SECONDS = 30 * 60;
 
 @Injectable()
-export class CloudTasksService {
+export class CloudTasksService implements ConversionTaskQueue {
   private tasksClient: CloudTasksClient;
   private readonly logger = new Logger(CloudTasksService.name);
   private readonly projectId: string;
@@ -25,42 +35,52 @@ export class CloudTasksService {
     this.tasksClient = new CloudTasksClient(this.googleAuthOptions);
   }
 
-  async enqueueZplConversionTask(
-    zplContent: string,
-    labelSize: string,
-    jobId: string,
-    language: string,
-  ): Promise<string> {
+  /**
+   * Crea una tarea que Cloud Tasks entregará a /zpl/process con un token OIDC
+   * de la cuenta de servicio. El nombre de la tarea es `taskId`, así que un
+   * segundo enqueue del mismo id se ignora.
+   */
+  async enqueue(task: ConversionTask, taskId: string): Promise<void> {
     const parent = this.tasksClient.queuePath(
       this.projectId,
       this.location,
       this.queueName,
     );
+    const serviceUrl = this.configService.get<string>('SERVICE_URL');
 
-    const task: protos.google.cloud.tasks.v2.ITask = {
+    const cloudTask: protos.google.cloud.tasks.v2.ITask = {
       httpRequest: {
         httpMethod: protos.google.cloud.tasks.v2.HttpMethod.POST,
-        url: `${this.configService.get<string>('SERVICE_URL')}/api/zpl/process`,
+        url: `${serviceUrl}/api/zpl/process`,
         oidcToken: {
           serviceAccountEmail: this.serviceAccountEmail,
+          audience: serviceUrl,
         },
-        body: Buffer.from(
-          JSON.stringify({
-            zplContent,
-            labelSize,
-            jobId,
-            language,
-          }),
-        ).toString('base64'),
+        body: Buffer.from(JSON.stringify(task)).toString('base64'),
         headers: {
           'Content-Type': 'application/json',
         },
       },
-      name: `${parent}/tasks/${jobId}`,
+      dispatchDeadline: { seconds: DISPATCH_DEADLINE_SECONDS },
+      name: `${parent}/tasks/${taskId}`,
     };
 
-    const [response] = await this.tasksClient.createTask({ parent, task });
-    this.logger.log(`Tarea creada: ${response.name}`);
-    return response.name;
+    try {
+      const [response] = await this.tasksClient.createTask({
+        parent,
+        task: cloudTask,
+      });
+      this.logger.log(`Tarea creada: ${response.name}`);
+    } catch (error) {
+      if (error?.code === GRPC_ALREADY_EXISTS) {
+        this.logger.log(`Tarea ${taskId} ya encolada`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  bindWorker(): void {
+    // Las tareas llegan por HTTP al worker; no hay nada que registrar
   }
 }
@@ -0,0 +1,39 @@
+/**
+ * Cola de tareas de conversión. En producción las tareas van a Cloud Tasks,
+ * que las entrega al worker HTTP (/zpl/process); en desarrollo y tests se
+ * ejecutan en el mismo proceso con el adaptador local.
+ */
+
+import type { PlanType } from '../../../common/interfaces/user.interface.js';
+
+/** Token de inyección del adaptador de cola activo */
+export const CONVERSION_TASK_QUEUE = 'CONVERSION_TASK_QUEUE';
+
+export const CONVERSION_TASK_DRIVERS = ['cloud-tasks', 'local'] as const;
+export type ConversionTaskDriver = (typeof CONVERSION_TASK_DRIVERS)[number];
+
+/**
+ * Lo que viaja en la tarea. El ZPL no va aquí (Cloud Tasks limita el tamaño
+ * de la tarea): el worker lo lee de Storage a partir del jobId.
+ */
+export interface ConversionTask {
+  jobId: string;
+  userId: string;
+  userPlan: PlanType;
+  outputFormat: string;
+}
+
+export type ConversionTaskHandler = (task: ConversionTask) => Promise<unknown>;
+
+export interface ConversionTaskQueue {
+  /**
+   * Encola una tarea. `taskId` deduplica: encolar dos veces el mismo id no
+   * crea una segunda tarea.
+   */
+  enqueue(task: ConversionTask, taskId: string): Promise<void>;
+  /**
+   * Registra quién procesa las tareas en este proceso. Cloud Tasks no lo
+   * necesita porque entrega las tareas por HTTP.
+   */
+  bindWorker(handler: ConversionTaskHandler): void;
+}
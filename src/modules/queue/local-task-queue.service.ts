@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type {
+  ConversionTask,
+  ConversionTaskHandler,
+  ConversionTaskQueue,
+} from './interfaces/conversion-task.interface.js';
+
+/**
+ * Adaptador en proceso para desarrollo y tests: ejecuta cada tarea en el
+ * siguiente tick con el worker registrado, sin pasar por HTTP ni OIDC.
+ */
+@Injectable()
+export class LocalTaskQueueService implements ConversionTaskQueue {
+  private readonly logger = new Logger(LocalTaskQueueService.name);
+  private handler: ConversionTaskHandler | null = null;
+  // Como el nombre de tarea en Cloud Tasks, un id no se repite mientras la
+  // tarea está pendiente o en curso; al terminar se libera
+  private readonly enqueuedIds = new Set<string>();
+
+  bindWorker(handler: ConversionTaskHandler): void {
+    this.handler = handler;
+  }
+
+  async enqueue(task: ConversionTask, taskId: string): Promise<void> {
+    if (!this.handler) {
+      throw new Error('No hay worker registrado para la cola local');
+    }
+    if (this.enqueuedIds.has(taskId)) {
+      this.logger.log(`Tarea ${taskId} ya encolada`);
+      return;
+    }
+    this.enqueuedIds.add(taskId);
+
+    const handler = this.handler;
+    setTimeout(() => {
+      handler(task)
+        .catch((err) =>
+          this.logger.error(`Error en la tarea ${taskId}: ${err.message}`),
+        )
+        .finally(() => this.enqueuedIds.delete(taskId));
+    }, 0);
+  }
+}
@@ -1,9 +1,35 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { CloudTasksService } from './cloud-tasks.service.js';
+import { LocalTaskQueueService } from './local-task-queue.service.js';
+import { CONVERSION_TASK_QUEUE } from './interfaces/conversion-task.interface.js';
+import type { ConversionTaskDriver } from './interfaces/conversion-task.interface.js';
 import { GoogleAuthProvider } from '../../config/google-auth.provider.js';
 
 @Module({
-  providers: [CloudTasksService, GoogleAuthProvider],
-  exports: [CloudTasksService],
+  providers: [
+    CloudTasksService,
+    LocalTaskQueueService,
+    GoogleAuthProvider,
+    {
+      // CONVERSION_TASKS_DRIVER elige el adaptador; sin él, Cloud Tasks solo
+      // en producción para no depender de GCP al desarrollar
+      provide: CONVERSION_TASK_QUEUE,
+      useFactory: (
+        configService: ConfigService,
+        cloudTasks: CloudTasksService,
+        localQueue: LocalTaskQueueService,
+      ) => {
+        const driver =
+          configService.get<ConversionTaskDriver>('CONVERSION_TASKS_DRIVER') ??
+          (configService.get<string>('NODE_ENV') === 'production'
+            ? 'cloud-tasks'
+            : 'local');
+        return driver === 'cloud-tasks' ? cloudTasks : localQueue;
+      },
+      inject: [ConfigService, CloudTasksService, LocalTaskQueueService],
+    },
+  ],
+  exports: [CloudTasksService, CONVERSION_TASK_QUEUE],
 })
 export class QueueModule {}
@@ -0,0 +1,61 @@
+import { StorageService } from './storage.service';
+
+/**
+ * La vigencia del caché de renderizado solo se comprobaba al leer: una entrada
+ * vencida dejaba de servirse pero seguía ocupando el bucket para siempre.
+ */
+describe('StorageService — getCachedPdf', () => {
+  const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+  function buildService(ageMs: number) {
+    const file = {
+      getMetadata: jest.fn().mockResolvedValue([
+        {
+          timeCreated: new Date(Date.now() - ageMs).toISOString(),
+          generation: '1700000000000001',
+        },
+      ]),
+      download: jest.fn().mockResolvedValue([Buffer.from('%PDF')]),
+      delete: jest.fn().mockResolvedValue([{}]),
+    };
+    const bucketFile = jest.fn().mockReturnValue(file);
+
+    const service: any = Object.create(StorageService.prototype);
+    service.bucketName = 'test-bucket';
+    service.logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    service.storage = { bucket: () => ({ file: bucketFile }) };
+
+    return { service: service as StorageService, file, bucketFile };
+  }
+
+  it('devuelve una entrada vigente sin borrarla', async () => {
+    const { service, file, bucketFile } = buildService(60 * 1000);
+
+    await expect(service.getCachedPdf('abc', TTL_MS)).resolves.toEqual(
+      Buffer.from('%PDF'),
+    );
+    expect(bucketFile).toHaveBeenCalledWith('zpl-pdfs/abc.pdf');
+    expect(file.delete).not.toHaveBeenCalled();
+  });
+
+  it('trata una entrada vencida como fallo y la borra', async () => {
+    const { service, file } = buildService(TTL_MS + 60 * 1000);
+
+    await expect(service.getCachedPdf('abc', TTL_MS)).resolves.toBeNull();
+    expect(file.download).not.toHaveBeenCalled();
+    // Solo la generación leída: una versión recién guardada no se toca
+    expect(file.delete).toHaveBeenCalledWith({
+      ignoreNotFound: true,
+      ifGenerationMatch: '1700000000000001',
+    });
+  });
+
+  it('sigue contando como fallo si no se puede borrar', async () => {
+    const { service, file } = buildService(TTL_MS + 60 * 1000);
+    file.delete.mockRejectedValue(new Error('forbidden'));
+
+    await expect(service.getCachedPdf('abc', TTL_MS)).resolves.toBeNull();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect((service as any).logger.warn).toHaveBeenCalled();
+  });
+});
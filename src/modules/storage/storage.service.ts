@@ -18,10 +18,21 @@ export class StorageService {
     this.storage = new Storage(this.googleAuthOptions);
   }
 
-  generateZplHash(zplContent: string, labelSize: string): string {
+  /**
+   * Clave del caché de renderizado: el contenido y todo lo que cambia el
+   * resultado (tamaño, resolución, motor...) van en el hash
+   * @param zplContent ZPL a renderizar
+   * @param labelSize Tamaño de etiqueta
+   * @param variant Resto de parámetros que afectan al PDF
+   */
+  generateZplHash(
+    zplContent: string,
+    labelSize: string,
+    ...variant: string[]
+  ): string {
     return crypto
-      .createHash('md5')
-      .update(`${zplContent}_${labelSize}`)
+      .createHash('sha256')
+      .update([zplContent, labelSize, ...variant].join('\u0000'))
       .digest('hex');
   }
 
@@ -39,25 +50,61 @@ export class StorageService {
     }
   }
 
-  async savePdf(pdfBuffer: Buffer, zplHash: string): Promise<string> {
+  /**
+   * Lee un PDF del caché de renderizado
+   * @param zplHash Clave generada con generateZplHash
+   * @param maxAgeMs Antigüedad máxima; una entrada más vieja cuenta como fallo
+   *   y se borra
+   * @returns El PDF, o null si no existe o venció
+   */
+  async getCachedPdf(
+    zplHash: string,
+    maxAgeMs: number,
+  ): Promise<Buffer | null> {
     const file = this.storage
       .bucket(this.bucketName)
       .file(`zpl-pdfs/${zplHash}.pdf`);
 
-    await file.save(pdfBuffer, {
-      metadata: {
-        contentType: 'application/pdf',
-        cacheControl: 'public, max-age=86400',
-      },
-    });
-
-    // Generar URL firmada válida por 7 días
-    const [url] = await file.getSignedUrl({
-      action: 'read',
-      expires: Date.now() + 7 * 24 * 60 * 60 * 1000,
-    });
+    try {
+      const [metadata] = await file.getMetadata();
+      const createdAt = new Date(metadata.timeCreated as string).getTime();
+      if (!createdAt || Date.now() - createdAt > maxAgeMs) {
+        // Solo esa versión: otra conversión pudo reemplazarla mientras tanto
+        file
+          .delete({
+            ignoreNotFound: true,
+            ifGenerationMatch: metadata.generation,
+          })
+          .catch((err) =>
+            this.logger.warn(
+              `Error borrando PDF vencido del caché: ${err.message}`,
+            ),
+          );
+        return null;
+      }
+
+      const [content] = await file.download();
+      return content;
+    } catch (error) {
+      if (error?.code !== 404) {
+        this.logger.error(`Error al leer PDF en caché: ${error.message}`);
+      }
+      return null;
+    }
+  }
 
-    return url;
+  /**
+   * Guarda un PDF en el caché de renderizado. Sin URL firmada: el contenido
+   * solo se sirve a través de una conversión.
+   */
+  async savePdf(pdfBuffer: Buffer, zplHash: string): Promise<void> {
+    await this.storage
+      .bucket(this.bucketName)
+      .file(`zpl-pdfs/${zplHash}.pdf`)
+      .save(pdfBuffer, {
+        resumable: false,
+        metadata: { contentType: 'application/pdf' },
+      });
   }
 
   async getSignedUrl(zplHash: string): Promise<string> {
@@ -15,9 +15,11 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiSecurity,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service.js';
-import { FirebaseAuthGuard } from '../../common/guards/firebase-auth.guard.js';
+import { ApiKeyAuthGuard } from '../../common/guards/api-key-auth.guard.js';
+import { ApiKeyScopes } from '../../common/decorators/api-key-scopes.decorator.js';
 import { CurrentUser } from '../../common/decorators/current-user.decorator.js';
 import type { FirebaseUser } from '../../common/decorators/current-user.decorator.js';
 import { UserProfileDto } from './dto/user-profile.dto.js';
@@ -27,7 +29,7 @@ import { VerificationStatusDto } from './dto/verification-status.dto.js';
 @ApiTags('users')
 @ApiBearerAuth()
 @Controller('users')
-@UseGuards(FirebaseAuthGuard)
+@UseGuards(ApiKeyAuthGuard)
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
@@ -139,6 +141,8 @@ export class UsersController {
   }
 
   @Get('history')
+  @ApiKeyScopes('history')
+  @ApiSecurity('api-key')
   @ApiOperation({ summary: 'Get conversion history (Pro/Enterprise only)' })
   @ApiQuery({
     name: 'page',
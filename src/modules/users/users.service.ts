@@ -21,6 +21,7 @@ import type {
   User,
   PlanType,
   PlanLimits,
+  BooleanPlanFeature,
 } from '../../common/interfaces/user.interface.js';
 import type { ConversionHistory } from '../../common/interfaces/conversion-history.interface.js';
 import { UserProfileDto } from './dto/user-profile.dto.js';
@@ -28,6 +29,8 @@ import { UserLimitsDto } from './dto/user-limits.dto.js';
 import { VerificationStatusDto } from './dto/verification-status.dto.js';
 import type { FirebaseUser } from '../../common/decorators/current-user.decorator.js';
 import { BATCH_LIMITS } from '../zpl/interfaces/batch.interface.js';
+import type { LabelDimensions } from '../zpl/interfaces/label-dimensions.interface.js';
+import type { HistoryOutputFormat } from '../zpl/enums/output-format.enum.js';
 import { isBlockedEmailDomain } from '../../common/constants/blocked-email-domains.js';
 import { GeoService } from '../admin/services/geo.service.js';
 import { EmailService } from '../email/email.service.js';
@@ -499,10 +502,11 @@ export class UsersService {
     labelCount: number,
     labelSize: string,
     status: 'completed' | 'failed',
-    outputFormat: 'pdf' | 'png' | 'jpeg' = 'pdf',
+    outputFormat: HistoryOutputFormat = 'pdf',
     fileUrl?: string,
     periodInfo?: PeriodInfo,
     userPlan?: PlanType,
+    labelDimensions?: LabelDimensions,
   ): Promise<void> {
     // Save to history (use null instead of undefined for Firestore)
     await this.firestoreService.saveConversionHistory({
@@ -510,6 +514,7 @@ export class UsersService {
       jobId,
       labelCount,
       labelSize,
+      ...(labelDimensions && { labelDimensions }),
       status,
       outputFormat,
       fileUrl: fileUrl || null,
@@ -567,6 +572,38 @@ export class UsersService {
     }
   }
 
+  /**
+   * Devuelve al periodo el uso que cobró una conversión completada cuyo
+   * resultado nunca se entregó (p. ej. un archivo de un batch cancelado).
+   * El historial conserva la conversión; solo se descuenta el uso.
+   */
+  async refundConversion(
+    userId: string,
+    jobId: string,
+    labelCount: number,
+    periodInfo?: PeriodInfo,
+  ): Promise<void> {
+    let effectivePeriod = periodInfo;
+    if (!effectivePeriod) {
+      const user = await this.firestoreService.getUserById(userId);
+      if (!user) {
+        return;
+      }
+      effectivePeriod =
+        this.periodCalculatorService.calculateCurrentPeriod(user);
+    }
+
+    await this.firestoreService.incrementUsageWithPeriod(
+      userId,
+      effectivePeriod,
+      -1,
+      -labelCount,
+    );
+    this.logger.log(
+      `Uso reembolsado para ${userId}: job ${jobId} (${labelCount} etiquetas)`,
+    );
+  }
+
   /**
    * Check if user has reached limit thresholds and trigger appropriate emails
    * Called after each successful conversion
@@ -694,6 +731,17 @@ export class UsersService {
     return user.plan;
   }
 
+  /**
+   * Indica si el plan efectivo incluye la feature. Los admins sin simulación
+   * tienen todas.
+   */
+  hasPlanFeature(user: User, feature: BooleanPlanFeature): boolean {
+    if (user.role === 'admin' && !this.isSimulationActive(user)) {
+      return true;
+    }
+    return PLAN_FEATURES[this.getEffectivePlan(user)]?.[feature] ?? false;
+  }
+
   /**
    * Detect email language from country code
    */
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../../../common/interfaces/webhook-endpoint.interface.js';
+import type { WebhookEventType } from '../../../common/interfaces/webhook-endpoint.interface.js';
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({
+    description: 'URL HTTPS pública que recibirá los eventos por POST',
+    example: 'https://erp.ejemplo.com/hooks/zplpdf',
+    maxLength: 2048,
+  })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    description: 'Nota para reconocer el webhook',
+    example: 'ERP producción',
+    maxLength: 200,
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Eventos a los que se suscribe',
+    enum: [...WEBHOOK_EVENTS],
+    isArray: true,
+    example: ['conversion.completed', 'conversion.failed'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: WebhookEventType[];
+}
@@ -0,0 +1,15 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateWebhookEndpointDto } from './create-webhook-endpoint.dto.js';
+
+export class UpdateWebhookEndpointDto extends PartialType(
+  CreateWebhookEndpointDto,
+) {
+  @ApiProperty({
+    description: 'false pausa los envíos sin borrar el webhook',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,324 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'node:crypto';
+import { Agent, fetch } from 'undici';
+import { FirestoreService } from '../cache/firestore.service.js';
+import { StorageService } from '../storage/storage.service.js';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  getWebhookUrlProblem,
+  publicAddressLookup,
+  signWebhookPayload,
+} from './webhook.util.js';
+import type {
+  WebhookDelivery,
+  WebhookDownloadRef,
+  WebhookEndpoint,
+  WebhookEventPayload,
+  WebhookEventType,
+} from '../../common/interfaces/webhook-endpoint.interface.js';
+
+/** Intentos por entrega, incluido el primero */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+/** Primer reintento a 1 minuto; cada uno siguiente espera 4 veces más */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_BACKOFF_FACTOR = 4;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Los reintentos se programan en memoria. El cron solo recoge los que llevan
+ * este margen vencidos, es decir, los que perdió un reinicio de la instancia.
+ */
+const RECOVERY_GRACE_MS = 5 * 60 * 1000;
+
+export interface ProcessWebhookRetriesResult {
+  processed: number;
+  succeeded: number;
+  executedAt: Date;
+}
+
+/** Espera antes del siguiente intento tras `attempts` intentos fallidos */
+export function webhookRetryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * RETRY_BACKOFF_FACTOR ** (attempts - 1);
+}
+
+/**
+ * Envía los eventos a los webhooks del usuario, firma cada envío y reintenta
+ * con backoff exponencial. Cada intento queda en el log de entregas.
+ */
+@Injectable()
+export class WebhookDispatcherService {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+
+  /** Conexiones que solo aceptan IPs públicas, resueltas en cada envío */
+  private readonly agent = new Agent({
+    connect: { lookup: publicAddressLookup },
+  });
+
+  constructor(
+    private readonly firestoreService: FirestoreService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Crea una entrega por cada webhook activo suscrito al evento y hace el
+   * primer intento. Pensado para llamarse sin await desde la conversión.
+   * Con `download`, cada intento incluye una URL firmada recién generada.
+   */
+  async emit(
+    userId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+    download: WebhookDownloadRef | null = null,
+  ): Promise<void> {
+    const endpoints = (
+      await this.firestoreService.getWebhookEndpointsByUser(userId)
+    ).filter((endpoint) => endpoint.active && endpoint.events.includes(type));
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload: WebhookEventPayload = {
+      id: `evt_${randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    await Promise.all(
+      endpoints.map(async (endpoint) => {
+        const delivery = this.newDelivery(endpoint, payload, null, download);
+        await this.firestoreService.createWebhookDelivery(delivery);
+        await this.attempt(delivery, endpoint);
+      }),
+    );
+  }
+
+  /**
+   * Reenvía el mismo evento (mismo payload.id) como una entrega nueva, con
+   * sus propios reintentos, y devuelve el resultado del primer intento
+   */
+  async redeliver(
+    original: WebhookDelivery,
+    endpoint: WebhookEndpoint,
+  ): Promise<WebhookDelivery> {
+    const delivery = this.newDelivery(
+      endpoint,
+      original.payload,
+      original.id,
+      original.download,
+    );
+    await this.firestoreService.createWebhookDelivery(delivery);
+    return this.attempt(delivery, endpoint);
+  }
+
+  /**
+   * Recupera los reintentos vencidos que no se ejecutaron en memoria
+   * (Cloud Scheduler)
+   */
+  async processDueDeliveries(): Promise<ProcessWebhookRetriesResult> {
+    const due = await this.firestoreService.getDueWebhookDeliveries(
+      new Date(Date.now() - RECOVERY_GRACE_MS),
+    );
+
+    let succeeded = 0;
+    for (const delivery of due) {
+      const result = await this.retry(delivery);
+      if (result?.status === 'succeeded') {
+        succeeded++;
+      }
+    }
+
+    this.logger.log(
+      `Reintentos de webhooks: ${due.length} procesados, ${succeeded} entregados`,
+    );
+    return { processed: due.length, succeeded, executedAt: new Date() };
+  }
+
+  private newDelivery(
+    endpoint: WebhookEndpoint,
+    payload: WebhookEventPayload,
+    redeliveryOf: string | null = null,
+    download: WebhookDownloadRef | null = null,
+  ): WebhookDelivery {
+    return {
+      id: randomUUID(),
+      endpointId: endpoint.id,
+      userId: endpoint.userId,
+      event: payload.type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+      lastAttemptAt: null,
+      nextAttemptAt: null,
+      deliveredAt: null,
+      redeliveryOf,
+      download,
+    };
+  }
+
+  /**
+   * Payload del intento. La URL firmada caduca en minutos y los reintentos
+   * llegan horas después, así que se firma una nueva cada vez; si no se puede,
+   * el receptor aún tiene `downloadPath`.
+   */
+  private async payloadForAttempt(
+    delivery: WebhookDelivery,
+  ): Promise<WebhookEventPayload> {
+    if (!delivery.download) {
+      return delivery.payload;
+    }
+
+    try {
+      const downloadUrl = await this.storageService.generateSignedUrlForPath(
+        delivery.download.path,
+        delivery.download.filename,
+      );
+      return {
+        ...delivery.payload,
+        data: { ...delivery.payload.data, downloadUrl },
+      };
+    } catch (err) {
+      this.logger.warn(
+        `No se pudo firmar la descarga de la entrega ${delivery.id}: ${err.message}`,
+      );
+      return delivery.payload;
+    }
+  }
+
+  /**
+   * Hace un intento y guarda el resultado. Un 2xx es éxito; cualquier otra
+   * respuesta (incluidas redirecciones), un timeout o un error de red
+   * programan el siguiente reintento hasta agotar WEBHOOK_MAX_ATTEMPTS.
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    endpoint: WebhookEndpoint,
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify(await this.payloadForAttempt(delivery));
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Las reglas pudieron cambiar desde que se registró la URL
+      const problem = getWebhookUrlProblem(endpoint.url);
+      if (problem) {
+        throw new Error(problem);
+      }
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ZPLPDF-Webhooks/1.0',
+          'X-ZPLPDF-Event': delivery.event,
+          'X-ZPLPDF-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            body,
+            Math.floor(now.getTime() / 1000),
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        dispatcher: this.agent,
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error =
+        err.name === 'TimeoutError'
+          ? `Timeout after ${DELIVERY_TIMEOUT_MS / 1000}s`
+          : // undici envuelve el motivo real (DNS, IP privada, conexión)
+            (err.cause?.message ?? err.message);
+    }
+
+    const outcome: Pick<
+      WebhookDelivery,
+      'status' | 'nextAttemptAt' | 'deliveredAt'
+    > =
+      error === null
+        ? { status: 'succeeded', nextAttemptAt: null, deliveredAt: now }
+        : attempts >= WEBHOOK_MAX_ATTEMPTS
+          ? { status: 'failed', nextAttemptAt: null, deliveredAt: null }
+          : {
+              status: 'pending',
+              nextAttemptAt: new Date(
+                now.getTime() + webhookRetryDelayMs(attempts),
+              ),
+              deliveredAt: null,
+            };
+
+    const changes = {
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: now,
+      ...outcome,
+    };
+    await this.firestoreService.updateWebhookDelivery(delivery.id, changes);
+
+    if (error !== null) {
+      this.logger.warn(
+        `Webhook ${endpoint.id} falló (${delivery.event}, intento ${attempts}): ${error}`,
+      );
+    }
+
+    const updated = { ...delivery, ...changes };
+    if (updated.status === 'pending') {
+      this.scheduleRetry(updated);
+    }
+    return updated;
+  }
+
+  private scheduleRetry(delivery: WebhookDelivery): void {
+    const delay = new Date(delivery.nextAttemptAt!).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      this.firestoreService
+        .getWebhookDeliveryById(delivery.id)
+        .then((current) => current && this.retry(current))
+        .catch((err) =>
+          this.logger.error(
+            `Error reintentando webhook ${delivery.id}: ${err.message}`,
+          ),
+        );
+    }, delay);
+    // No retener el proceso solo por un reintento pendiente
+    timer.unref();
+  }
+
+  /**
+   * Reintenta una entrega pendiente. Se relee su estado porque el cron o el
+   * temporizador en memoria pudieron procesarla ya.
+   */
+  private async retry(
+    delivery: WebhookDelivery,
+  ): Promise<WebhookDelivery | null> {
+    if (delivery.status !== 'pending') {
+      return null;
+    }
+
+    const endpoint = await this.firestoreService.getWebhookEndpointById(
+      delivery.endpointId,
+    );
+    if (!endpoint || !endpoint.active) {
+      await this.firestoreService.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        nextAttemptAt: null,
+        error: 'Webhook disabled or deleted',
+      });
+      return null;
+    }
+
+    return this.attempt(delivery, endpoint);
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FirebaseAuthGuard } from '../../common/guards/firebase-auth.guard.js';
+import { CurrentUser } from '../../common/decorators/current-user.decorator.js';
+import type { FirebaseUser } from '../../common/decorators/current-user.decorator.js';
+import { WebhookEndpointsService } from './webhook-endpoints.service.js';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto.js';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto.js';
+import { WEBHOOK_MAX_ATTEMPTS } from './webhook-dispatcher.service.js';
+
+/**
+ * Webhooks salientes del usuario (distintos de /webhooks, que recibe los
+ * eventos de Stripe).
+ */
+@ApiTags('webhook-endpoints')
+@ApiBearerAuth()
+@Controller('webhook-endpoints')
+@UseGuards(FirebaseAuthGuard)
+export class WebhookEndpointsController {
+  constructor(
+    private readonly webhookEndpointsService: WebhookEndpointsService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Registrar un webhook',
+    description: `Devuelve el secreto de firma una sola vez. Cada envio lleva la cabecera X-ZPLPDF-Signature (t=<unix>,v1=<HMAC-SHA256 hex de "<t>.<cuerpo>">). Los envios sin respuesta 2xx se reintentan con backoff exponencial hasta ${WEBHOOK_MAX_ATTEMPTS} intentos.`,
+  })
+  @ApiResponse({ status: 201, description: 'Webhook creado' })
+  @ApiResponse({
+    status: 400,
+    description: 'La URL no es HTTPS o apunta a una red privada',
+  })
+  @ApiResponse({ status: 403, description: 'Se alcanzo el maximo de webhooks' })
+  create(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: CreateWebhookEndpointDto,
+  ) {
+    return this.webhookEndpointsService.create(user.uid, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar webhooks (sin el secreto)' })
+  list(@CurrentUser() user: FirebaseUser) {
+    return this.webhookEndpointsService.list(user.uid);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Modificar un webhook',
+    description: 'Cambia URL, descripcion o eventos, o lo pausa con active',
+  })
+  @ApiResponse({ status: 404, description: 'Webhook no encontrado' })
+  update(
+    @CurrentUser() user: FirebaseUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateWebhookEndpointDto,
+  ) {
+    return this.webhookEndpointsService.update(user.uid, id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Eliminar un webhook y su log de entregas' })
+  @ApiResponse({ status: 404, description: 'Webhook no encontrado' })
+  remove(@CurrentUser() user: FirebaseUser, @Param('id') id: string) {
+    return this.webhookEndpointsService.remove(user.uid, id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({
+    summary: 'Log de entregas de un webhook',
+    description:
+      'Ultimas 50 entregas con su evento, estado, intentos y ultima respuesta',
+  })
+  @ApiResponse({ status: 404, description: 'Webhook no encontrado' })
+  listDeliveries(@CurrentUser() user: FirebaseUser, @Param('id') id: string) {
+    return this.webhookEndpointsService.listDeliveries(user.uid, id);
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reenviar una entrega',
+    description:
+      'Envia de nuevo el mismo evento (mismo id) como una entrega nueva y devuelve el resultado del intento',
+  })
+  @ApiResponse({ status: 404, description: 'Webhook o entrega no encontrados' })
+  redeliver(
+    @CurrentUser() user: FirebaseUser,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhookEndpointsService.redeliver(user.uid, id, deliveryId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { WebhookEndpointsController } from './webhook-endpoints.controller.js';
+import { WebhookEndpointsService } from './webhook-endpoints.service.js';
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+import { CacheModule } from '../cache/cache.module.js';
+import { StorageModule } from '../storage/storage.module.js';
+
+@Module({
+  imports: [CacheModule, StorageModule],
+  controllers: [WebhookEndpointsController],
+  providers: [WebhookEndpointsService, WebhookDispatcherService],
+  exports: [WebhookDispatcherService],
+})
+export class WebhookEndpointsModule {}
@@ -0,0 +1,174 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { FirestoreService } from '../cache/firestore.service.js';
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+import { getWebhookUrlProblem } from './webhook.util.js';
+import { ErrorCodes } from '../../common/constants/error-codes.js';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointSummary,
+} from '../../common/interfaces/webhook-endpoint.interface.js';
+import type { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto.js';
+import type { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto.js';
+
+/** Webhooks por usuario */
+const MAX_ENDPOINTS = 10;
+
+/** Entregas que muestra el log de un webhook */
+const DELIVERY_LOG_SIZE = 50;
+
+@Injectable()
+export class WebhookEndpointsService {
+  constructor(
+    private readonly firestoreService: FirestoreService,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  private toSummary({
+    secret: _secret,
+    userId: _userId,
+    ...summary
+  }: WebhookEndpoint): WebhookEndpointSummary {
+    return summary;
+  }
+
+  private assertValidUrl(url: string): void {
+    const problem = getWebhookUrlProblem(url);
+    if (problem) {
+      throw new BadRequestException({
+        error: ErrorCodes.INVALID_WEBHOOK_URL,
+        message: problem,
+        data: { url },
+      });
+    }
+  }
+
+  /**
+   * Registra un webhook. El secreto de firma solo se devuelve aquí.
+   */
+  async create(
+    userId: string,
+    dto: CreateWebhookEndpointDto,
+  ): Promise<WebhookEndpointSummary & { secret: string }> {
+    this.assertValidUrl(dto.url);
+
+    const existing =
+      await this.firestoreService.getWebhookEndpointsByUser(userId);
+    if (existing.length >= MAX_ENDPOINTS) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.WEBHOOK_ENDPOINT_LIMIT_EXCEEDED,
+          message: `Maximum of ${MAX_ENDPOINTS} webhooks reached. Delete one to create another`,
+          data: { allowed: MAX_ENDPOINTS },
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const now = new Date();
+    const endpoint: WebhookEndpoint = {
+      id: randomUUID(),
+      userId,
+      url: dto.url,
+      description: dto.description?.trim() || null,
+      secret: `whsec_${randomBytes(24).toString('base64url')}`,
+      events: [...new Set(dto.events)],
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.firestoreService.createWebhookEndpoint(endpoint);
+
+    return { ...this.toSummary(endpoint), secret: endpoint.secret };
+  }
+
+  async list(userId: string): Promise<WebhookEndpointSummary[]> {
+    const endpoints =
+      await this.firestoreService.getWebhookEndpointsByUser(userId);
+    return endpoints.map((endpoint) => this.toSummary(endpoint));
+  }
+
+  private async getOwnedEndpoint(
+    userId: string,
+    id: string,
+  ): Promise<WebhookEndpoint> {
+    const endpoint = await this.firestoreService.getWebhookEndpointById(id);
+    // Un webhook de otro usuario se trata como inexistente
+    if (!endpoint || endpoint.userId !== userId) {
+      throw new NotFoundException({
+        error: ErrorCodes.WEBHOOK_ENDPOINT_NOT_FOUND,
+        message: 'Webhook not found',
+      });
+    }
+    return endpoint;
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    dto: UpdateWebhookEndpointDto,
+  ): Promise<WebhookEndpointSummary> {
+    const endpoint = await this.getOwnedEndpoint(userId, id);
+    if (dto.url !== undefined) {
+      this.assertValidUrl(dto.url);
+    }
+
+    const changes: Partial<
+      Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'active'>
+    > = {
+      ...(dto.url !== undefined && { url: dto.url }),
+      ...(dto.description !== undefined && {
+        description: dto.description.trim() || null,
+      }),
+      ...(dto.events !== undefined && { events: [...new Set(dto.events)] }),
+      ...(dto.active !== undefined && { active: dto.active }),
+    };
+    await this.firestoreService.updateWebhookEndpoint(id, changes);
+
+    return this.toSummary({ ...endpoint, ...changes, updatedAt: new Date() });
+  }
+
+  async remove(userId: string, id: string): Promise<{ deleted: true }> {
+    await this.getOwnedEndpoint(userId, id);
+    await this.firestoreService.deleteWebhookEndpoint(id);
+    return { deleted: true };
+  }
+
+  /** Últimas entregas del webhook, con su estado e intentos */
+  async listDeliveries(userId: string, id: string): Promise<WebhookDelivery[]> {
+    await this.getOwnedEndpoint(userId, id);
+    return this.firestoreService.getWebhookDeliveriesByEndpoint(
+      id,
+      DELIVERY_LOG_SIZE,
+    );
+  }
+
+  /**
+   * Reenvía una entrega anterior como una nueva. Funciona aunque el webhook
+   * esté pausado: es una acción explícita del usuario.
+   */
+  async redeliver(
+    userId: string,
+    id: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    const endpoint = await this.getOwnedEndpoint(userId, id);
+    const delivery =
+      await this.firestoreService.getWebhookDeliveryById(deliveryId);
+    if (!delivery || delivery.endpointId !== endpoint.id) {
+      throw new NotFoundException({
+        error: ErrorCodes.WEBHOOK_DELIVERY_NOT_FOUND,
+        message: 'Webhook delivery not found',
+      });
+    }
+
+    return this.dispatcher.redeliver(delivery, endpoint);
+  }
+}
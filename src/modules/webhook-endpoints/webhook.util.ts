@@ -0,0 +1,134 @@
+import { createHmac } from 'node:crypto';
+import { lookup } from 'node:dns';
+import type { LookupAddress, LookupOptions } from 'node:dns';
+import { isIP } from 'node:net';
+
+/** Cabecera con la firma de cada envío */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ZPLPDF-Signature';
+
+/**
+ * Firma al estilo Stripe: `t=<unix>,v1=<hex>` con HMAC-SHA256 sobre
+ * `<unix>.<cuerpo>`. Incluir el timestamp permite al receptor rechazar
+ * reenvíos antiguos (replay).
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number,
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateIPv4(mapped[1]);
+  }
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized)
+  );
+}
+
+/** IP literal de la red local, loopback o link-local (metadatos de la nube) */
+export function isPrivateAddress(address: string): boolean {
+  const ipVersion = isIP(address);
+  return ipVersion === 4
+    ? isPrivateIPv4(address)
+    : ipVersion === 6 && isPrivateIPv6(address);
+}
+
+/**
+ * Motivo por el que una URL no sirve como webhook, o null si es válida. Solo
+ * HTTPS y nunca hosts locales o IPs privadas: los envíos salen desde nuestra
+ * red y no deben poder alcanzar servicios internos (SSRF).
+ */
+export function getWebhookUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL is not valid';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'URL must use https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'URL must not contain credentials';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const isPrivate = isIP(host)
+    ? isPrivateAddress(host)
+    : host === 'localhost' ||
+      /\.(localhost|local|internal)$/.test(host) ||
+      !host.includes('.');
+  if (isPrivate) {
+    return 'URL must point to a public host';
+  }
+
+  return null;
+}
+
+type LookupCallback = (
+  err: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number,
+) => void;
+
+/**
+ * `lookup` para el socket de los envíos: resuelve el host en el momento de
+ * conectar y descarta las IPs privadas. Validar solo el nombre al registrar
+ * el webhook no basta: un dominio público puede resolver a 127.0.0.1 o
+ * cambiar de IP después (DNS rebinding), y así se conecta a la IP revisada.
+ */
+export function publicAddressLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: LookupCallback,
+): void {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+
+    const allowed = addresses.filter(
+      ({ address }) => !isPrivateAddress(address),
+    );
+    if (allowed.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to a private address`,
+      );
+      error.code = 'EPRIVATEADDRESS';
+      callback(error, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, allowed);
+    } else {
+      callback(null, allowed[0].address, allowed[0].family);
+    }
+  });
+}
@@ -9,6 +9,8 @@ import {
   IsOptional,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { OUTPUT_FORMAT_VALUES } from '../enums/output-format.enum.js';
+import type { OutputFormatValue } from '../enums/output-format.enum.js';
 
 // Input DTOs
 export class BatchFileDto {
@@ -44,10 +46,10 @@ export class BatchConvertDto {
   @IsNotEmpty()
   labelSize: string;
 
-  @ApiPropertyOptional({ enum: ['pdf', 'png', 'jpeg'], default: 'pdf' })
+  @ApiPropertyOptional({ enum: OUTPUT_FORMAT_VALUES, default: 'pdf' })
   @IsOptional()
-  @IsEnum(['pdf', 'png', 'jpeg'])
-  outputFormat?: 'pdf' | 'png' | 'jpeg';
+  @IsEnum(OUTPUT_FORMAT_VALUES)
+  outputFormat?: OutputFormatValue;
 }
 
 // Response DTOs
@@ -71,7 +73,9 @@ export class BatchFileStatusDto {
   @ApiProperty()
   jobId: string;
 
-  @ApiProperty({ enum: ['pending', 'processing', 'completed', 'failed'] })
+  @ApiProperty({
+    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+  })
   status: string;
 
   @ApiProperty()
@@ -85,7 +89,9 @@ export class BatchStatusResponseDto {
   @ApiProperty()
   batchId: string;
 
-  @ApiProperty({ enum: ['processing', 'completed', 'partial', 'failed'] })
+  @ApiProperty({
+    enum: ['processing', 'completed', 'partial', 'failed', 'cancelled'],
+  })
   status: string;
 
   @ApiProperty()
@@ -101,6 +107,14 @@ export class BatchStatusResponseDto {
   downloadUrl?: string;
 }
 
+export class BatchCancelResponseDto {
+  @ApiProperty()
+  batchId: string;
+
+  @ApiProperty({ enum: ['cancelled'] })
+  status: 'cancelled';
+}
+
 export class BatchDownloadResponseDto {
   @ApiProperty()
   url: string;
@@ -1,7 +1,36 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, IsEnum } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsPositive,
+  IsBoolean,
+  IsInt,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
 import { LabelSize } from '../enums/label-size.enum.js';
 import { OutputFormat } from '../enums/output-format.enum.js';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PRINTER_DPMM_VALUES,
+  PrinterDpmm,
+} from '../enums/printer-dpmm.enum.js';
+import { RENDERER_MODES } from '../interfaces/label-renderer.interface.js';
+import {
+  AUTO_LABEL_SIZE,
+  LABEL_DIMENSION_LIMITS,
+  LABEL_UNITS,
+} from '../interfaces/label-dimensions.interface.js';
+import type { LabelUnit } from '../interfaces/label-dimensions.interface.js';
+import { SHEET_TEMPLATE_IDS } from '../interfaces/sheet-template.interface.js';
+import type { SheetTemplateId } from '../interfaces/sheet-template.interface.js';
+import type { RendererMode } from '../interfaces/label-renderer.interface.js';
 
 export class ConvertZplDto {
   @ApiProperty({
@@ -15,14 +44,59 @@ export class ConvertZplDto {
   zplContent?: string;
 
   @ApiProperty({
-    description: 'Tamaño de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas)',
+    description:
+      'Tamaño de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas), o "auto" para detectarlo de ^PW/^LL en cada etiqueta. Se ignora si se envían labelWidth y labelHeight',
     example: LabelSize.TWO_BY_ONE,
-    enum: LabelSize,
+    enum: [...Object.values(LabelSize), AUTO_LABEL_SIZE],
     default: LabelSize.TWO_BY_ONE,
   })
-  @IsEnum(LabelSize)
+  @ValidateIf((dto: ConvertZplDto) => !dto.labelWidth && !dto.labelHeight)
+  @IsIn([...Object.values(LabelSize), AUTO_LABEL_SIZE])
   @IsNotEmpty()
-  labelSize: LabelSize;
+  labelSize: LabelSize | typeof AUTO_LABEL_SIZE;
+
+  @ApiProperty({
+    description: `Ancho personalizado de la etiqueta en labelUnit (máximo ${LABEL_DIMENSION_LIMITS.maxInches} pulgadas)`,
+    example: 100,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  labelWidth?: number;
+
+  @ApiProperty({
+    description: `Alto personalizado de la etiqueta en labelUnit (máximo ${LABEL_DIMENSION_LIMITS.maxInches} pulgadas)`,
+    example: 150,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  labelHeight?: number;
+
+  @ApiProperty({
+    description: 'Unidad de labelWidth/labelHeight: in (pulgadas) o mm',
+    example: 'mm',
+    enum: LABEL_UNITS,
+    default: 'in',
+    required: false,
+  })
+  @IsIn(LABEL_UNITS)
+  @IsOptional()
+  labelUnit?: LabelUnit;
+
+  @ApiProperty({
+    description:
+      'Tamaño por etiqueta en JSON: {"1": "4x6", "2-5": "2x1"} (números de etiqueta desde 1) o un array de tamaños. Las etiquetas no incluidas usan labelSize',
+    example: '{"1":"4x6","2-3":"2x1"}',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  labelSizeMap?: string;
 
   @ApiProperty({
     description: 'Idioma para los mensajes',
@@ -35,7 +109,7 @@ export class ConvertZplDto {
 
   @ApiProperty({
     description:
-      'Formato de salida (pdf, png, jpeg). PNG y JPEG solo disponibles para usuarios Pro y Enterprise',
+      'Formato de salida (pdf, png, jpeg, tiff, bmp, svg, png_1bit). Los formatos de imagen solo están disponibles para usuarios Pro y Enterprise',
     example: OutputFormat.PDF,
     enum: OutputFormat,
     default: OutputFormat.PDF,
@@ -44,4 +118,135 @@ export class ConvertZplDto {
   @IsEnum(OutputFormat)
   @IsOptional()
   outputFormat?: OutputFormat;
+
+  @ApiProperty({
+    description:
+      'Motor de renderizado: labelary, local (en proceso) o local_fallback (local y, si falla, Labelary). Si se omite se usa el del plan',
+    example: 'local_fallback',
+    enum: RENDERER_MODES,
+    required: false,
+  })
+  @IsIn(RENDERER_MODES)
+  @IsOptional()
+  renderer?: RendererMode;
+
+  @ApiProperty({
+    description:
+      'Resolución de la impresora en puntos por mm: 6 (152 dpi), 8 (203 dpi), 12 (300 dpi) o 24 (600 dpi)',
+    example: PrinterDpmm.DPMM_8,
+    enum: PRINTER_DPMM_VALUES,
+    default: DEFAULT_PRINTER_DPMM,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsEnum(PrinterDpmm)
+  @IsOptional()
+  dpmm?: PrinterDpmm;
+
+  @ApiProperty({
+    description:
+      'Plantilla de hoja para imprimir varias etiquetas por página en una impresora de oficina (solo PDF)',
+    example: 'avery-5163',
+    enum: SHEET_TEMPLATE_IDS,
+    required: false,
+  })
+  @IsIn(SHEET_TEMPLATE_IDS)
+  @IsOptional()
+  sheetTemplate?: SheetTemplateId;
+
+  @ApiProperty({
+    description: 'Dibuja marcas de corte en los márgenes de la hoja',
+    example: true,
+    default: false,
+    required: false,
+  })
+  @Transform(({ value }) =>
+    value === undefined ? value : value === true || value === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  cropMarks?: boolean;
+
+  @ApiProperty({
+    description:
+      'Celdas ya usadas en la primera hoja; la primera etiqueta se coloca en la siguiente libre',
+    example: 3,
+    default: 0,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  startOffset?: number;
+
+  @ApiProperty({
+    description:
+      'Margen superior de la hoja en mm (reemplaza al de la plantilla)',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  sheetMarginTop?: number;
+
+  @ApiProperty({
+    description:
+      'Margen izquierdo de la hoja en mm (reemplaza al de la plantilla)',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  sheetMarginLeft?: number;
+
+  @ApiProperty({
+    description: 'Separación horizontal entre columnas en mm',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  sheetGutterX?: number;
+
+  @ApiProperty({
+    description: 'Separación vertical entre filas en mm',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  sheetGutterY?: number;
+
+  @ApiProperty({
+    description:
+      'Solo tiff, bmp y png_1bit: nivel de gris (1-254) por debajo del cual un punto se imprime',
+    example: 128,
+    default: 128,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(254)
+  @IsOptional()
+  threshold?: number;
+
+  @ApiProperty({
+    description:
+      'Solo tiff, bmp y png_1bit: difusión de error (Floyd–Steinberg) en lugar de umbral fijo, para fotos y logotipos',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @Transform(({ value }) =>
+    value === undefined ? value : value === true || value === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  dither?: boolean;
 }
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
 import {
   IsString,
   IsNotEmpty,
@@ -7,6 +8,11 @@ import {
   MaxLength,
 } from 'class-validator';
 import { LabelSize } from '../enums/label-size.enum.js';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PRINTER_DPMM_VALUES,
+  PrinterDpmm,
+} from '../enums/printer-dpmm.enum.js';
 
 export class FontPreviewPublicDto {
   @ApiProperty({
@@ -29,4 +35,16 @@ export class FontPreviewPublicDto {
   @IsEnum(LabelSize)
   @IsOptional()
   labelSize?: LabelSize;
+
+  @ApiProperty({
+    description: 'Printer resolution in dots per mm (6, 8, 12 or 24)',
+    example: PrinterDpmm.DPMM_8,
+    enum: PRINTER_DPMM_VALUES,
+    default: DEFAULT_PRINTER_DPMM,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsEnum(PrinterDpmm)
+  @IsOptional()
+  dpmm?: PrinterDpmm;
 }
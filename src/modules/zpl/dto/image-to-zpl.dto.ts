@@ -0,0 +1,118 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { GraphicFormat } from '../enums/graphic-format.enum.js';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PRINTER_DPMM_VALUES,
+  PrinterDpmm,
+} from '../enums/printer-dpmm.enum.js';
+import { RENDERER_MODES } from '../interfaces/label-renderer.interface.js';
+import type { RendererMode } from '../interfaces/label-renderer.interface.js';
+import { DITHER_METHODS } from '../rendering/monochrome.js';
+import type { DitherMethod } from '../rendering/monochrome.js';
+
+export class ImageToZplDto {
+  @ApiProperty({
+    description:
+      'Ancho del gráfico en dots. Si solo se indica una medida se conserva la proporción; sin ninguna se usa el tamaño de la imagen en pixeles',
+    example: 400,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  width?: number;
+
+  @ApiProperty({
+    description: 'Alto del gráfico en dots',
+    example: 200,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  height?: number;
+
+  @ApiProperty({
+    description:
+      'Resolución de la impresora en puntos por mm: 6 (152 dpi), 8 (203 dpi), 12 (300 dpi) o 24 (600 dpi)',
+    example: PrinterDpmm.DPMM_8,
+    enum: PRINTER_DPMM_VALUES,
+    default: DEFAULT_PRINTER_DPMM,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsEnum(PrinterDpmm)
+  @IsOptional()
+  dpmm?: PrinterDpmm;
+
+  @ApiProperty({
+    description:
+      'Reducción a 1 bit: umbral fijo (logotipos de colores planos), difusión de error Floyd–Steinberg (fotos) o dithering ordenado (trama regular)',
+    enum: DITHER_METHODS,
+    default: 'threshold',
+    required: false,
+  })
+  @IsIn(DITHER_METHODS)
+  @IsOptional()
+  dither?: DitherMethod;
+
+  @ApiProperty({
+    description:
+      'Nivel de gris (1-254) bajo el cual un pixel se imprime; en dithering es el gris medio',
+    example: 128,
+    default: 128,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(254)
+  @IsOptional()
+  threshold?: number;
+
+  @ApiProperty({
+    description:
+      'ZPL generado: ^GFA en hex comprimido, ^GFA en Z64 o ~DG para guardarlo en la impresora',
+    enum: GraphicFormat,
+    default: GraphicFormat.GFA_HEX,
+    required: false,
+  })
+  @IsEnum(GraphicFormat)
+  @IsOptional()
+  format?: GraphicFormat;
+
+  @ApiProperty({
+    description:
+      'Nombre del gráfico en la impresora, solo para ~DG (1-8 letras, números o _)',
+    example: 'LOGO',
+    default: 'LOGO',
+    required: false,
+  })
+  @Matches(/^[A-Za-z0-9_]{1,8}$/, {
+    message: 'name debe tener de 1 a 8 letras, números o _',
+  })
+  @IsOptional()
+  name?: string;
+
+  @ApiProperty({
+    description:
+      'Motor de la vista previa: labelary (por defecto), local o local_fallback',
+    enum: RENDERER_MODES,
+    required: false,
+  })
+  @IsIn(RENDERER_MODES)
+  @IsOptional()
+  renderer?: RendererMode;
+}
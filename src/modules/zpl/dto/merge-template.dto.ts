@@ -0,0 +1,43 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ConvertZplDto } from './convert-zpl.dto.js';
+import { DATASET_FORMATS } from '../merge/dataset-parser.js';
+import type { DatasetFormat } from '../merge/dataset-parser.js';
+
+/**
+ * Combinación de una plantilla ZPL con datos CSV/JSON. Acepta las mismas
+ * opciones de conversión que /convert.
+ */
+export class MergeTemplateDto extends OmitType(ConvertZplDto, [
+  'zplContent',
+] as const) {
+  @ApiProperty({
+    description:
+      'Plantilla ZPL con variables {{columna}} o formatos ^DF/^XF con campos ^FN (opcional si se envía el archivo template)',
+    example: '^XA^FO50,50^A0N,40,40^FD{{nombre}}^FS^XZ',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  templateContent?: string;
+
+  @ApiProperty({
+    description:
+      'Datos en CSV (con cabecera) o JSON (array de objetos). Opcional si se envía el archivo data',
+    example: 'nombre\nAna\nLuis',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  data?: string;
+
+  @ApiProperty({
+    description:
+      'Formato de los datos. Si se omite se deduce de la extensión del archivo o del contenido',
+    enum: [...DATASET_FORMATS],
+    required: false,
+  })
+  @IsIn(DATASET_FORMATS)
+  @IsOptional()
+  dataFormat?: DatasetFormat;
+}
@@ -0,0 +1,93 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ConvertZplDto } from './convert-zpl.dto.js';
+import { LabelSize } from '../enums/label-size.enum.js';
+import { PDF_PAGE_ROTATIONS } from '../interfaces/pdf-zpl.interface.js';
+import type { PdfPageRotation } from '../interfaces/pdf-zpl.interface.js';
+import { GRAPHIC_ENCODINGS } from '../rendering/graphic-encoder.js';
+import type { GraphicEncoding } from '../rendering/graphic-encoder.js';
+import { DITHER_METHODS } from '../rendering/monochrome.js';
+import type { DitherMethod } from '../rendering/monochrome.js';
+
+/**
+ * Conversión de PDF (una etiqueta por página) a ZPL. El tamaño y la
+ * resolución se indican igual que en /convert.
+ */
+export class PdfToZplDto extends PickType(ConvertZplDto, [
+  'labelWidth',
+  'labelHeight',
+  'labelUnit',
+  'dpmm',
+] as const) {
+  @ApiProperty({
+    description:
+      'Tamaño de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas). Se ignora si se envían labelWidth y labelHeight',
+    enum: LabelSize,
+    default: LabelSize.FOUR_BY_SIX,
+    required: false,
+  })
+  @IsIn(Object.values(LabelSize))
+  @IsOptional()
+  labelSize?: LabelSize;
+
+  @ApiProperty({
+    description:
+      'Giro de cada página: auto la gira 90° si su orientación no coincide con la de la etiqueta',
+    enum: PDF_PAGE_ROTATIONS,
+    default: 'auto',
+    required: false,
+  })
+  @IsIn(PDF_PAGE_ROTATIONS)
+  @IsOptional()
+  rotation?: PdfPageRotation;
+
+  @ApiProperty({
+    description:
+      'Recorta los márgenes en blanco de la página antes de encajarla (p. ej. una etiqueta 4x6 en una hoja A4)',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @Transform(({ value }) =>
+    value === undefined ? value : value === true || value === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  crop?: boolean;
+
+  @ApiProperty({
+    description:
+      'Reducción a 1 bit: umbral fijo (recomendado para códigos de barras), Floyd–Steinberg u ordenado',
+    enum: DITHER_METHODS,
+    default: 'threshold',
+    required: false,
+  })
+  @IsIn(DITHER_METHODS)
+  @IsOptional()
+  dither?: DitherMethod;
+
+  @ApiProperty({
+    description: 'Nivel de gris (1-254) bajo el cual un pixel se imprime',
+    example: 128,
+    default: 128,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(254)
+  @IsOptional()
+  threshold?: number;
+
+  @ApiProperty({
+    description:
+      'Datos de ^GF: z64 (zlib + base64, más compacto) o hex (ASCII comprimido, para impresoras muy antiguas)',
+    enum: GRAPHIC_ENCODINGS,
+    default: 'z64',
+    required: false,
+  })
+  @IsIn(GRAPHIC_ENCODINGS)
+  @IsOptional()
+  encoding?: GraphicEncoding;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsIn, IsNotEmpty, IsString, IsUUID } from 'class-validator';
+import { OutputFormat } from '../enums/output-format.enum.js';
+import { PLAN_ORDER } from '../../../common/interfaces/user.interface.js';
+import type { PlanType } from '../../../common/interfaces/user.interface.js';
+import type { ConversionTask } from '../../queue/interfaces/conversion-task.interface.js';
+
+const PLAN_TYPES = Object.keys(PLAN_ORDER) as PlanType[];
+
+/** Cuerpo de la tarea que Cloud Tasks entrega al worker /zpl/process */
+export class ProcessConversionTaskDto implements ConversionTask {
+  @ApiProperty({
+    description: 'ID del trabajo de conversión',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  jobId: string;
+
+  @ApiProperty({ description: 'Usuario dueño del trabajo' })
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiProperty({
+    description: 'Plan del usuario al encolar (prioridad y renderizador)',
+    enum: PLAN_TYPES,
+  })
+  @IsIn(PLAN_TYPES)
+  userPlan: PlanType;
+
+  @ApiProperty({ enum: OutputFormat, example: OutputFormat.PDF })
+  @IsEnum(OutputFormat)
+  outputFormat: OutputFormat;
+}
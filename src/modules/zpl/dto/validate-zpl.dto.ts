@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, IsBoolean, IsIn } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsString, IsOptional, IsBoolean, IsIn, IsEnum } from 'class-validator';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PRINTER_DPMM_VALUES,
+  PrinterDpmm,
+} from '../enums/printer-dpmm.enum.js';
 
 export class ValidateZplDto {
   @ApiProperty({
@@ -29,4 +35,17 @@ export class ValidateZplDto {
   @IsBoolean()
   @IsOptional()
   strictMode?: boolean;
+
+  @ApiProperty({
+    description:
+      'Resolucion de la impresora (dpmm): define los limites de coordenadas validos',
+    example: PrinterDpmm.DPMM_8,
+    enum: PRINTER_DPMM_VALUES,
+    default: DEFAULT_PRINTER_DPMM,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsEnum(PrinterDpmm)
+  @IsOptional()
+  dpmm?: PrinterDpmm;
 }
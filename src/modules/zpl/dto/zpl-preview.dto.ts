@@ -1,6 +1,7 @@
 export class ZplPreviewItemDto {
   img: string; // Base64 de la imagen PNG
   qty: number; // Cantidad de veces que se repite la etiqueta
+  labelSize?: string; // Tamaño detectado (solo con labelSize "auto")
 }
 
 export class ZplPreviewResponseDto {
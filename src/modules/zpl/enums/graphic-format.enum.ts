@@ -0,0 +1,13 @@
+/**
+ * Formato del ZPL generado al convertir una imagen en gráfico
+ */
+export enum GraphicFormat {
+  /** ^GFA con los datos en ASCII hex comprimido */
+  GFA_HEX = 'gfa_hex',
+  /** ^GFA con los datos en Z64 (zlib + base64), el más compacto */
+  GFA_Z64 = 'gfa_z64',
+  /** ~DG para guardar el gráfico en la impresora y recuperarlo con ^XG */
+  DG = 'dg',
+}
+
+export const GRAPHIC_FORMAT_VALUES = Object.values(GraphicFormat);
@@ -2,4 +2,80 @@ export enum OutputFormat {
   PDF = 'pdf',
   PNG = 'png',
   JPEG = 'jpeg',
+  /** TIFF multipágina monocromo con compresión CCITT G4 */
+  TIFF = 'tiff',
+  /** BMP monocromo de 1 bit */
+  BMP = 'bmp',
+  /** SVG vectorial (siempre con el motor local) */
+  SVG = 'svg',
+  /** PNG monocromo de 1 bit */
+  PNG_1BIT = 'png_1bit',
 }
+
+/** Valor del formato tal como se guarda en Firestore y llega en la API */
+export type OutputFormatValue = `${OutputFormat}`;
+
+export const OUTPUT_FORMAT_VALUES: OutputFormat[] = Object.values(OutputFormat);
+
+/** Salida de la conversión de PDF a ZPL, que solo aparece en el historial */
+export const ZPL_OUTPUT_FORMAT = 'zpl';
+
+/** Formato registrado en el historial de conversiones */
+export type HistoryOutputFormat = OutputFormatValue | typeof ZPL_OUTPUT_FORMAT;
+
+export const HISTORY_OUTPUT_FORMAT_VALUES: HistoryOutputFormat[] = [
+  ...OUTPUT_FORMAT_VALUES,
+  ZPL_OUTPUT_FORMAT,
+];
+
+/** Formatos que se reducen a 1 bit por punto (umbral o dithering) */
+export const MONOCHROME_OUTPUT_FORMATS: OutputFormat[] = [
+  OutputFormat.TIFF,
+  OutputFormat.BMP,
+  OutputFormat.PNG_1BIT,
+];
+
+/**
+ * Archivo de cada formato. Los multipágina guardan todas las etiquetas en un
+ * solo archivo; el resto produce una imagen por etiqueta y se entrega en ZIP.
+ */
+export const OUTPUT_FORMAT_FILES: Record<
+  OutputFormat,
+  { extension: string; contentType: string; multiPage: boolean }
+> = {
+  [OutputFormat.PDF]: {
+    extension: 'pdf',
+    contentType: 'application/pdf',
+    multiPage: true,
+  },
+  [OutputFormat.PNG]: {
+    extension: 'png',
+    contentType: 'image/png',
+    multiPage: false,
+  },
+  [OutputFormat.JPEG]: {
+    extension: 'jpg',
+    contentType: 'image/jpeg',
+    multiPage: false,
+  },
+  [OutputFormat.TIFF]: {
+    extension: 'tif',
+    contentType: 'image/tiff',
+    multiPage: true,
+  },
+  [OutputFormat.BMP]: {
+    extension: 'bmp',
+    contentType: 'image/bmp',
+    multiPage: false,
+  },
+  [OutputFormat.SVG]: {
+    extension: 'svg',
+    contentType: 'image/svg+xml',
+    multiPage: false,
+  },
+  [OutputFormat.PNG_1BIT]: {
+    extension: 'png',
+    contentType: 'image/png',
+    multiPage: false,
+  },
+};
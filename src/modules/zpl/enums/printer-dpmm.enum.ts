@@ -0,0 +1,39 @@
+/**
+ * Resolución de la impresora en puntos por milímetro (la misma nomenclatura
+ * que usa Labelary en `/v1/printers/{dpmm}dpmm/`)
+ */
+export enum PrinterDpmm {
+  DPMM_6 = 6, // 152 dpi
+  DPMM_8 = 8, // 203 dpi
+  DPMM_12 = 12, // 300 dpi
+  DPMM_24 = 24, // 600 dpi
+}
+
+export const DEFAULT_PRINTER_DPMM = PrinterDpmm.DPMM_8;
+
+export const PRINTER_DPMM_VALUES: PrinterDpmm[] = [
+  PrinterDpmm.DPMM_6,
+  PrinterDpmm.DPMM_8,
+  PrinterDpmm.DPMM_12,
+  PrinterDpmm.DPMM_24,
+];
+
+/**
+ * Resolución nominal en dpi. Las impresoras (y Labelary) redondean: a 8dpmm
+ * una etiqueta de 4" mide 812 dots, no 812.8.
+ */
+export const PRINTER_DPI: Record<PrinterDpmm, number> = {
+  [PrinterDpmm.DPMM_6]: 152,
+  [PrinterDpmm.DPMM_8]: 203,
+  [PrinterDpmm.DPMM_12]: 300,
+  [PrinterDpmm.DPMM_24]: 600,
+};
+
+/**
+ * Puntos por pulgada de una resolución: la nominal si es una de las
+ * soportadas. Con ella pasar de pulgadas a dots y de vuelta da el mismo
+ * tamaño.
+ */
+export function printerDpi(dpmm: number): number {
+  return PRINTER_DPI[dpmm as PrinterDpmm] ?? dpmm * 25.4;
+}
@@ -1,5 +1,39 @@
-export type BatchStatus = 'processing' | 'completed' | 'partial' | 'failed';
-export type BatchFileStatus = 'pending' | 'processing' | 'completed' | 'failed';
+import type { LabelDimensions } from './label-dimensions.interface.js';
+import type { OutputFormatValue } from '../enums/output-format.enum.js';
+
+export type BatchStatus =
+  | 'processing'
+  | 'completed'
+  | 'partial'
+  | 'failed'
+  | 'cancelled';
+export type BatchFileStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Entrega del batch: un ZIP con el resultado de cada archivo, o un solo PDF
+ * con todos los archivos uno tras otro (solo con salida PDF)
+ */
+export type BatchOutputMode = 'zip' | 'merged_pdf';
+
+export const BATCH_OUTPUT_MODES: BatchOutputMode[] = ['zip', 'merged_pdf'];
+
+/** Orden de los archivos en el PDF combinado: el de subida o por nombre */
+export type BatchMergeOrder = 'upload' | 'name';
+
+export const BATCH_MERGE_ORDERS: BatchMergeOrder[] = ['upload', 'name'];
+
+export interface BatchOutputOptions {
+  mode: BatchOutputMode;
+  /** Solo para merged_pdf; por defecto el de subida */
+  order?: BatchMergeOrder;
+  /** Solo para merged_pdf: página con el nombre del archivo entre uno y otro */
+  separatorPages?: boolean;
+}
 
 export interface BatchFileJob {
   jobId: string;
@@ -9,6 +43,8 @@ export interface BatchFileJob {
   progress: number;
   error?: string;
   tempStoragePath?: string;
+  /** Etiquetas cobradas al completarse (para reembolsarlas si se cancela) */
+  labelCount?: number;
 }
 
 export interface BatchJob {
@@ -18,15 +54,31 @@ export interface BatchJob {
   totalFiles: number;
   completedFiles: number;
   failedFiles: number;
-  outputFormat: 'pdf' | 'png' | 'jpeg';
+  outputFormat: OutputFormatValue;
   labelSize: string;
+  /** Medidas originales si el usuario pidió un tamaño personalizado */
+  labelDimensions?: LabelDimensions;
+  /** Resolución de impresora (puntos por mm) común a todos los archivos */
+  dpmm?: number;
+  /** Sin valor, un ZIP (batches anteriores a merged_pdf) */
+  output?: BatchOutputOptions;
   jobs: BatchFileJob[];
   downloadUrl?: string;
+  /** Nombre del archivo entregado: el ZIP o el PDF combinado */
   zipFilename?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** Resultado de cancelar un batch; solo se cancela mientras se procesa */
+export type BatchJobCancel =
+  | { outcome: 'cancelled' }
+  | {
+      outcome: 'blocked';
+      reason: 'missing' | 'forbidden' | 'finished';
+      status?: BatchStatus;
+    };
+
 export interface BatchLimits {
   batchAllowed: boolean;
   maxFilesPerBatch: number;
@@ -60,3 +112,17 @@ export const BATCH_LIMITS: Record<string, BatchLimits> = {
     maxFileSizeBytes: 10 * 1024 * 1024, // 10MB
   },
 };
+
+/**
+ * Límites al expandir un .zip o .tar.gz subido a /batch/convert. Además de
+ * estos, cada archivo ZPL extraído respeta los BATCH_LIMITS del plan.
+ */
+export const BATCH_ARCHIVE_LIMITS = {
+  /** Entradas del archivo, contando carpetas y archivos que se ignoran */
+  maxEntries: 1000,
+  /**
+   * Bytes descomprimidos en total (todo el tar, o lo extraído del zip).
+   * Corta las bombas de descompresión antes de llenar la memoria.
+   */
+  maxUncompressedBytes: 100 * 1024 * 1024, // 100MB
+} as const;
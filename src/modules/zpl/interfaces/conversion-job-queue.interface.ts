@@ -0,0 +1,89 @@
+/**
+ * Cola persistente de conversiones asíncronas. El estado vive en Firestore y
+ * el ZPL de entrada en Storage, de modo que un job sobrevive al reciclado de
+ * la instancia que lo procesa: cualquier otra puede reclamarlo cuando su lease
+ * vence y volver a ejecutarlo desde el principio.
+ */
+
+import type { ConversionStatus } from '../../cache/firestore.service.js';
+
+export const CONVERSION_JOB_QUEUE = {
+  /** Vigencia del lease; si no se renueva a tiempo el job se da por huérfano */
+  leaseMs: 2 * 60 * 1000,
+  /** Cada cuánto renueva el lease la instancia que procesa el job */
+  heartbeatMs: 30 * 1000,
+  /** Ejecuciones totales (la original incluida) antes de marcarlo fallido */
+  maxAttempts: 3,
+  /**
+   * Jobs sin lease (ningún worker los reclamó todavía, o son anteriores al
+   * lease): solo queda la antigüedad de su última actualización para decidir
+   * que se perdieron. Holgado para no adelantarse a los reintentos de la cola.
+   */
+  unclaimedStaleMs: 15 * 60 * 1000,
+  /** Jobs sin terminar que se leen por página en la recuperación */
+  recoveryBatchSize: 200,
+  /** Páginas por pasada; el resto se revisa en la siguiente */
+  recoveryMaxPages: 25,
+  /** Carpeta de Storage donde se guarda el ZPL hasta que el job termina */
+  inputPrefix: 'jobs/input',
+} as const;
+
+/** Periodo de facturación serializado para Firestore */
+export interface PersistedPeriodInfo {
+  periodStart: string;
+  periodEnd: string;
+  periodId: string;
+}
+
+/** Qué hizo el worker con una tarea; todas se confirman a la cola */
+export type ConversionTaskOutcome =
+  | 'processed'
+  | 'duplicate'
+  | 'skipped'
+  | 'failed';
+
+/**
+ * Resultado de reclamar un job. Solo quien recibe `granted` puede procesarlo;
+ * el contador de intentos ya incluye la ejecución que empieza.
+ */
+export type ConversionJobClaim =
+  | { outcome: 'granted'; job: ConversionStatus }
+  | {
+      outcome: 'blocked';
+      reason: 'missing' | 'finished' | 'leased' | 'exhausted';
+    };
+
+/**
+ * Resultado de cancelar un job. `cancelled` trae el estado anterior a la
+ * cancelación (para saber si ya se estaba procesando).
+ */
+export type ConversionJobCancel =
+  | { outcome: 'cancelled'; job: ConversionStatus }
+  | {
+      outcome: 'blocked';
+      reason: 'missing' | 'forbidden' | 'finished';
+      status?: ConversionStatus['status'];
+    };
+
+/**
+ * Resultado de marcar un job como completado. `blocked` significa que el
+ * resultado ya no cuenta (se canceló durante la subida, o el lease pasó a otra
+ * instancia): no se entrega ni se cobra.
+ */
+export type ConversionJobCompletion =
+  | { outcome: 'completed' }
+  | {
+      outcome: 'blocked';
+      reason: 'finished' | 'lost';
+      status: ConversionStatus['status'];
+    };
+
+export interface RecoverConversionJobsResult {
+  /** Jobs sin terminar revisados */
+  scanned: number;
+  /** Jobs huérfanos que esta instancia volvió a ejecutar */
+  redriven: number;
+  /** Jobs huérfanos marcados como fallidos (JOB_ORPHANED) */
+  failed: number;
+  executedAt: Date;
+}
@@ -0,0 +1,38 @@
+/**
+ * Opciones de renderizado que viajan con una conversión desde el endpoint
+ * hasta la cola de Labelary / renderizador local.
+ */
+
+import type { RendererMode } from './label-renderer.interface.js';
+import type { PrinterDpmm } from '../enums/printer-dpmm.enum.js';
+import type {
+  LabelDimensions,
+  LabelSizeMap,
+} from './label-dimensions.interface.js';
+import type { ImpositionOptions } from './sheet-template.interface.js';
+
+export interface ConversionOptions {
+  /** Motor de renderizado; si se omite se usa el del plan del usuario */
+  renderer?: RendererMode;
+  /** Resolución de impresora; por defecto 8dpmm (203 dpi) */
+  dpmm?: PrinterDpmm;
+  /**
+   * Medidas originales de un tamaño personalizado. El labelSize que se
+   * renderiza ya viene convertido a pulgadas; esto solo se conserva para el
+   * historial y los nombres de archivo.
+   */
+  labelDimensions?: LabelDimensions;
+  /** Tamaño por etiqueta; tiene prioridad sobre labelSize y sobre "auto" */
+  labelSizeMap?: LabelSizeMap;
+  /** Solo PDF: coloca las etiquetas en una hoja de oficina (N-up) */
+  imposition?: ImpositionOptions;
+  /** Solo TIFF, BMP y PNG de 1 bit: cómo se reduce cada etiqueta a 1 bit */
+  monochrome?: MonochromeOptions;
+}
+
+export interface MonochromeOptions {
+  /** Nivel de gris (1-254) por debajo del cual el punto se imprime */
+  threshold: number;
+  /** Difusión de error (Floyd–Steinberg) en lugar de umbral fijo */
+  dither: boolean;
+}
@@ -0,0 +1,45 @@
+import type { GraphicFormat } from '../enums/graphic-format.enum.js';
+import type { PrinterDpmm } from '../enums/printer-dpmm.enum.js';
+import type { DitherMethod } from '../rendering/monochrome.js';
+import type { RendererMode } from './label-renderer.interface.js';
+
+/**
+ * Conversión de una imagen (PNG, JPEG o SVG) a gráfico ZPL, para poner un
+ * logotipo en una etiqueta.
+ */
+
+export const IMAGE_TO_GRAPHIC_LIMITS = {
+  /** Tamaño máximo del archivo subido */
+  maxFileBytes: 5 * 1024 * 1024,
+  /** Formatos de entrada según sharp */
+  inputFormats: ['png', 'jpeg', 'svg'],
+} as const;
+
+export interface ImageToGraphicOptions {
+  /** Ancho final en dots; sin alto se conserva la proporción */
+  width?: number;
+  /** Alto final en dots; sin ancho se conserva la proporción */
+  height?: number;
+  dpmm: PrinterDpmm;
+  dither: DitherMethod;
+  threshold: number;
+  format: GraphicFormat;
+  /** Nombre del gráfico en la impresora (solo ~DG) */
+  name: string;
+  /** Motor con el que se renderiza la vista previa */
+  renderer?: RendererMode;
+}
+
+export interface ImageToGraphicResult {
+  format: GraphicFormat;
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  totalBytes: number;
+  /** Comando ^GFA o ~DG con la imagen */
+  zpl: string;
+  /** Etiqueta completa del tamaño de la imagen que imprime el gráfico */
+  label: string;
+  /** PNG en base64 de la etiqueta, o null si no se pudo renderizar */
+  preview: string | null;
+}
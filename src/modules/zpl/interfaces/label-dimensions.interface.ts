@@ -0,0 +1,39 @@
+/**
+ * Dimensiones de etiqueta personalizadas (fuera de los tamaños de LabelSize)
+ */
+
+export type LabelUnit = 'in' | 'mm';
+
+export const LABEL_UNITS: LabelUnit[] = ['in', 'mm'];
+
+/** Dimensiones tal como las envió el usuario (se conservan para mostrar) */
+export interface LabelDimensions {
+  width: number;
+  height: number;
+  unit: LabelUnit;
+}
+
+/**
+ * Límites de tamaño aceptados. 15" es el máximo de Labelary por lado; el
+ * mínimo evita etiquetas degeneradas de pocos puntos.
+ */
+export const LABEL_DIMENSION_LIMITS = {
+  minInches: 0.1,
+  maxInches: 15,
+};
+
+/**
+ * Valor de labelSize que pide detectar el tamaño de cada etiqueta a partir de
+ * sus comandos ^PW (ancho) y ^LL (largo)
+ */
+export const AUTO_LABEL_SIZE = 'auto';
+
+/** Tamaño que se asume para la dimensión que el ZPL no declara en modo auto */
+export const AUTO_LABEL_SIZE_FALLBACK = { widthInches: 4, heightInches: 6 };
+
+/**
+ * Tamaño por etiqueta ("sidecar"): las claves son números de etiqueta en orden
+ * de aparición (desde 1) o rangos "desde-hasta"; los valores, tamaños "WxH"
+ * en pulgadas. Las etiquetas no incluidas usan el labelSize de la conversión.
+ */
+export type LabelSizeMap = Record<string, string>;
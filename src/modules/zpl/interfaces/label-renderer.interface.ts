@@ -0,0 +1,39 @@
+/**
+ * Interfaces para los motores de renderizado de etiquetas (Labelary / local)
+ */
+
+import { PrinterDpmm } from '../enums/printer-dpmm.enum.js';
+
+/**
+ * Estrategia de renderizado de una conversión:
+ * - `labelary`: todo pasa por la cola hacia api.labelary.com (comportamiento histórico)
+ * - `local`: renderizado en proceso, sin depender de Labelary
+ * - `local_fallback`: intenta en proceso y, si el ZPL usa algo que el motor
+ *   local no soporta (o falla), reencola la petición hacia Labelary
+ */
+export type RendererMode = 'labelary' | 'local' | 'local_fallback';
+
+export const RENDERER_MODES: RendererMode[] = [
+  'labelary',
+  'local',
+  'local_fallback',
+];
+
+/**
+ * `labelSize` es siempre el tamaño canónico "WxH" en pulgadas (p. ej. "4x6" o
+ * "3.937x5.906" para una etiqueta personalizada de 100x150 mm).
+ */
+export interface LabelRenderer {
+  readonly name: 'labelary' | 'local';
+  /** Renderiza uno o más bloques ^XA...^XZ a un PDF (una página por etiqueta) */
+  renderPdf(zpl: string, labelSize: string, dpmm: PrinterDpmm): Promise<Buffer>;
+  /** Renderiza una sola etiqueta a PNG (previews) */
+  renderPng(zpl: string, labelSize: string, dpmm: PrinterDpmm): Promise<Buffer>;
+}
+
+/**
+ * Modo de renderizado cuando la petición no elige uno, el mismo para
+ * conversiones y vistas previas. Sigue en Labelary hasta validar la
+ * fidelidad del motor local.
+ */
+export const DEFAULT_RENDERER_MODE: RendererMode = 'labelary';
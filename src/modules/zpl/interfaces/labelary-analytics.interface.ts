@@ -3,6 +3,8 @@
  * Métricas agregadas por hora en GMT-6 (Mérida, México)
  */
 
+import type { LabelaryRateControlState } from './queue.interface.js';
+
 export interface HourlyLabelaryStats {
   hourKey: string; // "2025-12-23T14" (YYYY-MM-DDTHH en GMT-6)
   totalCalls: number;
@@ -14,6 +16,10 @@ export interface HourlyLabelaryStats {
   maxResponseTimeMs: number;
   labelCount: number; // Total labels procesados (incluyendo duplicados por ^PQ)
   uniqueLabelCount: number; // Labels únicos (después de deduplicación)
+  documentCacheHits: number; // Conversiones servidas enteras desde caché
+  documentCacheMisses: number;
+  blockCacheHits: number; // Labels únicos servidos desde caché
+  blockCacheMisses: number; // Labels únicos que hubo que renderizar
   updatedAt?: Date;
 }
 
@@ -75,6 +81,10 @@ export interface EfficiencyMetrics {
   uniqueLabelsConverted: number;
   deduplicationRatio: number; // porcentaje
   apiCallsSaved: number;
+  documentCacheHits: number;
+  documentCacheHitRate: number; // porcentaje
+  blockCacheHits: number;
+  blockCacheHitRate: number; // porcentaje
 }
 
 export interface SaturationMetrics {
@@ -91,5 +101,7 @@ export interface LabelaryMetricsResponse {
     weeklyHistory: DailyHistory[];
     efficiency: EfficiencyMetrics;
     saturation: SaturationMetrics;
+    /** Estado del control de ritmo de esta instancia (no agregado) */
+    rateControl: LabelaryRateControlState;
   };
 }
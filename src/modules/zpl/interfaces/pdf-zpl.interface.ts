@@ -0,0 +1,46 @@
+import type { PrinterDpmm } from '../enums/printer-dpmm.enum.js';
+import type { GraphicEncoding } from '../rendering/graphic-encoder.js';
+import type { DitherMethod } from '../rendering/monochrome.js';
+import type { LabelDimensions } from './label-dimensions.interface.js';
+
+/**
+ * Conversión de PDF a ZPL: cada página (una etiqueta de paquetería de un
+ * marketplace) se rasteriza a la resolución de la impresora y se envía como
+ * un ^GF dentro de su propio ^XA...^XZ.
+ */
+
+export const PDF_TO_ZPL_LIMITS = {
+  /** Tamaño máximo de cada PDF subido */
+  maxFileBytes: 10 * 1024 * 1024,
+  /** Páginas por solicitud, sumando todos los PDF */
+  maxPages: 100,
+  /**
+   * Lado mayor de la página rasterizada respecto al de la etiqueta. Una
+   * página más grande se rasteriza a menos resolución que la de la impresora
+   * (una hoja A4 con una etiqueta 4x6 cabe sin reducir)
+   */
+  maxPageToLabelRatio: 3,
+  /** Pixeles de una página rasterizada; por encima se rechaza el PDF */
+  maxPagePixels: 50_000_000,
+} as const;
+
+/** Giro de cada página: auto la gira 90° si su orientación no es la de la etiqueta */
+export const PDF_PAGE_ROTATIONS = ['auto', '0', '90', '180', '270'] as const;
+export type PdfPageRotation = (typeof PDF_PAGE_ROTATIONS)[number];
+
+export interface PdfToZplOptions {
+  dpmm: PrinterDpmm;
+  rotation: PdfPageRotation;
+  /** Recorta los márgenes en blanco antes de encajar la página */
+  crop: boolean;
+  dither: DitherMethod;
+  threshold: number;
+  encoding: GraphicEncoding;
+  /** Medidas originales si se pidió un tamaño personalizado */
+  labelDimensions?: LabelDimensions;
+}
+
+export interface PdfToZplFile {
+  fileName: string;
+  buffer: Buffer;
+}
@@ -0,0 +1,73 @@
+/**
+ * Streams SSE de progreso de conversiones y batches. El servidor toma una
+ * foto del estado cada cierto tiempo y solo la envía cuando cambia: de la
+ * memoria si el job se procesa en la instancia que atiende el stream, o de
+ * Firestore si lo procesa otra (en ese caso no hay posición en cola, que es
+ * por instancia).
+ */
+
+import type { ConversionStatus } from '../../cache/firestore.service.js';
+import type { QueuePositionResponse } from './queue.interface.js';
+import type { BatchFileStatus, BatchStatus } from './batch.interface.js';
+
+export const PROGRESS_STREAM = {
+  /** Cada cuánto se revisa un job que se procesa en esta instancia */
+  localIntervalMs: 1000,
+  /** Cada cuánto se consulta Firestore cuando el job está en otra instancia */
+  remoteIntervalMs: 3000,
+  /**
+   * Duración máxima de un stream, por debajo del timeout de petición de
+   * Cloud Run (5 min por defecto). Al vencer se envía `timeout` y el cliente
+   * reconecta.
+   */
+  maxDurationMs: 270 * 1000,
+} as const;
+
+export type ConversionPhase = NonNullable<ConversionStatus['phase']>;
+
+/** Posición en la cola de Labelary (solo si el job está en esta instancia) */
+export type ProgressQueueInfo = Pick<
+  QueuePositionResponse,
+  'status' | 'position' | 'estimatedWaitSeconds'
+>;
+
+export interface ConversionProgressSnapshot {
+  jobId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  phase?: ConversionPhase;
+  chunksCompleted?: number;
+  chunksTotal?: number;
+  message: string;
+  queue?: ProgressQueueInfo;
+  downloadUrl?: string;
+  filename?: string;
+  error?: string;
+}
+
+export interface BatchProgressSnapshot {
+  batchId: string;
+  status: BatchStatus;
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  files: {
+    jobId: string;
+    fileName: string;
+    status: BatchFileStatus;
+    progress: number;
+    error?: string;
+  }[];
+  /** Posición en cola del archivo en curso (solo si el batch está en esta instancia) */
+  queue?: ProgressQueueInfo;
+  downloadUrl?: string;
+}
+
+/**
+ * Foto del estado para el stream. `local` indica que salió de la memoria de
+ * esta instancia y se puede volver a tomar pronto sin costo.
+ */
+export interface ProgressSnapshot<T> {
+  value: T;
+  local: boolean;
+}
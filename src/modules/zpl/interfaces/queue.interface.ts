@@ -2,7 +2,7 @@
  * Interfaces para el sistema de cola con prioridad de Labelary
  */
 
-import { LabelSize } from '../enums/label-size.enum.js';
+import { PrinterDpmm } from '../enums/printer-dpmm.enum.js';
 
 export type QueuePriority = 'high' | 'normal';
 export type QueueItemStatus = 'queued' | 'processing' | 'completed' | 'failed';
@@ -15,7 +15,8 @@ export interface QueueItem {
   userPlan: UserPlan;
   priority: QueuePriority;
   zplBatch: string;
-  labelSize: LabelSize;
+  labelSize: string;
+  dpmm: PrinterDpmm;
   labelCount: number;
   createdAt: Date;
   attempts: number;
@@ -66,9 +67,53 @@ export const SLOT_CONFIG: SlotAllocation = {
 };
 
 export const QUEUE_CONFIG = {
-  minTimeBetweenCallsMs: 1000, // 1 segundo entre llamadas
   maxRetries: 3,
-  baseDelayMs: 2000,
-  maxDelayMs: 30000,
   estimatedSecondsPerJob: 2,
 };
+
+/**
+ * Control adaptativo del ritmo de llamadas a Labelary. El intervalo entre
+ * llamadas crece al recibir 429 y baja poco a poco mientras todo va bien;
+ * tras varios fallos seguidos el circuito se abre y las llamadas se rechazan
+ * sin salir del servidor hasta que una llamada de prueba vuelve a funcionar.
+ */
+export const RATE_CONTROL_CONFIG = {
+  /** Intervalo inicial entre llamadas (histórico: 1 por segundo) */
+  initialIntervalMs: 1000,
+  /** Ritmo máximo al que se puede llegar tanteando */
+  minIntervalMs: 250,
+  maxIntervalMs: 10000,
+  /** Un 429 multiplica el intervalo por este factor */
+  backoffFactor: 2,
+  /** Tras N éxitos seguidos sin 429 se prueba un ritmo algo mayor */
+  probeAfterSuccesses: 20,
+  probeFactor: 0.9,
+  /** Sin Retry-After: pausa global de base * 2^(429 seguidos - 1) */
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60000,
+  /** Jitter aleatorio sobre cada pausa para no sincronizar a las instancias */
+  maxJitterMs: 1000,
+  /** Fallos seguidos (429, 5xx, red) que abren el circuito */
+  failureThreshold: 5,
+  /** Tiempo abierto antes de la llamada de prueba; se duplica si falla */
+  openMs: 30000,
+  maxOpenMs: 5 * 60 * 1000,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/** Estado del control de ritmo, expuesto en /admin/labelary-metrics */
+export interface LabelaryRateControlState {
+  circuit: CircuitState;
+  /** Intervalo actual entre llamadas */
+  intervalMs: number;
+  /** Llamadas por minuto que permite el intervalo actual */
+  callsPerMinute: number;
+  /** Fin de la pausa global por 429 (ISO), si hay una vigente */
+  pausedUntil: string | null;
+  /** Momento en que el circuito abierto admitirá una llamada de prueba (ISO) */
+  openUntil: string | null;
+  consecutiveFailures: number;
+  /** Último 429 recibido (ISO) */
+  lastRateLimitAt: string | null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Caché de renderizado direccionado por contenido: el mismo ZPL con el mismo
+ * tamaño, resolución y motor produce siempre el mismo PDF, así que se guarda
+ * en Storage y se reutiliza entre conversiones y usuarios.
+ */
+
+export const RENDER_CACHE_LIMITS = {
+  /**
+   * Vigencia de una entrada; una más antigua se trata como fallo de caché y
+   * se borra al leerla. Las que nadie vuelve a leer las borra la regla de
+   * ciclo de vida del bucket (gcs-lifecycle-debug-zpl.json)
+   */
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  /** Documentos completos más grandes no se guardan */
+  maxDocumentBytes: 20 * 1024 * 1024,
+  /** PDF de una sola etiqueta; más grande suele ser una imagen ^GF enorme */
+  maxBlockBytes: 512 * 1024,
+  /**
+   * Con más etiquetas únicas se omite el caché por bloque: las lecturas a
+   * Storage costarían más que renderizar
+   */
+  maxBlocksPerJob: 500,
+  /** Lecturas/escrituras simultáneas a Storage por conversión */
+  concurrency: 16,
+} as const;
+
+export type RenderCacheLevel = 'document' | 'block';
@@ -0,0 +1,85 @@
+/**
+ * Plantillas de hoja para imprimir etiquetas en impresoras de oficina
+ * (imposición N-up). Todas las medidas en milímetros.
+ */
+
+export type SheetTemplateId = 'avery-5163' | 'letter-4x6-2up' | 'a4-3x8';
+
+export interface SheetTemplate {
+  name: string;
+  sheetWidthMm: number;
+  sheetHeightMm: number;
+  columns: number;
+  rows: number;
+  cellWidthMm: number;
+  cellHeightMm: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+  /** Separación horizontal entre columnas */
+  gutterXMm: number;
+  /** Separación vertical entre filas */
+  gutterYMm: number;
+}
+
+export const SHEET_TEMPLATES: Record<SheetTemplateId, SheetTemplate> = {
+  // Avery 5163: 10 etiquetas de 4" x 2" en Letter
+  'avery-5163': {
+    name: 'Avery 5163 (Letter, 2x5, 4" x 2")',
+    sheetWidthMm: 215.9,
+    sheetHeightMm: 279.4,
+    columns: 2,
+    rows: 5,
+    cellWidthMm: 101.6,
+    cellHeightMm: 50.8,
+    marginTopMm: 12.7,
+    marginLeftMm: 3.97,
+    gutterXMm: 4.76,
+    gutterYMm: 0,
+  },
+  // Dos etiquetas de envío 4x6 lado a lado, centradas en Letter
+  'letter-4x6-2up': {
+    name: 'Letter 2-up (4" x 6")',
+    sheetWidthMm: 215.9,
+    sheetHeightMm: 279.4,
+    columns: 2,
+    rows: 1,
+    cellWidthMm: 101.6,
+    cellHeightMm: 152.4,
+    marginTopMm: 63.5,
+    marginLeftMm: 6.35,
+    gutterXMm: 0,
+    gutterYMm: 0,
+  },
+  // Rejilla A4 de 24 etiquetas de 70 x 37 mm
+  'a4-3x8': {
+    name: 'A4 3x8 (70 x 37 mm)',
+    sheetWidthMm: 210,
+    sheetHeightMm: 297,
+    columns: 3,
+    rows: 8,
+    cellWidthMm: 70,
+    cellHeightMm: 37,
+    marginTopMm: 0.5,
+    marginLeftMm: 0,
+    gutterXMm: 0,
+    gutterYMm: 0,
+  },
+};
+
+export const SHEET_TEMPLATE_IDS = Object.keys(
+  SHEET_TEMPLATES,
+) as SheetTemplateId[];
+
+/** Opciones de imposición elegidas por el usuario */
+export interface ImpositionOptions {
+  template: SheetTemplateId;
+  /** Dibuja marcas de corte en los márgenes de la hoja */
+  cropMarks?: boolean;
+  /** Celdas ya usadas en la primera hoja (hojas parcialmente impresas) */
+  startOffset?: number;
+  /** Ajustes sobre la plantilla (p. ej. para calibrar la impresora) */
+  marginTopMm?: number;
+  marginLeftMm?: number;
+  gutterXMm?: number;
+  gutterYMm?: number;
+}
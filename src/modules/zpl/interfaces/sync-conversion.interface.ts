@@ -0,0 +1,19 @@
+/**
+ * Conversión síncrona: el archivo se devuelve en la misma respuesta HTTP, sin
+ * pasar por /status ni /download. Pensada para trabajos pequeños.
+ */
+
+export const SYNC_CONVERSION_LIMITS = {
+  /** Etiquetas (contando copias) que admite una conversión síncrona */
+  maxLabels: 50,
+  /** Tiempo máximo de renderizado antes de responder 504 */
+  timeoutMs: 25_000,
+} as const;
+
+export interface SyncConversionResult {
+  jobId: string;
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+  labelCount: number;
+}
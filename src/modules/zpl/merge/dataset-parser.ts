@@ -0,0 +1,203 @@
+/** Formatos aceptados para los datos de una combinación de plantilla */
+export const DATASET_FORMATS = ['csv', 'json'] as const;
+export type DatasetFormat = (typeof DATASET_FORMATS)[number];
+
+export type DatasetRow = Record<string, string>;
+
+export interface Dataset {
+  /** Columnas en orden: cabecera del CSV o claves de los objetos JSON */
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+export class InvalidDatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDatasetError';
+  }
+}
+
+/** Separadores de CSV habituales (Excel en español exporta con `;`) */
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Deduce el formato a partir de la extensión del archivo o, si no la hay,
+ * del primer carácter significativo.
+ */
+export function detectDatasetFormat(
+  content: string,
+  filename?: string,
+): DatasetFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv' || extension === 'txt' || extension === 'tsv') {
+    return 'csv';
+  }
+  const first = content.replace(/^\uFEFF/, '').trimStart()[0];
+  return first === '[' || first === '{' ? 'json' : 'csv';
+}
+
+/** Elige el separador que más aparece en la cabecera fuera de comillas */
+function detectDelimiter(content: string): string {
+  const counts = new Map(CSV_DELIMITERS.map((d) => [d, 0]));
+  let quoted = false;
+  for (const char of content) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char))
+      counts.set(char, counts.get(char)! + 1);
+  }
+  return [...counts.entries()].reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best,
+  )[0];
+}
+
+/**
+ * Separa un CSV en registros (RFC 4180): campos entre comillas con `""`
+ * como comilla escapada y saltos de línea dentro de comillas.
+ */
+function splitCsvRecords(
+  content: string,
+  delimiter: string,
+): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Las líneas vacías no son registros
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new InvalidDatasetError(
+      `CSV: comillas sin cerrar en el registro de la línea ${recordLine}`,
+    );
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+}
+
+function parseCsv(content: string): Dataset {
+  const [header, ...records] = splitCsvRecords(
+    content,
+    detectDelimiter(content),
+  );
+  if (!header) {
+    throw new InvalidDatasetError('CSV vacío: falta la fila de cabecera');
+  }
+
+  const columns = header.fields.map((name) => name.trim());
+  columns.forEach((name, index) => {
+    if (!name) {
+      throw new InvalidDatasetError(
+        `CSV: la columna ${index + 1} de la cabecera no tiene nombre`,
+      );
+    }
+    if (columns.indexOf(name) !== index) {
+      throw new InvalidDatasetError(`CSV: columna duplicada "${name}"`);
+    }
+  });
+
+  const rows = records.map(({ fields, line }) => {
+    if (fields.length > columns.length) {
+      throw new InvalidDatasetError(
+        `CSV: la línea ${line} tiene ${fields.length} campos y la cabecera ${columns.length}`,
+      );
+    }
+    const row: DatasetRow = Object.create(null);
+    columns.forEach((name, index) => (row[name] = fields[index] ?? ''));
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+function toCellValue(value: unknown, rowNumber: number, key: string): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    throw new InvalidDatasetError(
+      `JSON: el valor de "${key}" en la fila ${rowNumber} debe ser texto, número o booleano`,
+    );
+  }
+  return String(value);
+}
+
+function parseJson(content: string): Dataset {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new InvalidDatasetError('Los datos no son JSON válido');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new InvalidDatasetError('JSON: se esperaba un array de objetos');
+  }
+
+  const columns: string[] = [];
+  const rows = data.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new InvalidDatasetError(
+        `JSON: la fila ${index + 1} no es un objeto`,
+      );
+    }
+    const row: DatasetRow = Object.create(null);
+    for (const [key, value] of Object.entries(item)) {
+      if (!columns.includes(key)) columns.push(key);
+      row[key] = toCellValue(value, index + 1, key);
+    }
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * Convierte los datos de una combinación (CSV con cabecera o array JSON de
+ * objetos) en filas de texto. Falla si no hay ninguna fila.
+ */
+export function parseDataset(content: string, format: DatasetFormat): Dataset {
+  const text = content.replace(/^\uFEFF/, '');
+  const dataset = format === 'json' ? parseJson(text) : parseCsv(text);
+  if (dataset.rows.length === 0) {
+    throw new InvalidDatasetError('Los datos no contienen ninguna fila');
+  }
+  return dataset;
+}
@@ -0,0 +1,129 @@
+import {
+  InvalidDatasetError,
+  detectDatasetFormat,
+  parseDataset,
+} from './dataset-parser';
+import {
+  InvalidTemplateError,
+  findTemplateVariables,
+  mergeZplTemplate,
+} from './template-merge';
+
+describe('parseDataset', () => {
+  it('lee CSV con comillas, saltos de línea y separador ;', () => {
+    const dataset = parseDataset(
+      '﻿sku;nombre\r\n"A-1";"Caja ""grande"""\r\n\r\nB-2;"dos\nlíneas"\r\n',
+      'csv',
+    );
+
+    expect(dataset.columns).toEqual(['sku', 'nombre']);
+    expect(dataset.rows).toEqual([
+      { sku: 'A-1', nombre: 'Caja "grande"' },
+      { sku: 'B-2', nombre: 'dos\nlíneas' },
+    ]);
+  });
+
+  it('rechaza filas con más campos que la cabecera', () => {
+    expect(() => parseDataset('a,b\n1,2,3', 'csv')).toThrow(
+      InvalidDatasetError,
+    );
+  });
+
+  it('lee JSON como array de objetos con valores simples', () => {
+    const dataset = parseDataset('[{"sku":"A","qty":2},{"sku":"B"}]', 'json');
+
+    expect(dataset.columns).toEqual(['sku', 'qty']);
+    expect(dataset.rows[0]).toEqual({ sku: 'A', qty: '2' });
+    expect(() => parseDataset('[{"a":{"b":1}}]', 'json')).toThrow(
+      InvalidDatasetError,
+    );
+    expect(() => parseDataset('[]', 'json')).toThrow(InvalidDatasetError);
+  });
+
+  it('deduce el formato de la extensión o del contenido', () => {
+    expect(detectDatasetFormat('a,b', 'datos.json')).toBe('json');
+    expect(detectDatasetFormat(' [{"a":1}]')).toBe('json');
+    expect(detectDatasetFormat('a,b\n1,2')).toBe('csv');
+  });
+});
+
+describe('mergeZplTemplate', () => {
+  const rows = parseDataset('nombre,sku\nAna,A^1\nLuis,B_2', 'csv');
+
+  it('genera una etiqueta por fila sustituyendo {{columna}}', () => {
+    const zpl = mergeZplTemplate(
+      '^XA^FO{{ sku }},10^FD{{nombre}} ({{SKU}})^FS^XZ',
+      parseDataset('nombre,sku\nAna,15', 'csv'),
+    );
+    expect(zpl).toBe('^XA^FO15,10^FDAna (15)^FS^XZ');
+  });
+
+  it('escapa los valores que romperían el campo', () => {
+    const zpl = mergeZplTemplate(
+      '^XA^FD{{sku}}^FS^FH^FD{{sku}}^FS^XZ',
+      rows,
+    ).split('\n');
+
+    expect(zpl[0]).toBe('^XA^FH_^FDA_5E1^FS^FH^FDA_5E1^FS^XZ');
+    expect(zpl[1]).toBe('^XA^FDB_2^FS^FH^FDB_5F2^FS^XZ');
+  });
+
+  it('expande ^DF/^XF rellenando ^FN por número, prompt o valor por defecto', () => {
+    const template = [
+      '^XA^DFR:ENVIO.ZPL^FS',
+      '^FO10,10^FN1"nombre"^FS',
+      '^FO10,50^FN2^FS',
+      '^FO10,90^FN3^FS',
+      '^XZ',
+      '^XA^XFENVIO^FN3^FDFrágil^FS^PQ2^XZ',
+    ].join('\n');
+    const dataset = parseDataset('nombre,FN2\nAna,A-1', 'csv');
+
+    expect(mergeZplTemplate(template, dataset)).toBe(
+      '^XA^FO10,10^FDAna^FS^FO10,50^FDA-1^FS^FO10,90^FDFrágil^FS^PQ2^XZ',
+    );
+  });
+
+  it('con solo formatos ^DF imprime cada formato por fila', () => {
+    const zpl = mergeZplTemplate(
+      '^XA^DFETIQ^FS^FO0,0^FN1^FS^XZ',
+      parseDataset('1\nx\ny', 'csv'),
+    );
+    expect(zpl).toBe('^XA^FO0,0^FDx^FS^XZ\n^XA^FO0,0^FDy^FS^XZ');
+  });
+
+  it('no toma miembros heredados como columnas', () => {
+    const template = '^XA^DFETIQ^FS^FO0,0^FN1"toString"^FS^XZ';
+
+    expect(mergeZplTemplate(template, parseDataset('nombre\nAna', 'csv'))).toBe(
+      '^XA^FO0,0^FS^XZ',
+    );
+    expect(
+      mergeZplTemplate(
+        template,
+        parseDataset('[{"toString":"x","__proto__":"y"}]', 'json'),
+      ),
+    ).toBe('^XA^FO0,0^FDx^FS^XZ');
+  });
+
+  it('lista las variables de la plantilla', () => {
+    expect(
+      findTemplateVariables('^XA^DFA^FS^FN1"Cliente"^FS^FD{{pedido}}^FS^XZ'),
+    ).toEqual({
+      placeholders: ['pedido'],
+      fields: [{ number: 1, prompt: 'Cliente' }],
+    });
+  });
+
+  it('rechaza plantillas sin variables, columnas ausentes y formatos sin definir', () => {
+    expect(() => mergeZplTemplate('^XA^FDfijo^FS^XZ', rows)).toThrow(
+      InvalidTemplateError,
+    );
+    expect(() => mergeZplTemplate('^XA^FD{{precio}}^FS^XZ', rows)).toThrow(
+      /precio/,
+    );
+    expect(() =>
+      mergeZplTemplate('^XA^XFOTRO^FN1^FDx^FS^FD{{sku}}^FS^XZ', rows),
+    ).toThrow(/OTRO/);
+  });
+});
@@ -0,0 +1,355 @@
+import type { ZplCommandNode } from '../parser/zpl-ast.js';
+import {
+  completeLabels,
+  findCommands,
+  parseZpl,
+  serializeCommand,
+} from '../parser/zpl-parser.js';
+import type { Dataset, DatasetRow } from './dataset-parser.js';
+
+/** Límites de una combinación, independientes del plan del usuario */
+export const MERGE_LIMITS = {
+  /** Tamaño máximo del archivo de datos */
+  maxDataFileSize: 5 * 1024 * 1024,
+  maxRows: 5000,
+  /** Tamaño máximo del ZPL generado antes de encolarlo */
+  maxMergedSize: 20 * 1024 * 1024,
+};
+
+export class InvalidTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTemplateError';
+  }
+}
+
+/** Variables que usa una plantilla */
+export interface TemplateVariables {
+  /** Columnas referenciadas con {{columna}} */
+  placeholders: string[];
+  /** Campos ^FN de los formatos, con su prompt si lo tienen */
+  fields: { number: number; prompt?: string }[];
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Comandos cuyos parámetros son datos de campo, no coordenadas ni opciones */
+const FIELD_DATA_COMMANDS = new Set(['FD', 'FV']);
+
+interface ParsedTemplate {
+  /** Cuerpo de cada ^DF por nombre normalizado (sin ^XA/^XZ ni el propio ^DF) */
+  formats: Map<string, ZplCommandNode[]>;
+  /** Comandos de cada etiqueta que se imprime por fila */
+  labels: ZplCommandNode[][];
+}
+
+/**
+ * Normaliza el nombre de un formato almacenado: la unidad por defecto es R:
+ * y la extensión .ZPL, así que `^XFETIQ` recupera `^DFR:ETIQ.ZPL`.
+ */
+function formatName(params: string): string {
+  let name = params.trim().toUpperCase();
+  if (!/^[A-Z]:/.test(name)) name = `R:${name}`;
+  if (!/\.[A-Z0-9]+$/.test(name)) name = `${name}.ZPL`;
+  return name;
+}
+
+/** ^FNn"prompt" → número y prompt */
+function parseFieldNumber(
+  command: ZplCommandNode,
+): { number: number; prompt?: string } | null {
+  const match = command.params.match(/^\s*(\d+)\s*(?:"([^"]*)"?)?/);
+  if (!match) return null;
+  return { number: parseInt(match[1], 10), prompt: match[2] || undefined };
+}
+
+function parseTemplate(template: string): ParsedTemplate {
+  const formats = new Map<string, ZplCommandNode[]>();
+  const labels: ZplCommandNode[][] = [];
+
+  for (const label of completeLabels(parseZpl(template))) {
+    const [df] = findCommands(label, 'DF');
+    if (!df) {
+      labels.push(label.commands);
+      continue;
+    }
+
+    const body = label.commands.filter(
+      ({ prefix, code }) =>
+        !(prefix === '^' && (code === 'XA' || code === 'XZ' || code === 'DF')),
+    );
+    // El ^FS que cierra el ^DF no pertenece al formato
+    const dfFs = label.commands[label.commands.indexOf(df) + 1];
+    formats.set(
+      formatName(df.params),
+      body.filter((command) => command !== dfFs || command.code !== 'FS'),
+    );
+  }
+
+  return { formats, labels };
+}
+
+/**
+ * Sustituye cada ^XF por el cuerpo del formato almacenado. Los campos
+ * `^FNn^FDvalor^FS` de la etiqueta de recuperación se devuelven como valores
+ * por defecto y se quitan de la etiqueta.
+ */
+function expandRecall(
+  commands: ZplCommandNode[],
+  formats: Map<string, ZplCommandNode[]>,
+): { commands: ZplCommandNode[]; defaults: Map<number, ZplCommandNode> } {
+  const defaults = new Map<number, ZplCommandNode>();
+  if (!commands.some((c) => c.prefix === '^' && c.code === 'XF')) {
+    return { commands, defaults };
+  }
+
+  const expanded: ZplCommandNode[] = [];
+  let field: ZplCommandNode[] | null = null;
+  let fieldNumber: number | undefined;
+
+  for (const command of commands) {
+    if (command.prefix === '^' && command.code === 'XF') {
+      const format = formats.get(formatName(command.params));
+      if (!format) {
+        throw new InvalidTemplateError(
+          `^XF${command.params}: el formato no está definido con ^DF en la plantilla`,
+        );
+      }
+      expanded.push(...format);
+      continue;
+    }
+
+    if (command.prefix === '^' && command.code === 'FN') {
+      field = [command];
+      fieldNumber = parseFieldNumber(command)?.number;
+      continue;
+    }
+    if (field) {
+      field.push(command);
+      if (command.prefix === '^' && FIELD_DATA_COMMANDS.has(command.code)) {
+        if (fieldNumber !== undefined) defaults.set(fieldNumber, command);
+      }
+      if (command.prefix === '^' && command.code === 'FS') {
+        // Un ^FN sin datos en la etiqueta de recuperación se conserva
+        if (fieldNumber === undefined || !defaults.has(fieldNumber)) {
+          expanded.push(...field);
+        }
+        field = null;
+      }
+      continue;
+    }
+    expanded.push(command);
+  }
+
+  if (field) expanded.push(...field);
+  return { commands: expanded, defaults };
+}
+
+/**
+ * Valor de una columna; las mayúsculas solo desempatan si no hay coincidencia
+ * exacta. Solo propias: `toString` o `constructor` no son columnas.
+ */
+function lookupColumn(row: DatasetRow, column: string): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(row, column)) return row[column];
+  const lower = column.toLowerCase();
+  const key = Object.keys(row).find((k) => k.toLowerCase() === lower);
+  return key === undefined ? undefined : row[key];
+}
+
+/** ^FN1 se rellena con la columna `1`, `FN1` o con la del prompt */
+function lookupField(
+  row: DatasetRow,
+  field: { number: number; prompt?: string },
+): string | undefined {
+  return (
+    lookupColumn(row, String(field.number)) ??
+    lookupColumn(row, `FN${field.number}`) ??
+    (field.prompt ? lookupColumn(row, field.prompt) : undefined)
+  );
+}
+
+/**
+ * Prepara un valor para un campo de datos: los saltos de línea no existen en
+ * ZPL y, con ^FH activo, el propio indicador se escapa para que el valor se
+ * imprima tal cual. El `^` literal lo escapa serializeCommand.
+ */
+function fieldValue(value: string, hexIndicator?: string): string {
+  const text = value.replace(/\r?\n|\r/g, ' ');
+  if (!hexIndicator) return text;
+  const hex = hexIndicator.charCodeAt(0).toString(16).toUpperCase();
+  return text.split(hexIndicator).join(`${hexIndicator}${hex}`);
+}
+
+/** Fuera de los datos de campo un valor no puede abrir comandos ni parámetros */
+function parameterValue(value: string): string {
+  return value.replace(/[\^~,\r\n]/g, '');
+}
+
+function replacePlaceholders(
+  text: string,
+  row: DatasetRow,
+  escape: (value: string) => string,
+): string {
+  return text.replace(PLACEHOLDER, (_, column: string) =>
+    escape(lookupColumn(row, column) ?? ''),
+  );
+}
+
+/** Etiqueta de una fila en sintaxis estándar */
+function renderLabel(
+  commands: ZplCommandNode[],
+  defaults: Map<number, ZplCommandNode>,
+  row: DatasetRow,
+): string {
+  const output: string[] = [];
+  let hexIndicator: string | undefined;
+  let filledField = false;
+
+  for (const command of commands) {
+    if (command.prefix === '^' && command.code === 'FH') {
+      hexIndicator = (command.params[0] || '_').trim() || '_';
+    }
+
+    if (command.prefix === '^' && command.code === 'FN') {
+      const field = parseFieldNumber(command);
+      const value = field ? lookupField(row, field) : undefined;
+      if (value !== undefined) {
+        const data = fieldValue(value, hexIndicator);
+        output.push(
+          serializeCommand({
+            ...command,
+            code: 'FD',
+            params: data,
+            args: [data],
+            hexIndicator,
+          }),
+        );
+        filledField = true;
+      } else {
+        const fallback = field && defaults.get(field.number);
+        if (fallback) output.push(serializeCommand(fallback));
+        filledField = !!fallback;
+      }
+      continue;
+    }
+
+    if (command.prefix === '^' && command.code === 'FS') {
+      hexIndicator = undefined;
+      filledField = false;
+    }
+
+    const isFieldData =
+      command.prefix === '^' && FIELD_DATA_COMMANDS.has(command.code);
+    // Los datos que traiga el formato tras un ^FN rellenado se sustituyen
+    if (isFieldData && filledField) continue;
+
+    if (!command.params.includes('{{')) {
+      output.push(serializeCommand(command));
+    } else if (isFieldData) {
+      const params = replacePlaceholders(command.params, row, (value) =>
+        fieldValue(value, command.hexIndicator),
+      );
+      output.push(serializeCommand({ ...command, params, args: [params] }));
+    } else {
+      const args = command.args.map((arg) =>
+        replacePlaceholders(arg, row, parameterValue),
+      );
+      output.push(
+        serializeCommand({ ...command, params: args.join(','), args }),
+      );
+    }
+  }
+
+  return output.join('');
+}
+
+/**
+ * Lista las variables de una plantilla: columnas {{columna}} y campos ^FN
+ */
+export function findTemplateVariables(template: string): TemplateVariables {
+  const placeholders: string[] = [];
+  const fields: TemplateVariables['fields'] = [];
+  const document = parseZpl(template);
+
+  for (const command of document.commands) {
+    if (command.prefix !== '^') continue;
+    if (command.code === 'FN') {
+      const field = parseFieldNumber(command);
+      if (field && !fields.some((f) => f.number === field.number)) {
+        fields.push(field);
+      }
+    }
+    for (const [, column] of command.params.matchAll(PLACEHOLDER)) {
+      if (!placeholders.includes(column)) placeholders.push(column);
+    }
+  }
+
+  return { placeholders, fields };
+}
+
+/**
+ * Combina una plantilla ZPL con un conjunto de datos: genera, por cada fila,
+ * todas las etiquetas de la plantilla con las variables sustituidas.
+ *
+ * Admite dos sintaxis que pueden mezclarse:
+ * - `{{columna}}` en cualquier parámetro (en ^FD/^FV el valor se imprime tal
+ *   cual; en el resto se eliminan `^`, `~` y `,`).
+ * - Formatos almacenados: `^DF` define el formato y `^XF` lo recupera. Cada
+ *   `^FNn` se rellena con la columna `n`, `FNn` o la del prompt
+ *   (`^FN1"Nombre"`); si la fila no la trae se usa el `^FNn^FD...` de la
+ *   etiqueta de recuperación. Si la plantilla solo define formatos, cada
+ *   formato es una etiqueta.
+ *
+ * El resultado es ZPL autocontenido (sin ^DF/^XF), de modo que cada etiqueta
+ * se puede renderizar, deduplicar y repartir en chunks por separado.
+ */
+export function mergeZplTemplate(template: string, dataset: Dataset): string {
+  const { formats, labels } = parseTemplate(template);
+  const { placeholders, fields } = findTemplateVariables(template);
+
+  if (placeholders.length === 0 && fields.length === 0) {
+    throw new InvalidTemplateError(
+      'La plantilla no contiene variables: use {{columna}} o campos ^FN en un formato ^DF',
+    );
+  }
+
+  const missing = placeholders.filter(
+    (column) =>
+      !dataset.columns.some((c) => c.toLowerCase() === column.toLowerCase()),
+  );
+  if (missing.length > 0) {
+    throw new InvalidTemplateError(
+      `Los datos no tienen las columnas usadas en la plantilla: ${missing.join(', ')}`,
+    );
+  }
+
+  if (dataset.rows.length > MERGE_LIMITS.maxRows) {
+    throw new InvalidTemplateError(
+      `Los datos tienen ${dataset.rows.length} filas; el máximo por combinación es ${MERGE_LIMITS.maxRows}`,
+    );
+  }
+
+  const templateLabels =
+    labels.length > 0 ? labels : [...formats.values()].map((body) => [...body]);
+  const expanded = templateLabels.map((commands) =>
+    expandRecall(commands, formats),
+  );
+  // Las etiquetas generadas a partir de solo formatos no llevan ^XA/^XZ
+  const wrap = labels.length === 0;
+
+  const estimatedSize = template.length * dataset.rows.length;
+  if (estimatedSize > MERGE_LIMITS.maxMergedSize) {
+    throw new InvalidTemplateError(
+      'La combinación generaría demasiado ZPL: reduzca las filas o el tamaño de la plantilla',
+    );
+  }
+
+  const merged: string[] = [];
+  for (const row of dataset.rows) {
+    for (const { commands, defaults } of expanded) {
+      const label = renderLabel(commands, defaults, row);
+      merged.push(wrap ? `^XA${label}^XZ` : label);
+    }
+  }
+  return merged.join('\n');
+}
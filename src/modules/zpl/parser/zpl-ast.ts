@@ -0,0 +1,52 @@
+/**
+ * AST de ZPL compartido por conversión, conteo, validación y renderizado.
+ * Las posiciones se refieren siempre al texto original completo.
+ */
+
+/** Prefijo canónico: `^` comandos de formato, `~` comandos de control */
+export type ZplPrefix = '^' | '~';
+
+export interface ZplSourceRange {
+  /** Desplazamiento del primer carácter en el texto original */
+  offset: number;
+  /** Desplazamiento siguiente al último carácter */
+  end: number;
+  /** Línea (desde 1) del primer carácter */
+  line: number;
+  /** Columna (desde 1) del primer carácter */
+  column: number;
+}
+
+export interface ZplCommandNode extends ZplSourceRange {
+  /** `comment` para ^FX; el resto son comandos normales */
+  kind: 'command' | 'comment';
+  prefix: ZplPrefix;
+  /** Código en mayúsculas sin prefijo: 'FO', 'XA', 'JA'... Las fuentes son 'A' */
+  code: string;
+  /** Parámetros tal cual, sin saltos de línea (la impresora los ignora) */
+  params: string;
+  /** Parámetros separados por el delimitador vigente (^CD) */
+  args: string[];
+  /** Texto original del comando, con el prefijo que estuviera activo */
+  raw: string;
+  /** ^FD/^FV: datos del campo con los escapes de ^FH ya decodificados */
+  fieldData?: string;
+  /** ^FD/^FV: indicador de ^FH vigente para el campo, si lo hay */
+  hexIndicator?: string;
+}
+
+export interface ZplLabelNode extends ZplSourceRange {
+  /** Comandos desde ^XA hasta ^XZ, ambos incluidos */
+  commands: ZplCommandNode[];
+  /** false si el texto termina sin cerrar la etiqueta con ^XZ */
+  terminated: boolean;
+}
+
+export interface ZplDocument {
+  source: string;
+  /** Todos los comandos, incluidos los de fuera de ^XA...^XZ */
+  commands: ZplCommandNode[];
+  labels: ZplLabelNode[];
+  /** Desplazamiento de inicio de cada línea, para ubicar posiciones */
+  lineStarts: number[];
+}
@@ -0,0 +1,150 @@
+import {
+  completeLabels,
+  decodeHexEscapes,
+  findCommands,
+  labelProducesOutput,
+  labelSource,
+  locateOffset,
+  normalizeZplSyntax,
+  parseZpl,
+  serializeLabel,
+} from './zpl-parser';
+
+describe('parseZpl', () => {
+  it('separa comandos con su posición, línea y columna', () => {
+    const document = parseZpl('^XA\n^FO10,20^FDHola^FS\n^XZ');
+    const fo = document.commands[1];
+
+    expect(document.commands.map((c) => c.code)).toEqual([
+      'XA',
+      'FO',
+      'FD',
+      'FS',
+      'XZ',
+    ]);
+    expect(fo).toMatchObject({
+      prefix: '^',
+      params: '10,20',
+      args: ['10', '20'],
+      offset: 4,
+      line: 2,
+      column: 1,
+    });
+    expect(document.commands[4].line).toBe(3);
+  });
+
+  it('agrupa las etiquetas de ^XA a ^XZ ignorando el texto intermedio', () => {
+    const source = '^FX hoja\n^XA^FO0,0^FDa^FS^XZ\nbasura\n^XA^FDb^FS';
+    const document = parseZpl(source);
+
+    expect(document.labels).toHaveLength(2);
+    expect(labelSource(document, document.labels[0])).toBe(
+      '^XA^FO0,0^FDa^FS^XZ',
+    );
+    expect(document.labels[1].terminated).toBe(false);
+    expect(completeLabels(document)).toHaveLength(1);
+    expect(document.commands[0].kind).toBe('comment');
+  });
+
+  it('mantiene un ^XA anidado dentro de la etiqueta abierta', () => {
+    const [label] = parseZpl('^XA^FDa^FS^XA^FDb^FS^XZ').labels;
+    expect(findCommands(label, 'XA')).toHaveLength(2);
+    expect(label.terminated).toBe(true);
+  });
+
+  it('distingue comandos de control y permite ~ dentro de ^FD', () => {
+    const document = parseZpl('~SD15^XA^FO0,0^FDA~B^FS~JA^XZ');
+    const [sd, , , fd, , ja] = document.commands;
+
+    expect(sd).toMatchObject({ prefix: '~', code: 'SD', params: '15' });
+    expect(fd.params).toBe('A~B');
+    expect(ja).toMatchObject({ prefix: '~', code: 'JA' });
+  });
+
+  it('trata ^A como fuente con el nombre en los parámetros', () => {
+    const [, font] = parseZpl('^XA^A0N,30,20^XZ').commands;
+    expect(font).toMatchObject({ code: 'A', params: '0N,30,20' });
+  });
+
+  it('respeta los cambios de prefijo y delimitador (^CC/~CT/^CD)', () => {
+    const document = parseZpl('^XA^CC++CD;+FO10;20+FDx+FS~CT#+PQ2#JA+XZ');
+
+    expect(document.commands.map((c) => `${c.prefix}${c.code}`)).toEqual([
+      '^XA',
+      '^CC',
+      '^CD',
+      '^FO',
+      '^FD',
+      '^FS',
+      '~CT',
+      '^PQ',
+      '~JA',
+      '^XZ',
+    ]);
+    expect(document.commands[3].args).toEqual(['10', '20']);
+    expect(document.labels[0].terminated).toBe(true);
+  });
+
+  it('decodifica los escapes de ^FH solo dentro de su campo', () => {
+    const document = parseZpl(
+      '^XA^CI28^FH^FDCaf_C3_A9^FS^FD_41^FS^FH#^FD#41^FS^XZ',
+    );
+    const data = findCommands(document.labels[0], 'FD').map((c) => c.fieldData);
+    expect(data).toEqual(['Café', '_41', 'A']);
+  });
+
+  it('ubica desplazamientos en líneas y columnas', () => {
+    const document = parseZpl('^XA\r\n^FO1,1\r\n^XZ');
+    expect(locateOffset(document, 0)).toEqual({ line: 1, column: 1 });
+    expect(locateOffset(document, 7)).toEqual({ line: 2, column: 3 });
+  });
+});
+
+describe('decodeHexEscapes', () => {
+  it('usa latin-1 salvo que ^CI28 pida UTF-8', () => {
+    expect(decodeHexEscapes('_E9', '_', false)).toBe('é');
+    expect(decodeHexEscapes('_C3_A9', '_', true)).toBe('é');
+  });
+});
+
+describe('labelProducesOutput', () => {
+  const producesOutput = (zpl: string) =>
+    labelProducesOutput(parseZpl(zpl).labels[0]);
+
+  it('no cuenta como salida los bloques de configuración', () => {
+    expect(producesOutput('^XA^MCY^XZ')).toBe(false);
+    expect(producesOutput('^XA^BY2,3,100^FXcomentario ~JA^FS^XZ')).toBe(false);
+  });
+
+  it('reconoce salida aunque el prefijo haya cambiado', () => {
+    expect(producesOutput('^XA^CC+ +FO0,0+GB10,10,1+FS+XZ')).toBe(true);
+  });
+});
+
+describe('normalización de sintaxis', () => {
+  it('reescribe prefijos y delimitador redefinidos en sintaxis estándar', () => {
+    expect(
+      normalizeZplSyntax('^XA^CC++CD;+FO10;20+FDa,b+FS~CT#+PQ2#JA+XZ'),
+    ).toBe('^XA^FO10,20^FDa,b^FS^PQ2~JA^XZ');
+  });
+
+  it('acepta ^CC~ (mismo carácter para formato y control)', () => {
+    const document = parseZpl('^CC~~XA~FO0,0~FDhola~FS~XZ');
+    expect(document.labels).toHaveLength(1);
+    expect(serializeLabel(document.labels[0])).toBe('^XA^FO0,0^FDhola^FS^XZ');
+  });
+
+  it('escapa con ^FH un ^ literal en los datos', () => {
+    expect(normalizeZplSyntax('~CC+ +XA+FDa^b_c+FS+XZ')).toBe(
+      '^XA^FH#^FDa#5Eb_c^FS^XZ',
+    );
+    expect(normalizeZplSyntax('^CC+ +XA+FH+FDa^b+FS+XZ')).toBe(
+      '^XA^FH^FDa_5Eb^FS^XZ',
+    );
+  });
+
+  it('deja intacto el ZPL que no redefine nada', () => {
+    const zpl = '^XA^FO50,50^A0N,30,30^FH^FD_41~B^FS^XZ';
+    expect(normalizeZplSyntax(zpl)).toBe(zpl);
+  });
+});
@@ -0,0 +1,322 @@
+import type {
+  ZplCommandNode,
+  ZplDocument,
+  ZplLabelNode,
+  ZplPrefix,
+} from './zpl-ast.js';
+
+/** Sus datos solo terminan en el siguiente `^`: pueden contener `~` */
+const DATA_COMMANDS = new Set(['FD', 'FV', 'FX']);
+
+/** ^CC/^CT/^CD (y sus variantes ~) cambian un carácter de la sintaxis */
+const SYNTAX_COMMANDS = new Set(['CC', 'CT', 'CD']);
+
+/** Lo que sigue a estos comandos hasta el próximo prefijo es ruido */
+const PARAMETERLESS_COMMANDS = new Set(['XA', 'XZ']);
+
+/** Comandos que dibujan algo además de los códigos de barras */
+const OUTPUT_COMMANDS = new Set([
+  'FD',
+  'FV',
+  'SN',
+  'GB',
+  'GC',
+  'GD',
+  'GE',
+  'GF',
+  'GS',
+  'XG',
+  'IM',
+]);
+
+interface SyntaxState {
+  caret: string;
+  tilde: string;
+  delimiter: string;
+  /** Indicador de ^FH del campo en curso (se reinicia en ^FS) */
+  hexIndicator?: string;
+  /** ^CI28-30: los escapes de ^FH forman secuencias UTF-8 */
+  utf8: boolean;
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Línea y columna (desde 1) de un desplazamiento del texto original
+ */
+export function locateOffset(
+  document: Pick<ZplDocument, 'lineStarts'>,
+  offset: number,
+): { line: number; column: number } {
+  const { lineStarts } = document;
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+/**
+ * Decodifica los escapes de ^FH (`_41` → `A`). Con ^CI28 varios escapes
+ * consecutivos forman un solo carácter UTF-8.
+ */
+export function decodeHexEscapes(
+  raw: string,
+  indicator: string,
+  utf8: boolean,
+): string {
+  const escaped = new RegExp(
+    `${indicator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([0-9A-Fa-f]{2})`,
+    'g',
+  );
+
+  if (!utf8) {
+    return raw.replace(escaped, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+  }
+
+  const parts: Buffer[] = [];
+  let last = 0;
+  for (const match of raw.matchAll(escaped)) {
+    parts.push(Buffer.from(raw.slice(last, match.index), 'utf8'));
+    parts.push(Buffer.from([parseInt(match[1], 16)]));
+    last = match.index + match[0].length;
+  }
+  parts.push(Buffer.from(raw.slice(last), 'utf8'));
+  return Buffer.concat(parts).toString('utf8');
+}
+
+function nextPrefix(source: string, from: number, state: SyntaxState): number {
+  for (let i = from; i < source.length; i++) {
+    if (source[i] === state.caret || source[i] === state.tilde) return i;
+  }
+  return -1;
+}
+
+/**
+ * Aplica los efectos del comando sobre el estado de la sintaxis y de los
+ * campos. Como en la impresora, el estado persiste entre etiquetas.
+ */
+function applySyntax(command: ZplCommandNode, state: SyntaxState): void {
+  switch (command.code) {
+    case 'CC':
+      if (command.params) state.caret = command.params;
+      break;
+    case 'CT':
+      if (command.params) state.tilde = command.params;
+      break;
+    case 'CD':
+      if (command.params) state.delimiter = command.params;
+      break;
+    case 'FH':
+      state.hexIndicator = (command.params[0] || '_').trim() || '_';
+      break;
+    case 'FS':
+      state.hexIndicator = undefined;
+      break;
+    case 'CI': {
+      const charset = parseInt(command.args[0], 10);
+      state.utf8 = charset >= 28 && charset <= 30;
+      break;
+    }
+  }
+}
+
+/**
+ * Tokeniza y estructura un texto ZPL. Soporta los cambios de prefijo y de
+ * delimitador (^CC/^CT/^CD), comandos de control (~), comentarios (^FX) y los
+ * escapes hexadecimales de ^FH. El texto fuera de los comandos se ignora,
+ * igual que en la impresora.
+ *
+ * Las etiquetas van de ^XA al siguiente ^XZ; un ^XA anidado queda dentro de la
+ * etiqueta abierta (el validador de estructura lo reporta).
+ */
+export function parseZpl(source: string): ZplDocument {
+  const lineStarts = computeLineStarts(source);
+  const commands: ZplCommandNode[] = [];
+  const labels: ZplLabelNode[] = [];
+  const state: SyntaxState = {
+    caret: '^',
+    tilde: '~',
+    delimiter: ',',
+    utf8: false,
+  };
+  let label: ZplLabelNode | null = null;
+
+  let start = nextPrefix(source, 0, state);
+  while (start !== -1) {
+    const prefix: ZplPrefix = source[start] === state.caret ? '^' : '~';
+    const isFontCommand =
+      prefix === '^' && (source[start + 1] || '').toUpperCase() === 'A';
+    const code = isFontCommand
+      ? 'A'
+      : source.slice(start + 1, start + 3).toUpperCase();
+    const paramsStart = start + 1 + code.length;
+
+    let end = paramsStart;
+    if (SYNTAX_COMMANDS.has(code)) {
+      end = Math.min(paramsStart + 1, source.length);
+    } else if (prefix === '^' && PARAMETERLESS_COMMANDS.has(code)) {
+      end = paramsStart;
+    } else {
+      const stopAtTilde = !(prefix === '^' && DATA_COMMANDS.has(code));
+      while (
+        end < source.length &&
+        source[end] !== state.caret &&
+        (!stopAtTilde || source[end] !== state.tilde)
+      ) {
+        end++;
+      }
+    }
+
+    const params = source.slice(paramsStart, end).replace(/[\r\n]/g, '');
+    const command: ZplCommandNode = {
+      kind: prefix === '^' && code === 'FX' ? 'comment' : 'command',
+      prefix,
+      code,
+      params,
+      args: params.split(state.delimiter),
+      raw: source.slice(start, end),
+      offset: start,
+      end,
+      ...locateOffset({ lineStarts }, start),
+    };
+    if (prefix === '^' && (code === 'FD' || code === 'FV')) {
+      command.hexIndicator = state.hexIndicator;
+      command.fieldData = state.hexIndicator
+        ? decodeHexEscapes(params, state.hexIndicator, state.utf8)
+        : params;
+    }
+    applySyntax(command, state);
+    commands.push(command);
+
+    if (prefix === '^' && code === 'XA' && !label) {
+      label = {
+        commands: [],
+        terminated: false,
+        offset: command.offset,
+        end: command.end,
+        line: command.line,
+        column: command.column,
+      };
+      labels.push(label);
+    }
+    if (label) {
+      label.commands.push(command);
+      label.end = command.end;
+      if (prefix === '^' && code === 'XZ') {
+        label.terminated = true;
+        label = null;
+      }
+    }
+
+    start = nextPrefix(source, end, state);
+  }
+
+  return { source, commands, labels, lineStarts };
+}
+
+/** Indicadores de ^FH candidatos al escapar un `^` literal en los datos */
+const HEX_INDICATOR_CANDIDATES = ['_', '#', '%', '!', '&', '@'];
+
+/**
+ * Reescribe un comando con la sintaxis estándar (`^`, `~` y `,`), que es la
+ * única que entienden Labelary y el renderizador local. Los propios
+ * ^CC/^CT/^CD desaparecen. Un `^` literal en los datos de un campo (posible
+ * tras un ^CC) se escapa con ^FH para que no abra un comando nuevo.
+ */
+export function serializeCommand(command: ZplCommandNode): string {
+  if (SYNTAX_COMMANDS.has(command.code)) {
+    return '';
+  }
+
+  const isData = command.prefix === '^' && DATA_COMMANDS.has(command.code);
+  if (!isData) {
+    return `${command.prefix}${command.code}${command.args.join(',')}`;
+  }
+
+  if (!command.params.includes('^')) {
+    return `^${command.code}${command.params}`;
+  }
+  // En un comentario basta con quitarlo
+  if (command.code === 'FX') {
+    return `^FX${command.params.replace(/\^/g, '')}`;
+  }
+
+  const indicator =
+    command.hexIndicator ??
+    HEX_INDICATOR_CANDIDATES.find((c) => !command.params.includes(c)) ??
+    '_';
+  const escaped = command.params.replace(/\^/g, `${indicator}5E`);
+  const fieldHex = command.hexIndicator ? '' : `^FH${indicator}`;
+  return `${fieldHex}^${command.code}${escaped}`;
+}
+
+/** Etiqueta en sintaxis estándar, de ^XA a ^XZ */
+export function serializeLabel(label: ZplLabelNode): string {
+  return label.commands.map(serializeCommand).join('');
+}
+
+/**
+ * Normaliza un texto ZPL completo a la sintaxis estándar. Descarta el texto
+ * que no forma parte de ningún comando.
+ */
+export function normalizeZplSyntax(source: string): string {
+  return parseZpl(source).commands.map(serializeCommand).join('');
+}
+
+/** Etiquetas cerradas con ^XZ: las únicas que imprime la impresora */
+export function completeLabels(document: ZplDocument): ZplLabelNode[] {
+  return document.labels.filter((label) => label.terminated);
+}
+
+/** Texto original de la etiqueta, de ^XA a ^XZ */
+export function labelSource(
+  document: ZplDocument,
+  label: ZplLabelNode,
+): string {
+  return document.source.slice(label.offset, label.end);
+}
+
+/** Comandos de formato (^) con el código indicado */
+export function findCommands(
+  label: ZplLabelNode,
+  code: string,
+): ZplCommandNode[] {
+  return label.commands.filter(
+    (command) => command.prefix === '^' && command.code === code,
+  );
+}
+
+/**
+ * Indica si una etiqueta genera página en Labelary/la impresora. Labelary
+ * omite los bloques `^XA...^XZ` de pura configuración (p. ej. `^XA^MCY^XZ`);
+ * contarlos desalinea el mapeo de páginas al reconstruir el PDF.
+ *
+ * Una etiqueta dibuja contenido si incluye al menos un comando de salida
+ * visible: datos de campo (`^FD`/`^FV`), datos serializados que se imprimen
+ * sin `^FD` (`^SN`), primitivas gráficas (`^GB`/`^GC`/`^GD`/`^GE`/`^GF`/`^GS`),
+ * imágenes (`^XG`/`^IM`) o un código de barras real (`^BC`, `^BX`, `^B3`...).
+ *
+ * `^BY` (Bar Code Field Default) se excluye de forma explícita: aunque empieza
+ * con `B`, es solo configuración de los códigos de barras y no dibuja nada por
+ * sí mismo, así que no debe mantener viva una etiqueta vacía.
+ */
+export function labelProducesOutput(label: ZplLabelNode): boolean {
+  return label.commands.some(
+    ({ prefix, code }) =>
+      prefix === '^' &&
+      (OUTPUT_COMMANDS.has(code) ||
+        (/^B[0-9A-Z]$/.test(code) && code !== 'BY')),
+  );
+}
@@ -0,0 +1,76 @@
+import { parseZpl } from './zpl-parser';
+import {
+  expandLabelCopies,
+  incrementSerialField,
+  readPrintQuantity,
+  serialNumberValue,
+  serialVariantCount,
+} from './zpl-serialization';
+
+const label = (zpl: string) => parseZpl(zpl).labels[0];
+
+describe('readPrintQuantity', () => {
+  it('lee cantidad, pausa, réplicas y override de ^PQ', () => {
+    expect(readPrintQuantity(label('^XA^FDa^FS^PQ10,5,1,Y^XZ'))).toEqual({
+      quantity: 10,
+      pauseCount: 5,
+      replicates: 1,
+      overridePause: true,
+    });
+  });
+
+  it('sin ^PQ o con valores inválidos imprime una copia', () => {
+    expect(readPrintQuantity(label('^XA^FDa^FS^XZ')).quantity).toBe(1);
+    expect(readPrintQuantity(label('^XA^PQ0^XZ')).quantity).toBe(1);
+  });
+});
+
+describe('serialNumberValue', () => {
+  it('incrementa la última secuencia de dígitos', () => {
+    expect(serialNumberValue(['A-009', '1', 'Y'], 2)).toBe('A-011');
+    expect(serialNumberValue(['A-009', '1', 'N'], 2)).toBe('A-11');
+    expect(serialNumberValue(['100X', '5'], 1)).toBe('105X');
+    expect(serialNumberValue(['10', '-1', 'Y'], 3)).toBe('07');
+  });
+});
+
+describe('incrementSerialField', () => {
+  it('aplica la máscara con acarreo en la base de cada posición', () => {
+    expect(incrementSerialField('AB09', ['%%DD', '1'], 1)).toBe('AB10');
+    expect(incrementSerialField('A9Z', ['%DA', '1'], 1)).toBe('A0A');
+    expect(incrementSerialField('0F', ['HH', '1'], 1)).toBe('10');
+    expect(incrementSerialField('az', ['aa', '1'], 1)).toBe('ba');
+  });
+
+  it('deja intactas las posiciones fuera de la máscara', () => {
+    expect(incrementSerialField('XY99', ['DD', '1'], 1)).toBe('XY00');
+  });
+});
+
+describe('expandLabelCopies', () => {
+  it('sin serialización devuelve una sola página con todas las copias', () => {
+    expect(expandLabelCopies(label('^XA^FDa^FS^PQ4^XZ'))).toEqual([
+      { zpl: '^XA^FDa^FS^XZ', copies: 4 },
+    ]);
+  });
+
+  it('genera una variante por número de serie de ^SF', () => {
+    const variants = expandLabelCopies(
+      label('^XA^FO0,0^FDCaja 08^SF%%%%%DD,2^FS^PQ3^XZ'),
+    );
+    expect(variants).toEqual([
+      { zpl: '^XA^FO0,0^FDCaja 08^FS^XZ', copies: 1 },
+      { zpl: '^XA^FO0,0^FDCaja 10^FS^XZ', copies: 1 },
+      { zpl: '^XA^FO0,0^FDCaja 12^FS^XZ', copies: 1 },
+    ]);
+  });
+});
+
+describe('serialVariantCount', () => {
+  it('cuenta los números de serie sin generar las variantes', () => {
+    expect(serialVariantCount(label('^XA^FDa^FS^PQ99999999^XZ'))).toBe(1);
+    expect(
+      serialVariantCount(label('^XA^SN0001,1,Y^FS^PQ99999999,0,1^XZ')),
+    ).toBe(50000000);
+  });
+});
@@ -0,0 +1,204 @@
+import type { ZplCommandNode, ZplLabelNode } from './zpl-ast.js';
+import { findCommands, serializeCommand } from './zpl-parser.js';
+
+/** Parámetros de ^PQq,p,r,o */
+export interface PrintQuantity {
+  /** Total de etiquetas a imprimir */
+  quantity: number;
+  /** Etiquetas entre pausas (0 = sin pausa). No afecta al PDF */
+  pauseCount: number;
+  /** Repeticiones de cada número de serie antes de incrementarlo */
+  replicates: number;
+  /** o = Y: la impresora no se detiene en las pausas */
+  overridePause: boolean;
+}
+
+/** Una página distinta de la etiqueta y cuántas veces se imprime */
+export interface LabelVariant {
+  zpl: string;
+  copies: number;
+}
+
+/**
+ * Tope de páginas distintas que puede generar la serialización de un ZPL,
+ * independiente del plan: cada número de serie se construye y renderiza por
+ * separado, así que un ^PQ enorme con ^SN bloquearía el proceso
+ */
+export const SERIALIZATION_LIMITS = {
+  maxVariants: 10000,
+};
+
+/** Alfabeto de cada carácter de máscara de ^SF */
+const SF_MASK_ALPHABETS: Record<string, string> = {
+  D: '0123456789',
+  H: '0123456789ABCDEF',
+  O: '01234567',
+  A: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  N: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+};
+
+function toCount(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * Lee el primer ^PQ de la etiqueta. Sin ^PQ se imprime una sola copia.
+ */
+export function readPrintQuantity(label: ZplLabelNode): PrintQuantity {
+  const [pq] = findCommands(label, 'PQ');
+  const args = pq?.args ?? [];
+  return {
+    quantity: toCount(args[0], 1) || 1,
+    pauseCount: toCount(args[1], 0),
+    replicates: toCount(args[2], 0),
+    overridePause: (args[3] || '').trim().toUpperCase() === 'Y',
+  };
+}
+
+/** Indica si la etiqueta cambia entre copias (^SN o ^SF) */
+export function isSerialized(label: ZplLabelNode): boolean {
+  return label.commands.some(
+    ({ prefix, code }) => prefix === '^' && (code === 'SN' || code === 'SF'),
+  );
+}
+
+/**
+ * Páginas distintas que produce la etiqueta, sin construirlas: una por número
+ * de serie (cada una se repite `replicates + 1` veces) o una sola si no está
+ * serializada
+ */
+export function serialVariantCount(label: ZplLabelNode): number {
+  if (!isSerialized(label)) return 1;
+  const { quantity, replicates } = readPrintQuantity(label);
+  return Math.ceil(quantity / (replicates + 1));
+}
+
+/**
+ * Valor de ^SNv,n,z tras `step` incrementos: se incrementa la última
+ * secuencia de dígitos de v. Con z = Y se rellena con ceros hasta el ancho
+ * original.
+ */
+export function serialNumberValue(args: string[], step: number): string {
+  const start = args[0] ?? '';
+  const increment = parseInt(args[1] ?? '', 10);
+  const zeroPad = (args[2] || '').trim().toUpperCase() === 'Y';
+
+  const match = start.match(/(\d+)(\D*)$/);
+  if (!match || match.index === undefined) return start;
+
+  const digits = match[1];
+  const value =
+    parseInt(digits, 10) + step * (Number.isNaN(increment) ? 1 : increment);
+  const text = String(Math.abs(value));
+  const number = zeroPad ? text.padStart(digits.length, '0') : text;
+  return (
+    start.slice(0, match.index) + (value < 0 ? '-' : '') + number + match[2]
+  );
+}
+
+/**
+ * Aplica `step` incrementos de ^SFa,b a los datos de un campo. La máscara se
+ * alinea a la derecha: cada posición cuenta en su propia base (D decimal,
+ * H hexadecimal, O octal, A letras, N alfanumérico) y `%` se salta. El acarreo
+ * que desborda la posición más a la izquierda se descarta, como en la
+ * impresora.
+ */
+export function incrementSerialField(
+  data: string,
+  args: string[],
+  step: number,
+): string {
+  const mask = args[0] ?? '';
+  const increment = parseInt(args[1] ?? '', 10);
+  let carry = step * (Number.isNaN(increment) ? 1 : increment);
+  const chars = data.split('');
+
+  for (let k = 1; k <= mask.length && k <= chars.length && carry > 0; k++) {
+    const maskChar = mask[mask.length - k];
+    const alphabet = SF_MASK_ALPHABETS[maskChar.toUpperCase()];
+    if (!alphabet) continue;
+
+    const position = chars.length - k;
+    const lower = maskChar !== maskChar.toUpperCase();
+    const digit = Math.max(0, alphabet.indexOf(chars[position].toUpperCase()));
+    const sum = digit + carry;
+    const next = alphabet[sum % alphabet.length];
+    chars[position] = lower ? next.toLowerCase() : next;
+    carry = Math.floor(sum / alphabet.length);
+  }
+
+  return chars.join('');
+}
+
+/**
+ * Reescribe la etiqueta para la copia `step`: ^SN pasa a ser un ^FD con su
+ * valor y los ^FD afectados por ^SF se incrementan.
+ */
+function serializeVariant(commands: ZplCommandNode[], step: number): string {
+  // Cada ^SF modifica el último ^FD del mismo campo
+  const serialFields = new Map<ZplCommandNode, ZplCommandNode>();
+  let fieldData: ZplCommandNode | undefined;
+  for (const command of commands) {
+    if (command.prefix !== '^') continue;
+    if (command.code === 'FD') fieldData = command;
+    if (command.code === 'FS') fieldData = undefined;
+    if (command.code === 'SF' && fieldData) {
+      serialFields.set(fieldData, command);
+    }
+  }
+
+  return commands
+    .map((command) => {
+      if (command.prefix !== '^') return serializeCommand(command);
+
+      if (command.code === 'SN') {
+        const value = serialNumberValue(command.args, step);
+        return serializeCommand({
+          ...command,
+          code: 'FD',
+          params: value,
+          args: [value],
+        });
+      }
+      if (command.code === 'SF') return '';
+
+      const serialField = serialFields.get(command);
+      if (serialField) {
+        const value = incrementSerialField(
+          command.params,
+          serialField.args,
+          step,
+        );
+        return serializeCommand({ ...command, params: value, args: [value] });
+      }
+      return serializeCommand(command);
+    })
+    .join('');
+}
+
+/**
+ * Expande las copias de ^PQ en las páginas que hay que renderizar. Sin
+ * serialización la etiqueta es una sola página con `quantity` copias; con
+ * ^SN/^SF cada número de serie es una página distinta que se repite
+ * `replicates + 1` veces. El ^PQ no se incluye en el ZPL resultante.
+ */
+export function expandLabelCopies(label: ZplLabelNode): LabelVariant[] {
+  const { quantity, replicates } = readPrintQuantity(label);
+  const commands = label.commands.filter(
+    (command) => command.prefix !== '^' || command.code !== 'PQ',
+  );
+
+  if (!isSerialized(label)) {
+    return [{ zpl: commands.map(serializeCommand).join(''), copies: quantity }];
+  }
+
+  const perSerial = replicates + 1;
+  const variants: LabelVariant[] = [];
+  for (let printed = 0, step = 0; printed < quantity; step++) {
+    const copies = Math.min(perSerial, quantity - printed);
+    variants.push({ zpl: serializeVariant(commands, step), copies });
+    printed += copies;
+  }
+  return variants;
+}
@@ -0,0 +1,114 @@
+import bwipjs from 'bwip-js';
+import { UnsupportedZplError } from './render-primitives.js';
+
+/**
+ * Simbologías que el motor local sabe dibujar. Se nombran por su comando ZPL
+ * para que el intérprete no tenga que conocer los identificadores de bwip-js.
+ */
+export type BarcodeCommand = 'BC' | 'B3' | 'BE' | 'B8' | 'BU' | 'BQ' | 'BX';
+
+/** Barras y espacios alternados (empezando por barra), en módulos */
+export interface LinearSymbol {
+  kind: 'linear';
+  widths: number[];
+}
+
+/** Matriz de módulos (1 = oscuro), fila por fila */
+export interface MatrixSymbol {
+  kind: 'matrix';
+  modules: number[];
+  columns: number;
+  rows: number;
+}
+
+export type EncodedSymbol = LinearSymbol | MatrixSymbol;
+
+const BWIP_IDS: Record<BarcodeCommand, string> = {
+  BC: 'code128',
+  B3: 'code39',
+  BE: 'ean13',
+  B8: 'ean8',
+  BU: 'upca',
+  BQ: 'qrcode',
+  BX: 'datamatrix',
+};
+
+export function isSupportedBarcode(command: string): command is BarcodeCommand {
+  return command in BWIP_IDS;
+}
+
+/**
+ * Traduce los códigos de invocación de ZPL para Code 128 (`>:`, `>;`, `>8`...)
+ * a lo que espera bwip-js. Los subconjuntos los resuelve bwip-js por sí mismo,
+ * así que solo se conserva FNC1 (GS1-128).
+ */
+function normalizeCode128Data(data: string): string {
+  return data
+    .replace(/>8/g, '^FNC1')
+    .replace(/>[0-79:;<=]/g, '')
+    .replace(/>>/g, '>');
+}
+
+export interface BarcodeEncodeOptions {
+  /** Nivel de corrección de QR (L, M, Q, H) */
+  qrErrorCorrection?: string;
+  /** Añadir dígito verificador opcional (Code 39 mod 43) */
+  checkDigit?: boolean;
+}
+
+/**
+ * Codifica los datos de un campo de código de barras.
+ * @throws UnsupportedZplError si la simbología no está implementada
+ */
+export function encodeBarcode(
+  command: string,
+  data: string,
+  options: BarcodeEncodeOptions = {},
+): EncodedSymbol {
+  if (!isSupportedBarcode(command)) {
+    throw new UnsupportedZplError(`^${command}`);
+  }
+
+  const bcid = BWIP_IDS[command];
+  const bwipOptions: Record<string, any> = {};
+  let text = data;
+
+  switch (command) {
+    case 'BC':
+      text = normalizeCode128Data(data);
+      bwipOptions.parsefnc = true;
+      break;
+    case 'B3':
+      if (options.checkDigit) bwipOptions.includecheck = true;
+      break;
+    case 'BE':
+      text = data.replace(/\D/g, '').slice(0, 12);
+      break;
+    case 'B8':
+      text = data.replace(/\D/g, '').slice(0, 7);
+      break;
+    case 'BU':
+      text = data.replace(/\D/g, '').slice(0, 11);
+      break;
+    case 'BQ':
+      bwipOptions.eclevel = options.qrErrorCorrection || 'Q';
+      break;
+  }
+
+  if (!text) {
+    throw new Error(`Datos vacíos para el código de barras ^${command}`);
+  }
+
+  const [symbol] = bwipjs.raw(bcid, text, bwipOptions) as any[];
+
+  if (symbol.pixs) {
+    return {
+      kind: 'matrix',
+      modules: symbol.pixs,
+      columns: symbol.pixx,
+      rows: symbol.pixy,
+    };
+  }
+
+  return { kind: 'linear', widths: symbol.sbs };
+}
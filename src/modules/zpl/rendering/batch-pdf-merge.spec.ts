@@ -0,0 +1,85 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+} from 'pdf-lib';
+import { mergeBatchPdfs } from './batch-pdf-merge';
+
+/** PDF con tantas páginas como tamaños (en pulgadas) */
+async function labelsPdf(sizes: Array<[number, number]>): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (const [w, h] of sizes) {
+    doc
+      .addPage([w * 72, h * 72])
+      .drawRectangle({ x: 0, y: 0, width: 10, height: 10 });
+  }
+  return Buffer.from(await doc.save());
+}
+
+/** Marcadores del documento: título e índice de la página destino */
+function readOutline(doc: PDFDocument): { title: string; page: number }[] {
+  const pageRefs = doc.getPages().map((page) => page.ref);
+  const root = doc.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+  const items: { title: string; page: number }[] = [];
+
+  let ref = root.get(PDFName.of('First')) as PDFRef | undefined;
+  while (ref) {
+    const item = doc.context.lookup(ref, PDFDict);
+    const dest = item.lookup(PDFName.of('Dest'), PDFArray);
+    items.push({
+      title: item.lookup(PDFName.of('Title'), PDFHexString).decodeText(),
+      page: pageRefs.indexOf(dest.get(0) as PDFRef),
+    });
+    ref = item.get(PDFName.of('Next')) as PDFRef | undefined;
+  }
+  return items;
+}
+
+describe('mergeBatchPdfs', () => {
+  it('une los archivos en orden con un marcador por archivo', async () => {
+    const merged = await mergeBatchPdfs([
+      { title: 'noche/a.zpl', pdf: await labelsPdf([[4, 6]]) },
+      {
+        title: 'noche/b.zpl',
+        pdf: await labelsPdf([
+          [2, 1],
+          [2, 1],
+        ]),
+      },
+    ]);
+
+    const doc = await PDFDocument.load(merged);
+    expect(doc.getPageCount()).toBe(3);
+    expect(readOutline(doc)).toEqual([
+      { title: 'noche/a.zpl', page: 0 },
+      { title: 'noche/b.zpl', page: 1 },
+    ]);
+    expect(doc.catalog.get(PDFName.of('PageMode'))).toBe(
+      PDFName.of('UseOutlines'),
+    );
+  });
+
+  it('agrega una página separadora del tamaño de la etiqueta entre archivos', async () => {
+    const merged = await mergeBatchPdfs(
+      [
+        { title: 'a.zpl', pdf: await labelsPdf([[4, 6]]) },
+        { title: 'envíos ✓.zpl', pdf: await labelsPdf([[2, 1]]) },
+        { title: 'c.zpl', pdf: await labelsPdf([[2, 1]]) },
+      ],
+      { separatorPages: true },
+    );
+
+    const doc = await PDFDocument.load(merged);
+    expect(doc.getPageCount()).toBe(5);
+    expect(doc.getPage(1).getSize()).toEqual({ width: 144, height: 72 });
+    // Los marcadores apuntan a la primera etiqueta, no al separador
+    expect(readOutline(doc)).toEqual([
+      { title: 'a.zpl', page: 0 },
+      { title: 'envíos ✓.zpl', page: 2 },
+      { title: 'c.zpl', page: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  StandardFonts,
+  rgb,
+} from 'pdf-lib';
+
+/** Tamaño de letra máximo del nombre en la página separadora */
+const SEPARATOR_MAX_FONT_SIZE = 14;
+/** Fracción del ancho de página que puede ocupar el nombre */
+const SEPARATOR_TEXT_WIDTH = 0.9;
+
+export interface BatchPdfSource {
+  /** Nombre del archivo de origen: título del marcador y del separador */
+  title: string;
+  pdf: Buffer;
+}
+
+export interface BatchPdfMergeOptions {
+  /** Página con el nombre del archivo antes de cada archivo salvo el primero */
+  separatorPages?: boolean;
+}
+
+/**
+ * Une los PDF de un batch en un solo documento, en el orden recibido, con un
+ * marcador (outline) por archivo que apunta a su primera etiqueta. El visor
+ * abre con el panel de marcadores visible.
+ */
+export async function mergeBatchPdfs(
+  sources: BatchPdfSource[],
+  options: BatchPdfMergeOptions = {},
+): Promise<Buffer> {
+  const output = await PDFDocument.create();
+  const font = options.separatorPages
+    ? await output.embedFont(StandardFonts.Helvetica)
+    : undefined;
+  const bookmarks: { title: string; page: PDFRef }[] = [];
+
+  for (const [index, source] of sources.entries()) {
+    const doc = await PDFDocument.load(source.pdf, { ignoreEncryption: true });
+    const pages = await output.copyPages(doc, doc.getPageIndices());
+    if (pages.length === 0) continue;
+
+    if (font && index > 0) {
+      addSeparatorPage(output, font, source.title, pages[0]);
+    }
+    pages.forEach((page) => output.addPage(page));
+    bookmarks.push({ title: source.title, page: pages[0].ref });
+  }
+
+  addOutline(output, bookmarks);
+  return Buffer.from(await output.save());
+}
+
+/**
+ * Página del mismo tamaño que la primera etiqueta del archivo, con su nombre
+ * centrado. Las fuentes estándar solo cubren WinAnsi: el resto de caracteres
+ * se reemplaza.
+ */
+function addSeparatorPage(
+  output: PDFDocument,
+  font: PDFFont,
+  title: string,
+  firstPage: PDFPage,
+): void {
+  const { width, height } = firstPage.getSize();
+  const page = output.addPage([width, height]);
+  const text = title.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  const size = Math.min(
+    SEPARATOR_MAX_FONT_SIZE,
+    (width * SEPARATOR_TEXT_WIDTH) /
+      Math.max(1, font.widthOfTextAtSize(text, 1)),
+  );
+
+  page.drawText(text, {
+    x: (width - font.widthOfTextAtSize(text, size)) / 2,
+    y: (height - size) / 2,
+    size,
+    font,
+    color: rgb(0, 0, 0),
+  });
+}
+
+/**
+ * pdf-lib no tiene API de marcadores: el árbol /Outlines se arma a mano como
+ * una lista plana (First/Last en la raíz, Prev/Next entre hermanos)
+ */
+function addOutline(
+  output: PDFDocument,
+  bookmarks: { title: string; page: PDFRef }[],
+): void {
+  if (bookmarks.length === 0) return;
+
+  const { context } = output;
+  const rootRef = context.nextRef();
+  const itemRefs = bookmarks.map(() => context.nextRef());
+
+  bookmarks.forEach((bookmark, index) => {
+    context.assign(
+      itemRefs[index],
+      context.obj({
+        Title: PDFHexString.fromText(bookmark.title),
+        Parent: rootRef,
+        Dest: [bookmark.page, 'Fit'],
+        ...(index > 0 && { Prev: itemRefs[index - 1] }),
+        ...(index < bookmarks.length - 1 && { Next: itemRefs[index + 1] }),
+      }),
+    );
+  });
+
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: 'Outlines',
+      First: itemRefs[0],
+      Last: itemRefs[itemRefs.length - 1],
+      Count: itemRefs.length,
+    }),
+  );
+  output.catalog.set(PDFName.of('Outlines'), rootRef);
+  output.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
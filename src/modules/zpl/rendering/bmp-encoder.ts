@@ -0,0 +1,47 @@
+import type { BilevelImage } from './monochrome.js';
+
+/**
+ * Codificador BMP de 1 bit (paleta de dos colores), el formato que esperan
+ * las herramientas de etiquetado antiguas de Windows.
+ */
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40;
+const PALETTE_SIZE = 8;
+
+export function encodeBilevelBmp(image: BilevelImage, dpmm: number): Buffer {
+  const { width, height, bytesPerRow, data } = image;
+  // Las filas del BMP se alinean a 4 bytes
+  const stride = Math.ceil(bytesPerRow / 4) * 4;
+  const pixelOffset = FILE_HEADER_SIZE + INFO_HEADER_SIZE + PALETTE_SIZE;
+  const buffer = Buffer.alloc(pixelOffset + stride * height);
+
+  buffer.write('BM', 0, 'ascii');
+  buffer.writeUInt32LE(buffer.length, 2);
+  buffer.writeUInt32LE(pixelOffset, 10);
+
+  buffer.writeUInt32LE(INFO_HEADER_SIZE, 14);
+  buffer.writeInt32LE(width, 18);
+  buffer.writeInt32LE(height, 22); // positivo: filas de abajo hacia arriba
+  buffer.writeUInt16LE(1, 26); // planos
+  buffer.writeUInt16LE(1, 28); // bits por pixel
+  buffer.writeUInt32LE(0, 30); // sin compresión
+  buffer.writeUInt32LE(stride * height, 34);
+  buffer.writeInt32LE(dpmm * 1000, 38); // pixeles por metro
+  buffer.writeInt32LE(dpmm * 1000, 42);
+  buffer.writeUInt32LE(2, 46); // colores de la paleta
+
+  // Paleta BGRA: índice 0 blanco, índice 1 negro (1 = punto impreso)
+  buffer.writeUInt32LE(0x00ffffff, 54);
+  buffer.writeUInt32LE(0x00000000, 58);
+
+  for (let y = 0; y < height; y++) {
+    const source = y * bytesPerRow;
+    Buffer.from(data.buffer, data.byteOffset + source, bytesPerRow).copy(
+      buffer,
+      pixelOffset + (height - 1 - y) * stride,
+    );
+  }
+
+  return buffer;
+}
@@ -0,0 +1,88 @@
+import { inflateSync } from 'zlib';
+import { decodeGraphicField } from './graphic-field';
+import {
+  compressAsciiHex,
+  crc16Ccitt,
+  downloadGraphicCommand,
+  graphicFieldCommand,
+} from './graphic-encoder';
+import { ditherToBilevel } from './monochrome';
+import type { BilevelImage } from './monochrome';
+
+/** Logotipo de prueba: marco, diagonal y filas repetidas, blancas y negras */
+function testImage(width: number, height: number): BilevelImage {
+  const gray = new Uint8Array(width * height).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const frame = x < 3 || y < 3 || x >= width - 3 || y >= height - 3;
+      const diagonal = Math.abs(x - y * 2) < 4;
+      const band = y >= 20 && y < 26; // filas completas en negro
+      if (frame || diagonal || band) gray[y * width + x] = 0;
+    }
+  }
+  return ditherToBilevel(gray, width, height, 'threshold');
+}
+
+/** Separa `^GFA,a,b,c,data` o `~DG...,t,w,data` en parámetros y datos */
+function splitCommand(command: string): { params: number[]; data: string } {
+  const parts = command.split(',');
+  const fields = command.startsWith('~DG') ? 3 : 4;
+  return {
+    params: parts.slice(1, fields).map(Number),
+    data: parts.slice(fields).join(','),
+  };
+}
+
+describe('graphic-encoder', () => {
+  const image = testImage(203, 60);
+
+  it('^GFA en hex comprimido se decodifica a la misma imagen', () => {
+    const command = graphicFieldCommand(image, 'hex');
+    const { params, data } = splitCommand(command);
+
+    expect(params).toEqual([26 * 60, 26 * 60, 26]);
+    const decoded = decodeGraphicField('A', params[1], params[2], data);
+    expect(Buffer.from(decoded.data)).toEqual(Buffer.from(image.data));
+    // La compresión de Zebra reduce mucho un logotipo con zonas planas
+    expect(data.length).toBeLessThan(image.data.length / 2);
+  });
+
+  it('usa ":" para filas repetidas y "," / "!" para los finales de fila', () => {
+    const rows: BilevelImage = {
+      width: 32,
+      height: 4,
+      bytesPerRow: 4,
+      data: Uint8Array.from([
+        0xf0, 0, 0, 0, 0xf0, 0, 0, 0, 0x0f, 0xff, 0xff, 0xff, 0, 0, 0, 0,
+      ]),
+    };
+
+    expect(compressAsciiHex(rows)).toBe('F,:0!,');
+  });
+
+  it('^GFA en Z64 lleva zlib, base64 y el CRC de Zebra', () => {
+    const command = graphicFieldCommand(image, 'z64');
+    const { params, data } = splitCommand(command);
+    const [, base64, crc] = data.split(':').slice(1);
+
+    expect(Buffer.from(inflateSync(Buffer.from(base64, 'base64')))).toEqual(
+      Buffer.from(image.data),
+    );
+    expect(parseInt(crc, 16)).toBe(crc16Ccitt(base64));
+    const decoded = decodeGraphicField('A', params[1], params[2], data);
+    expect(Buffer.from(decoded.data)).toEqual(Buffer.from(image.data));
+  });
+
+  it('calcula el CRC-16/CCITT estándar', () => {
+    expect(crc16Ccitt('123456789')).toBe(0x31c3);
+  });
+
+  it('~DG guarda el gráfico con su nombre y tamaño', () => {
+    const command = downloadGraphicCommand(image, 'LOGO');
+    const { params, data } = splitCommand(command);
+
+    expect(command.startsWith('~DGR:LOGO.GRF,1560,26,')).toBe(true);
+    const decoded = decodeGraphicField('A', params[0], params[1], data);
+    expect(Buffer.from(decoded.data)).toEqual(Buffer.from(image.data));
+  });
+});
@@ -0,0 +1,121 @@
+import { deflateSync } from 'zlib';
+import type { BilevelImage } from './monochrome.js';
+
+/**
+ * Codificación de imágenes de 1 bit como gráficos ZPL: el camino inverso de
+ * graphic-field.ts. Genera el campo de datos en ASCII hex con la compresión
+ * de Zebra o en Z64 (zlib + base64 con CRC), y los comandos ^GF y ~DG.
+ */
+
+export type GraphicEncoding = 'hex' | 'z64';
+
+export const GRAPHIC_ENCODINGS: GraphicEncoding[] = ['hex', 'z64'];
+
+/**
+ * Caracteres de repetición del formato ASCII comprimido: g..z = 20..400 en
+ * múltiplos de 20 y G..Y = 1..19. El decodificador los suma, así que las
+ * rachas de más de 400 se escriben con varias `z`.
+ */
+function repeatPrefix(count: number): string {
+  let prefix = 'z'.repeat(Math.floor(count / 400));
+  const tens = Math.floor((count % 400) / 20);
+  const units = count % 20;
+  if (tens > 0) prefix += String.fromCharCode(102 + tens);
+  if (units > 0) prefix += String.fromCharCode(70 + units);
+  return prefix;
+}
+
+function compressRuns(hex: string): string {
+  let out = '';
+  let i = 0;
+  while (i < hex.length) {
+    let end = i + 1;
+    while (end < hex.length && hex[end] === hex[i]) end++;
+    const run = end - i;
+    out += (run > 1 ? repeatPrefix(run) : '') + hex[i];
+    i = end;
+  }
+  return out;
+}
+
+/**
+ * Datos de la imagen en ASCII hex con la compresión de Zebra: contadores de
+ * repetición, `,` (resto de la fila en blanco), `!` (resto en negro) y `:`
+ * (fila igual a la anterior).
+ */
+export function compressAsciiHex(image: BilevelImage): string {
+  const { height, bytesPerRow, data } = image;
+  const rows: string[] = [];
+  let previous: string | null = null;
+
+  for (let y = 0; y < height; y++) {
+    const hex = Buffer.from(
+      data.buffer,
+      data.byteOffset + y * bytesPerRow,
+      bytesPerRow,
+    )
+      .toString('hex')
+      .toUpperCase();
+
+    if (hex === previous) {
+      rows.push(':');
+      continue;
+    }
+    previous = hex;
+
+    const trailing = hex.match(/(0+|F+)$/);
+    if (trailing) {
+      const body = hex.slice(0, hex.length - trailing[0].length);
+      rows.push(compressRuns(body) + (trailing[0][0] === '0' ? ',' : '!'));
+    } else {
+      rows.push(compressRuns(hex));
+    }
+  }
+
+  return rows.join('');
+}
+
+/** CRC-16/CCITT (polinomio 0x1021, inicial 0) que Zebra pide tras el Z64 */
+export function crc16Ccitt(text: string): number {
+  let crc = 0;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** Campo de datos `:Z64:<base64 de zlib>:<CRC>` */
+export function encodeZ64(image: BilevelImage): string {
+  const base64 = deflateSync(image.data, { level: 9 }).toString('base64');
+  const crc = crc16Ccitt(base64).toString(16).toUpperCase().padStart(4, '0');
+  return `:Z64:${base64}:${crc}`;
+}
+
+function totalBytes(image: BilevelImage): number {
+  return image.bytesPerRow * image.height;
+}
+
+/** Comando ^GFA con la imagen incrustada, listo para ir tras un ^FO */
+export function graphicFieldCommand(
+  image: BilevelImage,
+  encoding: GraphicEncoding,
+): string {
+  const data = encoding === 'z64' ? encodeZ64(image) : compressAsciiHex(image);
+  const total = totalBytes(image);
+  return `^GFA,${total},${total},${image.bytesPerRow},${data}`;
+}
+
+/**
+ * Comando ~DG que guarda la imagen en la memoria de la impresora (R:), para
+ * imprimirla después con ^XG desde cualquier etiqueta
+ * @param name Nombre del gráfico sin extensión (1-8 caracteres)
+ */
+export function downloadGraphicCommand(
+  image: BilevelImage,
+  name: string,
+): string {
+  return `~DGR:${name}.GRF,${totalBytes(image)},${image.bytesPerRow},${compressAsciiHex(image)}`;
+}
@@ -0,0 +1,131 @@
+import { inflateSync } from 'zlib';
+import { UnsupportedZplError } from './render-primitives.js';
+
+export interface DecodedGraphic {
+  /** Ancho en dots (siempre múltiplo de 8: bytesPerRow * 8) */
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+/**
+ * Valor de los caracteres de repetición del formato ASCII comprimido de ZPL:
+ * G..Y = 1..19 y g..z = 20..400 (múltiplos de 20). Se suman entre sí.
+ */
+function repeatCountFor(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 71 && code <= 89) return code - 70; // G-Y
+  if (code >= 103 && code <= 122) return (code - 102) * 20; // g-z
+  return 0;
+}
+
+/**
+ * Decodifica el campo de datos ASCII hex de ^GF, incluyendo la compresión
+ * propia de Zebra (contadores de repetición, `,` `!` y `:`).
+ */
+function decodeAsciiHex(
+  data: string,
+  bytesPerRow: number,
+  totalBytes: number,
+): Uint8Array {
+  const nibblesPerRow = bytesPerRow * 2;
+  const out = new Uint8Array(totalBytes);
+  let previousRow: Uint8Array | null = null;
+  let row: number[] = [];
+  let outOffset = 0;
+  let repeat = 0;
+
+  const flushRow = () => {
+    while (row.length < nibblesPerRow) row.push(0);
+    const bytes = new Uint8Array(bytesPerRow);
+    for (let i = 0; i < bytesPerRow; i++) {
+      bytes[i] = (row[i * 2] << 4) | row[i * 2 + 1];
+    }
+    if (outOffset + bytesPerRow <= totalBytes) {
+      out.set(bytes, outOffset);
+    }
+    outOffset += bytesPerRow;
+    previousRow = bytes;
+    row = [];
+  };
+
+  for (const char of data) {
+    if (outOffset >= totalBytes) break;
+    const count = repeatCountFor(char);
+    if (count > 0) {
+      repeat += count;
+      continue;
+    }
+
+    if (char === ',') {
+      flushRow();
+    } else if (char === '!') {
+      while (row.length < nibblesPerRow) row.push(0xf);
+      flushRow();
+    } else if (char === ':') {
+      if (row.length > 0) flushRow();
+      const source: Uint8Array = previousRow ?? new Uint8Array(bytesPerRow);
+      row = Array.from(source).flatMap((b) => [b >> 4, b & 0xf]);
+      flushRow();
+    } else if (/[0-9A-Fa-f]/.test(char)) {
+      const nibble = parseInt(char, 16);
+      const times = Math.max(1, repeat);
+      for (let i = 0; i < times; i++) {
+        row.push(nibble);
+        if (row.length === nibblesPerRow) flushRow();
+      }
+    }
+    // Cualquier otro carácter (espacios, saltos de línea) se ignora
+    repeat = 0;
+  }
+
+  if (row.length > 0 && outOffset < totalBytes) flushRow();
+  return out;
+}
+
+/**
+ * Decodifica los datos de ^GF a un mapa de bits de 1 bit por punto.
+ * @param format Parámetro `a` de ^GF (A = ASCII hex, B = binario, C = comprimido)
+ * @param totalBytes Parámetro `c`: bytes totales de la imagen
+ * @param bytesPerRow Parámetro `d`: bytes por fila
+ * @param data Campo de datos tal como aparece en el ZPL
+ */
+export function decodeGraphicField(
+  format: string,
+  totalBytes: number,
+  bytesPerRow: number,
+  data: string,
+): DecodedGraphic {
+  if (!bytesPerRow || bytesPerRow <= 0 || !totalBytes || totalBytes <= 0) {
+    throw new Error('Parámetros de ^GF inválidos');
+  }
+
+  let bytes: Uint8Array;
+  const trimmed = data.trim();
+  const base64Match = trimmed.match(/^:(Z64|B64):([^:]+)(?::[0-9A-Fa-f]+)?$/);
+
+  if (base64Match) {
+    const raw = Buffer.from(base64Match[2], 'base64');
+    const decoded = base64Match[1] === 'Z64' ? inflateSync(raw) : raw;
+    bytes = new Uint8Array(totalBytes);
+    bytes.set(decoded.subarray(0, totalBytes));
+  } else if (format === 'A') {
+    bytes = decodeAsciiHex(trimmed, bytesPerRow, totalBytes);
+  } else if (format === 'B') {
+    bytes = new Uint8Array(totalBytes);
+    for (let i = 0; i < Math.min(totalBytes, data.length); i++) {
+      bytes[i] = data.charCodeAt(i) & 0xff;
+    }
+  } else {
+    // 'C' es el formato binario comprimido propietario de Zebra
+    throw new UnsupportedZplError(`^GF${format}`);
+  }
+
+  return {
+    width: bytesPerRow * 8,
+    height: Math.floor(totalBytes / bytesPerRow),
+    bytesPerRow,
+    data: bytes,
+  };
+}
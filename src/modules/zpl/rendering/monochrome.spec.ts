@@ -0,0 +1,111 @@
+import sharp from 'sharp';
+import { encodeBilevelBmp } from './bmp-encoder';
+import { ditherToBilevel, toBilevel } from './monochrome';
+import { encodeBilevelPng } from './png-encoder';
+
+/** Bits de una fila como texto, 1 = impreso */
+function rowBits(
+  image: { width: number; bytesPerRow: number; data: Uint8Array },
+  y: number,
+): string {
+  let bits = '';
+  for (let x = 0; x < image.width; x++) {
+    bits += (image.data[y * image.bytesPerRow + (x >> 3)] >> (7 - (x & 7))) & 1;
+  }
+  return bits;
+}
+
+describe('toBilevel', () => {
+  it('imprime los pixeles más oscuros que el umbral', () => {
+    const gray = Uint8Array.from([0, 100, 127, 128, 200, 255, 30, 0, 60, 250]);
+
+    const image = toBilevel(gray, 10, 1);
+    expect(image.bytesPerRow).toBe(2);
+    expect(rowBits(image, 0)).toBe('1110001110');
+
+    expect(
+      rowBits(toBilevel(gray, 10, 1, { threshold: 80, dither: false }), 0),
+    ).toBe('1000001110');
+  });
+
+  it('con dithering reproduce un gris medio con la mitad de los puntos', () => {
+    const width = 64;
+    const gray = new Uint8Array(width * width).fill(128);
+
+    const image = toBilevel(gray, width, width, {
+      threshold: 128,
+      dither: true,
+    });
+
+    let printed = 0;
+    for (let y = 0; y < width; y++) {
+      printed += rowBits(image, y).split('1').length - 1;
+    }
+    expect(printed / (width * width)).toBeCloseTo(0.5, 1);
+    // Sin dithering el mismo gris queda todo en blanco
+    expect(rowBits(toBilevel(gray, width, width), 0)).not.toContain('1');
+  });
+
+  it('con dithering ordenado repite la trama de Bayer cada 8 puntos', () => {
+    const width = 32;
+    const gray = new Uint8Array(width * 16).fill(64);
+
+    const image = ditherToBilevel(gray, width, 16, 'ordered');
+
+    let printed = 0;
+    for (let y = 0; y < 16; y++) {
+      const bits = rowBits(image, y);
+      expect(bits).toBe(bits.slice(0, 8).repeat(4));
+      expect(bits).toBe(rowBits(image, (y + 8) % 16));
+      printed += bits.split('1').length - 1;
+    }
+    // Gris al 25%: se imprimen tres de cada cuatro puntos
+    expect(printed / (width * 16)).toBeCloseTo(0.75, 1);
+    // Blanco y negro puros no se alteran
+    const extremes = Uint8Array.from([0, 255, 0, 255, 0, 255, 0, 255]);
+    expect(rowBits(ditherToBilevel(extremes, 8, 1, 'ordered'), 0)).toBe(
+      '10101010',
+    );
+  });
+});
+
+describe('encodeBilevelPng', () => {
+  it('genera un PNG de 1 bit con la resolución de la impresora', async () => {
+    const gray = new Uint8Array(16 * 2).fill(255);
+    gray.fill(0, 0, 3);
+    gray.fill(0, 16 + 13, 32);
+    const image = toBilevel(gray, 16, 2);
+
+    const png = encodeBilevelPng(image, 8);
+    const metadata = await sharp(png).metadata();
+    const data = await sharp(png).greyscale().raw().toBuffer();
+
+    expect(metadata).toMatchObject({ width: 16, height: 2, density: 203 });
+    // IHDR: profundidad de 1 bit, escala de grises
+    expect([png[24], png[25]]).toEqual([1, 0]);
+    expect(Array.from(data.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+    expect(Array.from(data.subarray(28, 32))).toEqual([255, 0, 0, 0]);
+  });
+});
+
+describe('encodeBilevelBmp', () => {
+  it('escribe las filas de abajo hacia arriba alineadas a 4 bytes', () => {
+    const gray = new Uint8Array(10 * 2).fill(255);
+    gray.fill(0, 0, 10); // primera fila negra
+    const image = toBilevel(gray, 10, 2);
+
+    const bmp = encodeBilevelBmp(image, 8);
+
+    expect(bmp.toString('ascii', 0, 2)).toBe('BM');
+    expect(bmp.readUInt32LE(2)).toBe(bmp.length);
+    expect(bmp.readInt32LE(18)).toBe(10);
+    expect(bmp.readInt32LE(22)).toBe(2);
+    expect(bmp.readUInt16LE(28)).toBe(1);
+    expect(bmp.readInt32LE(38)).toBe(8000);
+
+    const pixels = bmp.subarray(bmp.readUInt32LE(10));
+    expect(pixels.length).toBe(8);
+    // Fila inferior (la segunda) en blanco, la superior impresa
+    expect(Array.from(pixels)).toEqual([0, 0, 0, 0, 0xff, 0xc0, 0, 0]);
+  });
+});
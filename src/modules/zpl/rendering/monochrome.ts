@@ -0,0 +1,122 @@
+import type { MonochromeOptions } from '../interfaces/conversion-options.interface.js';
+
+/**
+ * Reducción a 1 bit de las etiquetas rasterizadas, para los formatos
+ * monocromo (TIFF G4, BMP y PNG de 1 bit).
+ */
+
+export const DEFAULT_MONOCHROME_OPTIONS: MonochromeOptions = {
+  threshold: 128,
+  dither: false,
+};
+
+/**
+ * Imagen de 1 bit por punto, en el mismo empaquetado que ^GF: filas
+ * alineadas a byte, MSB primero y 1 = punto impreso (negro)
+ */
+export interface BilevelImage {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+/**
+ * Cómo se decide cada punto: umbral fijo, difusión de error
+ * (Floyd–Steinberg) o matriz de Bayer (dithering ordenado)
+ */
+export type DitherMethod = 'threshold' | 'floyd_steinberg' | 'ordered';
+
+export const DITHER_METHODS: DitherMethod[] = [
+  'threshold',
+  'floyd_steinberg',
+  'ordered',
+];
+
+// Matriz de Bayer de 8x8: orden en que se encienden los puntos de cada celda
+// prettier-ignore
+const BAYER_8X8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+];
+
+/**
+ * Convierte una imagen en escala de grises (1 byte por pixel) a 1 bit. Con
+ * umbral fijo un pixel más oscuro que `threshold` se imprime; con dithering
+ * el error de cada pixel se reparte a sus vecinos (Floyd–Steinberg), lo que
+ * conserva mejor los grises de fotos y logotipos.
+ */
+export function toBilevel(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  options: MonochromeOptions = DEFAULT_MONOCHROME_OPTIONS,
+): BilevelImage {
+  return ditherToBilevel(
+    gray,
+    width,
+    height,
+    options.dither ? 'floyd_steinberg' : 'threshold',
+    options.threshold,
+  );
+}
+
+/**
+ * Igual que toBilevel pero con el método explícito. El dithering ordenado
+ * desplaza el umbral punto a punto según la matriz de Bayer: da una trama
+ * regular, que se imprime más limpia que la difusión de error en térmicas.
+ */
+export function ditherToBilevel(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  method: DitherMethod,
+  threshold = DEFAULT_MONOCHROME_OPTIONS.threshold,
+): BilevelImage {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  const diffuse = method === 'floyd_steinberg';
+
+  // Error acumulado de la fila actual y de la siguiente
+  let current = new Float32Array(width + 2);
+  let next = new Float32Array(width + 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = gray[y * width + x];
+      let limit = threshold;
+      if (diffuse) {
+        value += current[x + 1];
+      } else if (method === 'ordered') {
+        // Umbral de la celda centrado en `threshold`, en ±128
+        limit += ((BAYER_8X8[(y & 7) * 8 + (x & 7)] + 0.5) / 64 - 0.5) * 256;
+      }
+
+      const printed = value < limit;
+      if (printed) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+
+      if (diffuse) {
+        const error = value - (printed ? 0 : 255);
+        current[x + 2] += (error * 7) / 16;
+        next[x] += (error * 3) / 16;
+        next[x + 1] += (error * 5) / 16;
+        next[x + 2] += error / 16;
+      }
+    }
+
+    if (diffuse) {
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+  }
+
+  return { width, height, bytesPerRow, data };
+}
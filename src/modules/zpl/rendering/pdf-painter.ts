@@ -0,0 +1,169 @@
+import {
+  BlendMode,
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  concatTransformationMatrix,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+} from 'pdf-lib';
+import {
+  DrawColor,
+  LabelCanvas,
+  LabelFont,
+  TextMeasurer,
+} from './render-primitives.js';
+import { encodeMonochromePng } from './png-encoder.js';
+import { printerDpi } from '../enums/printer-dpmm.enum.js';
+
+const POINTS_PER_INCH = 72;
+
+const BLACK = rgb(0, 0, 0);
+const WHITE = rgb(1, 1, 1);
+
+const STANDARD_FONT_BY_LABEL_FONT: Record<LabelFont, StandardFonts> = {
+  'sans-bold': StandardFonts.HelveticaBold,
+  sans: StandardFonts.Helvetica,
+  mono: StandardFonts.Courier,
+};
+
+/**
+ * Pinta etiquetas ya interpretadas sobre un PDFDocument de pdf-lib.
+ *
+ * Usa las fuentes estándar del PDF (no hay que embeber archivos) y expone su
+ * propio TextMeasurer, de modo que el ajuste de ^FB se calcule con las mismas
+ * métricas con las que después se dibuja.
+ */
+export class PdfLabelPainter implements TextMeasurer {
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly fonts: Record<LabelFont, PDFFont>,
+    private readonly charsets: Record<LabelFont, Set<number>>,
+  ) {}
+
+  static async create(doc: PDFDocument): Promise<PdfLabelPainter> {
+    const fonts = {} as Record<LabelFont, PDFFont>;
+    const charsets = {} as Record<LabelFont, Set<number>>;
+    for (const [key, standardFont] of Object.entries(
+      STANDARD_FONT_BY_LABEL_FONT,
+    ) as [LabelFont, StandardFonts][]) {
+      fonts[key] = await doc.embedFont(standardFont);
+      charsets[key] = new Set(fonts[key].getCharacterSet());
+    }
+    return new PdfLabelPainter(doc, fonts, charsets);
+  }
+
+  width(text: string, font: LabelFont, size: number): number {
+    return this.fonts[font].widthOfTextAtSize(this.sanitize(text, font), size);
+  }
+
+  ascent(font: LabelFont, size: number): number {
+    return this.fonts[font].heightAtSize(size, { descender: false });
+  }
+
+  /**
+   * Las fuentes estándar solo cubren WinAnsi: los caracteres fuera de ese
+   * conjunto se sustituyen en lugar de hacer fallar toda la etiqueta.
+   */
+  private sanitize(text: string, font: LabelFont): string {
+    const charset = this.charsets[font];
+    return Array.from(text)
+      .map((char) => (charset.has(char.codePointAt(0)) ? char : '?'))
+      .join('');
+  }
+
+  /** Añade una página al documento con el contenido de la etiqueta */
+  async addPage(canvas: LabelCanvas): Promise<PDFPage> {
+    const k = POINTS_PER_INCH / printerDpi(canvas.dpmm);
+    const pageWidth = canvas.widthDots * k;
+    const pageHeight = canvas.heightDots * k;
+    const page = this.doc.addPage([pageWidth, pageHeight]);
+
+    if (canvas.inverted) {
+      page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(-1, 0, 0, -1, pageWidth, pageHeight),
+      );
+    }
+
+    for (const primitive of canvas.primitives) {
+      const blendMode = primitive.reverse ? BlendMode.Difference : undefined;
+
+      switch (primitive.kind) {
+        case 'path':
+          page.drawSvgPath(primitive.d, {
+            x: 0,
+            y: pageHeight,
+            scale: k,
+            color: this.colorFor(primitive.color, primitive.reverse),
+            blendMode,
+          });
+          break;
+
+        case 'text': {
+          // El giro ZPL es horario con Y hacia abajo; en PDF (Y hacia arriba)
+          // corresponde al ángulo negativo
+          const angle = (-primitive.rotation * Math.PI) / 180;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          page.pushOperators(
+            pushGraphicsState(),
+            concatTransformationMatrix(
+              cos * primitive.scaleX,
+              sin * primitive.scaleX,
+              -sin,
+              cos,
+              primitive.x * k,
+              pageHeight - primitive.y * k,
+            ),
+          );
+          page.drawText(this.sanitize(primitive.text, primitive.font), {
+            x: 0,
+            y: 0,
+            size: primitive.size * k,
+            font: this.fonts[primitive.font],
+            color: this.colorFor(primitive.color, primitive.reverse),
+            blendMode,
+          });
+          page.pushOperators(popGraphicsState());
+          break;
+        }
+
+        case 'bitmap': {
+          const png = encodeMonochromePng(
+            primitive.width,
+            primitive.height,
+            primitive.bytesPerRow,
+            primitive.data,
+            primitive.reverse ? 'white' : 'black',
+          );
+          const image = await this.doc.embedPng(png);
+          page.drawImage(image, {
+            x: primitive.x * k,
+            y: pageHeight - (primitive.y + primitive.height) * k,
+            width: primitive.width * k,
+            height: primitive.height * k,
+            blendMode,
+          });
+          break;
+        }
+      }
+    }
+
+    if (canvas.inverted) {
+      page.pushOperators(popGraphicsState());
+    }
+
+    return page;
+  }
+
+  /**
+   * Un campo invertido se pinta en blanco con mezcla "Difference": sobre fondo
+   * blanco queda negro y sobre negro queda blanco, igual que ^FR en la impresora.
+   */
+  private colorFor(color: DrawColor, reverse: boolean) {
+    return reverse || color === 'white' ? WHITE : BLACK;
+  }
+}
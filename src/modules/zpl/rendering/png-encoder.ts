@@ -0,0 +1,123 @@
+import { deflateSync } from 'zlib';
+import type { BilevelImage } from './monochrome.js';
+
+/**
+ * Codificador PNG mínimo para los mapas de bits de ^GF y la salida PNG de
+ * 1 bit. pdf-lib solo embebe PNG/JPEG, y generar el PNG aquí evita pasar por
+ * sharp para algo tan simple.
+ */
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Convierte un mapa de bits de 1 bit por punto (1 = impreso) a PNG en escala
+ * de grises con alfa: los puntos impresos quedan opacos (en negro, o en blanco
+ * para los campos invertidos) y el resto transparente, para no tapar lo que
+ * ya esté dibujado debajo.
+ */
+export function encodeMonochromePng(
+  width: number,
+  height: number,
+  bytesPerRow: number,
+  data: Uint8Array,
+  ink: 'black' | 'white' = 'black',
+): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // profundidad de bits
+  header[9] = 4; // escala de grises + alfa
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  const inkValue = ink === 'white' ? 255 : 0;
+  const rowLength = 1 + width * 2;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * rowLength;
+    raw[rowOffset] = 0; // filtro "None"
+    for (let x = 0; x < width; x++) {
+      const byte = data[y * bytesPerRow + (x >> 3)] ?? 0;
+      const printed = (byte >> (7 - (x & 7))) & 1;
+      raw[rowOffset + 1 + x * 2] = inkValue;
+      raw[rowOffset + 2 + x * 2] = printed ? 255 : 0;
+    }
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * PNG en escala de grises de 1 bit (el formato más compacto que aceptan los
+ * visores), con la resolución de la impresora en el bloque pHYs
+ */
+export function encodeBilevelPng(image: BilevelImage, dpmm: number): Buffer {
+  const { width, height, bytesPerRow, data } = image;
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 1; // profundidad de bits
+  header[9] = 0; // escala de grises
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  const physical = Buffer.alloc(9);
+  physical.writeUInt32BE(dpmm * 1000, 0);
+  physical.writeUInt32BE(dpmm * 1000, 4);
+  physical[8] = 1; // pixeles por metro
+
+  // En escala de grises 0 es negro: se invierten los bits (1 = impreso)
+  const rowLength = 1 + bytesPerRow;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    for (let i = 0; i < bytesPerRow; i++) {
+      raw[y * rowLength + 1 + i] = ~data[y * bytesPerRow + i] & 0xff;
+    }
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('pHYs', physical),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
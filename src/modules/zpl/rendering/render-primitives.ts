@@ -0,0 +1,92 @@
+/**
+ * Primitivas de dibujo producidas por el intérprete ZPL local.
+ *
+ * Todas las coordenadas están en dots de impresora, con origen en la esquina
+ * superior izquierda y el eje Y hacia abajo (igual que ZPL). Cada "pintor"
+ * (PDF o SVG) se encarga de convertirlas a su propio sistema de coordenadas.
+ */
+
+export type DrawColor = 'black' | 'white';
+
+/** Familias tipográficas disponibles en el motor local */
+export type LabelFont = 'sans-bold' | 'sans' | 'mono';
+
+/** Rotación en sentido horario, como las orientaciones ZPL N/R/I/B */
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * Trazado relleno en sintaxis de path SVG (M/L/H/V/A/Z), en dots.
+ * Los huecos (contornos de ^GB/^GC) se expresan con subtrazados en sentido
+ * contrario, así que el relleno debe usar la regla nonzero.
+ */
+export interface PathPrimitive {
+  kind: 'path';
+  d: string;
+  color: DrawColor;
+  /** ^FR / ^LR: el campo invierte lo que haya debajo (XOR) */
+  reverse: boolean;
+}
+
+export interface TextPrimitive {
+  kind: 'text';
+  text: string;
+  /** Origen de la línea base, en dots */
+  x: number;
+  y: number;
+  font: LabelFont;
+  /** Tamaño de fuente en dots */
+  size: number;
+  /** Escala horizontal aplicada a los glifos (1 = proporción natural) */
+  scaleX: number;
+  rotation: Rotation;
+  color: DrawColor;
+  reverse: boolean;
+}
+
+/** Mapa de bits monocromo (^GF). Un bit en 1 = punto impreso. */
+export interface BitmapPrimitive {
+  kind: 'bitmap';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Filas empaquetadas a 1 bit por punto, MSB primero */
+  bytesPerRow: number;
+  data: Uint8Array;
+  reverse: boolean;
+}
+
+export type DrawPrimitive = PathPrimitive | TextPrimitive | BitmapPrimitive;
+
+/** Una etiqueta ya interpretada, lista para pintarse */
+export interface LabelCanvas {
+  widthDots: number;
+  heightDots: number;
+  dpmm: number;
+  /** ^POI: la etiqueta completa se imprime girada 180° */
+  inverted: boolean;
+  primitives: DrawPrimitive[];
+}
+
+/**
+ * Métricas tipográficas que necesita el intérprete para ajustar texto en
+ * ^FB y posicionar líneas base. Las provee el pintor con sus fuentes reales.
+ */
+export interface TextMeasurer {
+  /** Ancho del texto en dots para un tamaño dado (sin escala horizontal) */
+  width(text: string, font: LabelFont, size: number): number;
+  /** Altura desde la línea base hasta la parte superior de las mayúsculas */
+  ascent(font: LabelFont, size: number): number;
+}
+
+/**
+ * Error para construcciones ZPL que el motor local no sabe dibujar. Permite a
+ * `local_fallback` derivar la etiqueta a Labelary en vez de producir una
+ * salida incompleta.
+ */
+export class UnsupportedZplError extends Error {
+  constructor(public readonly command: string) {
+    super(`Comando ZPL no soportado por el renderizador local: ${command}`);
+    this.name = 'UnsupportedZplError';
+  }
+}
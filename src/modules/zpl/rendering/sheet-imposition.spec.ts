@@ -0,0 +1,100 @@
+import { PDFDocument } from 'pdf-lib';
+import {
+  InvalidImpositionError,
+  imposeOnSheets,
+  resolveSheetLayout,
+} from './sheet-imposition';
+
+const LETTER = { width: 612, height: 792 };
+
+/** PDF con una página por etiqueta del tamaño indicado (en pulgadas) */
+async function labelsPdf(sizes: Array<[number, number]>): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (const [w, h] of sizes) {
+    doc
+      .addPage([w * 72, h * 72])
+      .drawRectangle({ x: 0, y: 0, width: 10, height: 10 });
+  }
+  return Buffer.from(await doc.save());
+}
+
+async function pageCount(pdf: Buffer): Promise<number> {
+  return (await PDFDocument.load(pdf)).getPageCount();
+}
+
+describe('resolveSheetLayout', () => {
+  it('aplica los ajustes del usuario sobre la plantilla', () => {
+    const layout = resolveSheetLayout({
+      template: 'avery-5163',
+      marginTopMm: 10,
+      cropMarks: true,
+    });
+    expect(layout.marginTopMm).toBe(10);
+    expect(layout.marginLeftMm).toBe(3.97);
+    expect(layout.cropMarks).toBe(true);
+    expect(layout.startOffset).toBe(0);
+  });
+
+  it('rechaza offsets fuera de la hoja y rejillas que no caben', () => {
+    expect(() =>
+      resolveSheetLayout({ template: 'avery-5163', startOffset: 10 }),
+    ).toThrow(InvalidImpositionError);
+    expect(() =>
+      resolveSheetLayout({ template: 'avery-5163', gutterXMm: 20 }),
+    ).toThrow(InvalidImpositionError);
+    expect(() =>
+      resolveSheetLayout({ template: 'a4-3x8', marginTopMm: -1 }),
+    ).toThrow(InvalidImpositionError);
+  });
+});
+
+describe('imposeOnSheets', () => {
+  it('agrupa las etiquetas en hojas del tamaño de la plantilla', async () => {
+    const pdf = await imposeOnSheets(
+      await labelsPdf(Array.from({ length: 12 }, () => [4, 2])),
+      { template: 'avery-5163', cropMarks: true },
+    );
+
+    const doc = await PDFDocument.load(pdf);
+    expect(doc.getPageCount()).toBe(2);
+    const { width, height } = doc.getPage(0).getSize();
+    expect(width).toBeCloseTo(LETTER.width, 0);
+    expect(height).toBeCloseTo(LETTER.height, 0);
+  });
+
+  it('salta las celdas ya usadas de la primera hoja', async () => {
+    const labels = await labelsPdf(Array.from({ length: 2 }, () => [4, 6]));
+
+    expect(
+      await pageCount(
+        await imposeOnSheets(labels, { template: 'letter-4x6-2up' }),
+      ),
+    ).toBe(1);
+    expect(
+      await pageCount(
+        await imposeOnSheets(labels, {
+          template: 'letter-4x6-2up',
+          startOffset: 1,
+        }),
+      ),
+    ).toBe(2);
+  });
+
+  it('acepta etiquetas con orientación distinta a la celda', async () => {
+    // 6x4 apaisada en celdas verticales de 4x6: se gira en lugar de reducirse
+    const pdf = await imposeOnSheets(await labelsPdf([[6, 4]]), {
+      template: 'letter-4x6-2up',
+    });
+    expect(await pageCount(pdf)).toBe(1);
+  });
+
+  it('reserva la celda de una etiqueta en blanco sin dibujarla', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([288, 144]);
+    const pdf = await imposeOnSheets(Buffer.from(await doc.save()), {
+      template: 'avery-5163',
+      startOffset: 9,
+    });
+    expect(await pageCount(pdf)).toBe(1);
+  });
+});
@@ -0,0 +1,253 @@
+import { PDFDocument, PDFPage, degrees, rgb } from 'pdf-lib';
+import { SHEET_TEMPLATES } from '../interfaces/sheet-template.interface.js';
+import type { ImpositionOptions } from '../interfaces/sheet-template.interface.js';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+/** Largo de cada marca de corte y separación respecto al borde de la celda */
+const CROP_MARK_LENGTH_MM = 4;
+const CROP_MARK_OFFSET_MM = 1;
+/** Por debajo de este margen no cabe una marca de corte legible */
+const CROP_MARK_MIN_MARGIN_MM = 2;
+
+export class InvalidImpositionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImpositionError';
+  }
+}
+
+/** Geometría final de la hoja, ya con los ajustes del usuario aplicados */
+export interface SheetLayout {
+  sheetWidthMm: number;
+  sheetHeightMm: number;
+  columns: number;
+  rows: number;
+  cellWidthMm: number;
+  cellHeightMm: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+  gutterXMm: number;
+  gutterYMm: number;
+  cropMarks: boolean;
+  startOffset: number;
+}
+
+/**
+ * Combina la plantilla con los ajustes del usuario y comprueba que la rejilla
+ * cabe en la hoja. Se llama también desde el controller para rechazar la
+ * petición antes de encolar el trabajo.
+ */
+export function resolveSheetLayout(options: ImpositionOptions): SheetLayout {
+  const template = SHEET_TEMPLATES[options.template];
+  if (!template) {
+    throw new InvalidImpositionError(
+      `Plantilla de hoja desconocida: ${options.template}`,
+    );
+  }
+
+  const layout: SheetLayout = {
+    sheetWidthMm: template.sheetWidthMm,
+    sheetHeightMm: template.sheetHeightMm,
+    columns: template.columns,
+    rows: template.rows,
+    cellWidthMm: template.cellWidthMm,
+    cellHeightMm: template.cellHeightMm,
+    marginTopMm: options.marginTopMm ?? template.marginTopMm,
+    marginLeftMm: options.marginLeftMm ?? template.marginLeftMm,
+    gutterXMm: options.gutterXMm ?? template.gutterXMm,
+    gutterYMm: options.gutterYMm ?? template.gutterYMm,
+    cropMarks: options.cropMarks ?? false,
+    startOffset: options.startOffset ?? 0,
+  };
+
+  for (const key of [
+    'marginTopMm',
+    'marginLeftMm',
+    'gutterXMm',
+    'gutterYMm',
+  ] as const) {
+    if (!Number.isFinite(layout[key]) || layout[key] < 0) {
+      throw new InvalidImpositionError(`${key} debe ser un número >= 0`);
+    }
+  }
+
+  const cellsPerSheet = layout.columns * layout.rows;
+  if (
+    !Number.isInteger(layout.startOffset) ||
+    layout.startOffset < 0 ||
+    layout.startOffset >= cellsPerSheet
+  ) {
+    throw new InvalidImpositionError(
+      `startOffset debe ser un entero entre 0 y ${cellsPerSheet - 1}`,
+    );
+  }
+
+  const usedWidth =
+    layout.marginLeftMm +
+    layout.columns * layout.cellWidthMm +
+    (layout.columns - 1) * layout.gutterXMm;
+  const usedHeight =
+    layout.marginTopMm +
+    layout.rows * layout.cellHeightMm +
+    (layout.rows - 1) * layout.gutterYMm;
+  // Tolerancia de 0.1mm por el redondeo de las medidas de las plantillas
+  if (
+    usedWidth > layout.sheetWidthMm + 0.1 ||
+    usedHeight > layout.sheetHeightMm + 0.1
+  ) {
+    throw new InvalidImpositionError(
+      'Los márgenes y separaciones indicados sacan la rejilla fuera de la hoja',
+    );
+  }
+
+  return layout;
+}
+
+/** Esquina inferior izquierda de una celda en puntos PDF (origen abajo) */
+function cellOrigin(
+  layout: SheetLayout,
+  column: number,
+  row: number,
+): { x: number; y: number } {
+  const leftMm =
+    layout.marginLeftMm + column * (layout.cellWidthMm + layout.gutterXMm);
+  const topMm =
+    layout.marginTopMm + row * (layout.cellHeightMm + layout.gutterYMm);
+  return {
+    x: leftMm * POINTS_PER_MM,
+    y: (layout.sheetHeightMm - topMm - layout.cellHeightMm) * POINTS_PER_MM,
+  };
+}
+
+/**
+ * Marcas de corte en los márgenes exteriores, alineadas con los bordes de
+ * columnas y filas. Los márgenes demasiado estrechos se quedan sin marcas.
+ */
+function drawCropMarks(sheet: PDFPage, layout: SheetLayout): void {
+  const pt = (mm: number) => mm * POINTS_PER_MM;
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    sheet.drawLine({
+      start: { x: pt(x1), y: pt(layout.sheetHeightMm - y1) },
+      end: { x: pt(x2), y: pt(layout.sheetHeightMm - y2) },
+      thickness: 0.25,
+      color: rgb(0, 0, 0),
+    });
+
+  const gridRight =
+    layout.marginLeftMm +
+    layout.columns * layout.cellWidthMm +
+    (layout.columns - 1) * layout.gutterXMm;
+  const gridBottom =
+    layout.marginTopMm +
+    layout.rows * layout.cellHeightMm +
+    (layout.rows - 1) * layout.gutterYMm;
+  const marginRight = layout.sheetWidthMm - gridRight;
+  const marginBottom = layout.sheetHeightMm - gridBottom;
+
+  const markLength = (margin: number) =>
+    Math.min(CROP_MARK_LENGTH_MM, margin - CROP_MARK_OFFSET_MM);
+
+  const columnEdges = new Set<number>();
+  for (let c = 0; c < layout.columns; c++) {
+    const left =
+      layout.marginLeftMm + c * (layout.cellWidthMm + layout.gutterXMm);
+    columnEdges.add(left);
+    columnEdges.add(left + layout.cellWidthMm);
+  }
+  const rowEdges = new Set<number>();
+  for (let r = 0; r < layout.rows; r++) {
+    const top =
+      layout.marginTopMm + r * (layout.cellHeightMm + layout.gutterYMm);
+    rowEdges.add(top);
+    rowEdges.add(top + layout.cellHeightMm);
+  }
+
+  for (const x of columnEdges) {
+    if (layout.marginTopMm >= CROP_MARK_MIN_MARGIN_MM) {
+      const end = layout.marginTopMm - CROP_MARK_OFFSET_MM;
+      line(x, end - markLength(layout.marginTopMm), x, end);
+    }
+    if (marginBottom >= CROP_MARK_MIN_MARGIN_MM) {
+      const start = gridBottom + CROP_MARK_OFFSET_MM;
+      line(x, start, x, start + markLength(marginBottom));
+    }
+  }
+  for (const y of rowEdges) {
+    if (layout.marginLeftMm >= CROP_MARK_MIN_MARGIN_MM) {
+      const end = layout.marginLeftMm - CROP_MARK_OFFSET_MM;
+      line(end - markLength(layout.marginLeftMm), y, end, y);
+    }
+    if (marginRight >= CROP_MARK_MIN_MARGIN_MM) {
+      const start = gridRight + CROP_MARK_OFFSET_MM;
+      line(start, y, start + markLength(marginRight), y);
+    }
+  }
+}
+
+/**
+ * Coloca cada página-etiqueta del PDF en una celda de la plantilla, en orden
+ * de lectura (filas de izquierda a derecha). Las etiquetas se centran en su
+ * celda a tamaño real, se reducen si no caben y se giran 90° cuando su
+ * orientación no coincide con la de la celda. `startOffset` salta las celdas
+ * ya usadas de la primera hoja.
+ */
+export async function imposeOnSheets(
+  labelsPdf: Buffer,
+  options: ImpositionOptions,
+): Promise<Buffer> {
+  const layout = resolveSheetLayout(options);
+  const source = await PDFDocument.load(labelsPdf);
+  const output = await PDFDocument.create();
+  // pdf-lib no puede embeber páginas sin contenido: una etiqueta en blanco
+  // ocupa su celda pero no se dibuja
+  const labels = await Promise.all(
+    source
+      .getPages()
+      .map((page) => (page.node.Contents() ? output.embedPage(page) : null)),
+  );
+
+  const cellsPerSheet = layout.columns * layout.rows;
+  const cellWidth = layout.cellWidthMm * POINTS_PER_MM;
+  const cellHeight = layout.cellHeightMm * POINTS_PER_MM;
+  let sheet: PDFPage | undefined;
+
+  labels.forEach((label, index) => {
+    const slot = (index + layout.startOffset) % cellsPerSheet;
+    if (!sheet || slot === 0) {
+      sheet = output.addPage([
+        layout.sheetWidthMm * POINTS_PER_MM,
+        layout.sheetHeightMm * POINTS_PER_MM,
+      ]);
+      if (layout.cropMarks) drawCropMarks(sheet, layout);
+    }
+
+    if (!label) return;
+
+    const { x, y } = cellOrigin(
+      layout,
+      slot % layout.columns,
+      Math.floor(slot / layout.columns),
+    );
+    const rotate =
+      label.width !== label.height &&
+      label.width > label.height !== cellWidth > cellHeight;
+    const width = rotate ? label.height : label.width;
+    const height = rotate ? label.width : label.height;
+    const scale = Math.min(1, cellWidth / width, cellHeight / height);
+    const left = x + (cellWidth - width * scale) / 2;
+    const bottom = y + (cellHeight - height * scale) / 2;
+
+    // drawPage gira alrededor de (x, y) en sentido antihorario: al rotar, el
+    // ancho de la etiqueta pasa a ocupar el eje vertical hacia la izquierda
+    sheet.drawPage(label, {
+      x: rotate ? left + width * scale : left,
+      y: bottom,
+      xScale: scale,
+      yScale: scale,
+      rotate: degrees(rotate ? 90 : 0),
+    });
+  });
+
+  return Buffer.from(await output.save());
+}
@@ -0,0 +1,141 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfLabelPainter } from './pdf-painter.js';
+import { encodeMonochromePng } from './png-encoder.js';
+import type {
+  DrawColor,
+  DrawPrimitive,
+  LabelCanvas,
+  LabelFont,
+  TextMeasurer,
+} from './render-primitives.js';
+import { printerDpi } from '../enums/printer-dpmm.enum.js';
+
+const MM_PER_INCH = 25.4;
+
+const SVG_FONT_BY_LABEL_FONT: Record<
+  LabelFont,
+  { family: string; weight: string }
+> = {
+  'sans-bold': { family: 'Helvetica, Arial, sans-serif', weight: 'bold' },
+  sans: { family: 'Helvetica, Arial, sans-serif', weight: 'normal' },
+  mono: { family: "'Courier New', Courier, monospace", weight: 'normal' },
+};
+
+/**
+ * Pinta etiquetas ya interpretadas como documentos SVG, en dots de impresora
+ * (viewBox) y con el tamaño físico en milímetros.
+ *
+ * Mide el texto con las mismas fuentes estándar que el pintor PDF y fija el
+ * ancho de cada línea con `textLength`: el visor usa la fuente que tenga,
+ * pero el texto ocupa lo mismo que en el PDF y el ajuste de ^FB se respeta.
+ */
+export class SvgLabelPainter implements TextMeasurer {
+  private constructor(private readonly metrics: PdfLabelPainter) {}
+
+  static async create(): Promise<SvgLabelPainter> {
+    return new SvgLabelPainter(
+      await PdfLabelPainter.create(await PDFDocument.create()),
+    );
+  }
+
+  width(text: string, font: LabelFont, size: number): number {
+    return this.metrics.width(text, font, size);
+  }
+
+  ascent(font: LabelFont, size: number): number {
+    return this.metrics.ascent(font, size);
+  }
+
+  /** Documento SVG completo de una etiqueta */
+  render(canvas: LabelCanvas): string {
+    const { widthDots, heightDots } = canvas;
+    const mmPerDot = MM_PER_INCH / printerDpi(canvas.dpmm);
+    const elements = canvas.primitives.map((primitive) =>
+      this.element(primitive),
+    );
+    const content = canvas.inverted
+      ? [
+          `<g transform="rotate(180 ${num(widthDots / 2)} ${num(heightDots / 2)})">`,
+          ...elements,
+          '</g>',
+        ]
+      : elements;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${num(widthDots * mmPerDot)}mm" height="${num(heightDots * mmPerDot)}mm" viewBox="0 0 ${widthDots} ${heightDots}">`,
+      `<rect width="${widthDots}" height="${heightDots}" fill="#fff"/>`,
+      ...content,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  private element(primitive: DrawPrimitive): string {
+    // Igual que en el PDF: un campo invertido se pinta en blanco con mezcla
+    // "difference", que sobre negro deja blanco y sobre blanco deja negro
+    const blend = primitive.reverse ? ' style="mix-blend-mode:difference"' : '';
+
+    switch (primitive.kind) {
+      case 'path':
+        return `<path d="${escapeXml(primitive.d)}" fill="${this.colorFor(primitive.color, primitive.reverse)}"${blend}/>`;
+
+      case 'text': {
+        const font = SVG_FONT_BY_LABEL_FONT[primitive.font];
+        const textLength = this.width(
+          primitive.text,
+          primitive.font,
+          primitive.size,
+        );
+        const transform = [
+          `translate(${num(primitive.x)} ${num(primitive.y)})`,
+          primitive.rotation ? `rotate(${primitive.rotation})` : '',
+          primitive.scaleX !== 1 ? `scale(${num(primitive.scaleX)} 1)` : '',
+        ]
+          .filter(Boolean)
+          .join(' ');
+        const length =
+          textLength > 0
+            ? ` textLength="${num(textLength)}" lengthAdjust="spacingAndGlyphs"`
+            : '';
+        return `<text transform="${transform}" font-family="${escapeXml(font.family)}" font-weight="${font.weight}" font-size="${num(primitive.size)}"${length} fill="${this.colorFor(primitive.color, primitive.reverse)}" xml:space="preserve"${blend}>${escapeXml(primitive.text)}</text>`;
+      }
+
+      case 'bitmap': {
+        const png = encodeMonochromePng(
+          primitive.width,
+          primitive.height,
+          primitive.bytesPerRow,
+          primitive.data,
+          primitive.reverse ? 'white' : 'black',
+        );
+        return `<image x="${num(primitive.x)}" y="${num(primitive.y)}" width="${primitive.width}" height="${primitive.height}" preserveAspectRatio="none" image-rendering="pixelated" href="data:image/png;base64,${png.toString('base64')}"${blend}/>`;
+      }
+    }
+  }
+
+  private colorFor(color: DrawColor, reverse: boolean): string {
+    return reverse || color === 'white' ? '#fff' : '#000';
+  }
+}
+
+/** Número con dos decimales como máximo, sin ceros de relleno */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Escapa texto para XML y descarta los caracteres de control, que XML 1.0
+ * no admite ni escapados
+ */
+function escapeXml(text: string): string {
+  return (
+    text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
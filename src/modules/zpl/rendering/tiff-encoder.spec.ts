@@ -0,0 +1,89 @@
+import sharp from 'sharp';
+import { toBilevel } from './monochrome';
+import type { BilevelImage } from './monochrome';
+import { encodeMultipageTiff } from './tiff-encoder';
+
+/**
+ * Imagen de prueba con rachas de todas las longitudes en ambos colores
+ * (incluidas las que pasan del relleno extendido, 2560) y filas que repiten
+ * la anterior desplazada, para ejercitar los modos vertical y de paso
+ */
+function testImage(width: number, height: number): BilevelImage {
+  const gray = new Uint8Array(width * height).fill(255);
+
+  for (let y = 0; y < height; y++) {
+    const row = gray.subarray(y * width, (y + 1) * width);
+    if (y % 2 === 1) {
+      const shift = (y % 7) - 3;
+      const previous = gray.subarray((y - 1) * width, y * width);
+      for (let x = 0; x < width; x++) {
+        row[x] = previous[Math.min(width - 1, Math.max(0, x - shift))];
+      }
+      continue;
+    }
+
+    const long = y % 10 === 0;
+    let x = y % 5;
+    for (let i = 0; x < width; i++) {
+      const black = long && i === 0 ? 2700 : 1 + ((y * 31 + i * 17) % 200);
+      const white = long && i === 1 ? 2650 : 1 + ((y * 23 + i * 29) % 150);
+      row.fill(0, x, Math.min(width, x + black));
+      x += black + white;
+    }
+  }
+  return toBilevel(gray, width, height);
+}
+
+/** Decodifica una página con libtiff (vía sharp) y la compara bit a bit */
+async function decodedPage(tiff: Buffer, page: number) {
+  const { data, info } = await sharp(tiff, { page })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+function expectSamePixels(
+  image: BilevelImage,
+  decoded: { data: Buffer; info: sharp.OutputInfo },
+) {
+  expect([decoded.info.width, decoded.info.height]).toEqual([
+    image.width,
+    image.height,
+  ]);
+  let mismatches = 0;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const printed =
+        (image.data[y * image.bytesPerRow + (x >> 3)] >> (7 - (x & 7))) & 1;
+      const pixel = decoded.data[(y * image.width + x) * decoded.info.channels];
+      if ((pixel < 128 ? 1 : 0) !== printed) mismatches++;
+    }
+  }
+  expect(mismatches).toBe(0);
+}
+
+describe('encodeMultipageTiff', () => {
+  it('genera un TIFF G4 que libtiff decodifica sin diferencias', async () => {
+    const pages = [testImage(812, 120), testImage(6000, 40)];
+
+    const tiff = encodeMultipageTiff(pages, 203);
+    const metadata = await sharp(tiff).metadata();
+
+    expect(metadata.format).toBe('tiff');
+    expect(metadata.pages).toBe(2);
+    expect(metadata.density).toBe(203);
+    for (const [index, page] of pages.entries()) {
+      expectSamePixels(page, await decodedPage(tiff, index));
+    }
+  });
+
+  it('comprime mucho más que el mapa de bits sin comprimir', () => {
+    const gray = new Uint8Array(812 * 1218).fill(255);
+    gray.fill(0, 100 * 812, 140 * 812);
+    const page = toBilevel(gray, 812, 1218);
+
+    const tiff = encodeMultipageTiff([page], 203);
+
+    expect(tiff.length).toBeLessThan(page.data.length / 50);
+  });
+});
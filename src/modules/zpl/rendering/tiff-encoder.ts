@@ -0,0 +1,303 @@
+import type { BilevelImage } from './monochrome.js';
+
+/**
+ * Codificador TIFF multipágina de 1 bit con compresión CCITT Grupo 4 (T.6),
+ * el formato que aceptan las pasarelas de fax y los sistemas de archivo de
+ * etiquetas. Cada página conserva su tamaño y la resolución de la impresora.
+ */
+
+interface Code {
+  bits: number;
+  length: number;
+}
+
+function code(bits: string): Code {
+  return { bits: parseInt(bits, 2), length: bits.length };
+}
+
+// Códigos de longitud de racha de T.4 (tablas 2 y 3), de 0 a 63
+// prettier-ignore
+const WHITE_TERMINATING = [
+  '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+  '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+  '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011',
+  '0000100', '0101000', '0101011', '0010011', '0100100', '0011000',
+  '00000010', '00000011', '00011010', '00011011', '00010010', '00010011',
+  '00010100', '00010101', '00010110', '00010111', '00101000', '00101001',
+  '00101010', '00101011', '00101100', '00101101', '00000100', '00000101',
+  '00001010', '00001011', '01010010', '01010011', '01010100', '01010101',
+  '00100100', '00100101', '01011000', '01011001', '01011010', '01011011',
+  '01001010', '01001011', '00110010', '00110011', '00110100',
+].map(code);
+
+// prettier-ignore
+const BLACK_TERMINATING = [
+  '0000110111', '010', '11', '10', '011', '0011', '0010', '00011', '000101',
+  '000100', '0000100', '0000101', '0000111', '00000100', '00000111',
+  '000011000', '0000010111', '0000011000', '0000001000', '00001100111',
+  '00001101000', '00001101100', '00000110111', '00000101000', '00000010111',
+  '00000011000', '000011001010', '000011001011', '000011001100',
+  '000011001101', '000001101000', '000001101001', '000001101010',
+  '000001101011', '000011010010', '000011010011', '000011010100',
+  '000011010101', '000011010110', '000011010111', '000001101100',
+  '000001101101', '000011011010', '000011011011', '000001010100',
+  '000001010101', '000001010110', '000001010111', '000001100100',
+  '000001100101', '000001010010', '000001010011', '000000100100',
+  '000000110111', '000000111000', '000000100111', '000000101000',
+  '000001011000', '000001011001', '000000101011', '000000101100',
+  '000001011010', '000001100110', '000001100111',
+].map(code);
+
+// Códigos de relleno (make-up) de 64 a 1728, en pasos de 64
+// prettier-ignore
+const WHITE_MAKEUP = [
+  '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100',
+  '01100101', '01101000', '01100111', '011001100', '011001101', '011010010',
+  '011010011', '011010100', '011010101', '011010110', '011010111',
+  '011011000', '011011001', '011011010', '011011011', '010011000',
+  '010011001', '010011010', '011000', '010011011',
+].map(code);
+
+// prettier-ignore
+const BLACK_MAKEUP = [
+  '0000001111', '000011001000', '000011001001', '000001011011',
+  '000000110011', '000000110100', '000000110101', '0000001101100',
+  '0000001101101', '0000001001010', '0000001001011', '0000001001100',
+  '0000001001101', '0000001110010', '0000001110011', '0000001110100',
+  '0000001110101', '0000001110110', '0000001110111', '0000001010010',
+  '0000001010011', '0000001010100', '0000001010101', '0000001011010',
+  '0000001011011', '0000001100100', '0000001100101',
+].map(code);
+
+// Relleno extendido, común a ambos colores: de 1792 a 2560
+// prettier-ignore
+const EXTENDED_MAKEUP = [
+  '00000001000', '00000001100', '00000001101', '000000010010',
+  '000000010011', '000000010100', '000000010101', '000000010110',
+  '000000010111', '000000011100', '000000011101', '000000011110',
+  '000000011111',
+].map(code);
+
+const PASS = code('0001');
+const HORIZONTAL = code('001');
+// Modo vertical: índice = desplazamiento de a1 respecto de b1, más 3
+// prettier-ignore
+const VERTICAL = [
+  '0000010', '000010', '010', '1', '011', '000011', '0000011',
+].map(code);
+const EOFB = code('000000000001');
+
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private current = 0;
+  private used = 0;
+
+  write({ bits, length }: Code): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((bits >> i) & 1);
+      if (++this.used === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.used = 0;
+      }
+    }
+  }
+
+  finish(): Buffer {
+    if (this.used > 0) {
+      this.bytes.push(this.current << (8 - this.used));
+    }
+    return Buffer.from(this.bytes);
+  }
+}
+
+function writeRun(writer: BitWriter, run: number, black: boolean): void {
+  const makeup = black ? BLACK_MAKEUP : WHITE_MAKEUP;
+  while (run >= 2560 + 64) {
+    writer.write(EXTENDED_MAKEUP[EXTENDED_MAKEUP.length - 1]);
+    run -= 2560;
+  }
+  if (run >= 64) {
+    const index = (run >> 6) - 1;
+    writer.write(
+      index < makeup.length ? makeup[index] : EXTENDED_MAKEUP[index - 27],
+    );
+    run &= 63;
+  }
+  writer.write((black ? BLACK_TERMINATING : WHITE_TERMINATING)[run]);
+}
+
+/**
+ * Posiciones donde cambia el color de una fila, empezando por blanco. Los
+ * cambios alternan: el de índice par pasa a negro y el impar a blanco.
+ */
+function changingElements(image: BilevelImage, y: number): number[] {
+  const { width, bytesPerRow, data } = image;
+  const changes: number[] = [];
+  let color = 0;
+  for (let x = 0; x < width; x++) {
+    const bit = (data[y * bytesPerRow + (x >> 3)] >> (7 - (x & 7))) & 1;
+    if (bit !== color) {
+      changes.push(x);
+      color = bit;
+    }
+  }
+  return changes;
+}
+
+/** Primer cambio a la derecha de `a0` del color indicado (0 blanco, 1 negro) */
+function nextChange(
+  changes: number[],
+  a0: number,
+  color: number,
+  width: number,
+): { position: number; index: number } {
+  for (let i = 0; i < changes.length; i++) {
+    if (changes[i] > a0 && i % 2 === (color ? 0 : 1)) {
+      return { position: changes[i], index: i };
+    }
+  }
+  return { position: width, index: changes.length };
+}
+
+/** Comprime una imagen de 1 bit con CCITT T.6 (1 = negro) */
+export function encodeG4(image: BilevelImage): Buffer {
+  const { width, height } = image;
+  const writer = new BitWriter();
+  // La línea de referencia de la primera fila es imaginaria y blanca
+  let reference: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const coding = changingElements(image, y);
+    let a0 = -1;
+    let color = 0;
+
+    while (a0 < width) {
+      const a1 = nextChange(coding, a0, color ? 0 : 1, width);
+      const b1 = nextChange(reference, a0, color ? 0 : 1, width);
+      const b2 =
+        b1.index + 1 < reference.length ? reference[b1.index + 1] : width;
+
+      if (b2 < a1.position) {
+        writer.write(PASS);
+        a0 = b2;
+      } else if (Math.abs(a1.position - b1.position) <= 3) {
+        writer.write(VERTICAL[a1.position - b1.position + 3]);
+        a0 = a1.position;
+        color ^= 1;
+      } else {
+        const a2 = a1.index + 1 < coding.length ? coding[a1.index + 1] : width;
+        writer.write(HORIZONTAL);
+        writeRun(writer, a1.position - Math.max(a0, 0), color === 1);
+        writeRun(writer, a2 - a1.position, color === 0);
+        a0 = a2;
+      }
+    }
+
+    reference = coding;
+  }
+
+  writer.write(EOFB);
+  writer.write(EOFB);
+  return writer.finish();
+}
+
+const TAG = {
+  NewSubfileType: 254,
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  PhotometricInterpretation: 262,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  T6Options: 293,
+  ResolutionUnit: 296,
+  PageNumber: 297,
+} as const;
+
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/**
+ * Arma el TIFF (little-endian) con una IFD por página. Cada página es una
+ * sola tira comprimida en G4, seguida de su resolución y su IFD.
+ * @param dpi Resolución nominal de la impresora
+ */
+export function encodeMultipageTiff(
+  pages: BilevelImage[],
+  dpi: number,
+): Buffer {
+  const parts: Buffer[] = [];
+  let offset = 8;
+  const header = Buffer.alloc(8);
+  header.write('II', 0, 'ascii');
+  header.writeUInt16LE(42, 2);
+  parts.push(header);
+
+  let previousIfdLink = 4; // dónde escribir el offset de la siguiente IFD
+  const links: { at: number; value: number }[] = [];
+
+  pages.forEach((page, index) => {
+    const strip = encodeG4(page);
+    const stripOffset = offset;
+    const padded = Buffer.concat([strip, Buffer.alloc(strip.length % 2)]);
+    parts.push(padded);
+    offset += padded.length;
+
+    const resolutionOffset = offset;
+    const resolution = Buffer.alloc(8);
+    resolution.writeUInt32LE(dpi, 0);
+    resolution.writeUInt32LE(1, 4);
+    parts.push(resolution);
+    offset += resolution.length;
+
+    const entries: [number, number, number, number][] = [
+      [TAG.NewSubfileType, LONG, 1, 2], // página de un documento multipágina
+      [TAG.ImageWidth, LONG, 1, page.width],
+      [TAG.ImageLength, LONG, 1, page.height],
+      [TAG.BitsPerSample, SHORT, 1, 1],
+      [TAG.Compression, SHORT, 1, 4], // CCITT T.6
+      [TAG.PhotometricInterpretation, SHORT, 1, 0], // 0 = blanco
+      [TAG.StripOffsets, LONG, 1, stripOffset],
+      [TAG.SamplesPerPixel, SHORT, 1, 1],
+      [TAG.RowsPerStrip, LONG, 1, page.height],
+      [TAG.StripByteCounts, LONG, 1, strip.length],
+      [TAG.XResolution, RATIONAL, 1, resolutionOffset],
+      [TAG.YResolution, RATIONAL, 1, resolutionOffset],
+      [TAG.T6Options, LONG, 1, 0],
+      [TAG.ResolutionUnit, SHORT, 1, 2], // pulgadas
+      [TAG.PageNumber, SHORT, 2, index | (pages.length << 16)],
+    ];
+
+    const ifd = Buffer.alloc(2 + entries.length * 12 + 4);
+    ifd.writeUInt16LE(entries.length, 0);
+    entries.forEach(([tag, type, count, value], i) => {
+      const at = 2 + i * 12;
+      ifd.writeUInt16LE(tag, at);
+      ifd.writeUInt16LE(type, at + 2);
+      ifd.writeUInt32LE(count, at + 4);
+      if (type === SHORT && count === 1) {
+        ifd.writeUInt16LE(value, at + 8);
+      } else {
+        ifd.writeUInt32LE(value >>> 0, at + 8);
+      }
+    });
+
+    links.push({ at: previousIfdLink, value: offset });
+    previousIfdLink = offset + 2 + entries.length * 12;
+    parts.push(ifd);
+    offset += ifd.length;
+  });
+
+  const tiff = Buffer.concat(parts);
+  for (const link of links) {
+    tiff.writeUInt32LE(link.value, link.at);
+  }
+  return tiff;
+}
@@ -0,0 +1,213 @@
+import { PDFDocument } from 'pdf-lib';
+
+// El servicio importa pdf-to-png-converter (pdfjs) a nivel de módulo; estos
+// tests solo ejercitan la salida PDF.
+jest.mock('pdf-to-png-converter', () => ({ pdfToPng: jest.fn() }));
+
+import { ZplLayoutEngine, tokenizeZplCommands } from './zpl-layout';
+import { decodeGraphicField } from './graphic-field';
+import {
+  PathPrimitive,
+  TextMeasurer,
+  TextPrimitive,
+  UnsupportedZplError,
+} from './render-primitives';
+import { LocalRendererService } from '../services/local-renderer.service';
+import { LabelSize } from '../enums/label-size.enum';
+import { PrinterDpmm } from '../enums/printer-dpmm.enum';
+
+/** Métricas monoespaciadas deterministas: cada carácter mide medio tamaño */
+const measurer: TextMeasurer = {
+  width: (text, _font, size) => text.length * size * 0.5,
+  ascent: (_font, size) => size * 0.7,
+};
+
+const FOUR_BY_SIX = { widthDots: 812, heightDots: 1218, dpmm: 8 };
+
+function layout(zpl: string) {
+  return new ZplLayoutEngine(FOUR_BY_SIX, measurer).layout(zpl);
+}
+
+describe('tokenizeZplCommands', () => {
+  it('separa comandos y conserva el ~ dentro de los datos de ^FD', () => {
+    const commands = tokenizeZplCommands('^XA^FO10,20^FDA~B^FS~JA^XZ');
+
+    expect(commands.map((c) => c.code)).toEqual([
+      'XA',
+      'FO',
+      'FD',
+      'FS',
+      '~JA',
+      'XZ',
+    ]);
+    expect(commands[2].params).toBe('A~B');
+  });
+
+  it('trata ^A como comando de fuente con el nombre como primer parámetro', () => {
+    const [font] = tokenizeZplCommands('^A0N,30,20');
+    expect(font).toEqual({ code: 'A', params: '0N,30,20' });
+  });
+});
+
+describe('ZplLayoutEngine', () => {
+  it('omite los bloques de pura configuración, igual que Labelary', () => {
+    const labels = layout('^XA^MCY^XZ^XA^FO10,10^FDHola^FS^XZ');
+    expect(labels).toHaveLength(1);
+  });
+
+  it('posiciona texto con ^FO usando la línea base de la fuente', () => {
+    const [label] = layout('^XA^FO100,50^A0N,40,40^FDTest^FS^XZ');
+    const text = label.primitives[0] as TextPrimitive;
+
+    expect(text.kind).toBe('text');
+    expect(text.text).toBe('Test');
+    expect(text.x).toBe(100);
+    expect(text.y).toBeCloseTo(50 + 40 * 0.7);
+    expect(text.rotation).toBe(0);
+  });
+
+  it('ancla ^FT en la línea base', () => {
+    const [label] = layout('^XA^FT100,200^A0N,40,40^FDTest^FS^XZ');
+    const text = label.primitives[0] as TextPrimitive;
+    expect(text.x).toBe(100);
+    expect(text.y).toBe(200);
+  });
+
+  it('aplica ^LH como origen de los campos', () => {
+    const [label] = layout('^XA^LH30,40^FO10,10^GB50,50,50^FS^XZ');
+    const box = label.primitives[0] as PathPrimitive;
+    expect(box.d.startsWith('M40 50')).toBe(true);
+  });
+
+  it('dibuja ^GB hueco con un contorno interior en sentido contrario', () => {
+    const [label] = layout('^XA^FO0,0^GB100,50,5^FS^XZ');
+    const box = label.primitives[0] as PathPrimitive;
+    expect(box.d.match(/M/g)).toHaveLength(2);
+    expect(box.color).toBe('black');
+  });
+
+  it('marca los campos ^FR como invertidos', () => {
+    const [label] = layout('^XA^FO0,0^GB100,100,100^FS^FO10,10^FR^FDX^FS^XZ');
+    expect(label.primitives[0].reverse).toBe(false);
+    expect(label.primitives[1].reverse).toBe(true);
+  });
+
+  it('decodifica ^FH con UTF-8 cuando ^CI28 está activo', () => {
+    const [label] = layout('^XA^CI28^FO0,0^FH^FDCaf_C3_A9^FS^XZ');
+    expect((label.primitives[0] as TextPrimitive).text).toBe('Café');
+  });
+
+  it('ajusta el texto de ^FB al ancho del bloque', () => {
+    const [label] = layout(
+      '^XA^FO0,0^A0N,20,20^FB80,3,0,L^FDuno dos tres cuatro^FS^XZ',
+    );
+    const lines = label.primitives.map((p) => (p as TextPrimitive).text);
+    expect(lines).toEqual(['uno dos', 'tres', 'cuatro']);
+  });
+
+  it('rota el texto según la orientación del campo', () => {
+    const [label] = layout('^XA^FO100,100^A0R,30,30^FDAB^FS^XZ');
+    expect((label.primitives[0] as TextPrimitive).rotation).toBe(90);
+  });
+
+  it('genera barras de Code 128 con su línea de interpretación', () => {
+    const [label] = layout('^XA^BY2^FO10,10^BCN,80,Y,N,N^FD12345678^FS^XZ');
+    const bars = label.primitives[0] as PathPrimitive;
+    const caption = label.primitives[1] as TextPrimitive;
+
+    expect(bars.kind).toBe('path');
+    expect(bars.d.length).toBeGreaterThan(0);
+    expect(caption.text).toBe('12345678');
+  });
+
+  it('genera módulos de QR', () => {
+    const [label] = layout('^XA^FO10,10^BQN,2,4^FDQA,https://zplpdf.com^FS^XZ');
+    expect(label.primitives[0].kind).toBe('path');
+  });
+
+  it('rechaza comandos que no sabe dibujar', () => {
+    expect(() => layout('^XA^FO0,0^XGR:LOGO.GRF,1,1^FS^XZ')).toThrow(
+      UnsupportedZplError,
+    );
+    expect(() => layout('^XA^FO0,0^B7N,10^FDPDF417^FS^XZ')).toThrow(
+      UnsupportedZplError,
+    );
+  });
+
+  it('respeta ^POI', () => {
+    const [label] = layout('^XA^POI^FO0,0^FDX^FS^XZ');
+    expect(label.inverted).toBe(true);
+  });
+});
+
+describe('decodeGraphicField', () => {
+  it('expande la compresión ASCII de Zebra', () => {
+    // 2 bytes por fila: "I" repite F 3 veces + 0 → FFF0; ":" repite la fila;
+    // "," rellena con ceros y "!" con unos
+    const graphic = decodeGraphicField('A', 8, 2, 'IF0:,!');
+
+    expect(graphic.width).toBe(16);
+    expect(graphic.height).toBe(4);
+    expect(Array.from(graphic.data)).toEqual([
+      0xff, 0xf0, 0xff, 0xf0, 0x00, 0x00, 0xff, 0xff,
+    ]);
+  });
+
+  it('decodifica datos Z64', () => {
+    const { deflateSync } = jest.requireActual('zlib');
+    const payload = deflateSync(Buffer.from([0xaa, 0x55])).toString('base64');
+    const graphic = decodeGraphicField('A', 2, 1, `:Z64:${payload}:0000`);
+    expect(Array.from(graphic.data)).toEqual([0xaa, 0x55]);
+  });
+});
+
+describe('LocalRendererService', () => {
+  it('genera una página por etiqueta con el tamaño solicitado, sin importar la resolución', async () => {
+    const renderer = new LocalRendererService();
+    const pdf = await renderer.renderPdf(
+      [
+        '^XA^FO50,50^A0N,50,50^FDPrimera^FS^FO50,150^GB300,100,4^FS^XZ',
+        '^XA^FO50,50^BY2^BCN,100,Y^FD>;12345678^FS^XZ',
+      ].join('\n'),
+      LabelSize.FOUR_BY_SIX,
+      PrinterDpmm.DPMM_12,
+    );
+
+    const doc = await PDFDocument.load(pdf);
+    expect(doc.getPageCount()).toBe(2);
+    const { width, height } = doc.getPage(0).getSize();
+    expect(width).toBeCloseTo(4 * 72, 0);
+    expect(height).toBeCloseTo(6 * 72, 0);
+  });
+
+  it('genera un SVG por etiqueta en dots, con el tamaño físico en mm', async () => {
+    const renderer = new LocalRendererService();
+    const [first, second] = await renderer.renderSvg(
+      [
+        '^XA^FO50,50^A0N,50,50^FDA & <B>^FS^FO50,150^GB300,100,4^FS^XZ',
+        '^XA^FO50,50^A0R,30,30^FR^FDGirado^FS^XZ',
+      ].join('\n'),
+      LabelSize.FOUR_BY_SIX,
+      PrinterDpmm.DPMM_8,
+    );
+
+    expect(first).toContain(
+      'width="101.6mm" height="152.4mm" viewBox="0 0 812 1218"',
+    );
+    expect(first).toMatch(/<text transform="translate\(50 [\d.]+\) scale/);
+    expect(first).toContain('>A &amp; &lt;B&gt;</text>');
+    expect(first).toContain('<path d="');
+    expect(second).toMatch(/rotate\(90\)/);
+    expect(second).toContain('mix-blend-mode:difference');
+  });
+
+  it('gira el SVG completo con ^POI', async () => {
+    const [svg] = await new LocalRendererService().renderSvg(
+      '^XA^POI^FO10,10^GB100,100,100^FS^XZ',
+      LabelSize.TWO_BY_ONE,
+      PrinterDpmm.DPMM_8,
+    );
+
+    expect(svg).toContain('<g transform="rotate(180 203 101.5)">');
+  });
+});
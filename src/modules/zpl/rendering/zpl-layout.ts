@@ -0,0 +1,877 @@
+import {
+  DrawColor,
+  DrawPrimitive,
+  LabelCanvas,
+  LabelFont,
+  Rotation,
+  TextMeasurer,
+  UnsupportedZplError,
+} from './render-primitives.js';
+import { encodeBarcode } from './barcode-encoder.js';
+import { decodeGraphicField } from './graphic-field.js';
+import { decodeHexEscapes, parseZpl } from '../parser/zpl-parser.js';
+
+/**
+ * Intérprete ZPL del renderizador local.
+ *
+ * Recorre los comandos de cada bloque ^XA...^XZ y produce las primitivas de
+ * dibujo de la etiqueta. Cubre lo que aparece en la práctica totalidad de las
+ * etiquetas de envío: texto (^A/^CF, ^FB, ^FH), posicionamiento (^FO/^FT/^LH),
+ * gráficos (^GB/^GC/^GE/^GD/^GF), inversión (^FR/^LR/^PO) y los códigos de
+ * barras de `barcode-encoder`. Lo que no sabe dibujar lo reporta con
+ * UnsupportedZplError en lugar de omitirlo en silencio.
+ */
+
+export interface LayoutOptions {
+  widthDots: number;
+  heightDots: number;
+  dpmm: number;
+}
+
+type Orientation = 'N' | 'R' | 'I' | 'B';
+
+const ROTATION_BY_ORIENTATION: Record<Orientation, Rotation> = {
+  N: 0,
+  R: 90,
+  I: 180,
+  B: 270,
+};
+
+/** Tamaños base (alto x ancho en dots) de las fuentes bitmap residentes */
+const BITMAP_FONT_SIZES: Record<string, { height: number; width: number }> = {
+  A: { height: 9, width: 5 },
+  B: { height: 11, width: 7 },
+  C: { height: 18, width: 10 },
+  D: { height: 18, width: 10 },
+  E: { height: 28, width: 15 },
+  F: { height: 26, width: 13 },
+  G: { height: 60, width: 40 },
+  H: { height: 21, width: 13 },
+};
+
+/** Relación ancho/alto de la fuente 0 (CG Triumvirate Bold Condensed) */
+const FONT_ZERO_CONDENSE = 0.82;
+
+/** Ancho de avance de Courier relativo al tamaño de fuente */
+const MONO_ADVANCE = 0.6;
+
+/** Comandos que dibujan algo (el resto es configuración) */
+const OUTPUT_COMMANDS = new Set([
+  'FD',
+  'FV',
+  'SN',
+  'GB',
+  'GC',
+  'GD',
+  'GE',
+  'GF',
+]);
+
+interface ZplCommand {
+  code: string;
+  params: string;
+}
+
+interface FontSpec {
+  name: string;
+  height: number;
+  width: number;
+  orientation?: Orientation;
+}
+
+interface FieldBlock {
+  width: number;
+  maxLines: number;
+  lineSpacing: number;
+  justify: string;
+}
+
+interface BarcodeSpec {
+  command: string;
+  orientation?: Orientation;
+  params: string[];
+}
+
+interface FieldState {
+  x: number;
+  y: number;
+  typeset: boolean;
+  font?: FontSpec;
+  block?: FieldBlock;
+  hexIndicator?: string;
+  reverse: boolean;
+  barcode?: BarcodeSpec;
+  data?: string;
+}
+
+interface LabelState {
+  homeX: number;
+  homeY: number;
+  defaultFont: FontSpec;
+  fieldOrientation: Orientation;
+  moduleWidth: number;
+  wideRatio: number;
+  barHeight: number;
+  labelReverse: boolean;
+  inverted: boolean;
+  utf8: boolean;
+  hasOutput: boolean;
+  primitives: DrawPrimitive[];
+  field: FieldState;
+}
+
+interface LocalRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Comandos del ZPL en orden. Los de control conservan su prefijo (`~JA`) para
+ * no confundirlos con los de formato.
+ */
+export function tokenizeZplCommands(zpl: string): ZplCommand[] {
+  return parseZpl(zpl).commands.map(({ prefix, code, params }) => ({
+    code: prefix === '~' ? `~${code}` : code,
+    params,
+  }));
+}
+
+function toInt(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function toOrientation(
+  value: string | undefined,
+  fallback: Orientation,
+): Orientation {
+  const upper = (value || '').trim().toUpperCase();
+  return upper === 'N' || upper === 'R' || upper === 'I' || upper === 'B'
+    ? upper
+    : fallback;
+}
+
+function newField(): FieldState {
+  return { x: 0, y: 0, typeset: false, reverse: false };
+}
+
+function newLabel(): LabelState {
+  return {
+    homeX: 0,
+    homeY: 0,
+    defaultFont: { name: 'A', height: 9, width: 5 },
+    fieldOrientation: 'N',
+    moduleWidth: 2,
+    wideRatio: 3,
+    barHeight: 10,
+    labelReverse: false,
+    inverted: false,
+    utf8: false,
+    hasOutput: false,
+    primitives: [],
+    field: newField(),
+  };
+}
+
+// ============== Trazados ==============
+
+function rectPath({ x, y, w, h }: LocalRect, clockwise = true): string {
+  return clockwise
+    ? `M${x} ${y}H${x + w}V${y + h}H${x}Z`
+    : `M${x} ${y}V${y + h}H${x + w}V${y}Z`;
+}
+
+function roundedRectPath(rect: LocalRect, r: number, clockwise = true): string {
+  if (r <= 0) return rectPath(rect, clockwise);
+  const { x, y, w, h } = rect;
+  const sweep = clockwise ? 1 : 0;
+  const arc = (ex: number, ey: number) => `A${r} ${r} 0 0 ${sweep} ${ex} ${ey}`;
+  if (clockwise) {
+    return (
+      `M${x + r} ${y}H${x + w - r}${arc(x + w, y + r)}V${y + h - r}` +
+      `${arc(x + w - r, y + h)}H${x + r}${arc(x, y + h - r)}V${y + r}` +
+      `${arc(x + r, y)}Z`
+    );
+  }
+  return (
+    `M${x + r} ${y}${arc(x, y + r)}V${y + h - r}${arc(x + r, y + h)}` +
+    `H${x + w - r}${arc(x + w, y + h - r)}V${y + r}${arc(x + w - r, y)}Z`
+  );
+}
+
+function ellipsePath(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  clockwise = true,
+): string {
+  const sweep = clockwise ? 1 : 0;
+  return (
+    `M${cx - rx} ${cy}A${rx} ${ry} 0 1 ${sweep} ${cx + rx} ${cy}` +
+    `A${rx} ${ry} 0 1 ${sweep} ${cx - rx} ${cy}Z`
+  );
+}
+
+/**
+ * Ubica un rectángulo definido en el marco local (sin rotar) de un campo de
+ * tamaño boxW x boxH, aplicando la orientación ZPL sobre el origen del campo.
+ */
+function placeRect(
+  rect: LocalRect,
+  originX: number,
+  originY: number,
+  boxW: number,
+  boxH: number,
+  orientation: Orientation,
+): LocalRect {
+  const { x, y, w, h } = rect;
+  switch (orientation) {
+    case 'R':
+      return { x: originX + boxH - y - h, y: originY + x, w: h, h: w };
+    case 'I':
+      return { x: originX + boxW - x - w, y: originY + boxH - y - h, w, h };
+    case 'B':
+      return { x: originX + y, y: originY + boxW - x - w, w: h, h: w };
+    default:
+      return { x: originX + x, y: originY + y, w, h };
+  }
+}
+
+/** Igual que placeRect, para un punto (p. ej. el origen de una línea base) */
+function placePoint(
+  x: number,
+  y: number,
+  originX: number,
+  originY: number,
+  boxW: number,
+  boxH: number,
+  orientation: Orientation,
+): { x: number; y: number } {
+  switch (orientation) {
+    case 'R':
+      return { x: originX + boxH - y, y: originY + x };
+    case 'I':
+      return { x: originX + boxW - x, y: originY + boxH - y };
+    case 'B':
+      return { x: originX + y, y: originY + boxW - x };
+    default:
+      return { x: originX + x, y: originY + y };
+  }
+}
+
+// ============== Intérprete ==============
+
+export class ZplLayoutEngine {
+  constructor(
+    private readonly options: LayoutOptions,
+    private readonly measurer: TextMeasurer,
+  ) {}
+
+  /**
+   * Interpreta todos los bloques ^XA...^XZ del ZPL. Solo se devuelven los que
+   * producen salida, igual que Labelary (un bloque de pura configuración no
+   * genera página).
+   */
+  layout(zpl: string): LabelCanvas[] {
+    const labels: LabelCanvas[] = [];
+    let label: LabelState | null = null;
+
+    for (const command of tokenizeZplCommands(zpl)) {
+      if (command.code === 'XA') {
+        label = newLabel();
+        continue;
+      }
+      if (!label) continue;
+
+      if (command.code === 'XZ') {
+        this.flushField(label);
+        if (label.hasOutput) labels.push(this.toCanvas(label));
+        label = null;
+        continue;
+      }
+
+      this.apply(label, command);
+    }
+
+    return labels;
+  }
+
+  private toCanvas(label: LabelState): LabelCanvas {
+    return {
+      widthDots: this.options.widthDots,
+      heightDots: this.options.heightDots,
+      dpmm: this.options.dpmm,
+      inverted: label.inverted,
+      primitives: label.primitives,
+    };
+  }
+
+  private apply(label: LabelState, { code, params }: ZplCommand): void {
+    const args = params.split(',');
+    const field = label.field;
+
+    if (OUTPUT_COMMANDS.has(code)) {
+      label.hasOutput = true;
+    }
+
+    switch (code) {
+      case 'FO':
+      case 'FT':
+        field.x = toInt(args[0], 0) + label.homeX;
+        field.y = toInt(args[1], 0) + label.homeY;
+        field.typeset = code === 'FT';
+        break;
+      case 'LH':
+        label.homeX = toInt(args[0], 0);
+        label.homeY = toInt(args[1], 0);
+        break;
+      case 'A':
+        field.font = this.parseFontCommand(label, params);
+        break;
+      case 'CF': {
+        const name = (args[0] || label.defaultFont.name).trim() || 'A';
+        label.defaultFont = this.resolveFontSize(
+          name,
+          toInt(args[1], 0),
+          toInt(args[2], 0),
+        );
+        break;
+      }
+      case 'FW':
+        label.fieldOrientation = toOrientation(args[0], label.fieldOrientation);
+        break;
+      case 'FB':
+        field.block = {
+          width: toInt(args[0], 0),
+          maxLines: Math.max(1, toInt(args[1], 1)),
+          lineSpacing: toInt(args[2], 0),
+          justify: (args[3] || 'L').trim().toUpperCase(),
+        };
+        break;
+      case 'FH':
+        field.hexIndicator = (params[0] || '_').trim() || '_';
+        break;
+      case 'FR':
+        field.reverse = true;
+        break;
+      case 'LR':
+        label.labelReverse = (args[0] || '').trim().toUpperCase() === 'Y';
+        break;
+      case 'PO':
+        label.inverted = (args[0] || '').trim().toUpperCase() === 'I';
+        break;
+      case 'CI': {
+        const charset = toInt(args[0], 0);
+        label.utf8 = charset >= 28 && charset <= 30;
+        break;
+      }
+      case 'BY':
+        label.moduleWidth = Math.max(1, toInt(args[0], label.moduleWidth));
+        label.wideRatio = parseFloat(args[1]) || label.wideRatio;
+        label.barHeight = toInt(args[2], label.barHeight);
+        break;
+      case 'FD':
+      case 'FV':
+        field.data = (field.data || '') + params;
+        break;
+      case 'SN':
+        // Datos serializados: se imprime el valor inicial
+        field.data = args[0] || '';
+        break;
+      case 'FS':
+        this.flushField(label);
+        break;
+      case 'GB':
+        this.drawBox(label, args);
+        break;
+      case 'GC':
+        this.drawEllipse(
+          label,
+          toInt(args[0], 3),
+          toInt(args[0], 3),
+          args[1],
+          args[2],
+        );
+        break;
+      case 'GE':
+        this.drawEllipse(
+          label,
+          toInt(args[0], 3),
+          toInt(args[1], 3),
+          args[2],
+          args[3],
+        );
+        break;
+      case 'GD':
+        this.drawDiagonal(label, args);
+        break;
+      case 'GF':
+        this.drawGraphicField(label, params);
+        break;
+      case 'XG':
+      case 'IM':
+      case 'GS':
+      case 'TB':
+        throw new UnsupportedZplError(`^${code}`);
+      default:
+        if (/^B[0-9A-Z]$/.test(code) && code !== 'BY') {
+          field.barcode = {
+            command: code,
+            orientation: args[0]?.trim()
+              ? toOrientation(args[0], label.fieldOrientation)
+              : undefined,
+            params: args,
+          };
+          label.hasOutput = true;
+        }
+        // El resto son comandos de configuración sin efecto visual
+        break;
+    }
+  }
+
+  // ============== Texto ==============
+
+  private parseFontCommand(label: LabelState, params: string): FontSpec {
+    const name = (params[0] || '0').toUpperCase();
+    const rest = params.slice(1).split(',');
+    const orientation = rest[0]?.trim()
+      ? toOrientation(rest[0], label.fieldOrientation)
+      : undefined;
+    const spec = this.resolveFontSize(
+      name,
+      toInt(rest[1], 0),
+      toInt(rest[2], 0),
+      label.defaultFont,
+    );
+    return { ...spec, orientation };
+  }
+
+  /**
+   * Resuelve alto/ancho efectivos: la fuente 0 escala libremente, las bitmap
+   * solo en múltiplos enteros de su tamaño base.
+   */
+  private resolveFontSize(
+    name: string,
+    height: number,
+    width: number,
+    fallback?: FontSpec,
+  ): FontSpec {
+    const bitmap = BITMAP_FONT_SIZES[name];
+    if (bitmap) {
+      const magY = Math.max(
+        1,
+        Math.round((height || bitmap.height) / bitmap.height),
+      );
+      const magX = width ? Math.max(1, Math.round(width / bitmap.width)) : magY;
+      return {
+        name,
+        height: bitmap.height * magY,
+        width: bitmap.width * magX,
+      };
+    }
+
+    const h = height || width || fallback?.height || 9;
+    return { name, height: h, width: width || h };
+  }
+
+  private textStyle(font: FontSpec): {
+    font: LabelFont;
+    size: number;
+    scaleX: number;
+  } {
+    if (BITMAP_FONT_SIZES[font.name]) {
+      return {
+        font: 'mono',
+        size: font.height,
+        scaleX: font.width / (font.height * MONO_ADVANCE),
+      };
+    }
+    return {
+      font: 'sans-bold',
+      size: font.height,
+      scaleX: (font.width / font.height) * FONT_ZERO_CONDENSE,
+    };
+  }
+
+  private decodeFieldData(label: LabelState, field: FieldState): string {
+    const raw = field.data || '';
+    if (!field.hexIndicator) return raw;
+    return decodeHexEscapes(raw, field.hexIndicator, label.utf8);
+  }
+
+  private flushField(label: LabelState): void {
+    const field = label.field;
+    try {
+      if (field.data !== undefined) {
+        const data = this.decodeFieldData(label, field);
+        if (field.barcode) {
+          this.drawBarcode(label, field, data);
+        } else {
+          this.drawText(label, field, data);
+        }
+      }
+    } finally {
+      label.field = newField();
+    }
+  }
+
+  private isReverse(label: LabelState, field: FieldState): boolean {
+    return field.reverse || label.labelReverse;
+  }
+
+  private wrapText(
+    text: string,
+    block: FieldBlock,
+    measure: (value: string) => number,
+  ): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\\&')) {
+      const words = paragraph.split(' ');
+      let current = '';
+      for (const word of words) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && measure(candidate) > block.width) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      lines.push(current);
+    }
+    return lines.slice(0, block.maxLines);
+  }
+
+  private drawText(label: LabelState, field: FieldState, text: string): void {
+    const font = field.font || label.defaultFont;
+    const orientation = field.font?.orientation || label.fieldOrientation;
+    const style = this.textStyle(font);
+    const measure = (value: string) =>
+      this.measurer.width(value, style.font, style.size) * style.scaleX;
+    const ascent = this.measurer.ascent(style.font, style.size);
+
+    const lines = field.block
+      ? this.wrapText(text, field.block, measure)
+      : [text];
+    const lineHeight = font.height + (field.block?.lineSpacing || 0);
+    const boxW = field.block?.width || measure(text);
+    const boxH = lineHeight * lines.length;
+
+    // Con ^FT el origen es la línea base del primer renglón: se desplaza el
+    // marco del campo para que ese punto caiga exactamente en (x, y)
+    let originX = field.x;
+    let originY = field.y;
+    if (field.typeset) {
+      const anchor = placePoint(0, ascent, 0, 0, boxW, boxH, orientation);
+      originX -= anchor.x;
+      originY -= anchor.y;
+    }
+
+    lines.forEach((line, index) => {
+      const width = measure(line);
+      let offsetX = 0;
+      if (field.block?.justify === 'C') offsetX = (boxW - width) / 2;
+      if (field.block?.justify === 'R') offsetX = boxW - width;
+
+      const point = placePoint(
+        offsetX,
+        index * lineHeight + ascent,
+        originX,
+        originY,
+        boxW,
+        boxH,
+        orientation,
+      );
+
+      label.primitives.push({
+        kind: 'text',
+        text: line,
+        x: point.x,
+        y: point.y,
+        font: style.font,
+        size: style.size,
+        scaleX: style.scaleX,
+        rotation: ROTATION_BY_ORIENTATION[orientation],
+        color: 'black',
+        reverse: this.isReverse(label, field),
+      });
+    });
+  }
+
+  // ============== Códigos de barras ==============
+
+  private drawBarcode(
+    label: LabelState,
+    field: FieldState,
+    data: string,
+  ): void {
+    const spec = field.barcode;
+    const args = spec.params;
+    const orientation = spec.orientation || label.fieldOrientation;
+    const moduleWidth = label.moduleWidth;
+    const rects: LocalRect[] = [];
+    let boxW = 0;
+    let boxH = 0;
+    let caption: { text: string; y: number; size: number } | null = null;
+
+    // Posición de los parámetros de altura / línea de interpretación por comando
+    const layoutByCommand: Record<
+      string,
+      { height: number; print: number; above: number }
+    > = {
+      BC: { height: 1, print: 2, above: 3 },
+      B3: { height: 2, print: 3, above: 4 },
+      BE: { height: 1, print: 2, above: 3 },
+      B8: { height: 1, print: 2, above: 3 },
+      BU: { height: 1, print: 2, above: 3 },
+    };
+
+    if (spec.command === 'BQ' || spec.command === 'BX') {
+      let moduleSize: number;
+      let content = data;
+      let errorCorrection: string | undefined;
+
+      if (spec.command === 'BQ') {
+        moduleSize = Math.max(1, toInt(args[2], 2));
+        // ^FD de QR: "<ECC><modo>,<datos>", p. ej. "QA,https://..."
+        const header = content.match(/^([HQML])([AM]),/i);
+        if (header) {
+          errorCorrection = header[1].toUpperCase();
+          content = content.slice(header[0].length);
+        }
+      } else {
+        moduleSize = Math.max(1, toInt(args[1], moduleWidth));
+      }
+
+      const symbol = encodeBarcode(spec.command, content, {
+        qrErrorCorrection: errorCorrection,
+      });
+      if (symbol.kind !== 'matrix') return;
+
+      for (let row = 0; row < symbol.rows; row++) {
+        let runStart = -1;
+        for (let col = 0; col <= symbol.columns; col++) {
+          const dark =
+            col < symbol.columns &&
+            symbol.modules[row * symbol.columns + col] === 1;
+          if (dark && runStart === -1) runStart = col;
+          if (!dark && runStart !== -1) {
+            rects.push({
+              x: runStart * moduleSize,
+              y: row * moduleSize,
+              w: (col - runStart) * moduleSize,
+              h: moduleSize,
+            });
+            runStart = -1;
+          }
+        }
+      }
+      boxW = symbol.columns * moduleSize;
+      boxH = symbol.rows * moduleSize;
+    } else {
+      const positions = layoutByCommand[spec.command];
+      if (!positions) throw new UnsupportedZplError(`^${spec.command}`);
+
+      const barHeight = Math.max(
+        1,
+        toInt(args[positions.height], label.barHeight),
+      );
+      const printLine =
+        (args[positions.print] || 'Y').trim().toUpperCase() !== 'N';
+      const printAbove =
+        (args[positions.above] || 'N').trim().toUpperCase() === 'Y';
+      const symbol = encodeBarcode(spec.command, data, {
+        checkDigit:
+          spec.command === 'B3' && (args[1] || '').trim().toUpperCase() === 'Y',
+      });
+      if (symbol.kind !== 'linear') return;
+
+      let x = 0;
+      const captionSize = Math.max(12, moduleWidth * 10);
+      const captionGap = Math.round(captionSize / 4);
+      const barsTop = printLine && printAbove ? captionSize + captionGap : 0;
+
+      symbol.widths.forEach((modules, index) => {
+        const width =
+          spec.command === 'B3' && modules > 1
+            ? Math.round(moduleWidth * label.wideRatio)
+            : modules * moduleWidth;
+        if (index % 2 === 0) {
+          rects.push({ x, y: barsTop, w: width, h: barHeight });
+        }
+        x += width;
+      });
+
+      boxW = x;
+      boxH = barHeight + (printLine ? captionSize + captionGap : 0);
+
+      if (printLine) {
+        caption = {
+          text: data.replace(/>[0-9:;<=>]/g, ''),
+          y: printAbove
+            ? captionSize
+            : barHeight + captionGap + captionSize * 0.8,
+          size: captionSize,
+        };
+      }
+    }
+
+    // ^FT posiciona códigos de barras por su esquina inferior izquierda
+    const originX = field.x;
+    const originY = field.typeset ? field.y - boxH : field.y;
+    const reverse = this.isReverse(label, field);
+
+    const d = rects
+      .map((rect) =>
+        rectPath(placeRect(rect, originX, originY, boxW, boxH, orientation)),
+      )
+      .join('');
+    if (d) {
+      label.primitives.push({ kind: 'path', d, color: 'black', reverse });
+    }
+
+    if (caption) {
+      const width = this.measurer.width(caption.text, 'sans', caption.size);
+      const point = placePoint(
+        Math.max(0, (boxW - width) / 2),
+        caption.y,
+        originX,
+        originY,
+        boxW,
+        boxH,
+        orientation,
+      );
+      label.primitives.push({
+        kind: 'text',
+        text: caption.text,
+        x: point.x,
+        y: point.y,
+        font: 'sans',
+        size: caption.size,
+        scaleX: 1,
+        rotation: ROTATION_BY_ORIENTATION[orientation],
+        color: 'black',
+        reverse,
+      });
+    }
+  }
+
+  // ============== Gráficos ==============
+
+  private colorOf(value: string | undefined): DrawColor {
+    return (value || 'B').trim().toUpperCase() === 'W' ? 'white' : 'black';
+  }
+
+  /** Origen superior izquierdo de un gráfico (con ^FT el origen es inferior) */
+  private graphicOrigin(field: FieldState, height: number) {
+    return { x: field.x, y: field.typeset ? field.y - height : field.y };
+  }
+
+  private drawBox(label: LabelState, args: string[]): void {
+    const field = label.field;
+    const thickness = Math.max(1, toInt(args[2], 1));
+    const width = Math.max(toInt(args[0], thickness), thickness);
+    const height = Math.max(toInt(args[1], thickness), thickness);
+    const rounding = Math.min(8, Math.max(0, toInt(args[4], 0)));
+    const radius = (rounding / 8) * (Math.min(width, height) / 2);
+    const origin = this.graphicOrigin(field, height);
+    const outer = { x: origin.x, y: origin.y, w: width, h: height };
+
+    let d = roundedRectPath(outer, radius);
+    if (thickness * 2 < Math.min(width, height)) {
+      const inner = {
+        x: outer.x + thickness,
+        y: outer.y + thickness,
+        w: width - thickness * 2,
+        h: height - thickness * 2,
+      };
+      d += roundedRectPath(inner, Math.max(0, radius - thickness), false);
+    }
+
+    label.primitives.push({
+      kind: 'path',
+      d,
+      color: this.colorOf(args[3]),
+      reverse: this.isReverse(label, field),
+    });
+  }
+
+  private drawEllipse(
+    label: LabelState,
+    width: number,
+    height: number,
+    thicknessArg: string | undefined,
+    colorArg: string | undefined,
+  ): void {
+    const field = label.field;
+    const thickness = Math.max(1, toInt(thicknessArg, 1));
+    const origin = this.graphicOrigin(field, height);
+    const rx = width / 2;
+    const ry = height / 2;
+    const cx = origin.x + rx;
+    const cy = origin.y + ry;
+
+    let d = ellipsePath(cx, cy, rx, ry);
+    if (thickness < Math.min(rx, ry)) {
+      d += ellipsePath(cx, cy, rx - thickness, ry - thickness, false);
+    }
+
+    label.primitives.push({
+      kind: 'path',
+      d,
+      color: this.colorOf(colorArg),
+      reverse: this.isReverse(label, field),
+    });
+  }
+
+  private drawDiagonal(label: LabelState, args: string[]): void {
+    const field = label.field;
+    const thickness = Math.max(1, toInt(args[2], 1));
+    const width = Math.max(toInt(args[0], thickness), thickness);
+    const height = Math.max(toInt(args[1], thickness), thickness);
+    const leftLeaning = (args[4] || 'R').trim().toUpperCase() === 'L';
+    const { x, y } = this.graphicOrigin(field, height);
+
+    // R = "/" (de abajo-izquierda a arriba-derecha), L = "\"
+    const d = leftLeaning
+      ? `M${x} ${y}H${x + thickness}L${x + width} ${y + height}H${x + width - thickness}Z`
+      : `M${x} ${y + height}L${x + width - thickness} ${y}H${x + width}L${x + thickness} ${y + height}Z`;
+
+    label.primitives.push({
+      kind: 'path',
+      d,
+      color: this.colorOf(args[3]),
+      reverse: this.isReverse(label, field),
+    });
+  }
+
+  private drawGraphicField(label: LabelState, params: string): void {
+    const field = label.field;
+    // ^GFa,b,c,d,datos: los datos pueden contener comas (compresión ASCII)
+    const match = params.match(/^([ABC]?),(\d*),(\d*),(\d*),([\s\S]*)$/i);
+    if (!match) return;
+
+    const graphic = decodeGraphicField(
+      (match[1] || 'A').toUpperCase(),
+      toInt(match[3], 0),
+      toInt(match[4], 0),
+      match[5],
+    );
+    const origin = this.graphicOrigin(field, graphic.height);
+
+    label.primitives.push({
+      kind: 'bitmap',
+      x: origin.x,
+      y: origin.y,
+      width: graphic.width,
+      height: graphic.height,
+      bytesPerRow: graphic.bytesPerRow,
+      data: graphic.data,
+      reverse: this.isReverse(label, field),
+    });
+  }
+}
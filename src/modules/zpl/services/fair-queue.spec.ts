@@ -0,0 +1,83 @@
+import { FairQueue } from './fair-queue';
+
+describe('FairQueue', () => {
+  function drainOrder(queue: FairQueue<string>): string[] {
+    const out: string[] = [];
+    let next = queue.shift();
+    while (next !== undefined) {
+      out.push(next);
+      next = queue.shift();
+    }
+    return out;
+  }
+
+  it('alterna entre usuarios con el mismo peso aunque uno haya llegado antes con mucho trabajo', () => {
+    const queue = new FairQueue<string>();
+    for (let i = 1; i <= 4; i++) queue.push('a', 1, `a${i}`);
+    queue.push('b', 1, 'b1');
+    queue.push('b', 1, 'b2');
+
+    expect(queue.ordered()).toEqual(['a1', 'b1', 'a2', 'b2', 'a3', 'a4']);
+    expect(drainOrder(queue)).toEqual(['a1', 'b1', 'a2', 'b2', 'a3', 'a4']);
+    expect(queue.length).toBe(0);
+  });
+
+  it('reparte en proporción a los pesos', () => {
+    const queue = new FairQueue<string>();
+    for (let i = 1; i <= 4; i++) queue.push('enterprise', 2, `e${i}`);
+    for (let i = 1; i <= 2; i++) queue.push('pro', 1, `p${i}`);
+
+    expect(drainOrder(queue)).toEqual(['e1', 'e2', 'p1', 'e3', 'e4', 'p2']);
+  });
+
+  it('un usuario que llega tarde no espera a que terminen los demás', () => {
+    const queue = new FairQueue<string>();
+    for (let i = 1; i <= 3; i++) queue.push('a', 1, `a${i}`);
+    expect(queue.shift()).toBe('a1');
+    expect(queue.shift()).toBe('a2');
+
+    // Llega b; a no acumuló crédito por ir solo
+    queue.push('b', 1, 'b1');
+    queue.push('a', 1, 'a4');
+
+    expect(drainOrder(queue)).toEqual(['a3', 'b1', 'a4']);
+  });
+
+  it('pushFront pone el entry por delante de todos', () => {
+    const queue = new FairQueue<string>();
+    queue.push('a', 1, 'a1');
+    queue.push('b', 1, 'b1');
+    queue.pushFront('b', 1, 'b0');
+
+    expect(queue.ordered()).toEqual(['b0', 'a1', 'b1']);
+    expect(queue.shift()).toBe('b0');
+  });
+
+  it('remove quita solo los entries indicados sin alterar el turno del resto', () => {
+    const queue = new FairQueue<string>();
+    queue.push('a', 1, 'job1-a');
+    queue.push('b', 1, 'job2-b');
+    queue.push('a', 1, 'job1-b');
+    queue.push('b', 1, 'job3-a');
+
+    expect(queue.remove((item) => item.startsWith('job1'))).toEqual([
+      'job1-a',
+      'job1-b',
+    ]);
+    expect(queue.has('a')).toBe(false);
+    expect(queue.length).toBe(2);
+    expect(drainOrder(queue)).toEqual(['job2-b', 'job3-a']);
+  });
+
+  it('expone los pesos activos y vacía la cola en orden de salida', () => {
+    const queue = new FairQueue<string>();
+    queue.push('a', 1, 'a1');
+    queue.push('b', 3, 'b1');
+
+    expect(queue.activeWeight()).toBe(4);
+    expect(queue.has('a')).toBe(true);
+    expect(queue.drain()).toEqual(['b1', 'a1']);
+    expect(queue.has('a')).toBe(false);
+    expect(queue.length).toBe(0);
+  });
+});
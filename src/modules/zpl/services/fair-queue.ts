@@ -0,0 +1,161 @@
+interface FairQueueEntry<T> {
+  item: T;
+  /** Tiempo virtual en que el entry "termina" de servirse; menor sale antes */
+  finish: number;
+  /** Desempate estable entre entries con el mismo finish */
+  seq: number;
+}
+
+interface FairQueueFlow<T> {
+  weight: number;
+  lastFinish: number;
+  entries: FairQueueEntry<T>[];
+}
+
+/**
+ * Cola con reparto justo ponderado entre usuarios (weighted fair queuing).
+ *
+ * Cada usuario tiene su propia fila. Un entry nuevo recibe una marca de fin
+ * `max(tiempo virtual, fin del anterior del usuario) + 1 / peso` y siempre
+ * sale el de menor marca: con pesos iguales es un round-robin entre usuarios,
+ * y un usuario de peso 2 despacha dos por cada uno de peso 1. Un usuario que
+ * deja de tener entries no acumula crédito para después.
+ */
+export class FairQueue<T> {
+  private readonly flows = new Map<string, FairQueueFlow<T>>();
+  private virtualTime = 0;
+  private seq = 0;
+  private count = 0;
+
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Agrega un entry al final de la fila del usuario
+   */
+  push(key: string, weight: number, item: T): void {
+    const flow = this.getFlow(key, weight);
+    const finish = Math.max(this.virtualTime, flow.lastFinish) + 1 / weight;
+    flow.lastFinish = finish;
+    flow.entries.push({ item, finish, seq: this.seq++ });
+    this.count++;
+  }
+
+  /**
+   * Devuelve un entry al frente (reintento o turno no concedido): sale antes
+   * que cualquier otro
+   */
+  pushFront(key: string, weight: number, item: T): void {
+    const flow = this.getFlow(key, weight);
+    flow.entries.unshift({ item, finish: this.virtualTime, seq: -this.seq++ });
+    this.count++;
+  }
+
+  /**
+   * Saca el entry con menor marca de fin
+   */
+  shift(): T | undefined {
+    let nextKey: string | undefined;
+    let next: FairQueueEntry<T> | undefined;
+
+    for (const [key, flow] of this.flows) {
+      const head = flow.entries[0];
+      if (!next || this.before(head, next)) {
+        next = head;
+        nextKey = key;
+      }
+    }
+
+    if (!next) {
+      return undefined;
+    }
+
+    const flow = this.flows.get(nextKey!)!;
+    flow.entries.shift();
+    this.count--;
+    this.virtualTime = Math.max(this.virtualTime, next.finish);
+    if (flow.entries.length === 0) {
+      this.flows.delete(nextKey!);
+    }
+
+    return next.item;
+  }
+
+  /**
+   * Vacía la cola
+   * @returns Todos los entries, en el orden en que habrían salido
+   */
+  drain(): T[] {
+    const items = this.ordered();
+    this.flows.clear();
+    this.count = 0;
+    return items;
+  }
+
+  /**
+   * Quita los entries que cumplan la condición (p. ej. los de un job
+   * cancelado). El resto conserva su marca y su turno.
+   * @returns Los entries quitados, en el orden en que habrían salido
+   */
+  remove(predicate: (item: T) => boolean): T[] {
+    const removed: FairQueueEntry<T>[] = [];
+
+    for (const [key, flow] of this.flows) {
+      const kept = flow.entries.filter((entry) => {
+        if (!predicate(entry.item)) return true;
+        removed.push(entry);
+        return false;
+      });
+      if (kept.length === 0) {
+        this.flows.delete(key);
+      } else {
+        flow.entries = kept;
+      }
+    }
+
+    this.count -= removed.length;
+    return removed
+      .sort((a, b) => (this.before(a, b) ? -1 : 1))
+      .map((entry) => entry.item);
+  }
+
+  /**
+   * Entries en el orden en que saldrían si no llegara nada más
+   */
+  ordered(): T[] {
+    return [...this.flows.values()]
+      .flatMap((flow) => flow.entries)
+      .sort((a, b) => (this.before(a, b) ? -1 : 1))
+      .map((entry) => entry.item);
+  }
+
+  /**
+   * Suma de pesos de los usuarios con entries pendientes
+   */
+  activeWeight(): number {
+    let total = 0;
+    for (const flow of this.flows.values()) {
+      total += flow.weight;
+    }
+    return total;
+  }
+
+  /** Indica si el usuario tiene entries pendientes */
+  has(key: string): boolean {
+    return this.flows.has(key);
+  }
+
+  private getFlow(key: string, weight: number): FairQueueFlow<T> {
+    let flow = this.flows.get(key);
+    if (!flow) {
+      flow = { weight, lastFinish: 0, entries: [] };
+      this.flows.set(key, flow);
+    }
+    return flow;
+  }
+
+  private before(a: FairQueueEntry<T>, b: FairQueueEntry<T>): boolean {
+    return a.finish !== b.finish ? a.finish < b.finish : a.seq < b.seq;
+  }
+}
@@ -6,6 +6,7 @@ import {
   LabelaryStatsResponse,
   LabelaryCallMetrics,
 } from '../interfaces/labelary-analytics.interface.js';
+import type { RenderCacheLevel } from '../interfaces/render-cache.interface.js';
 
 const GMT_OFFSET_HOURS = 6; // GMT-6 (Mérida, México)
 
@@ -134,6 +135,28 @@ export class LabelaryAnalyticsService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Registra una consulta al caché de renderizado
+   * @param level Documento completo o etiqueta individual
+   * @param hits Entradas encontradas (renderizados que no llegan a Labelary)
+   * @param misses Entradas que hubo que renderizar
+   */
+  trackCacheLookup(
+    level: RenderCacheLevel,
+    hits: number,
+    misses: number,
+  ): void {
+    const stats = this.getOrCreateStats(this.getHourKey());
+
+    if (level === 'document') {
+      stats.documentCacheHits += hits;
+      stats.documentCacheMisses += misses;
+    } else {
+      stats.blockCacheHits += hits;
+      stats.blockCacheMisses += misses;
+    }
+  }
+
   /**
    * Obtiene o crea estadísticas para una hora
    */
@@ -150,6 +173,10 @@ export class LabelaryAnalyticsService implements OnModuleDestroy {
         maxResponseTimeMs: 0,
         labelCount: 0,
         uniqueLabelCount: 0,
+        documentCacheHits: 0,
+        documentCacheMisses: 0,
+        blockCacheHits: 0,
+        blockCacheMisses: 0,
       });
     }
     return this.statsBuffer.get(hourKey)!;
@@ -1,5 +1,4 @@
 import { Injectable, Logger } from '@nestjs/common';
-import axios from 'axios';
 import {
   QueueItem,
   QueuePriority,
@@ -8,11 +7,25 @@ import {
   UserPlan,
   SLOT_CONFIG,
   QUEUE_CONFIG,
+  LabelaryRateControlState,
 } from '../interfaces/queue.interface.js';
+import {
+  LabelaryRateController,
+  LabelaryUnavailableError,
+  parseRetryAfter,
+} from './labelary-rate-controller.js';
 import { LabelaryAnalyticsService } from './labelary-analytics.service.js';
-import { LabelSize } from '../enums/label-size.enum.js';
+import { LabelaryRendererService } from './labelary-renderer.service.js';
+import { LocalRendererService } from './local-renderer.service.js';
+import { DEFAULT_RENDERER_MODE } from '../interfaces/label-renderer.interface.js';
+import type { ConversionOptions } from '../interfaces/conversion-options.interface.js';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PrinterDpmm,
+} from '../enums/printer-dpmm.enum.js';
 import { PLAN_FEATURES } from '../../../common/interfaces/user.interface.js';
 import { v4 as uuidv4 } from 'uuid';
+import { FairQueue } from './fair-queue.js';
 
 interface PendingRequest {
   item: QueueItem;
@@ -24,9 +37,9 @@ interface PendingRequest {
 export class LabelaryQueueService {
   private readonly logger = new Logger(LabelaryQueueService.name);
 
-  // Colas separadas por prioridad
-  private highPriorityQueue: PendingRequest[] = [];
-  private normalPriorityQueue: PendingRequest[] = [];
+  // Colas separadas por prioridad; dentro de cada una, reparto justo por usuario
+  private readonly highPriorityQueue = new FairQueue<PendingRequest>();
+  private readonly normalPriorityQueue = new FairQueue<PendingRequest>();
 
   // Items en procesamiento
   private processing: Map<string, QueueItem> = new Map();
@@ -39,12 +52,17 @@ export class LabelaryQueueService {
     activeFree: 0,
   };
 
-  // Rate limiting global
-  private lastCallTime = 0;
+  // Ritmo de llamadas a Labelary, adaptado a sus respuestas
+  private readonly rateController = new LabelaryRateController();
   private isProcessing = false;
 
+  // Duración media reciente de una llamada (EWMA), para estimar esperas
+  private avgResponseMs = QUEUE_CONFIG.estimatedSecondsPerJob * 1000;
+
   constructor(
     private readonly labelaryAnalyticsService: LabelaryAnalyticsService,
+    private readonly labelaryRenderer: LabelaryRendererService,
+    private readonly localRenderer: LocalRendererService,
   ) {
     this.logger.log(
       `LabelaryQueueService inicializado: ${this.slots.proEnterpriseSlots} slots Pro, ${this.slots.freeSlots} slots Free`,
@@ -52,14 +70,72 @@ export class LabelaryQueueService {
   }
 
   /**
-   * Encola una solicitud a Labelary y retorna una promesa
+   * Renderiza un lote de etiquetas según el modo indicado (o el por defecto).
+   * Solo lo que termina en Labelary pasa por la cola y su rate limit; el
+   * renderizado local se resuelve en proceso inmediatamente.
    */
   async enqueue(
     jobId: string,
     userId: string,
     userPlan: UserPlan,
     zplBatch: string,
-    labelSize: LabelSize,
+    labelSize: string,
+    labelCount: number,
+    options: ConversionOptions = {},
+  ): Promise<Buffer> {
+    const mode = options.renderer ?? DEFAULT_RENDERER_MODE;
+    const dpmm = options.dpmm ?? DEFAULT_PRINTER_DPMM;
+
+    if (mode !== 'labelary') {
+      try {
+        return await this.localRenderer.renderPdf(zplBatch, labelSize, dpmm);
+      } catch (error: any) {
+        if (mode === 'local') {
+          throw error;
+        }
+        this.logger.warn(
+          `Renderizado local falló para job ${jobId} (${error.message}), usando Labelary`,
+        );
+      }
+    }
+
+    return this.enqueueLabelary(
+      jobId,
+      userId,
+      userPlan,
+      zplBatch,
+      labelSize,
+      dpmm,
+      labelCount,
+    );
+  }
+
+  /**
+   * SVG de cada etiqueta del lote. Labelary no genera SVG: siempre se dibuja
+   * con el motor local, sin pasar por la cola ni consumir su cuota.
+   */
+  renderSvg(
+    zplBatch: string,
+    labelSize: string,
+    options: ConversionOptions = {},
+  ): Promise<string[]> {
+    return this.localRenderer.renderSvg(
+      zplBatch,
+      labelSize,
+      options.dpmm ?? DEFAULT_PRINTER_DPMM,
+    );
+  }
+
+  /**
+   * Encola una solicitud a Labelary y retorna una promesa
+   */
+  private enqueueLabelary(
+    jobId: string,
+    userId: string,
+    userPlan: UserPlan,
+    zplBatch: string,
+    labelSize: string,
+    dpmm: PrinterDpmm,
     labelCount: number,
   ): Promise<Buffer> {
     return new Promise<Buffer>((resolve, reject) => {
@@ -76,6 +152,7 @@ export class LabelaryQueueService {
         priority,
         zplBatch,
         labelSize,
+        dpmm,
         labelCount,
         createdAt: new Date(),
         attempts: 0,
@@ -84,18 +161,15 @@ export class LabelaryQueueService {
 
       const pendingRequest: PendingRequest = { item, resolve, reject };
 
-      // Agregar a la cola correspondiente
-      if (priority === 'high') {
-        this.highPriorityQueue.push(pendingRequest);
-        this.logger.debug(
-          `Job ${jobId} encolado en cola Pro/Enterprise (pos: ${this.highPriorityQueue.length})`,
-        );
-      } else {
-        this.normalPriorityQueue.push(pendingRequest);
-        this.logger.debug(
-          `Job ${jobId} encolado en cola Free (pos: ${this.normalPriorityQueue.length})`,
-        );
-      }
+      // Agregar a la fila del usuario en la cola correspondiente
+      this.queueFor(priority).push(
+        userId,
+        PLAN_FEATURES[userPlan].queueWeight,
+        pendingRequest,
+      );
+      this.logger.debug(
+        `Job ${jobId} encolado en cola ${priority === 'high' ? 'Pro/Enterprise' : 'Free'} (en cola: ${this.queueFor(priority).length})`,
+      );
 
       // Disparar procesamiento
       this.processQueue();
@@ -114,12 +188,33 @@ export class LabelaryQueueService {
 
     try {
       while (this.hasAvailableSlots() && this.hasItemsInQueue()) {
+        // Respetar el intervalo actual y cualquier pausa por 429
+        const waitMs = this.rateController.waitMs();
+        if (waitMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, waitMs));
+          continue;
+        }
+
         const request = this.getNextRequest();
 
         if (!request) {
           break;
         }
 
+        const permit = this.rateController.tryAcquire();
+        if (permit !== 'granted') {
+          this.requeueFront(request);
+          if (permit === 'open') {
+            this.rejectQueued(
+              new LabelaryUnavailableError(
+                this.rateController.openRemainingMs(),
+              ),
+            );
+          }
+          // Con 'busy' la llamada de prueba vuelve a disparar la cola al terminar
+          break;
+        }
+
         // Marcar slot como ocupado
         this.occupySlot(request.item);
 
@@ -127,9 +222,6 @@ export class LabelaryQueueService {
         this.processItem(request).catch((error) => {
           this.logger.error(`Error processing item: ${error.message}`);
         });
-
-        // Rate limit: esperar entre despachos
-        await this.waitForRateLimit();
       }
     } finally {
       this.isProcessing = false;
@@ -214,29 +306,92 @@ export class LabelaryQueueService {
     );
   }
 
+  private queueFor(priority: QueuePriority): FairQueue<PendingRequest> {
+    return priority === 'high'
+      ? this.highPriorityQueue
+      : this.normalPriorityQueue;
+  }
+
   /**
-   * Espera para respetar el rate limit global
+   * Devuelve un request al frente de su cola
    */
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastCall = now - this.lastCallTime;
-    const waitTime = QUEUE_CONFIG.minTimeBetweenCallsMs - timeSinceLastCall;
+  private requeueFront(request: PendingRequest): void {
+    const { item } = request;
+    this.queueFor(item.priority).pushFront(
+      item.userId,
+      PLAN_FEATURES[item.userPlan].queueWeight,
+      request,
+    );
+  }
 
-    if (waitTime > 0) {
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+  /**
+   * Rechaza todo lo que espera en cola (circuito abierto): mejor fallar ya
+   * que dejar los jobs colgados hasta que Labelary se recupere
+   */
+  private rejectQueued(error: Error): void {
+    const pending = [
+      ...this.highPriorityQueue.drain(),
+      ...this.normalPriorityQueue.drain(),
+    ];
+
+    if (pending.length > 0) {
+      this.logger.warn(
+        `Circuito de Labelary abierto: ${pending.length} solicitudes rechazadas`,
+      );
+    }
+    for (const { item, reject } of pending) {
+      item.status = 'failed';
+      reject(error);
     }
+  }
 
-    this.lastCallTime = Date.now();
+  /**
+   * Saca de la cola las solicitudes de un job cancelado y las rechaza con
+   * `error`. Lo que ya está en vuelo hacia Labelary termina; quien lo espera
+   * descarta el resultado.
+   * @returns Cuántas solicitudes se quitaron
+   */
+  cancelJob(jobId: string, error: Error): number {
+    const matches = (request: PendingRequest) => request.item.jobId === jobId;
+    const removed = [
+      ...this.highPriorityQueue.remove(matches),
+      ...this.normalPriorityQueue.remove(matches),
+    ];
+
+    for (const { item, reject } of removed) {
+      item.status = 'failed';
+      reject(error);
+    }
+    if (removed.length > 0) {
+      this.logger.log(
+        `Job ${jobId} cancelado: ${removed.length} solicitudes quitadas de la cola`,
+      );
+    }
+    return removed.length;
+  }
+
+  /**
+   * Registra en el control de ritmo cómo respondió Labelary a un error
+   */
+  private recordLabelaryError(error: any): void {
+    const status = error.response?.status;
+
+    if (status === 429) {
+      this.rateController.recordRateLimit(
+        parseRetryAfter(error.response.headers?.['retry-after']),
+      );
+    } else if (!status || status >= 500) {
+      this.rateController.recordFailure();
+    } else {
+      this.rateController.recordClientError();
+    }
   }
 
   /**
-   * Calcula delay con backoff exponencial + jitter
+   * Estado actual del control de ritmo y del circuito hacia Labelary
    */
-  private calculateBackoff(attempt: number): number {
-    const exponentialDelay =
-      QUEUE_CONFIG.baseDelayMs * Math.pow(2, attempt - 1);
-    const jitter = Math.random() * 1000; // 0-1000ms de jitter
-    return Math.min(exponentialDelay + jitter, QUEUE_CONFIG.maxDelayMs);
+  getRateControlState(): LabelaryRateControlState {
+    return this.rateController.getState();
   }
 
   /**
@@ -251,9 +406,11 @@ export class LabelaryQueueService {
       item.lastAttemptAt = new Date();
 
       const result = await this.callLabelaryInternal(item);
+      this.rateController.recordSuccess();
 
       // Trackear éxito
       const responseTime = Date.now() - startTime;
+      this.observeResponseTime(responseTime);
       await this.labelaryAnalyticsService.trackSuccess(
         responseTime,
         item.labelCount,
@@ -268,30 +425,22 @@ export class LabelaryQueueService {
       this.processQueue();
     } catch (error: any) {
       const responseTime = Date.now() - startTime;
+      this.recordLabelaryError(error);
 
       if (error.response?.status === 429) {
         // Rate limit - trackear y reintentar
         await this.labelaryAnalyticsService.trackRateLimit(responseTime);
 
         if (item.attempts < QUEUE_CONFIG.maxRetries) {
-          const delay = this.calculateBackoff(item.attempts);
           this.logger.warn(
-            `Rate limit en job ${item.jobId}, reintento ${item.attempts}/${QUEUE_CONFIG.maxRetries} en ${Math.round(delay)}ms`,
+            `Rate limit en job ${item.jobId}, reintento ${item.attempts}/${QUEUE_CONFIG.maxRetries} en ${this.rateController.waitMs()}ms`,
           );
 
-          // Liberar slot temporalmente
+          // Liberar slot y volver al frente: la pausa global marca cuándo
           this.releaseSlot(item);
           item.status = 'queued';
-
-          // Re-encolar después del delay
-          setTimeout(() => {
-            if (item.priority === 'high') {
-              this.highPriorityQueue.unshift(request); // Al frente
-            } else {
-              this.normalPriorityQueue.unshift(request); // Al frente
-            }
-            this.processQueue();
-          }, delay);
+          this.requeueFront(request);
+          this.processQueue();
 
           return; // No rechazar aún
         }
@@ -315,24 +464,72 @@ export class LabelaryQueueService {
    * Llamada HTTP a Labelary API
    */
   private async callLabelaryInternal(item: QueueItem): Promise<Buffer> {
-    const url = `http://api.labelary.com/v1/printers/8dpmm/labels/${item.labelSize}`;
+    return this.labelaryRenderer.renderPdf(
+      item.zplBatch,
+      item.labelSize,
+      item.dpmm,
+    );
+  }
 
-    const response = await axios.post(url, item.zplBatch, {
-      headers: {
-        Accept: 'application/pdf',
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      responseType: 'arraybuffer',
-      timeout: 60000, // 60 segundos timeout
-    });
+  /**
+   * Actualiza la media móvil de duración de las llamadas
+   */
+  private observeResponseTime(responseTimeMs: number): void {
+    this.avgResponseMs = Math.round(
+      this.avgResponseMs * 0.8 + responseTimeMs * 0.2,
+    );
+  }
+
+  /**
+   * Cada cuánto sale un request de la cola: lo limita el intervalo global
+   * entre llamadas o, si las llamadas tardan más, los slots del tier. La cola
+   * Free comparte el intervalo con la Pro cuando esta tiene trabajo.
+   */
+  private dispatchIntervalMs(priority: QueuePriority): number {
+    const { intervalMs } = this.rateController.getState();
+
+    if (priority === 'high') {
+      return Math.max(
+        intervalMs,
+        this.avgResponseMs / this.slots.proEnterpriseSlots,
+      );
+    }
 
-    return Buffer.from(response.data);
+    const sharedInterval =
+      this.highPriorityQueue.length > 0 ? intervalMs * 2 : intervalMs;
+    return Math.max(sharedInterval, this.avgResponseMs / this.slots.freeSlots);
+  }
+
+  /**
+   * Tiempo que tarda el usuario en volver a despachar con el reparto justo:
+   * por cada chunk suyo salen los de los demás usuarios activos en
+   * proporción a sus pesos
+   */
+  private fairCycleMs(item: QueueItem): number {
+    const queue = this.queueFor(item.priority);
+    const weight = PLAN_FEATURES[item.userPlan].queueWeight;
+    const othersWeight =
+      queue.activeWeight() - (queue.has(item.userId) ? weight : 0);
+
+    return this.dispatchIntervalMs(item.priority) * (1 + othersWeight / weight);
   }
 
   /**
    * Obtiene la posición en cola de un job
+   * @param jobId ID del trabajo
+   * @param remainingChunks Chunks del job que aún no han entrado a la cola
+   * (se encola uno a la vez); cada uno espera un turno del reparto justo
    */
-  getQueuePosition(jobId: string): QueuePositionResponse {
+  getQueuePosition(
+    jobId: string,
+    remainingChunks: number = 0,
+  ): QueuePositionResponse {
+    const queueLength = {
+      pro: this.highPriorityQueue.length,
+      free: this.normalPriorityQueue.length,
+    };
+    const toSeconds = (ms: number) => Math.ceil(ms / 1000);
+
     // Buscar en processing
     for (const item of this.processing.values()) {
       if (item.jobId === jobId) {
@@ -340,48 +537,35 @@ export class LabelaryQueueService {
           jobId,
           status: 'processing',
           position: null,
-          estimatedWaitSeconds: 0,
-          queueLength: {
-            pro: this.highPriorityQueue.length,
-            free: this.normalPriorityQueue.length,
-          },
+          estimatedWaitSeconds: toSeconds(
+            remainingChunks * this.fairCycleMs(item),
+          ),
+          queueLength,
         };
       }
     }
 
-    // Buscar en cola high priority
-    const highIndex = this.highPriorityQueue.findIndex(
-      (r) => r.item.jobId === jobId,
-    );
-    if (highIndex !== -1) {
-      return {
-        jobId,
-        status: 'queued',
-        position: highIndex + 1,
-        estimatedWaitSeconds:
-          (highIndex + 1) * QUEUE_CONFIG.estimatedSecondsPerJob,
-        queueLength: {
-          pro: this.highPriorityQueue.length,
-          free: this.normalPriorityQueue.length,
-        },
-      };
-    }
+    // Buscar en las colas, en el orden en que saldrán
+    for (const priority of ['high', 'normal'] as QueuePriority[]) {
+      const ordered = this.queueFor(priority).ordered();
+      const index = ordered.findIndex((r) => r.item.jobId === jobId);
+      if (index === -1) {
+        continue;
+      }
+
+      const { item } = ordered[index];
+      const position = index + 1;
+      const waitMs =
+        this.rateController.waitMs() +
+        position * this.dispatchIntervalMs(priority) +
+        remainingChunks * this.fairCycleMs(item);
 
-    // Buscar en cola normal priority
-    const normalIndex = this.normalPriorityQueue.findIndex(
-      (r) => r.item.jobId === jobId,
-    );
-    if (normalIndex !== -1) {
       return {
         jobId,
         status: 'queued',
-        position: normalIndex + 1,
-        estimatedWaitSeconds:
-          (normalIndex + 1) * QUEUE_CONFIG.estimatedSecondsPerJob,
-        queueLength: {
-          pro: this.highPriorityQueue.length,
-          free: this.normalPriorityQueue.length,
-        },
+        position,
+        estimatedWaitSeconds: toSeconds(waitMs),
+        queueLength,
       };
     }
 
@@ -391,10 +575,7 @@ export class LabelaryQueueService {
       status: 'not_found',
       position: null,
       estimatedWaitSeconds: 0,
-      queueLength: {
-        pro: this.highPriorityQueue.length,
-        free: this.normalPriorityQueue.length,
-      },
+      queueLength,
     };
   }
 
@@ -425,32 +606,55 @@ export class LabelaryQueueService {
    */
   async enqueuePngDirect(
     zplContent: string,
-    labelSize: LabelSize,
+    labelSize: string,
+    options: ConversionOptions = {},
   ): Promise<Buffer> {
+    const rendererMode = options.renderer ?? DEFAULT_RENDERER_MODE;
+    const dpmm = options.dpmm ?? DEFAULT_PRINTER_DPMM;
+
+    if (rendererMode !== 'labelary') {
+      try {
+        return await this.localRenderer.renderPng(zplContent, labelSize, dpmm);
+      } catch (error: any) {
+        if (rendererMode === 'local') {
+          throw new Error(
+            `Error al renderizar la imagen localmente: ${error.message}`,
+          );
+        }
+        this.logger.warn(
+          `Renderizado local de preview falló (${error.message}), usando Labelary`,
+        );
+      }
+    }
+
+    // Respetar el ritmo global; con el circuito abierto no se llama
+    const waitMs = this.rateController.waitMs();
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+    if (this.rateController.tryAcquire() !== 'granted') {
+      throw new LabelaryUnavailableError(this.rateController.openRemainingMs());
+    }
+
     const startTime = Date.now();
 
     try {
-      // Respetar rate limit global
-      await this.waitForRateLimit();
-
-      const url = `http://api.labelary.com/v1/printers/8dpmm/labels/${labelSize}/0/`;
+      const image = await this.labelaryRenderer.renderPng(
+        zplContent,
+        labelSize,
+        dpmm,
+      );
 
-      const response = await axios.post(url, zplContent, {
-        headers: {
-          Accept: 'image/png',
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        responseType: 'arraybuffer',
-        timeout: 30000, // 30 segundos timeout para una sola etiqueta
-      });
+      this.rateController.recordSuccess();
 
       // Trackear éxito
       const responseTime = Date.now() - startTime;
       await this.labelaryAnalyticsService.trackSuccess(responseTime, 1);
 
-      return Buffer.from(response.data);
+      return image;
     } catch (error: any) {
       const responseTime = Date.now() - startTime;
+      this.recordLabelaryError(error);
 
       if (error.response?.status === 429) {
         await this.labelaryAnalyticsService.trackRateLimit(responseTime);
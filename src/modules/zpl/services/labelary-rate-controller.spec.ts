@@ -0,0 +1,128 @@
+import {
+  LabelaryRateController,
+  parseRetryAfter,
+} from './labelary-rate-controller';
+import { RATE_CONTROL_CONFIG } from '../interfaces/queue.interface';
+
+describe('LabelaryRateController', () => {
+  let now: number;
+  let controller: LabelaryRateController;
+
+  beforeEach(() => {
+    now = Date.parse('2026-03-10T12:00:00.000Z');
+    // Jitter a la mitad del máximo para que las pausas sean predecibles
+    controller = new LabelaryRateController(
+      () => now,
+      () => 0.5,
+    );
+  });
+
+  it('espacia las llamadas según el intervalo inicial', () => {
+    expect(controller.tryAcquire()).toBe('granted');
+    expect(controller.waitMs()).toBe(RATE_CONTROL_CONFIG.initialIntervalMs);
+
+    now += RATE_CONTROL_CONFIG.initialIntervalMs;
+    expect(controller.waitMs()).toBe(0);
+  });
+
+  it('pausa todas las llamadas lo que pide Retry-After y reduce el ritmo', () => {
+    controller.tryAcquire();
+    controller.recordRateLimit(10_000);
+
+    expect(controller.waitMs()).toBe(10_000 + 500);
+    const state = controller.getState();
+    expect(state.intervalMs).toBe(
+      RATE_CONTROL_CONFIG.initialIntervalMs * RATE_CONTROL_CONFIG.backoffFactor,
+    );
+    expect(state.pausedUntil).toBe(new Date(now + 10_500).toISOString());
+    expect(state.lastRateLimitAt).toBe(new Date(now).toISOString());
+  });
+
+  it('sin Retry-After aplica backoff exponencial entre 429 seguidos', () => {
+    controller.recordRateLimit();
+    expect(controller.waitMs()).toBe(RATE_CONTROL_CONFIG.baseBackoffMs + 500);
+
+    now += controller.waitMs();
+    controller.recordRateLimit();
+    expect(controller.waitMs()).toBe(
+      RATE_CONTROL_CONFIG.baseBackoffMs * 2 + 500,
+    );
+  });
+
+  it('tantea un ritmo mayor tras una racha de éxitos', () => {
+    for (let i = 0; i < RATE_CONTROL_CONFIG.probeAfterSuccesses; i++) {
+      controller.recordSuccess();
+    }
+
+    expect(controller.getState().intervalMs).toBe(
+      Math.round(
+        RATE_CONTROL_CONFIG.initialIntervalMs * RATE_CONTROL_CONFIG.probeFactor,
+      ),
+    );
+  });
+
+  it('abre el circuito tras fallos seguidos y lo cierra con una prueba exitosa', () => {
+    for (let i = 0; i < RATE_CONTROL_CONFIG.failureThreshold; i++) {
+      controller.recordFailure();
+    }
+
+    expect(controller.getState().circuit).toBe('open');
+    expect(controller.tryAcquire()).toBe('open');
+    expect(controller.openRemainingMs()).toBe(RATE_CONTROL_CONFIG.openMs);
+
+    now += RATE_CONTROL_CONFIG.openMs;
+    // Solo una llamada de prueba a la vez
+    expect(controller.tryAcquire()).toBe('granted');
+    expect(controller.getState().circuit).toBe('half_open');
+    expect(controller.tryAcquire()).toBe('busy');
+
+    controller.recordSuccess();
+    expect(controller.getState()).toMatchObject({
+      circuit: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('reabre el circuito por más tiempo si la prueba falla', () => {
+    for (let i = 0; i < RATE_CONTROL_CONFIG.failureThreshold; i++) {
+      controller.recordFailure();
+    }
+    now += RATE_CONTROL_CONFIG.openMs;
+    controller.tryAcquire();
+
+    controller.recordFailure();
+
+    expect(controller.getState().circuit).toBe('open');
+    expect(controller.openRemainingMs()).toBe(RATE_CONTROL_CONFIG.openMs * 2);
+  });
+
+  it('los errores del cliente no cuentan como fallos de Labelary', () => {
+    for (let i = 0; i < RATE_CONTROL_CONFIG.failureThreshold - 1; i++) {
+      controller.recordFailure();
+    }
+    controller.recordClientError();
+    controller.recordFailure();
+
+    expect(controller.getState()).toMatchObject({
+      circuit: 'closed',
+      consecutiveFailures: 1,
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-03-10T12:00:00.000Z');
+
+  it('acepta segundos y fechas HTTP', () => {
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Tue, 10 Mar 2026 12:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('ignora valores ausentes o inválidos y acota pausas enormes', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('pronto', now)).toBeUndefined();
+    expect(parseRetryAfter('86400', now)).toBe(
+      RATE_CONTROL_CONFIG.maxBackoffMs,
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  RATE_CONTROL_CONFIG,
+  CircuitState,
+  LabelaryRateControlState,
+} from '../interfaces/queue.interface.js';
+
+/**
+ * El circuito hacia Labelary está abierto: la llamada se rechaza sin salir
+ * del servidor.
+ */
+export class LabelaryUnavailableError extends Error {
+  constructor(public readonly retryAfterMs: number) {
+    super('Labelary no está disponible temporalmente');
+    this.name = 'LabelaryUnavailableError';
+  }
+}
+
+/** Resultado de pedir turno para llamar a Labelary */
+export type RatePermit = 'granted' | 'open' | 'busy';
+
+/**
+ * Decide cuándo se puede llamar a Labelary a partir de cómo responde:
+ * - 429: sube el intervalo entre llamadas y pausa todas las llamadas el
+ *   tiempo que indique Retry-After (o un backoff exponencial), con jitter
+ * - éxitos sostenidos: baja el intervalo un poco para tantear más ritmo
+ * - fallos seguidos (429, 5xx, red): abre el circuito; pasado un tiempo deja
+ *   pasar una sola llamada de prueba (half_open) que lo cierra o lo reabre
+ *
+ * El estado es de la instancia; cada réplica se adapta por su cuenta.
+ */
+export class LabelaryRateController {
+  private intervalMs = RATE_CONTROL_CONFIG.initialIntervalMs;
+  private lastDispatchAt = 0;
+  private pausedUntil = 0;
+  private consecutiveRateLimits = 0;
+  private consecutiveFailures = 0;
+  private successStreak = 0;
+  private lastRateLimitAt: number | null = null;
+
+  private circuit: CircuitState = 'closed';
+  private openUntil = 0;
+  private openMs = RATE_CONTROL_CONFIG.openMs;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /**
+   * Milisegundos que faltan para poder llamar, por intervalo o por pausa
+   */
+  waitMs(): number {
+    const now = this.now();
+    return Math.max(
+      0,
+      this.pausedUntil - now,
+      this.lastDispatchAt + this.intervalMs - now,
+    );
+  }
+
+  /**
+   * Pide turno para una llamada. Con el circuito abierto se rechaza; cuando
+   * vence, solo la primera petición pasa como prueba y el resto espera.
+   */
+  tryAcquire(): RatePermit {
+    if (this.circuit === 'open') {
+      if (this.now() < this.openUntil) {
+        return 'open';
+      }
+      this.circuit = 'half_open';
+    }
+
+    if (this.circuit === 'half_open') {
+      if (this.probeInFlight) {
+        return 'busy';
+      }
+      this.probeInFlight = true;
+    }
+
+    this.lastDispatchAt = this.now();
+    return 'granted';
+  }
+
+  /** Milisegundos hasta que el circuito admita una llamada de prueba */
+  openRemainingMs(): number {
+    return Math.max(0, this.openUntil - this.now());
+  }
+
+  recordSuccess(): void {
+    this.markHealthy();
+    this.consecutiveRateLimits = 0;
+    this.successStreak++;
+
+    // Tantear más ritmo solo si hace rato que no hay 429
+    if (this.successStreak >= RATE_CONTROL_CONFIG.probeAfterSuccesses) {
+      this.successStreak = 0;
+      this.intervalMs = Math.max(
+        RATE_CONTROL_CONFIG.minIntervalMs,
+        Math.round(this.intervalMs * RATE_CONTROL_CONFIG.probeFactor),
+      );
+    }
+  }
+
+  /**
+   * Labelary respondió con un error del cliente (ZPL inválido, 413...): el
+   * servicio está vivo aunque la llamada fallara
+   */
+  recordClientError(): void {
+    this.markHealthy();
+  }
+
+  /**
+   * @param retryAfterMs Pausa pedida por Labelary (cabecera Retry-After)
+   */
+  recordRateLimit(retryAfterMs?: number): void {
+    const now = this.now();
+    this.consecutiveRateLimits++;
+    this.lastRateLimitAt = now;
+    this.intervalMs = Math.min(
+      RATE_CONTROL_CONFIG.maxIntervalMs,
+      this.intervalMs * RATE_CONTROL_CONFIG.backoffFactor,
+    );
+
+    const backoff =
+      retryAfterMs ??
+      Math.min(
+        RATE_CONTROL_CONFIG.maxBackoffMs,
+        RATE_CONTROL_CONFIG.baseBackoffMs *
+          Math.pow(2, this.consecutiveRateLimits - 1),
+      );
+    const jitter = this.random() * RATE_CONTROL_CONFIG.maxJitterMs;
+    this.pausedUntil = Math.max(this.pausedUntil, now + backoff + jitter);
+
+    this.recordFailure();
+  }
+
+  /** 5xx, timeout o error de red */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.successStreak = 0;
+
+    if (this.circuit === 'half_open') {
+      // La prueba falló: más tiempo abierto antes de la siguiente
+      this.openMs = Math.min(RATE_CONTROL_CONFIG.maxOpenMs, this.openMs * 2);
+      this.open();
+      return;
+    }
+
+    if (
+      this.circuit === 'closed' &&
+      this.consecutiveFailures >= RATE_CONTROL_CONFIG.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  getState(): LabelaryRateControlState {
+    const now = this.now();
+    const iso = (ms: number) => new Date(ms).toISOString();
+
+    return {
+      circuit: this.circuit,
+      intervalMs: this.intervalMs,
+      callsPerMinute: Math.round(60000 / this.intervalMs),
+      pausedUntil: this.pausedUntil > now ? iso(this.pausedUntil) : null,
+      openUntil: this.circuit === 'open' ? iso(this.openUntil) : null,
+      consecutiveFailures: this.consecutiveFailures,
+      lastRateLimitAt:
+        this.lastRateLimitAt !== null ? iso(this.lastRateLimitAt) : null,
+    };
+  }
+
+  private open(): void {
+    this.circuit = 'open';
+    this.openUntil = this.now() + this.openMs;
+    this.probeInFlight = false;
+  }
+
+  private markHealthy(): void {
+    this.consecutiveFailures = 0;
+    if (this.circuit === 'half_open') {
+      this.circuit = 'closed';
+      this.openMs = RATE_CONTROL_CONFIG.openMs;
+    }
+    this.probeInFlight = false;
+  }
+}
+
+/**
+ * Interpreta la cabecera Retry-After (segundos o fecha HTTP)
+ * @returns Milisegundos a esperar, o undefined si no viene o no es válida
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, RATE_CONTROL_CONFIG.maxBackoffMs);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.min(Math.max(0, date - now), RATE_CONTROL_CONFIG.maxBackoffMs);
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { PrinterDpmm } from '../enums/printer-dpmm.enum.js';
+import { LabelRenderer } from '../interfaces/label-renderer.interface.js';
+
+/**
+ * Llamadas HTTP a la API de Labelary.
+ *
+ * No aplica rate limit ni reintentos: de eso se encarga LabelaryQueueService,
+ * que es quien decide cuándo se puede llamar a este renderizador.
+ */
+@Injectable()
+export class LabelaryRendererService implements LabelRenderer {
+  readonly name = 'labelary' as const;
+
+  async renderPdf(
+    zpl: string,
+    labelSize: string,
+    dpmm: PrinterDpmm,
+  ): Promise<Buffer> {
+    const url = `http://api.labelary.com/v1/printers/${dpmm}dpmm/labels/${labelSize}`;
+
+    const response = await axios.post(url, zpl, {
+      headers: {
+        Accept: 'application/pdf',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      responseType: 'arraybuffer',
+      timeout: 60000, // 60 segundos timeout
+    });
+
+    return Buffer.from(response.data);
+  }
+
+  async renderPng(
+    zpl: string,
+    labelSize: string,
+    dpmm: PrinterDpmm,
+  ): Promise<Buffer> {
+    const url = `http://api.labelary.com/v1/printers/${dpmm}dpmm/labels/${labelSize}/0/`;
+
+    const response = await axios.post(url, zpl, {
+      headers: {
+        Accept: 'image/png',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      responseType: 'arraybuffer',
+      timeout: 30000, // 30 segundos timeout para una sola etiqueta
+    });
+
+    return Buffer.from(response.data);
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { PDFDocument } from 'pdf-lib';
+import { pdfToPng } from 'pdf-to-png-converter';
+import { PrinterDpmm, printerDpi } from '../enums/printer-dpmm.enum.js';
+import { LabelRenderer } from '../interfaces/label-renderer.interface.js';
+import { PdfLabelPainter } from '../rendering/pdf-painter.js';
+import { SvgLabelPainter } from '../rendering/svg-painter.js';
+import { ZplLayoutEngine } from '../rendering/zpl-layout.js';
+import { labelSizeInDots } from '../utils/label-size.util.js';
+
+/**
+ * Renderizador ZPL en proceso.
+ *
+ * Interpreta el ZPL con ZplLayoutEngine y lo pinta con pdf-lib, sin salir a la
+ * red ni consumir cuota de Labelary. Ante comandos que no sabe dibujar lanza
+ * UnsupportedZplError para que el modo `local_fallback` derive a Labelary.
+ */
+@Injectable()
+export class LocalRendererService implements LabelRenderer {
+  readonly name = 'local' as const;
+
+  async renderPdf(
+    zpl: string,
+    labelSize: string,
+    dpmm: PrinterDpmm,
+  ): Promise<Buffer> {
+    const size = labelSizeInDots(labelSize, dpmm);
+    if (!size) {
+      throw new Error(`Tamaño de etiqueta no válido: ${labelSize}`);
+    }
+
+    const doc = await PDFDocument.create();
+    const painter = await PdfLabelPainter.create(doc);
+    const engine = new ZplLayoutEngine({ ...size, dpmm }, painter);
+
+    const labels = engine.layout(zpl);
+    if (labels.length === 0) {
+      throw new Error('El ZPL no contiene etiquetas con contenido imprimible');
+    }
+
+    for (const label of labels) {
+      await painter.addPage(label);
+    }
+
+    return Buffer.from(await doc.save());
+  }
+
+  async renderPng(
+    zpl: string,
+    labelSize: string,
+    dpmm: PrinterDpmm,
+  ): Promise<Buffer> {
+    const pdf = await this.renderPdf(zpl, labelSize, dpmm);
+    const arrayBuffer = pdf.buffer.slice(
+      pdf.byteOffset,
+      pdf.byteOffset + pdf.byteLength,
+    );
+
+    // Escala para que cada punto de impresora sea un pixel, como Labelary
+    const [page] = await pdfToPng(arrayBuffer, {
+      disableFontFace: true,
+      useSystemFonts: true,
+      viewportScale: printerDpi(dpmm) / 72,
+      pagesToProcess: [1],
+    });
+
+    return page.content;
+  }
+
+  /** Un documento SVG por etiqueta, en orden */
+  async renderSvg(
+    zpl: string,
+    labelSize: string,
+    dpmm: PrinterDpmm,
+  ): Promise<string[]> {
+    const size = labelSizeInDots(labelSize, dpmm);
+    if (!size) {
+      throw new Error(`Tamaño de etiqueta no válido: ${labelSize}`);
+    }
+
+    const painter = await SvgLabelPainter.create();
+    const engine = new ZplLayoutEngine({ ...size, dpmm }, painter);
+
+    const labels = engine.layout(zpl);
+    if (labels.length === 0) {
+      throw new Error('El ZPL no contiene etiquetas con contenido imprimible');
+    }
+
+    return labels.map((label) => painter.render(label));
+  }
+}
@@ -0,0 +1,183 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PDFDocument } from 'pdf-lib';
+import { StorageService } from '../../storage/storage.service.js';
+import { LabelaryAnalyticsService } from './labelary-analytics.service.js';
+import { RENDER_CACHE_LIMITS } from '../interfaces/render-cache.interface.js';
+import type { RenderCacheLevel } from '../interfaces/render-cache.interface.js';
+
+/**
+ * Caché de renderizado en Storage (`zpl-pdfs/`), a dos niveles:
+ * - documento: el PDF final de una conversión idéntica (mismo ZPL y opciones)
+ * - bloque: el PDF de una sola etiqueta única, reutilizable entre documentos
+ *   que comparten etiquetas (remitente, avisos, plantillas...)
+ *
+ * Es best-effort: cualquier error de Storage cuenta como fallo de caché y la
+ * conversión sigue renderizando.
+ */
+@Injectable()
+export class RenderCacheService {
+  private readonly logger = new Logger(RenderCacheService.name);
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly analyticsService: LabelaryAnalyticsService,
+  ) {}
+
+  /**
+   * Clave de un documento o bloque. El nivel va en el hash para que un
+   * documento de una sola etiqueta no se confunda con su bloque.
+   */
+  key(
+    level: RenderCacheLevel,
+    zpl: string,
+    labelSize: string,
+    ...variant: string[]
+  ): string {
+    return this.storageService.generateZplHash(
+      zpl,
+      labelSize,
+      level,
+      ...variant,
+    );
+  }
+
+  /**
+   * Busca el PDF final de una conversión idéntica
+   * @returns El PDF, o null si no está en caché
+   */
+  async getDocument(key: string): Promise<Buffer | null> {
+    const pdf = await this.storageService.getCachedPdf(
+      key,
+      RENDER_CACHE_LIMITS.ttlMs,
+    );
+    this.analyticsService.trackCacheLookup(
+      'document',
+      pdf ? 1 : 0,
+      pdf ? 0 : 1,
+    );
+    return pdf;
+  }
+
+  /**
+   * Guarda el PDF final en segundo plano (los documentos enormes se omiten)
+   */
+  saveDocument(key: string, pdf: Buffer): void {
+    if (pdf.length > RENDER_CACHE_LIMITS.maxDocumentBytes) {
+      return;
+    }
+
+    this.storageService
+      .savePdf(pdf, key)
+      .catch((err) =>
+        this.logger.warn(`Error guardando documento en caché: ${err.message}`),
+      );
+  }
+
+  /**
+   * Busca las etiquetas en caché
+   * @param keys Una clave por bloque único
+   * @returns El PDF de una página de cada bloque, o null si no está
+   */
+  async getBlocks(keys: string[]): Promise<(Buffer | null)[]> {
+    const pdfs = await this.mapWithConcurrency(keys, (key) =>
+      this.storageService.getCachedPdf(key, RENDER_CACHE_LIMITS.ttlMs),
+    );
+
+    const hits = pdfs.filter(Boolean).length;
+    this.analyticsService.trackCacheLookup('block', hits, keys.length - hits);
+    return pdfs;
+  }
+
+  /**
+   * Guarda en segundo plano cada página de un chunk recién renderizado como
+   * un bloque. Si el PDF no trae una página por bloque (una etiqueta que no
+   * imprime nada, por ejemplo) no se puede saber qué página es de quién y el
+   * chunk no se guarda.
+   * @param chunkPdf PDF del chunk
+   * @param keys Clave de cada bloque del chunk, en orden
+   */
+  saveChunkBlocks(chunkPdf: Buffer, keys: string[]): void {
+    this.splitPages(chunkPdf)
+      .then((pages) => {
+        if (pages.length !== keys.length) {
+          this.logger.debug(
+            `Chunk con ${pages.length} páginas para ${keys.length} bloques, no se guarda en caché`,
+          );
+          return;
+        }
+
+        const entries = pages
+          .map((pdf, i) => ({ key: keys[i], pdf }))
+          .filter(({ pdf }) => pdf.length <= RENDER_CACHE_LIMITS.maxBlockBytes);
+
+        return this.mapWithConcurrency(entries, ({ key, pdf }) =>
+          this.storageService.savePdf(pdf, key),
+        );
+      })
+      .catch((err) =>
+        this.logger.warn(`Error guardando bloques en caché: ${err.message}`),
+      );
+  }
+
+  /**
+   * Une los PDFs de una página recuperados del caché en un solo documento,
+   * en el mismo orden. Falla si alguno no tiene exactamente una página: el
+   * resultado ya no correspondería bloque a bloque.
+   */
+  async mergePages(pdfs: Buffer[]): Promise<Buffer> {
+    const merged = await PDFDocument.create();
+    merged.setProducer('zplpdf-service');
+
+    for (const pdf of pdfs) {
+      const source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+      if (source.getPageCount() !== 1) {
+        throw new Error(`Bloque en caché con ${source.getPageCount()} páginas`);
+      }
+      const [page] = await merged.copyPages(source, [0]);
+      merged.addPage(page);
+    }
+
+    return Buffer.from(await merged.save());
+  }
+
+  /**
+   * Separa un PDF en documentos de una página
+   */
+  private async splitPages(pdf: Buffer): Promise<Buffer[]> {
+    const source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+    const pages: Buffer[] = [];
+
+    for (const index of source.getPageIndices()) {
+      const single = await PDFDocument.create();
+      single.setProducer('zplpdf-service');
+      const [page] = await single.copyPages(source, [index]);
+      single.addPage(page);
+      pages.push(Buffer.from(await single.save()));
+    }
+
+    return pages;
+  }
+
+  /**
+   * Ejecuta `fn` sobre cada elemento con a lo sumo
+   * RENDER_CACHE_LIMITS.concurrency llamadas simultáneas a Storage
+   */
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    fn: (item: T) => Promise<R>,
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index]);
+      }
+    };
+
+    const workers = Math.min(RENDER_CACHE_LIMITS.concurrency, items.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+}
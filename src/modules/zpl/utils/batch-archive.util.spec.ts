@@ -0,0 +1,232 @@
+import archiver from 'archiver';
+import tar from 'tar-stream';
+import { gzipSync } from 'zlib';
+import { Writable } from 'stream';
+import {
+  BatchArchiveError,
+  batchZipEntryName,
+  detectBatchArchive,
+  extractBatchArchive,
+  normalizeArchivePath,
+} from './batch-archive.util';
+import type { BatchArchiveLimits } from './batch-archive.util';
+
+const LIMITS: BatchArchiveLimits = {
+  maxFiles: 10,
+  maxFileSizeBytes: 1024 * 1024,
+  maxEntries: 100,
+  maxTotalBytes: 4 * 1024 * 1024,
+};
+
+function buildZip(
+  files: { name: string; content: string | Buffer }[],
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+    output.on('finish', () => resolve(Buffer.concat(chunks)));
+    archive.on('error', reject);
+    archive.pipe(output);
+    for (const file of files) {
+      archive.append(file.content, { name: file.name });
+    }
+    archive.finalize();
+  });
+}
+
+async function buildTarGz(
+  entries: (Partial<tar.Header> & { name: string })[],
+  contents: Record<string, string | Buffer> = {},
+): Promise<Buffer> {
+  const pack = tar.pack();
+  const chunks: Buffer[] = [];
+  pack.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<void>((resolve) => pack.on('end', () => resolve()));
+
+  for (const header of entries) {
+    const content = contents[header.name];
+    if (content !== undefined) {
+      pack.entry(header, content);
+    } else {
+      pack.entry(header);
+    }
+  }
+  pack.finalize();
+  await done;
+  return gzipSync(Buffer.concat(chunks));
+}
+
+async function extractError(
+  promise: Promise<unknown>,
+): Promise<BatchArchiveError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(BatchArchiveError);
+    return error;
+  }
+  throw new Error('Se esperaba un BatchArchiveError');
+}
+
+describe('batch-archive.util', () => {
+  describe('detectBatchArchive', () => {
+    it('reconoce zip y gzip por su firma aunque el nombre no lo diga', async () => {
+      const zip = await buildZip([{ name: 'a.zpl', content: '^XA^XZ' }]);
+      const tgz = await buildTarGz([]);
+
+      expect(detectBatchArchive('export.bin', zip)).toBe('zip');
+      expect(detectBatchArchive('export', tgz)).toBe('tar.gz');
+      expect(detectBatchArchive('vacio.zip', Buffer.alloc(0))).toBe('zip');
+      expect(detectBatchArchive('label.zpl', Buffer.from('^XA^XZ'))).toBe(null);
+    });
+  });
+
+  describe('normalizeArchivePath', () => {
+    it('conserva carpetas e ignora lo que no es ZPL', () => {
+      expect(normalizeArchivePath('./noche/tienda-1/a.zpl')).toBe(
+        'noche/tienda-1/a.zpl',
+      );
+      expect(normalizeArchivePath('noche\\b.TXT')).toBe('noche/b.TXT');
+      expect(normalizeArchivePath('noche/')).toBeNull();
+      expect(normalizeArchivePath('__MACOSX/noche/._a.zpl')).toBeNull();
+      expect(normalizeArchivePath('noche/.oculto.zpl')).toBeNull();
+      expect(normalizeArchivePath('noche/leeme.pdf')).toBeNull();
+    });
+
+    it('rechaza rutas absolutas o que salen de la carpeta', () => {
+      for (const name of [
+        '../fuera.zpl',
+        'noche/../../fuera.zpl',
+        '/etc/a.zpl',
+        'C:\\a.zpl',
+      ]) {
+        expect(() => normalizeArchivePath(name)).toThrow(BatchArchiveError);
+      }
+    });
+  });
+
+  describe('batchZipEntryName', () => {
+    it('cambia la extensión, conserva carpetas y evita nombres repetidos', () => {
+      const used = new Set<string>();
+
+      expect(batchZipEntryName('noche/a.zpl', 'pdf', used)).toBe('noche/a.pdf');
+      expect(batchZipEntryName('noche/A.txt', 'pdf', used)).toBe(
+        'noche/A-2.pdf',
+      );
+      expect(batchZipEntryName('../../b.zpl', 'pdf', used)).toBe('b.pdf');
+    });
+  });
+
+  describe('extractBatchArchive', () => {
+    it('extrae los ZPL de un zip con su ruta relativa', async () => {
+      const zip = await buildZip([
+        { name: 'noche/tienda-1/a.zpl', content: '^XA^FDa^FS^XZ' },
+        { name: 'noche/tienda-2/b.txt', content: '^XA^FDb^FS^XZ' },
+        { name: 'noche/leeme.md', content: '# export' },
+        { name: '__MACOSX/noche/._a.zpl', content: 'meta' },
+      ]);
+
+      const entries = await extractBatchArchive(zip, 'zip', LIMITS);
+
+      expect(
+        entries.map(({ path, content }) => [path, content.toString()]),
+      ).toEqual([
+        ['noche/tienda-1/a.zpl', '^XA^FDa^FS^XZ'],
+        ['noche/tienda-2/b.txt', '^XA^FDb^FS^XZ'],
+      ]);
+    });
+
+    it('extrae los ZPL de un tar.gz e ignora symlinks', async () => {
+      const tgz = await buildTarGz(
+        [
+          { name: 'noche', type: 'directory' },
+          { name: 'noche/a.zpl', type: 'file' },
+          { name: 'noche/b.zpl', type: 'symlink', linkname: '/etc/passwd' },
+        ],
+        { 'noche/a.zpl': '^XA^XZ' },
+      );
+
+      const entries = await extractBatchArchive(tgz, 'tar.gz', LIMITS);
+
+      expect(entries.map((entry) => entry.path)).toEqual(['noche/a.zpl']);
+    });
+
+    it('rechaza un tar.gz con rutas que salen de la carpeta', async () => {
+      const tgz = await buildTarGz(
+        [{ name: '../../fuera.zpl', type: 'file' }],
+        {
+          '../../fuera.zpl': '^XA^XZ',
+        },
+      );
+
+      const error = await extractError(
+        extractBatchArchive(tgz, 'tar.gz', LIMITS),
+      );
+      expect(error.reason).toBe('unsafe_path');
+    });
+
+    it('aplica el límite de archivos y de tamaño por archivo del plan', async () => {
+      const many = await buildZip(
+        [1, 2, 3].map((n) => ({ name: `${n}.zpl`, content: '^XA^XZ' })),
+      );
+      const tooMany = await extractError(
+        extractBatchArchive(many, 'zip', { ...LIMITS, maxFiles: 2 }),
+      );
+      expect(tooMany.reason).toBe('too_many_files');
+      expect(tooMany.data).toEqual({ maxFiles: 2 });
+
+      const big = await buildZip([
+        { name: 'grande.zpl', content: 'x'.repeat(2048) },
+      ]);
+      const tooBig = await extractError(
+        extractBatchArchive(big, 'zip', { ...LIMITS, maxFileSizeBytes: 1024 }),
+      );
+      expect(tooBig.reason).toBe('file_too_large');
+      expect(tooBig.data).toEqual({ fileName: 'grande.zpl', maxSize: 1024 });
+    });
+
+    it('corta las bombas de descompresión por el total descomprimido', async () => {
+      const zeros = Buffer.alloc(2 * 1024 * 1024);
+      const limits = {
+        ...LIMITS,
+        maxFileSizeBytes: 4 * 1024 * 1024,
+        maxTotalBytes: 1024 * 1024,
+      };
+
+      const zip = await buildZip([{ name: 'bomba.zpl', content: zeros }]);
+      expect(zip.length).toBeLessThan(16 * 1024);
+      expect(
+        (await extractError(extractBatchArchive(zip, 'zip', limits))).reason,
+      ).toBe('archive_too_large');
+
+      // En el tar cuenta también lo que se ignora
+      const tgz = await buildTarGz([{ name: 'relleno.bin', type: 'file' }], {
+        'relleno.bin': zeros,
+      });
+      expect(
+        (await extractError(extractBatchArchive(tgz, 'tar.gz', limits))).reason,
+      ).toBe('archive_too_large');
+    });
+
+    it('rechaza archivos dañados o con demasiadas entradas', async () => {
+      const corrupt = await extractError(
+        extractBatchArchive(Buffer.from('PK\x03\x04basura'), 'zip', LIMITS),
+      );
+      expect(corrupt.reason).toBe('invalid');
+
+      const crowded = await buildZip(
+        [1, 2, 3].map((n) => ({ name: `leeme-${n}.md`, content: 'x' })),
+      );
+      const tooMany = await extractError(
+        extractBatchArchive(crowded, 'zip', { ...LIMITS, maxEntries: 2 }),
+      );
+      expect(tooMany.reason).toBe('too_many_entries');
+    });
+  });
+});
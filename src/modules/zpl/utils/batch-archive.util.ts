@@ -0,0 +1,389 @@
+import yauzl from 'yauzl';
+import tar from 'tar-stream';
+import { createGunzip } from 'zlib';
+
+export type BatchArchiveKind = 'zip' | 'tar.gz';
+
+export type BatchArchiveErrorReason =
+  | 'invalid'
+  | 'unsafe_path'
+  | 'too_many_entries'
+  | 'too_many_files'
+  | 'file_too_large'
+  | 'archive_too_large';
+
+export interface BatchArchiveLimits {
+  /** Archivos ZPL que se aceptan (los del plan) */
+  maxFiles: number;
+  /** Tamaño máximo de cada archivo ZPL descomprimido */
+  maxFileSizeBytes: number;
+  /** Entradas del archivo, contando las que se ignoran */
+  maxEntries: number;
+  /** Bytes descomprimidos en total */
+  maxTotalBytes: number;
+}
+
+export interface BatchArchiveEntry {
+  /** Ruta relativa dentro del archivo, con `/` como separador */
+  path: string;
+  content: Buffer;
+}
+
+export class BatchArchiveError extends Error {
+  constructor(
+    public readonly reason: BatchArchiveErrorReason,
+    message: string,
+    public readonly data?: Record<string, any>,
+  ) {
+    super(message);
+    this.name = 'BatchArchiveError';
+  }
+}
+
+/** Stream de una entrada: Readable de Node (zip) o de streamx (tar) */
+interface EntryStream {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  destroy(): unknown;
+}
+
+const ZPL_FILE_PATTERN = /\.(zpl|txt)$/i;
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Identifica un .zip o .tar.gz por su firma; la extensión solo desempata
+ * archivos vacíos o sin firma reconocible
+ * @returns El tipo de archivo, o null si es un archivo ZPL normal
+ */
+export function detectBatchArchive(
+  fileName: string,
+  buffer: Buffer,
+): BatchArchiveKind | null {
+  if (buffer.subarray(0, 4).equals(ZIP_MAGIC)) {
+    return 'zip';
+  }
+  if (buffer.subarray(0, 2).equals(GZIP_MAGIC)) {
+    return 'tar.gz';
+  }
+  if (/\.zip$/i.test(fileName)) {
+    return 'zip';
+  }
+  if (/\.(tar\.gz|tgz)$/i.test(fileName)) {
+    return 'tar.gz';
+  }
+  return null;
+}
+
+/**
+ * Normaliza la ruta de una entrada del archivo
+ * @returns La ruta relativa, o null si la entrada se ignora (carpetas,
+ *   archivos ocultos, metadatos de macOS o extensiones que no son ZPL)
+ * @throws BatchArchiveError si la ruta es absoluta o sale de la carpeta
+ */
+export function normalizeArchivePath(name: string): string | null {
+  const unixName = name.replace(/\\/g, '/');
+  if (
+    unixName.startsWith('/') ||
+    /^[a-zA-Z]:/.test(unixName) ||
+    // eslint-disable-next-line no-control-regex
+    /[\x00-\x1f]/.test(unixName)
+  ) {
+    throw unsafePath(name);
+  }
+
+  const segments = unixName
+    .split('/')
+    .filter((segment) => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw unsafePath(name);
+  }
+
+  if (unixName.endsWith('/') || segments.length === 0) {
+    return null;
+  }
+  if (
+    segments[0] === '__MACOSX' ||
+    segments.some((segment) => segment.startsWith('.'))
+  ) {
+    return null;
+  }
+  if (!ZPL_FILE_PATTERN.test(segments[segments.length - 1])) {
+    return null;
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Nombre de un archivo convertido dentro del ZIP del batch: conserva las
+ * carpetas del nombre original, cambia la extensión y evita repetidos
+ * @param used Nombres ya usados en el ZIP (se actualiza)
+ */
+export function batchZipEntryName(
+  fileName: string,
+  extension: string,
+  used: Set<string>,
+): string {
+  const segments = fileName
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment !== '' && segment !== '.' && segment !== '..');
+  const base =
+    (segments.join('/') || 'archivo').replace(ZPL_FILE_PATTERN, '') ||
+    'archivo';
+
+  let name = `${base}.${extension}`;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base}-${n}.${extension}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Expande un .zip o .tar.gz en memoria y devuelve sus archivos ZPL con la
+ * ruta relativa. Nada se escribe a disco; las entradas que no son archivos
+ * regulares (symlinks, hard links, carpetas) se ignoran. Los límites se
+ * revisan con el tamaño declarado y de nuevo con los bytes reales, para que
+ * un encabezado falso no permita descomprimir de más.
+ * @throws BatchArchiveError
+ */
+export async function extractBatchArchive(
+  buffer: Buffer,
+  kind: BatchArchiveKind,
+  limits: BatchArchiveLimits,
+): Promise<BatchArchiveEntry[]> {
+  const collector = new ArchiveCollector(limits);
+  if (kind === 'zip') {
+    await extractZip(buffer, collector);
+  } else {
+    await extractTarGz(buffer, collector);
+  }
+  return collector.entries;
+}
+
+function extractZip(buffer: Buffer, collector: ArchiveCollector) {
+  return new Promise<void>((resolve, reject) => {
+    yauzl.fromBuffer(
+      buffer,
+      { lazyEntries: true, validateEntrySizes: true },
+      (openError, zipfile) => {
+        if (openError) {
+          return reject(invalidArchive(openError));
+        }
+
+        let failed = false;
+        const fail = (error: Error) => {
+          if (failed) return;
+          failed = true;
+          zipfile.close();
+          reject(toArchiveError(error));
+        };
+
+        try {
+          collector.countEntries(zipfile.entryCount);
+        } catch (error) {
+          return fail(error);
+        }
+
+        zipfile.on('error', fail);
+        zipfile.on('end', () => resolve());
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          let path: string | null;
+          try {
+            const mode = (entry.externalFileAttributes >>> 16) & S_IFMT;
+            path =
+              mode === S_IFLNK ? null : normalizeArchivePath(entry.fileName);
+            if (path) {
+              collector.accept(path, entry.uncompressedSize);
+            }
+          } catch (error) {
+            return fail(error);
+          }
+
+          if (!path) {
+            return zipfile.readEntry();
+          }
+
+          zipfile.openReadStream(entry, (streamError, stream) => {
+            if (streamError) {
+              return fail(streamError);
+            }
+            collector.read(path, stream).then(() => zipfile.readEntry(), fail);
+          });
+        });
+
+        zipfile.readEntry();
+      },
+    );
+  });
+}
+
+function extractTarGz(buffer: Buffer, collector: ArchiveCollector) {
+  return new Promise<void>((resolve, reject) => {
+    const gunzip = createGunzip();
+    const extract = tar.extract();
+    let inflatedBytes = 0;
+    let failed = false;
+
+    const fail = (error: Error) => {
+      if (failed) return;
+      failed = true;
+      gunzip.destroy();
+      extract.destroy();
+      reject(toArchiveError(error));
+    };
+
+    // El tar completo cuenta, también lo que se ignora: descomprimirlo cuesta
+    gunzip.on('data', (chunk: Buffer) => {
+      inflatedBytes += chunk.length;
+      if (inflatedBytes > collector.limits.maxTotalBytes) {
+        fail(archiveTooLarge(collector.limits.maxTotalBytes));
+      }
+    });
+    gunzip.on('error', fail);
+    extract.on('error', fail);
+    extract.on('finish', () => {
+      if (!failed) resolve();
+    });
+
+    extract.on('entry', (header, stream, next) => {
+      let path: string | null = null;
+      try {
+        collector.countEntries(1);
+        if (header.type === 'file') {
+          path = normalizeArchivePath(header.name);
+        }
+        if (path) {
+          collector.accept(path, header.size ?? 0);
+        }
+      } catch (error) {
+        return fail(error);
+      }
+
+      if (!path) {
+        stream.on('end', () => next());
+        stream.resume();
+        return;
+      }
+
+      collector.read(path, stream).then(() => next(), fail);
+    });
+
+    gunzip.pipe(extract);
+    gunzip.end(buffer);
+  });
+}
+
+/**
+ * Acumula los archivos extraídos y aplica los límites
+ */
+class ArchiveCollector {
+  readonly entries: BatchArchiveEntry[] = [];
+  private entryCount = 0;
+  private totalBytes = 0;
+
+  constructor(readonly limits: BatchArchiveLimits) {}
+
+  countEntries(count: number): void {
+    this.entryCount += count;
+    if (this.entryCount > this.limits.maxEntries) {
+      throw new BatchArchiveError(
+        'too_many_entries',
+        `El archivo comprimido tiene más de ${this.limits.maxEntries} entradas`,
+        { maxEntries: this.limits.maxEntries },
+      );
+    }
+  }
+
+  /** Revisa una entrada ZPL con su tamaño declarado antes de leerla */
+  accept(path: string, declaredSize: number): void {
+    if (this.entries.length >= this.limits.maxFiles) {
+      throw new BatchArchiveError(
+        'too_many_files',
+        `El archivo comprimido tiene más de ${this.limits.maxFiles} archivos ZPL`,
+        { maxFiles: this.limits.maxFiles },
+      );
+    }
+    this.checkFileSize(path, declaredSize);
+    this.checkTotalSize(this.totalBytes + declaredSize);
+  }
+
+  /** Lee una entrada cortando en cuanto supera los límites */
+  read(path: string, stream: EntryStream): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        try {
+          this.checkFileSize(path, size);
+          this.checkTotalSize(this.totalBytes + size);
+        } catch (error) {
+          stream.destroy();
+          return reject(error);
+        }
+        chunks.push(chunk);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => {
+        this.totalBytes += size;
+        this.entries.push({ path, content: Buffer.concat(chunks) });
+        resolve();
+      });
+    });
+  }
+
+  private checkFileSize(path: string, size: number): void {
+    if (size > this.limits.maxFileSizeBytes) {
+      throw new BatchArchiveError(
+        'file_too_large',
+        `El archivo ${path} excede el límite de ${this.limits.maxFileSizeBytes / (1024 * 1024)}MB`,
+        { fileName: path, maxSize: this.limits.maxFileSizeBytes },
+      );
+    }
+  }
+
+  private checkTotalSize(size: number): void {
+    if (size > this.limits.maxTotalBytes) {
+      throw archiveTooLarge(this.limits.maxTotalBytes);
+    }
+  }
+}
+
+function archiveTooLarge(maxTotalBytes: number): BatchArchiveError {
+  return new BatchArchiveError(
+    'archive_too_large',
+    `El contenido descomprimido excede el límite de ${maxTotalBytes / (1024 * 1024)}MB`,
+    { maxSize: maxTotalBytes },
+  );
+}
+
+function unsafePath(name: string): BatchArchiveError {
+  return new BatchArchiveError(
+    'unsafe_path',
+    `La ruta ${name} apunta fuera del archivo comprimido`,
+    { fileName: name },
+  );
+}
+
+function invalidArchive(error: Error): BatchArchiveError {
+  return new BatchArchiveError(
+    'invalid',
+    `El archivo comprimido está dañado o no es válido: ${error.message}`,
+  );
+}
+
+function toArchiveError(error: Error): BatchArchiveError {
+  if (error instanceof BatchArchiveError) {
+    return error;
+  }
+  // yauzl valida las rutas por su cuenta antes de entregar la entrada
+  const match = /^(?:absolute path|invalid relative path): (.*)$/.exec(
+    error.message,
+  );
+  return match ? unsafePath(match[1]) : invalidArchive(error);
+}
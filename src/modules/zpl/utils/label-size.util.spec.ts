@@ -0,0 +1,146 @@
+import {
+  InvalidLabelSizeError,
+  buildLabelSize,
+  describeLabelSize,
+  detectLabelSize,
+  labelSizeFromDots,
+  labelSizeFromMap,
+  labelSizeInDots,
+  normalizeLabelSizeMap,
+  parseLabelSize,
+} from './label-size.util';
+
+/**
+ * Los renderizadores solo entienden "WxH" en pulgadas; estos helpers traducen
+ * los tamaños personalizados (pulgadas o mm) y los acotan al máximo de 15".
+ */
+describe('label-size.util', () => {
+  describe('buildLabelSize', () => {
+    it('convierte milímetros a pulgadas con tres decimales', () => {
+      expect(buildLabelSize({ width: 100, height: 150, unit: 'mm' })).toBe(
+        '3.937x5.906',
+      );
+    });
+
+    it('no añade decimales a medidas enteras en pulgadas', () => {
+      expect(buildLabelSize({ width: 4, height: 6, unit: 'in' })).toBe('4x6');
+    });
+
+    it('rechaza lados de más de 15 pulgadas', () => {
+      expect(() =>
+        buildLabelSize({ width: 4, height: 15.5, unit: 'in' }),
+      ).toThrow(InvalidLabelSizeError);
+      expect(() =>
+        buildLabelSize({ width: 400, height: 100, unit: 'mm' }),
+      ).toThrow(InvalidLabelSizeError);
+    });
+
+    it('rechaza medidas nulas o no numéricas', () => {
+      expect(() => buildLabelSize({ width: 0, height: 2, unit: 'in' })).toThrow(
+        InvalidLabelSizeError,
+      );
+      expect(() =>
+        buildLabelSize({ width: NaN, height: 2, unit: 'in' }),
+      ).toThrow(InvalidLabelSizeError);
+    });
+  });
+
+  describe('parseLabelSize', () => {
+    it('acepta presets, alias y tamaños decimales', () => {
+      expect(parseLabelSize('4x6')).toEqual({
+        widthInches: 4,
+        heightInches: 6,
+      });
+      expect(parseLabelSize('small')).toEqual({
+        widthInches: 2,
+        heightInches: 1,
+      });
+      expect(parseLabelSize('3.937x5.906')).toEqual({
+        widthInches: 3.937,
+        heightInches: 5.906,
+      });
+    });
+
+    it('devuelve null para formatos inválidos o fuera de límites', () => {
+      expect(parseLabelSize('grande')).toBeNull();
+      expect(parseLabelSize('4x16')).toBeNull();
+    });
+  });
+
+  it('calcula las dimensiones en dots con la resolución nominal', () => {
+    expect(labelSizeInDots('4x6', 8)).toEqual({
+      widthDots: 812,
+      heightDots: 1218,
+    });
+    expect(labelSizeInDots('3.937x5.906', 12)).toEqual({
+      widthDots: 1181,
+      heightDots: 1772,
+    });
+  });
+
+  it.each([
+    ['4x6', 8],
+    ['2x1', 6],
+    ['4x2', 12],
+    ['3x2', 24],
+  ])('%s a %idpmm vuelve al mismo tamaño desde dots', (labelSize, dpmm) => {
+    const { widthDots, heightDots } = labelSizeInDots(labelSize, dpmm)!;
+    expect(labelSizeFromDots(widthDots, heightDots, dpmm)).toBe(labelSize);
+  });
+
+  it('describe el tamaño en la unidad que pidió el usuario', () => {
+    expect(
+      describeLabelSize('3.937x5.906', { width: 100, height: 150, unit: 'mm' }),
+    ).toBe('100x150mm');
+    expect(describeLabelSize('large')).toBe('4x6');
+  });
+
+  describe('labelSizeFromDots', () => {
+    it('usa la resolución nominal de la impresora (812 dots a 8dpmm = 4")', () => {
+      expect(labelSizeFromDots(812, 1218, 8)).toBe('4x6');
+      expect(labelSizeFromDots(1200, 600, 12)).toBe('4x2');
+    });
+
+    it('completa con 4x6 lo que el ZPL no declara y acota al máximo', () => {
+      expect(labelSizeFromDots(406, undefined, 8)).toBe('2x6');
+      expect(labelSizeFromDots(undefined, undefined, 8)).toBe('4x6');
+      expect(labelSizeFromDots(812, 8000, 8)).toBe('4x15');
+    });
+
+    it('detecta el tamaño de una etiqueta aislada por sus ^PW/^LL', () => {
+      expect(detectLabelSize('^XA^PW609^LL406^FO0,0^FDx^FS^XZ', 8)).toBe('3x2');
+    });
+  });
+
+  describe('mapa de tamaños por etiqueta', () => {
+    it('normaliza claves, rangos y alias', () => {
+      expect(
+        normalizeLabelSizeMap({ '2-4': 'small', '03': '4X6', '1': '3x2' }),
+      ).toEqual({ '1': '3x2', '3': '4x6', '2-4': '2x1' });
+      expect(normalizeLabelSizeMap(['4x6', '2x1'])).toEqual({
+        '1': '4x6',
+        '2': '2x1',
+      });
+    });
+
+    it('rechaza claves o tamaños inválidos', () => {
+      expect(() => normalizeLabelSizeMap({ '0': '4x6' })).toThrow(
+        InvalidLabelSizeError,
+      );
+      expect(() => normalizeLabelSizeMap({ '5-2': '4x6' })).toThrow(
+        InvalidLabelSizeError,
+      );
+      expect(() => normalizeLabelSizeMap({ '1': '4x20' })).toThrow(
+        InvalidLabelSizeError,
+      );
+      expect(() => normalizeLabelSizeMap('4x6')).toThrow(InvalidLabelSizeError);
+    });
+
+    it('prioriza un número suelto sobre el rango que lo incluye', () => {
+      const map = normalizeLabelSizeMap({ '1-5': '2x1', '3': '4x6' });
+      expect(labelSizeFromMap(map, 2)).toBe('2x1');
+      expect(labelSizeFromMap(map, 3)).toBe('4x6');
+      expect(labelSizeFromMap(map, 6)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  AUTO_LABEL_SIZE_FALLBACK,
+  LABEL_DIMENSION_LIMITS,
+  LabelDimensions,
+  LabelSizeMap,
+  LabelUnit,
+} from '../interfaces/label-dimensions.interface.js';
+import { printerDpi } from '../enums/printer-dpmm.enum.js';
+import { findCommands, parseZpl } from '../parser/zpl-parser.js';
+import type { ZplLabelNode } from '../parser/zpl-ast.js';
+
+const MM_PER_INCH = 25.4;
+
+/** Alias históricos aceptados por la API */
+const LABEL_SIZE_ALIASES: Record<string, string> = {
+  small: '2x1',
+  large: '4x6',
+};
+
+export class InvalidLabelSizeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidLabelSizeError';
+  }
+}
+
+export function toInches(value: number, unit: LabelUnit): number {
+  return unit === 'mm' ? value / MM_PER_INCH : value;
+}
+
+/** Redondea a milésimas de pulgada y quita ceros sobrantes (3.937, 4, 0.25) */
+function formatInches(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Convierte unas dimensiones personalizadas al tamaño canónico "WxH" en
+ * pulgadas, que es lo que entienden Labelary y el renderizador local.
+ * @throws InvalidLabelSizeError si alguna dimensión está fuera de límites
+ */
+export function buildLabelSize(dimensions: LabelDimensions): string {
+  const { width, height, unit } = dimensions;
+  const { minInches, maxInches } = LABEL_DIMENSION_LIMITS;
+
+  for (const value of [width, height]) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new InvalidLabelSizeError(
+        'El ancho y alto de la etiqueta deben ser números positivos',
+      );
+    }
+    const inches = toInches(value, unit);
+    if (inches < minInches || inches > maxInches) {
+      throw new InvalidLabelSizeError(
+        `Cada lado de la etiqueta debe medir entre ${minInches} y ${maxInches} pulgadas (${Math.round(minInches * MM_PER_INCH * 10) / 10}-${Math.round(maxInches * MM_PER_INCH)} mm)`,
+      );
+    }
+  }
+
+  return `${formatInches(toInches(width, unit))}x${formatInches(toInches(height, unit))}`;
+}
+
+/**
+ * Interpreta un tamaño de etiqueta ("4x6", "3.937x5.906", "small"...).
+ * @returns Ancho y alto en pulgadas, o null si el formato no es válido
+ */
+export function parseLabelSize(
+  labelSize: string,
+): { widthInches: number; heightInches: number } | null {
+  const normalized = labelSize.trim().toLowerCase();
+  const value = LABEL_SIZE_ALIASES[normalized] ?? normalized;
+  const match = value.match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+
+  const widthInches = parseFloat(match[1]);
+  const heightInches = parseFloat(match[2]);
+  const { minInches, maxInches } = LABEL_DIMENSION_LIMITS;
+  if ([widthInches, heightInches].some((v) => v < minInches || v > maxInches)) {
+    return null;
+  }
+
+  return { widthInches, heightInches };
+}
+
+/** Tamaño de la etiqueta en puntos de impresora para una resolución dada */
+export function labelSizeInDots(
+  labelSize: string,
+  dpmm: number,
+): { widthDots: number; heightDots: number } | null {
+  const size = parseLabelSize(labelSize);
+  if (!size) {
+    return null;
+  }
+
+  const dpi = printerDpi(dpmm);
+  return {
+    widthDots: Math.round(size.widthInches * dpi),
+    heightDots: Math.round(size.heightInches * dpi),
+  };
+}
+
+/**
+ * Etiqueta legible del tamaño para nombres de archivo: respeta la unidad en
+ * que el usuario lo pidió (p. ej. "100x150mm" en lugar de "3.937x5.906").
+ */
+export function describeLabelSize(
+  labelSize: string,
+  dimensions?: LabelDimensions,
+): string {
+  if (dimensions) {
+    const suffix = dimensions.unit === 'mm' ? 'mm' : 'in';
+    return `${dimensions.width}x${dimensions.height}${suffix}`;
+  }
+  const normalized = labelSize.trim().toLowerCase();
+  return LABEL_SIZE_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Lee el ancho de impresión (^PW) y el largo de etiqueta (^LL) de un bloque.
+ * Cualquiera de los dos puede faltar: la impresora conserva el último valor.
+ */
+export function readPrintDimensions(label: ZplLabelNode): {
+  widthDots?: number;
+  lengthDots?: number;
+} {
+  // Si se repiten, manda el último
+  const lastValue = (code: string) => {
+    const commands = findCommands(label, code);
+    const value = parseInt(commands[commands.length - 1]?.args[0] ?? '', 10);
+    return Number.isNaN(value) ? undefined : value;
+  };
+  return { widthDots: lastValue('PW'), lengthDots: lastValue('LL') };
+}
+
+/**
+ * Convierte dimensiones en dots al tamaño canónico en pulgadas. Lo que falte
+ * se completa con AUTO_LABEL_SIZE_FALLBACK y el resultado se acota a los
+ * límites del renderizador.
+ */
+export function labelSizeFromDots(
+  widthDots: number | undefined,
+  lengthDots: number | undefined,
+  dpmm: number,
+): string {
+  const { minInches, maxInches } = LABEL_DIMENSION_LIMITS;
+  const dpi = printerDpi(dpmm);
+  const toLabelInches = (dots: number | undefined, fallback: number) => {
+    if (!dots) {
+      return fallback;
+    }
+    const inches = dots / dpi;
+    return Math.min(maxInches, Math.max(minInches, inches));
+  };
+
+  const width = toLabelInches(widthDots, AUTO_LABEL_SIZE_FALLBACK.widthInches);
+  const height = toLabelInches(
+    lengthDots,
+    AUTO_LABEL_SIZE_FALLBACK.heightInches,
+  );
+  return `${formatInches(width)}x${formatInches(height)}`;
+}
+
+/** Tamaño de una etiqueta aislada según sus propios ^PW/^LL */
+export function detectLabelSize(block: string, dpmm: number): string {
+  const [label] = parseZpl(block).labels;
+  const { widthDots, lengthDots } = label ? readPrintDimensions(label) : {};
+  return labelSizeFromDots(widthDots, lengthDots, dpmm);
+}
+
+const LABEL_SIZE_MAP_KEY = /^(\d+)(?:-(\d+))?$/;
+
+/**
+ * Valida un mapa de tamaños por etiqueta y normaliza sus valores (alias y
+ * mayúsculas). Acepta también un array, donde la posición i corresponde a la
+ * etiqueta i + 1.
+ * @throws InvalidLabelSizeError si alguna clave o tamaño no es válido
+ */
+export function normalizeLabelSizeMap(input: unknown): LabelSizeMap {
+  const entries: [string, unknown][] = Array.isArray(input)
+    ? input.map((value, i) => [String(i + 1), value])
+    : input && typeof input === 'object'
+      ? Object.entries(input)
+      : [];
+
+  if (entries.length === 0) {
+    throw new InvalidLabelSizeError(
+      'labelSizeMap debe ser un objeto {"1": "4x6", "2-5": "2x1"} o un array de tamaños',
+    );
+  }
+
+  const map: LabelSizeMap = {};
+  for (const [key, value] of entries) {
+    const range = key.trim().match(LABEL_SIZE_MAP_KEY);
+    const from = Number(range?.[1]);
+    const to = Number(range?.[2] ?? range?.[1]);
+    if (!range || from < 1 || to < from) {
+      throw new InvalidLabelSizeError(
+        `Clave de labelSizeMap no válida: "${key}" (use "3" o "2-5")`,
+      );
+    }
+    if (typeof value !== 'string' || !parseLabelSize(value)) {
+      throw new InvalidLabelSizeError(
+        `Tamaño no válido para la etiqueta ${key}: ${String(value)}`,
+      );
+    }
+    // Claves canónicas: los números sueltos quedan como índices enteros, que
+    // Object.entries recorre antes que los rangos
+    map[range[2] ? `${from}-${to}` : String(from)] = describeLabelSize(value);
+  }
+
+  return map;
+}
+
+/**
+ * Tamaño asignado a una etiqueta en el mapa, o undefined si no aparece. Un
+ * número suelto tiene prioridad sobre un rango que lo incluya.
+ * @param labelNumber Número de etiqueta, desde 1
+ */
+export function labelSizeFromMap(
+  map: LabelSizeMap,
+  labelNumber: number,
+): string | undefined {
+  for (const [key, size] of Object.entries(map)) {
+    const [, from, to] = key.match(LABEL_SIZE_MAP_KEY)!;
+    if (labelNumber >= Number(from) && labelNumber <= Number(to ?? from)) {
+      return size;
+    }
+  }
+  return undefined;
+}
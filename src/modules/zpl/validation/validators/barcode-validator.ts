@@ -5,6 +5,7 @@ import {
   ValidationOptions,
 } from '../zpl-validation.types.js';
 import { getMessages } from '../messages/error-messages.js';
+import type { ZplLabelNode } from '../../parser/zpl-ast.js';
 
 /**
  * Validador de codigos de barras ZPL
@@ -46,17 +47,16 @@ export class BarcodeValidator implements IZplValidator {
   // Orientaciones validas
   private readonly validOrientations = ['N', 'R', 'I', 'B', ''];
 
-  validate(block: string, options: ValidationOptions): ValidationIssue[] {
+  validate(label: ZplLabelNode, options: ValidationOptions): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
     const messages = getMessages(options.language);
 
-    // Buscar todos los comandos de codigo de barras
-    const barcodePattern = /\^B([0-9A-Z])([^^\n]*)?/g;
-    let match;
+    // Recorrer todos los comandos de codigo de barras
+    for (const node of label.commands) {
+      if (node.prefix !== '^' || !/^B[0-9A-Z]$/.test(node.code)) continue;
 
-    while ((match = barcodePattern.exec(block)) !== null) {
-      const command = '^B' + match[1];
-      const params = match[2] || '';
+      const command = '^' + node.code;
+      const params = node.params;
 
       // Verificar si el tipo de codigo de barras es soportado
       if (!this.supportedBarcodes.includes(command)) {
@@ -65,8 +65,8 @@ export class BarcodeValidator implements IZplValidator {
           type: this.type,
           severity: 'error',
           message: messages.unsupportedBarcode(command),
-          position: match.index,
-          context: match[0].substring(0, 30),
+          position: node.offset,
+          context: (command + params).substring(0, 30),
           suggestion: messages.suggestSupportedBarcodes,
           command,
         });
@@ -76,19 +76,19 @@ export class BarcodeValidator implements IZplValidator {
       // Validaciones especificas por tipo
       switch (command) {
         case '^BC': // Code 128
-          this.validateCode128(params, match.index, issues, messages);
+          this.validateCode128(params, node.offset, issues, messages);
           break;
         case '^BQ': // QR Code
-          this.validateQRCode(params, match.index, issues, messages);
+          this.validateQRCode(params, node.offset, issues, messages);
           break;
         case '^BY': // Bar Code Field Default
-          this.validateBYDefault(params, match.index, issues, messages);
+          this.validateBYDefault(params, node.offset, issues, messages);
           break;
       }
     }
 
     // Verificar que los codigos de barras tengan datos
-    this.validateBarcodeData(block, issues, messages);
+    this.validateBarcodeData(label, issues, messages);
 
     return issues;
   }
@@ -181,25 +181,31 @@ export class BarcodeValidator implements IZplValidator {
   }
 
   private validateBarcodeData(
-    block: string,
+    label: ZplLabelNode,
     issues: ValidationIssue[],
     messages: ReturnType<typeof getMessages>,
   ): void {
     // Buscar comandos de barcode seguidos de ^FD vacio
-    // Patron: ^B[tipo][params]^FD^FS (sin datos entre ^FD y ^FS)
-    const barcodeWithEmptyData = /\^B[0-9A-Z][^^\n]*\^FD\s*\^FS/g;
-    let match;
-
-    while ((match = barcodeWithEmptyData.exec(block)) !== null) {
-      issues.push({
-        code: 'ZPL_BC_005',
-        type: this.type,
-        severity: 'error',
-        message: messages.emptyBarcodeData,
-        position: match.index,
-        context: match[0].substring(0, 40),
-        suggestion: messages.suggestAddBarcodeData,
-      });
-    }
+    // Secuencia: ^B[tipo][params]^FD^FS (sin datos entre ^FD y ^FS)
+    label.commands.forEach((node, index) => {
+      const [data, end] = label.commands.slice(index + 1, index + 3);
+      if (
+        node.prefix === '^' &&
+        /^B[0-9A-Z]$/.test(node.code) &&
+        data?.code === 'FD' &&
+        data.params.trim() === '' &&
+        end?.code === 'FS'
+      ) {
+        issues.push({
+          code: 'ZPL_BC_005',
+          type: this.type,
+          severity: 'error',
+          message: messages.emptyBarcodeData,
+          position: node.offset,
+          context: `^${node.code}${node.params}^FD^FS`.substring(0, 40),
+          suggestion: messages.suggestAddBarcodeData,
+        });
+      }
+    });
   }
 }
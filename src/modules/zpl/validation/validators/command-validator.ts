@@ -5,6 +5,8 @@ import {
   ValidationOptions,
 } from '../zpl-validation.types.js';
 import { getMessages } from '../messages/error-messages.js';
+import { findCommands } from '../../parser/zpl-parser.js';
+import type { ZplLabelNode } from '../../parser/zpl-ast.js';
 
 /**
  * Validador de comandos ZPL
@@ -20,7 +22,6 @@ export class CommandValidator implements IZplValidator {
     '^JU', // Configuracion guardada
     '^MN', // Modo de impresion
     '^PR', // Velocidad de impresion
-    '^PW', // Ancho de impresion (usar tamaño de etiqueta en su lugar)
     '^MD', // Densidad de impresion
     '^MT', // Tipo de medio
     '^MM', // Modo de impresion
@@ -56,16 +57,15 @@ export class CommandValidator implements IZplValidator {
     'V',
   ];
 
-  validate(block: string, options: ValidationOptions): ValidationIssue[] {
+  validate(label: ZplLabelNode, options: ValidationOptions): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
     const messages = getMessages(options.language);
 
-    // Extraer todos los comandos (empiezan con ^ o ~)
-    const commandPattern = /[\^~]([A-Z][A-Z0-9]?)/g;
-    let match;
-
-    while ((match = commandPattern.exec(block)) !== null) {
-      const command = '^' + match[1];
+    // Revisar todos los comandos (de formato ^ y de control ~). Las fuentes
+    // incluyen su nombre para distinguir ^A@ de ^A0
+    for (const node of label.commands) {
+      const command =
+        node.code === 'A' ? `^A${node.params.charAt(0)}` : '^' + node.code;
 
       // Verificar comandos no soportados
       if (this.unsupportedCommands.some((c) => command.startsWith(c))) {
@@ -74,7 +74,7 @@ export class CommandValidator implements IZplValidator {
           type: this.type,
           severity: 'warning',
           message: messages.unsupportedCommand(command),
-          position: match.index,
+          position: node.offset,
           suggestion: messages.suggestRemoveCommand(command),
           command,
         });
@@ -87,7 +87,7 @@ export class CommandValidator implements IZplValidator {
           type: this.type,
           severity: 'warning',
           message: messages.deprecatedCommand(command),
-          position: match.index,
+          position: node.offset,
           suggestion: messages.suggestAlternative(command),
           command,
         });
@@ -95,26 +95,23 @@ export class CommandValidator implements IZplValidator {
     }
 
     // Verificar ^GB (Graphic Box) tiene parametros validos
-    this.validateGraphicBox(block, issues, messages);
+    this.validateGraphicBox(label, issues, messages);
 
     // Verificar ^CF (Change Font) tiene fuente valida
-    this.validateChangeFont(block, issues, messages);
+    this.validateChangeFont(label, issues, messages);
 
     return issues;
   }
 
   private validateGraphicBox(
-    block: string,
+    label: ZplLabelNode,
     issues: ValidationIssue[],
     messages: ReturnType<typeof getMessages>,
   ): void {
     // ^GBw,h,t,c,r - w=width, h=height, t=thickness, c=color, r=rounding
-    const gbPattern = /\^GB(\d+)?,?(\d+)?/g;
-    let match;
-
-    while ((match = gbPattern.exec(block)) !== null) {
-      const width = match[1] ? parseInt(match[1], 10) : 0;
-      const height = match[2] ? parseInt(match[2], 10) : 0;
+    for (const node of findCommands(label, 'GB')) {
+      const width = parseInt(node.args[0], 10) || 0;
+      const height = parseInt(node.args[1] ?? '', 10) || 0;
 
       // Ambas dimensiones en 0 es invalido
       if (width === 0 && height === 0) {
@@ -123,8 +120,8 @@ export class CommandValidator implements IZplValidator {
           type: this.type,
           severity: 'error',
           message: messages.invalidGraphicBox,
-          position: match.index,
-          context: match[0],
+          position: node.offset,
+          context: node.raw.trim(),
           suggestion: messages.suggestGBParams,
           command: '^GB',
         });
@@ -133,16 +130,13 @@ export class CommandValidator implements IZplValidator {
   }
 
   private validateChangeFont(
-    block: string,
+    label: ZplLabelNode,
     issues: ValidationIssue[],
     messages: ReturnType<typeof getMessages>,
   ): void {
     // ^CFf,h,w - f=font, h=height, w=width
-    const cfPattern = /\^CF([A-Z0-9])?/g;
-    let match;
-
-    while ((match = cfPattern.exec(block)) !== null) {
-      const font = match[1];
+    for (const node of findCommands(label, 'CF')) {
+      const font = node.params.match(/^[A-Z0-9]/)?.[0];
 
       if (font && !this.validFonts.includes(font)) {
         issues.push({
@@ -150,8 +144,8 @@ export class CommandValidator implements IZplValidator {
           type: this.type,
           severity: 'warning',
           message: messages.unknownFont(font),
-          position: match.index,
-          context: match[0],
+          position: node.offset,
+          context: node.raw.trim(),
           suggestion: messages.suggestFonts,
           command: '^CF',
         });
@@ -5,6 +5,14 @@ import {
   ValidationOptions,
 } from '../zpl-validation.types.js';
 import { getMessages } from '../messages/error-messages.js';
+import { labelSizeInDots } from '../../utils/label-size.util.js';
+import { findCommands } from '../../parser/zpl-parser.js';
+import type { ZplLabelNode } from '../../parser/zpl-ast.js';
+
+interface CoordLimits {
+  maxX: number;
+  maxY: number;
+}
 
 /**
  * Validador de posicionamiento ZPL
@@ -13,35 +21,53 @@ import { getMessages } from '../messages/error-messages.js';
 export class PositionValidator implements IZplValidator {
   type: ValidatorType = 'position';
 
-  // Limites razonables para coordenadas (en dots, 8dpmm = 203 dpi)
-  private readonly MAX_COORD = 2000;
+  // Limite razonable para coordenadas en mm (2000 dots a 8dpmm = 203 dpi).
+  // En dots depende de la resolucion: a 12dpmm la misma etiqueta usa 1.5x.
+  private readonly MAX_COORD_MM = 250;
+  private readonly DEFAULT_DPMM = 8;
 
-  validate(block: string, options: ValidationOptions): ValidationIssue[] {
+  validate(label: ZplLabelNode, options: ValidationOptions): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
     const messages = getMessages(options.language);
+    const limits = this.getCoordLimits(options);
 
     // Validar ^FO (Field Origin) - formato: ^FOx,y o ^FOx,y,z
-    this.validateFO(block, issues, messages);
+    this.validateFO(label, issues, messages, limits);
 
     // Validar ^FT (Field Typeset) - formato: ^FTx,y o ^FTx,y,z
-    this.validateFT(block, issues, messages);
+    this.validateFT(label, issues, messages, limits);
 
     return issues;
   }
 
+  /**
+   * Si se conoce el tamano de la etiqueta, las coordenadas se acotan a sus
+   * dimensiones reales en dots; si no, al limite generico.
+   */
+  private getCoordLimits(options: ValidationOptions): CoordLimits {
+    const dpmm = options.dpmm || this.DEFAULT_DPMM;
+    const size = options.labelSize
+      ? labelSizeInDots(options.labelSize, dpmm)
+      : null;
+
+    if (size) {
+      return { maxX: size.widthDots, maxY: size.heightDots };
+    }
+
+    const maxCoord = this.MAX_COORD_MM * dpmm;
+    return { maxX: maxCoord, maxY: maxCoord };
+  }
+
   private validateFO(
-    block: string,
+    label: ZplLabelNode,
     issues: ValidationIssue[],
     messages: ReturnType<typeof getMessages>,
+    limits: CoordLimits,
   ): void {
-    // Patron para capturar ^FO con o sin coordenadas
-    const foPattern = /\^FO(-?\d+)?(?:,(-?\d+))?/g;
-    let match;
-
-    while ((match = foPattern.exec(block)) !== null) {
-      const fullMatch = match[0];
-      const x = match[1];
-      const y = match[2];
+    for (const command of findCommands(label, 'FO')) {
+      const fullMatch = command.raw.trim();
+      const x = command.args[0]?.match(/^-?\d+/)?.[0];
+      const y = command.args[1]?.match(/^-?\d+/)?.[0];
 
       // Verificar que tiene coordenadas
       if (x === undefined || y === undefined) {
@@ -50,7 +76,7 @@ export class PositionValidator implements IZplValidator {
           type: this.type,
           severity: 'error',
           message: messages.foMissingCoords,
-          position: match.index,
+          position: command.offset,
           context: fullMatch,
           suggestion: messages.suggestFoFormat,
           command: '^FO',
@@ -68,7 +94,7 @@ export class PositionValidator implements IZplValidator {
           type: this.type,
           severity: 'warning',
           message: messages.negativeCoords,
-          position: match.index,
+          position: command.offset,
           context: fullMatch,
           suggestion: messages.suggestPositiveCoords,
           command: '^FO',
@@ -76,13 +102,13 @@ export class PositionValidator implements IZplValidator {
       }
 
       // Verificar coordenadas excesivas
-      if (xNum > this.MAX_COORD || yNum > this.MAX_COORD) {
+      if (xNum > limits.maxX || yNum > limits.maxY) {
         issues.push({
           code: 'ZPL_POS_003',
           type: this.type,
           severity: 'warning',
           message: messages.largeCoords,
-          position: match.index,
+          position: command.offset,
           context: fullMatch,
           suggestion: messages.suggestCheckLabelSize,
           command: '^FO',
@@ -92,18 +118,15 @@ export class PositionValidator implements IZplValidator {
   }
 
   private validateFT(
-    block: string,
+    label: ZplLabelNode,
     issues: ValidationIssue[],
     messages: ReturnType<typeof getMessages>,
+    limits: CoordLimits,
   ): void {
-    // Patron para capturar ^FT con o sin coordenadas
-    const ftPattern = /\^FT(\d+)?(?:,(\d+))?/g;
-    let match;
-
-    while ((match = ftPattern.exec(block)) !== null) {
-      const fullMatch = match[0];
-      const x = match[1];
-      const y = match[2];
+    for (const command of findCommands(label, 'FT')) {
+      const fullMatch = command.raw.trim();
+      const x = command.args[0]?.match(/^\d+/)?.[0];
+      const y = command.args[1]?.match(/^\d+/)?.[0];
 
       // ^FT requiere coordenadas
       if (x === undefined || y === undefined) {
@@ -112,7 +135,7 @@ export class PositionValidator implements IZplValidator {
           type: this.type,
           severity: 'error',
           message: messages.ftMissingCoords,
-          position: match.index,
+          position: command.offset,
           context: fullMatch,
           suggestion: messages.suggestFtFormat,
           command: '^FT',
@@ -124,13 +147,13 @@ export class PositionValidator implements IZplValidator {
       const yNum = parseInt(y, 10);
 
       // Verificar coordenadas excesivas
-      if (xNum > this.MAX_COORD || yNum > this.MAX_COORD) {
+      if (xNum > limits.maxX || yNum > limits.maxY) {
         issues.push({
           code: 'ZPL_POS_003',
           type: this.type,
           severity: 'warning',
           message: messages.largeCoords,
-          position: match.index,
+          position: command.offset,
           context: fullMatch,
           suggestion: messages.suggestCheckLabelSize,
           command: '^FT',
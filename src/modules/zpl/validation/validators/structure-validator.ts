@@ -5,6 +5,8 @@ import {
   ValidationOptions,
 } from '../zpl-validation.types.js';
 import { getMessages } from '../messages/error-messages.js';
+import { findCommands } from '../../parser/zpl-parser.js';
+import type { ZplLabelNode } from '../../parser/zpl-ast.js';
 
 /**
  * Validador de estructura ZPL
@@ -13,53 +15,53 @@ import { getMessages } from '../messages/error-messages.js';
 export class StructureValidator implements IZplValidator {
   type: ValidatorType = 'structure';
 
-  validate(block: string, options: ValidationOptions): ValidationIssue[] {
+  validate(label: ZplLabelNode, options: ValidationOptions): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
     const messages = getMessages(options.language);
-    const trimmedBlock = block.trim();
+    const [first] = label.commands;
 
     // Verificar ^XA al inicio
-    if (!trimmedBlock.startsWith('^XA')) {
+    if (first?.prefix !== '^' || first.code !== 'XA') {
       issues.push({
         code: 'ZPL_STRUCT_001',
         type: this.type,
         severity: 'error',
         message: messages.missingXA,
-        position: 0,
+        position: label.offset,
         suggestion: messages.suggestXA,
         command: '^XA',
       });
     }
 
     // Verificar ^XZ al final
-    if (!trimmedBlock.endsWith('^XZ')) {
+    if (!label.terminated) {
       issues.push({
         code: 'ZPL_STRUCT_002',
         type: this.type,
         severity: 'error',
         message: messages.missingXZ,
-        position: block.length,
+        position: label.end,
         suggestion: messages.suggestXZ,
         command: '^XZ',
       });
     }
 
     // Verificar multiples ^XA dentro del bloque
-    const xaMatches = block.match(/\^XA/g) || [];
-    if (xaMatches.length > 1) {
+    const xaCommands = findCommands(label, 'XA');
+    if (xaCommands.length > 1) {
       issues.push({
         code: 'ZPL_STRUCT_003',
         type: this.type,
         severity: 'error',
         message: messages.multipleXA,
+        position: xaCommands[1].offset,
         suggestion: messages.suggestSplitBlocks,
         command: '^XA',
       });
     }
 
     // Verificar multiples ^XZ dentro del bloque
-    const xzMatches = block.match(/\^XZ/g) || [];
-    if (xzMatches.length > 1) {
+    if (findCommands(label, 'XZ').length > 1) {
       issues.push({
         code: 'ZPL_STRUCT_004',
         type: this.type,
@@ -2,6 +2,8 @@
  * Tipos e interfaces para el sistema de validacion ZPL
  */
 
+import type { ZplLabelNode } from '../parser/zpl-ast.js';
+
 // Severidad del problema detectado
 export type ValidationSeverity = 'error' | 'warning' | 'info';
 
@@ -19,8 +21,8 @@ export interface ValidationIssue {
   type: ValidatorType; // Tipo de validador que lo detecto
   severity: ValidationSeverity;
   message: string; // Mensaje en idioma seleccionado
-  line?: number; // Linea aproximada del error
-  position?: number; // Posicion en el string
+  line?: number; // Linea del error en el ZPL original
+  position?: number; // Posicion en el ZPL original
   context?: string; // Fragmento de ZPL donde ocurre
   suggestion?: string; // Sugerencia de correccion
   command?: string; // Comando ZPL relacionado (^FO, ^BC, etc)
@@ -52,12 +54,14 @@ export interface ValidationOptions {
   strictMode?: boolean; // Tratar warnings como errors
   skipValidators?: ValidatorType[];
   maxErrorsPerBlock?: number; // Limitar errores por bloque
+  dpmm?: number; // Resolucion de impresora (default 8dpmm = 203 dpi)
+  labelSize?: string; // Tamano "WxH" en pulgadas para acotar coordenadas
 }
 
 // Interface base para validadores
 export interface IZplValidator {
   type: ValidatorType;
-  validate(block: string, options: ValidationOptions): ValidationIssue[];
+  validate(label: ZplLabelNode, options: ValidationOptions): ValidationIssue[];
 }
 
 // Metricas de validacion para Firestore
@@ -12,6 +12,8 @@ import { PositionValidator } from './validators/position-validator.js';
 import { BarcodeValidator } from './validators/barcode-validator.js';
 import { CommandValidator } from './validators/command-validator.js';
 import { ValidationMetricsService } from '../logging/validation-metrics.service.js';
+import { locateOffset, parseZpl } from '../parser/zpl-parser.js';
+import type { ZplDocument, ZplLabelNode } from '../parser/zpl-ast.js';
 
 /**
  * Servicio principal de validacion ZPL
@@ -46,13 +48,18 @@ export class ZplValidatorService {
     const startTime = Date.now();
     const allIssues: ValidationIssue[] = [];
 
-    // 1. Extraer bloques ZPL
-    const blocks = this.extractBlocks(zplContent);
+    // 1. Extraer bloques ZPL (incluidos los que no se cierran con ^XZ, para
+    // poder reportarlos)
+    const document = parseZpl(zplContent);
+    const blocks = document.labels;
 
     if (blocks.length === 0) {
       // Si no hay bloques, verificar si hay contenido ZPL parcial
-      const hasPartialZpl =
-        zplContent.includes('^XA') || zplContent.includes('^XZ');
+      const hasPartialZpl = document.commands.some(
+        (command) =>
+          command.prefix === '^' &&
+          (command.code === 'XA' || command.code === 'XZ'),
+      );
 
       if (hasPartialZpl) {
         allIssues.push({
@@ -72,8 +79,8 @@ export class ZplValidatorService {
     }
 
     // 2. Ejecutar cada validador en cada bloque
-    for (const [blockIndex, block] of blocks.entries()) {
-      const blockIssues = this.validateBlock(block, blockIndex, options);
+    for (const block of blocks) {
+      const blockIssues = this.validateBlock(document, block, options);
       allIssues.push(...blockIssues);
 
       // Limitar errores por bloque si se especifica
@@ -112,8 +119,8 @@ export class ZplValidatorService {
    * Valida un solo bloque ZPL
    */
   private validateBlock(
-    block: string,
-    blockIndex: number,
+    document: ZplDocument,
+    block: ZplLabelNode,
     options: ValidationOptions,
   ): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
@@ -127,12 +134,16 @@ export class ZplValidatorService {
       try {
         const validatorIssues = validator.validate(block, options);
 
-        // Agregar contexto del bloque a cada issue
+        // Agregar contexto y linea (las posiciones son del ZPL completo)
         issues.push(
           ...validatorIssues.map((issue) => ({
             ...issue,
-            context: issue.context || this.getContext(block, issue.position),
-            line: this.getLineNumber(block, issue.position),
+            context:
+              issue.context || this.getContext(document.source, issue.position),
+            line:
+              issue.position === undefined
+                ? undefined
+                : locateOffset(document, issue.position).line,
           })),
         );
       } catch (error) {
@@ -145,39 +156,21 @@ export class ZplValidatorService {
     return issues;
   }
 
-  /**
-   * Extrae bloques ZPL del contenido (^XA...^XZ)
-   */
-  private extractBlocks(zpl: string): string[] {
-    const blocks = zpl.match(/\^XA[\s\S]*?\^XZ/g) || [];
-    return blocks;
-  }
-
   /**
    * Obtiene contexto alrededor de una posicion
    */
-  private getContext(block: string, position?: number): string {
+  private getContext(source: string, position?: number): string {
     if (position === undefined) return '';
     const start = Math.max(0, position - 15);
-    const end = Math.min(block.length, position + 25);
-    let context = block.slice(start, end);
+    const end = Math.min(source.length, position + 25);
+    let context = source.slice(start, end);
 
     if (start > 0) context = '...' + context;
-    if (end < block.length) context = context + '...';
+    if (end < source.length) context = context + '...';
 
     return context.replace(/[\r\n]+/g, ' ');
   }
 
-  /**
-   * Calcula el numero de linea aproximado
-   */
-  private getLineNumber(block: string, position?: number): number | undefined {
-    if (position === undefined) return undefined;
-    const beforePosition = block.substring(0, position);
-    const lines = beforePosition.split(/\r?\n/);
-    return lines.length;
-  }
-
   /**
    * Construye el resultado final de validacion
    */
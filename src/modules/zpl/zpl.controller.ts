@@ -13,12 +13,20 @@ import {
   MaxFileSizeValidator,
   HttpException,
   UseGuards,
+  Res,
+  StreamableFile,
+  Sse,
 } from '@nestjs/common';
-import { Throttle } from '@nestjs/throttler';
+import type { MessageEvent } from '@nestjs/common';
+import type { Response } from 'express';
+import type { Observable } from 'rxjs';
+import { SkipThrottle, Throttle } from '@nestjs/throttler';
 import { v4 as uuidv4 } from 'uuid';
 import { ZplService } from './zpl.service.js';
 import { ConvertZplDto } from './dto/convert-zpl.dto.js';
 import { ValidateZplDto } from './dto/validate-zpl.dto.js';
+import { MergeTemplateDto } from './dto/merge-template.dto.js';
+import { ProcessConversionTaskDto } from './dto/process-conversion-task.dto.js';
 import { ValidationResponseDto } from './dto/validation-response.dto.js';
 import {
   ApiTags,
@@ -27,28 +35,212 @@ import {
   ApiConsumes,
   ApiBody,
   ApiBearerAuth,
+  ApiSecurity,
 } from '@nestjs/swagger';
-import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import {
+  FileFieldsInterceptor,
+  FileInterceptor,
+  FilesInterceptor,
+} from '@nestjs/platform-express';
 import { LabelSize } from './enums/label-size.enum.js';
-import { OutputFormat } from './enums/output-format.enum.js';
+import {
+  MONOCHROME_OUTPUT_FORMATS,
+  OUTPUT_FORMAT_VALUES,
+  OutputFormat,
+} from './enums/output-format.enum.js';
+import type { OutputFormatValue } from './enums/output-format.enum.js';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PRINTER_DPMM_VALUES,
+  PrinterDpmm,
+} from './enums/printer-dpmm.enum.js';
 import { ZplPreviewResponseDto } from './dto/zpl-preview.dto.js';
 import { FirebaseAuthGuard } from '../../common/guards/firebase-auth.guard.js';
+import { ApiKeyAuthGuard } from '../../common/guards/api-key-auth.guard.js';
+import { CloudTasksOidcGuard } from '../../common/guards/cloud-tasks-oidc.guard.js';
+import { ApiKeyScopes } from '../../common/decorators/api-key-scopes.decorator.js';
 import { CurrentUser } from '../../common/decorators/current-user.decorator.js';
 import type { FirebaseUser } from '../../common/decorators/current-user.decorator.js';
 import { ZplValidatorService } from './validation/zpl-validator.service.js';
 import {
   BatchConvertResponseDto,
   BatchStatusResponseDto,
+  BatchCancelResponseDto,
   BatchDownloadResponseDto,
 } from './dto/batch.dto.js';
+import type {
+  BatchFileStatus,
+  BatchMergeOrder,
+  BatchOutputMode,
+  BatchOutputOptions,
+} from './interfaces/batch.interface.js';
+import {
+  BATCH_MERGE_ORDERS,
+  BATCH_OUTPUT_MODES,
+} from './interfaces/batch.interface.js';
 import { ErrorCodes } from '../../common/constants/error-codes.js';
 import { FontPreviewPublicDto } from './dto/font-preview-public.dto.js';
+import { ImageToZplDto } from './dto/image-to-zpl.dto.js';
+import { PdfToZplDto } from './dto/pdf-to-zpl.dto.js';
+import {
+  PDF_PAGE_ROTATIONS,
+  PDF_TO_ZPL_LIMITS,
+} from './interfaces/pdf-zpl.interface.js';
+import { GRAPHIC_ENCODINGS } from './rendering/graphic-encoder.js';
+import {
+  GRAPHIC_FORMAT_VALUES,
+  GraphicFormat,
+} from './enums/graphic-format.enum.js';
+import { IMAGE_TO_GRAPHIC_LIMITS } from './interfaces/image-graphic.interface.js';
+import type { ImageToGraphicResult } from './interfaces/image-graphic.interface.js';
+import {
+  DEFAULT_RENDERER_MODE,
+  RENDERER_MODES,
+} from './interfaces/label-renderer.interface.js';
+import type { RendererMode } from './interfaces/label-renderer.interface.js';
+import type {
+  ConversionOptions,
+  MonochromeOptions,
+} from './interfaces/conversion-options.interface.js';
+import {
+  DEFAULT_MONOCHROME_OPTIONS,
+  DITHER_METHODS,
+} from './rendering/monochrome.js';
+import { SYNC_CONVERSION_LIMITS } from './interfaces/sync-conversion.interface.js';
+import {
+  AUTO_LABEL_SIZE,
+  LABEL_DIMENSION_LIMITS,
+  LABEL_UNITS,
+} from './interfaces/label-dimensions.interface.js';
+import type {
+  LabelDimensions,
+  LabelSizeMap,
+  LabelUnit,
+} from './interfaces/label-dimensions.interface.js';
+import {
+  InvalidLabelSizeError,
+  buildLabelSize,
+  normalizeLabelSizeMap,
+  parseLabelSize,
+} from './utils/label-size.util.js';
+import { detectBatchArchive } from './utils/batch-archive.util.js';
+import { SHEET_TEMPLATE_IDS } from './interfaces/sheet-template.interface.js';
+import type {
+  ImpositionOptions,
+  SheetTemplateId,
+} from './interfaces/sheet-template.interface.js';
+import { completeLabels, parseZpl } from './parser/zpl-parser.js';
+import {
+  InvalidImpositionError,
+  resolveSheetLayout,
+} from './rendering/sheet-imposition.js';
+import {
+  DATASET_FORMATS,
+  InvalidDatasetError,
+  detectDatasetFormat,
+  parseDataset,
+} from './merge/dataset-parser.js';
+import {
+  InvalidTemplateError,
+  MERGE_LIMITS,
+  mergeZplTemplate,
+} from './merge/template-merge.js';
+
+/** Campos de tamaño personalizado comunes a los endpoints multipart */
+const LABEL_DIMENSIONS_SCHEMA = {
+  labelWidth: {
+    type: 'number',
+    example: 100,
+    description: `Ancho personalizado en labelUnit (maximo ${LABEL_DIMENSION_LIMITS.maxInches} pulgadas). Reemplaza a labelSize`,
+  },
+  labelHeight: {
+    type: 'number',
+    example: 150,
+    description: `Alto personalizado en labelUnit (maximo ${LABEL_DIMENSION_LIMITS.maxInches} pulgadas). Reemplaza a labelSize`,
+  },
+  labelUnit: {
+    type: 'string',
+    enum: LABEL_UNITS,
+    default: 'in',
+    description: 'Unidad de labelWidth/labelHeight (in o mm)',
+  },
+};
+
+interface LabelSizeInput {
+  labelSize?: string;
+  labelWidth?: number | string;
+  labelHeight?: number | string;
+  labelUnit?: string;
+}
+
+/** Campos de imposición en hojas (N-up), solo para salida PDF */
+const SHEET_IMPOSITION_SCHEMA = {
+  sheetTemplate: {
+    type: 'string',
+    enum: SHEET_TEMPLATE_IDS,
+    description:
+      'Coloca varias etiquetas por hoja para impresoras de oficina (solo PDF)',
+  },
+  cropMarks: {
+    type: 'boolean',
+    default: false,
+    description: 'Dibuja marcas de corte en los margenes de la hoja',
+  },
+  startOffset: {
+    type: 'number',
+    default: 0,
+    description:
+      'Celdas ya usadas en la primera hoja (para hojas parcialmente impresas)',
+  },
+  sheetMarginTop: {
+    type: 'number',
+    description: 'Margen superior en mm (reemplaza al de la plantilla)',
+  },
+  sheetMarginLeft: {
+    type: 'number',
+    description: 'Margen izquierdo en mm (reemplaza al de la plantilla)',
+  },
+  sheetGutterX: {
+    type: 'number',
+    description: 'Separacion horizontal entre columnas en mm',
+  },
+  sheetGutterY: {
+    type: 'number',
+    description: 'Separacion vertical entre filas en mm',
+  },
+};
+
+/** Reducción a 1 bit, solo para tiff, bmp y png_1bit */
+const MONOCHROME_SCHEMA = {
+  threshold: {
+    type: 'number',
+    minimum: 1,
+    maximum: 254,
+    default: DEFAULT_MONOCHROME_OPTIONS.threshold,
+    description:
+      'Nivel de gris por debajo del cual un punto se imprime (solo tiff, bmp y png_1bit)',
+  },
+  dither: {
+    type: 'boolean',
+    default: false,
+    description:
+      'Difusion de error (Floyd-Steinberg) en lugar de umbral fijo, para fotos y logotipos (solo tiff, bmp y png_1bit)',
+  },
+};
+
+interface MonochromeInput {
+  threshold?: number | string;
+  dither?: boolean | string;
+}
 
-interface ProcessZplDto {
-  zplContent: string;
-  labelSize: LabelSize;
-  jobId: string;
-  language: string;
+interface ImpositionInput {
+  sheetTemplate?: string;
+  cropMarks?: boolean | string;
+  startOffset?: number | string;
+  sheetMarginTop?: number | string;
+  sheetMarginLeft?: number | string;
+  sheetGutterX?: number | string;
+  sheetGutterY?: number | string;
 }
 
 @ApiTags('zpl')
@@ -61,14 +253,16 @@ export class ZplController {
 
   @Post('convert')
   @HttpCode(HttpStatus.ACCEPTED)
-  @UseGuards(FirebaseAuthGuard)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
   @ApiBearerAuth()
+  @ApiSecurity('api-key')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
   @ApiOperation({
-    summary: 'Iniciar conversion de ZPL a PDF/PNG/JPEG',
+    summary: 'Iniciar conversion de ZPL a PDF o imagen',
     description:
-      'Recibe codigo ZPL (como texto o archivo) y comienza un proceso asincrono de conversion. PDF disponible para todos los usuarios. PNG y JPEG solo para usuarios Pro y Enterprise. Requiere autenticacion.',
+      'Recibe codigo ZPL (como texto o archivo) y comienza un proceso asincrono de conversion. PDF disponible para todos los usuarios. Los formatos de imagen (PNG, JPEG, TIFF, BMP, SVG y PNG de 1 bit) solo para usuarios Pro y Enterprise. Requiere autenticacion.',
   })
   @ApiBody({
     schema: {
@@ -91,9 +285,18 @@ export class ZplController {
             LabelSize.TWO_BY_FOUR,
             LabelSize.FOUR_BY_TWO,
             LabelSize.FOUR_BY_SIX,
+            AUTO_LABEL_SIZE,
           ],
           default: LabelSize.TWO_BY_ONE,
-          description: 'Tamano de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas)',
+          description:
+            'Tamano de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas), o auto para detectarlo de ^PW/^LL',
+        },
+        ...LABEL_DIMENSIONS_SCHEMA,
+        labelSizeMap: {
+          type: 'string',
+          example: '{"1":"4x6","2-3":"2x1"}',
+          description:
+            'Tamano por etiqueta en JSON (numeros de etiqueta desde 1 o rangos). Permite mezclar tamanos en un mismo PDF',
         },
         language: {
           type: 'string',
@@ -102,11 +305,26 @@ export class ZplController {
         },
         outputFormat: {
           type: 'string',
-          enum: [OutputFormat.PDF, OutputFormat.PNG, OutputFormat.JPEG],
+          enum: OUTPUT_FORMAT_VALUES,
           default: OutputFormat.PDF,
           description:
-            'Formato de salida (pdf, png, jpeg). PNG y JPEG solo para Pro/Enterprise',
+            'Formato de salida (pdf, png, jpeg, tiff, bmp, svg, png_1bit). Los formatos de imagen solo para Pro/Enterprise. tiff es un solo archivo multipagina (G4); el resto de imagenes llega en un ZIP',
+        },
+        renderer: {
+          type: 'string',
+          enum: RENDERER_MODES,
+          description:
+            'Motor de renderizado (labelary, local, local_fallback). Si se omite se usa labelary',
+        },
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+          description:
+            'Resolucion de la impresora en puntos por mm (6, 8, 12 o 24)',
         },
+        ...MONOCHROME_SCHEMA,
+        ...SHEET_IMPOSITION_SCHEMA,
       },
     },
   })
@@ -180,10 +398,360 @@ export class ZplController {
     // Validacion basica
     this.validateZplContent(zplContent);
 
+    return this.startValidatedConversion(
+      user,
+      zplContent,
+      convertZplDto,
+      file?.originalname,
+    );
+  }
+
+  @Post('convert/sync')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Convertir ZPL y recibir el archivo en la respuesta',
+    description: `Convierte en la misma peticion y devuelve el PDF, el TIFF multipagina, la imagen (de una sola etiqueta) o el ZIP de imagenes, sin pasar por /status ni /download. Admite hasta ${SYNC_CONVERSION_LIMITS.maxLabels} etiquetas y ${SYNC_CONVERSION_LIMITS.timeoutMs / 1000}s de procesamiento; para trabajos mayores use /convert. Cuenta para la cuota y el historial igual que /convert. Requiere autenticacion.`,
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Archivo ZPL a convertir (max 1MB)',
+        },
+        zplContent: {
+          type: 'string',
+          description:
+            'Contenido ZPL a convertir (opcional si se envia archivo)',
+        },
+        labelSize: {
+          type: 'string',
+          enum: [
+            LabelSize.TWO_BY_ONE,
+            LabelSize.TWO_BY_FOUR,
+            LabelSize.FOUR_BY_TWO,
+            LabelSize.FOUR_BY_SIX,
+            AUTO_LABEL_SIZE,
+          ],
+          default: LabelSize.TWO_BY_ONE,
+        },
+        ...LABEL_DIMENSIONS_SCHEMA,
+        labelSizeMap: {
+          type: 'string',
+          example: '{"1":"4x6","2-3":"2x1"}',
+        },
+        outputFormat: {
+          type: 'string',
+          enum: OUTPUT_FORMAT_VALUES,
+          default: OutputFormat.PDF,
+        },
+        renderer: {
+          type: 'string',
+          enum: RENDERER_MODES,
+        },
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+        },
+        ...MONOCHROME_SCHEMA,
+        ...SHEET_IMPOSITION_SCHEMA,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Archivo convertido (application/pdf, image/png, image/jpeg, image/tiff, image/bmp, image/svg+xml o application/zip). Las cabeceras X-Job-Id y X-Label-Count identifican la conversion',
+    content: {
+      'application/pdf': { schema: { type: 'string', format: 'binary' } },
+      'image/png': { schema: { type: 'string', format: 'binary' } },
+      'image/jpeg': { schema: { type: 'string', format: 'binary' } },
+      'image/tiff': { schema: { type: 'string', format: 'binary' } },
+      'image/bmp': { schema: { type: 'string', format: 'binary' } },
+      'image/svg+xml': { schema: { type: 'string', format: 'binary' } },
+      'application/zip': { schema: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    description: 'Demasiadas etiquetas para la conversion sincrona',
+    schema: {
+      properties: {
+        error: { type: 'string', example: 'SYNC_LABEL_LIMIT_EXCEEDED' },
+        message: { type: 'string' },
+        data: {
+          type: 'object',
+          properties: {
+            requested: { type: 'number', example: 80 },
+            allowed: {
+              type: 'number',
+              example: SYNC_CONVERSION_LIMITS.maxLabels,
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    description: 'La conversion supero el tiempo maximo (PROCESSING_TIMEOUT)',
+  })
+  async convertZplSync(
+    @CurrentUser() user: FirebaseUser,
+    @Body() convertZplDto: ConvertZplDto,
+    @Res({ passthrough: true }) res: Response,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 1024 * 1024 }), // 1MB max
+        ],
+        fileIsRequired: false,
+      }),
+    )
+    file?: Express.Multer.File,
+  ): Promise<StreamableFile> {
+    const zplContent = file
+      ? file.buffer.toString('utf-8')
+      : convertZplDto.zplContent;
+
+    this.validateZplContent(zplContent);
+
+    const { labelSize, outputFormat, conversionOptions } =
+      await this.prepareConversion(zplContent, convertZplDto);
+
+    const result = await this.zplService.convertZplSync(
+      zplContent,
+      labelSize,
+      user.uid,
+      outputFormat,
+      file?.originalname,
+      conversionOptions,
+    );
+
+    res.setHeader('X-Job-Id', result.jobId);
+    res.setHeader('X-Label-Count', String(result.labelCount));
+
+    return new StreamableFile(result.buffer, {
+      type: result.contentType,
+      length: result.buffer.length,
+      disposition: this.attachmentDisposition(result.filename),
+    });
+  }
+
+  /**
+   * Content-Disposition con el nombre en ASCII y en UTF-8 (RFC 6266): el
+   * nombre original del archivo puede traer acentos o comillas
+   */
+  private attachmentDisposition(filename: string): string {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+  }
+
+  @Post('merge')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'template', maxCount: 1 },
+        { name: 'data', maxCount: 1 },
+      ],
+      { limits: { fileSize: MERGE_LIMITS.maxDataFileSize } },
+    ),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Combinar una plantilla ZPL con datos CSV/JSON',
+    description:
+      'Genera una etiqueta por fila a partir de una plantilla con variables {{columna}} o formatos almacenados ^DF/^XF con campos ^FN, y la convierte como /convert. Las etiquetas generadas cuentan para el limite por PDF y la cuota mensual. Requiere autenticacion.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        template: {
+          type: 'string',
+          format: 'binary',
+          description: 'Plantilla ZPL (max 1MB)',
+        },
+        templateContent: {
+          type: 'string',
+          description:
+            'Plantilla ZPL como texto (opcional si se envia el archivo)',
+        },
+        data: {
+          type: 'string',
+          format: 'binary',
+          description: `Datos CSV con cabecera o JSON (array de objetos), max ${MERGE_LIMITS.maxDataFileSize / (1024 * 1024)}MB y ${MERGE_LIMITS.maxRows} filas. Tambien se acepta como texto`,
+        },
+        dataFormat: {
+          type: 'string',
+          enum: [...DATASET_FORMATS],
+          description:
+            'Formato de los datos; si se omite se deduce de la extension o del contenido',
+        },
+        labelSize: {
+          type: 'string',
+          enum: [
+            LabelSize.TWO_BY_ONE,
+            LabelSize.TWO_BY_FOUR,
+            LabelSize.FOUR_BY_TWO,
+            LabelSize.FOUR_BY_SIX,
+            AUTO_LABEL_SIZE,
+          ],
+          default: LabelSize.TWO_BY_ONE,
+        },
+        ...LABEL_DIMENSIONS_SCHEMA,
+        outputFormat: {
+          type: 'string',
+          enum: OUTPUT_FORMAT_VALUES,
+          default: OutputFormat.PDF,
+        },
+        renderer: {
+          type: 'string',
+          enum: RENDERER_MODES,
+        },
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+        },
+        ...MONOCHROME_SCHEMA,
+        ...SHEET_IMPOSITION_SCHEMA,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Combinacion generada y conversion iniciada',
+    schema: {
+      properties: {
+        jobId: { type: 'string', example: '1234-5678-90ab' },
+        message: { type: 'string' },
+        statusUrl: {
+          type: 'string',
+          example: '/api/zpl/status/1234-5678-90ab',
+        },
+        rows: { type: 'number', example: 250 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Plantilla sin variables, columnas inexistentes o datos CSV/JSON invalidos',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Limite de etiquetas por PDF o cuota mensual excedidos',
+  })
+  async mergeTemplate(
+    @CurrentUser() user: FirebaseUser,
+    @Body() mergeTemplateDto: MergeTemplateDto,
+    @UploadedFiles()
+    files: {
+      template?: Express.Multer.File[];
+      data?: Express.Multer.File[];
+    } = {},
+  ) {
+    const [templateFile] = files.template ?? [];
+    const [dataFile] = files.data ?? [];
+
+    if (templateFile && templateFile.size > 1024 * 1024) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.FILE_TOO_LARGE,
+          message: 'La plantilla no puede superar 1MB',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const template = templateFile
+      ? templateFile.buffer.toString('utf-8')
+      : mergeTemplateDto.templateContent;
+    this.validateZplContent(template);
+
+    const dataContent = dataFile
+      ? dataFile.buffer.toString('utf-8')
+      : mergeTemplateDto.data;
+    if (!dataContent) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_INPUT,
+          message: 'Se requieren los datos (archivo data o campo data)',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    let zplContent: string;
+    let rows: number;
+    try {
+      const dataset = parseDataset(
+        dataContent,
+        mergeTemplateDto.dataFormat ??
+          detectDatasetFormat(dataContent, dataFile?.originalname),
+      );
+      zplContent = mergeZplTemplate(template, dataset);
+      rows = dataset.rows.length;
+    } catch (error) {
+      if (
+        error instanceof InvalidDatasetError ||
+        error instanceof InvalidTemplateError
+      ) {
+        throw new HttpException(
+          { error: ErrorCodes.INVALID_INPUT, message: error.message },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      throw error;
+    }
+
+    const response = await this.startValidatedConversion(
+      user,
+      zplContent,
+      mergeTemplateDto,
+      templateFile?.originalname,
+    );
+    return { ...response, rows };
+  }
+
+  /**
+   * Resuelve las opciones de conversión y valida el ZPL. Común a la
+   * conversión asíncrona y a la síncrona.
+   */
+  private async prepareConversion(
+    zplContent: string,
+    options: Omit<ConvertZplDto, 'zplContent'>,
+  ) {
+    const { labelSize, labelDimensions } = this.resolveLabelSize(
+      options,
+      LabelSize.TWO_BY_ONE,
+    );
+    const labelSizeMap = this.parseLabelSizeMap(options.labelSizeMap);
+    const outputFormat = options.outputFormat || OutputFormat.PDF;
+    const imposition = this.parseImposition(options, outputFormat);
+    const monochrome = this.parseMonochrome(options, outputFormat);
+
     // Validacion robusta antes de procesar
-    const language = (convertZplDto.language || 'es') as 'es' | 'en';
+    const language = (options.language || 'es') as 'es' | 'en';
     const validation = await this.zplValidatorService.validate(zplContent, {
       language,
+      dpmm: options.dpmm,
+      labelSize,
     });
 
     // Si hay errores criticos, rechazar
@@ -204,13 +772,39 @@ export class ZplController {
       );
     }
 
+    const conversionOptions: ConversionOptions = {
+      renderer: options.renderer,
+      dpmm: options.dpmm,
+      labelDimensions,
+      labelSizeMap,
+      imposition,
+      monochrome,
+    };
+
+    return { labelSize, outputFormat, conversionOptions, validation };
+  }
+
+  /**
+   * Valida el ZPL y encola la conversion con las opciones comunes de
+   * /convert y /merge. Los limites del plan se comprueban al iniciarla.
+   */
+  private async startValidatedConversion(
+    user: FirebaseUser,
+    zplContent: string,
+    options: Omit<ConvertZplDto, 'zplContent'>,
+    originalFilename?: string,
+  ) {
+    const { labelSize, outputFormat, conversionOptions, validation } =
+      await this.prepareConversion(zplContent, options);
+
     const jobId = await this.zplService.startZplConversion(
       zplContent,
-      convertZplDto.labelSize,
-      convertZplDto.language || 'en',
+      labelSize,
+      options.language || 'en',
       user.uid,
-      convertZplDto.outputFormat || OutputFormat.PDF,
-      file?.originalname,
+      outputFormat,
+      originalFilename,
+      conversionOptions,
     );
 
     // Incluir warnings en la respuesta si los hay
@@ -244,7 +838,8 @@ export class ZplController {
       );
     }
 
-    if (!content.includes('^XA') || !content.includes('^XZ')) {
+    // El parser reconoce también los prefijos redefinidos con ^CC/~CC
+    if (completeLabels(parseZpl(content)).length === 0) {
       throw new HttpException(
         {
           error: ErrorCodes.INVALID_ZPL,
@@ -259,40 +854,321 @@ export class ZplController {
     }
   }
 
+  /**
+   * Valida el motor de renderizado en endpoints multipart (sin DTO)
+   */
+  private parseRendererMode(value?: string): RendererMode | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    if (!RENDERER_MODES.includes(value as RendererMode)) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_INPUT,
+          message: `renderer debe ser uno de: ${RENDERER_MODES.join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return value as RendererMode;
+  }
+
+  /**
+   * Valida la resolución de impresora en endpoints multipart (sin DTO)
+   */
+  private parsePrinterDpmm(value?: string): PrinterDpmm | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const dpmm = Number(value);
+    if (!PRINTER_DPMM_VALUES.includes(dpmm)) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_INPUT,
+          message: `dpmm debe ser uno de: ${PRINTER_DPMM_VALUES.join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return dpmm as PrinterDpmm;
+  }
+
+  /**
+   * Resuelve el tamaño de etiqueta a partir de un preset (labelSize) o de
+   * medidas personalizadas (labelWidth/labelHeight/labelUnit). Devuelve el
+   * tamaño canónico en pulgadas que entienden los renderizadores.
+   */
+  private resolveLabelSize(
+    input: LabelSizeInput,
+    defaultSize: string,
+  ): { labelSize: string; labelDimensions?: LabelDimensions } {
+    const hasWidth = input.labelWidth !== undefined && input.labelWidth !== '';
+    const hasHeight =
+      input.labelHeight !== undefined && input.labelHeight !== '';
+
+    if (!hasWidth && !hasHeight) {
+      const labelSize = input.labelSize || defaultSize;
+      if (labelSize.toLowerCase() === AUTO_LABEL_SIZE) {
+        return { labelSize: AUTO_LABEL_SIZE };
+      }
+      if (!parseLabelSize(labelSize)) {
+        throw new HttpException(
+          {
+            error: ErrorCodes.INVALID_LABEL_SIZE,
+            message: `labelSize no es valido: ${labelSize}`,
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      return { labelSize };
+    }
+
+    const unit = (input.labelUnit || 'in') as LabelUnit;
+    if (!hasWidth || !hasHeight || !LABEL_UNITS.includes(unit)) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_LABEL_SIZE,
+          message: `Un tamano personalizado requiere labelWidth, labelHeight y labelUnit (${LABEL_UNITS.join(', ')})`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const labelDimensions: LabelDimensions = {
+      width: Number(input.labelWidth),
+      height: Number(input.labelHeight),
+      unit,
+    };
+
+    try {
+      return { labelSize: buildLabelSize(labelDimensions), labelDimensions };
+    } catch (error) {
+      if (error instanceof InvalidLabelSizeError) {
+        throw new HttpException(
+          {
+            error: ErrorCodes.INVALID_LABEL_SIZE,
+            message: error.message,
+            data: {
+              ...labelDimensions,
+              minInches: LABEL_DIMENSION_LIMITS.minInches,
+              maxInches: LABEL_DIMENSION_LIMITS.maxInches,
+            },
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Valida el mapa de tamaños por etiqueta (JSON en un campo multipart)
+   */
+  private parseLabelSizeMap(value?: string): LabelSizeMap | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      return normalizeLabelSizeMap(JSON.parse(value));
+    } catch (error) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_LABEL_SIZE,
+          message:
+            error instanceof InvalidLabelSizeError
+              ? error.message
+              : 'labelSizeMap debe ser JSON valido',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Construye las opciones de imposición en hojas. Valida aquí la geometría
+   * para no encolar un trabajo que fallaría al final, tras renderizar.
+   */
+  private parseImposition(
+    input: ImpositionInput,
+    outputFormat: string,
+  ): ImpositionOptions | undefined {
+    if (!input.sheetTemplate) {
+      return undefined;
+    }
+
+    const fail = (message: string): never => {
+      throw new HttpException(
+        { error: ErrorCodes.INVALID_INPUT, message },
+        HttpStatus.BAD_REQUEST,
+      );
+    };
+
+    if (!SHEET_TEMPLATE_IDS.includes(input.sheetTemplate as SheetTemplateId)) {
+      fail(`sheetTemplate debe ser uno de: ${SHEET_TEMPLATE_IDS.join(', ')}`);
+    }
+    if (outputFormat !== OutputFormat.PDF) {
+      fail('sheetTemplate solo esta disponible para salida PDF');
+    }
+
+    const optionalNumber = (value?: number | string) =>
+      value === undefined || value === '' ? undefined : Number(value);
+
+    const imposition: ImpositionOptions = {
+      template: input.sheetTemplate as SheetTemplateId,
+      cropMarks: input.cropMarks === true || input.cropMarks === 'true',
+      startOffset: optionalNumber(input.startOffset),
+      marginTopMm: optionalNumber(input.sheetMarginTop),
+      marginLeftMm: optionalNumber(input.sheetMarginLeft),
+      gutterXMm: optionalNumber(input.sheetGutterX),
+      gutterYMm: optionalNumber(input.sheetGutterY),
+    };
+
+    try {
+      resolveSheetLayout(imposition);
+    } catch (error) {
+      if (error instanceof InvalidImpositionError) {
+        fail(error.message);
+      }
+      throw error;
+    }
+
+    return imposition;
+  }
+
+  /**
+   * Umbral y dithering de los formatos de 1 bit. Sin ninguno de los dos se
+   * usan los valores por defecto (umbral 128, sin dithering).
+   */
+  private parseMonochrome(
+    input: MonochromeInput,
+    outputFormat: string,
+  ): MonochromeOptions | undefined {
+    const hasThreshold =
+      input.threshold !== undefined && input.threshold !== '';
+    if (!hasThreshold && input.dither === undefined) {
+      return undefined;
+    }
+
+    const fail = (message: string): never => {
+      throw new HttpException(
+        { error: ErrorCodes.INVALID_INPUT, message },
+        HttpStatus.BAD_REQUEST,
+      );
+    };
+
+    if (!MONOCHROME_OUTPUT_FORMATS.includes(outputFormat as OutputFormat)) {
+      fail(
+        `threshold y dither solo aplican a: ${MONOCHROME_OUTPUT_FORMATS.join(', ')}`,
+      );
+    }
+
+    const threshold = hasThreshold
+      ? Number(input.threshold)
+      : DEFAULT_MONOCHROME_OPTIONS.threshold;
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 254) {
+      fail('threshold debe ser un entero entre 1 y 254');
+    }
+
+    return {
+      threshold,
+      dither: input.dither === true || input.dither === 'true',
+    };
+  }
+
+  /**
+   * Valida la entrega pedida para un batch. Sin outputMode no se guarda nada
+   * y el batch sale como ZIP, igual que antes de existir merged_pdf.
+   */
+  private parseBatchOutput(
+    input: {
+      outputMode?: string;
+      mergeOrder?: string;
+      separatorPages?: string | boolean;
+    },
+    outputFormat: string,
+  ): BatchOutputOptions | undefined {
+    if (!input.outputMode) {
+      return undefined;
+    }
+
+    const fail = (message: string): never => {
+      throw new HttpException(
+        { error: ErrorCodes.INVALID_INPUT, message },
+        HttpStatus.BAD_REQUEST,
+      );
+    };
+
+    if (!BATCH_OUTPUT_MODES.includes(input.outputMode as BatchOutputMode)) {
+      fail(`outputMode debe ser uno de: ${BATCH_OUTPUT_MODES.join(', ')}`);
+    }
+    if (input.outputMode === 'zip') {
+      return { mode: 'zip' };
+    }
+
+    if (outputFormat !== OutputFormat.PDF) {
+      fail('merged_pdf solo esta disponible para salida PDF');
+    }
+    if (
+      input.mergeOrder &&
+      !BATCH_MERGE_ORDERS.includes(input.mergeOrder as BatchMergeOrder)
+    ) {
+      fail(`mergeOrder debe ser uno de: ${BATCH_MERGE_ORDERS.join(', ')}`);
+    }
+
+    return {
+      mode: 'merged_pdf',
+      order: (input.mergeOrder as BatchMergeOrder) || 'upload',
+      separatorPages:
+        input.separatorPages === true || input.separatorPages === 'true',
+    };
+  }
+
   @Post('process')
+  @UseGuards(CloudTasksOidcGuard)
+  // Las tareas llegan todas desde las IPs de Cloud Tasks y ya van autenticadas
+  @SkipThrottle()
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Procesar conversion ZPL (uso interno)',
     description:
-      'Endpoint para uso interno que realiza la conversion efectiva del ZPL a PDF',
+      'Worker de Cloud Tasks: realiza la conversion de un trabajo ya encolado. Requiere un token OIDC de la cuenta de servicio de la cola. Es idempotente por jobId: una tarea repetida sobre un trabajo terminado no hace nada',
   })
+  @ApiBearerAuth()
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Conversion procesada correctamente',
+    description: 'Tarea atendida (procesada, duplicada u omitida)',
     schema: {
       properties: {
         message: {
           type: 'string',
           example: 'Conversion procesada correctamente',
         },
+        outcome: {
+          type: 'string',
+          enum: ['processed', 'duplicate', 'skipped', 'failed'],
+          example: 'processed',
+        },
       },
     },
   })
   @ApiResponse({
-    status: HttpStatus.BAD_REQUEST,
-    description: 'Error en el procesamiento',
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token OIDC ausente o inválido',
   })
   @ApiResponse({
-    status: HttpStatus.NOT_FOUND,
-    description: 'Job ID no encontrado',
+    status: HttpStatus.CONFLICT,
+    description:
+      'JOB_IN_PROGRESS: otra instancia está procesando el trabajo; Cloud Tasks reintentará',
   })
-  async processZpl(@Body() processZplDto: ProcessZplDto) {
-    await this.zplService.processZplConversion(
-      processZplDto.zplContent,
-      processZplDto.labelSize,
-      processZplDto.jobId,
-    );
+  async processZpl(@Body() task: ProcessConversionTaskDto) {
+    const outcome = await this.zplService.processConversionTask(task);
 
-    return { message: 'Conversion procesada correctamente' };
+    return { message: 'Conversion procesada correctamente', outcome };
   }
 
   @Get('status/:jobId')
@@ -309,7 +1185,7 @@ export class ZplController {
         status: {
           type: 'string',
           example: 'completed',
-          enum: ['pending', 'processing', 'completed', 'failed'],
+          enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
         },
         progress: {
           type: 'number',
@@ -319,6 +1195,13 @@ export class ZplController {
           type: 'string',
           example: 'Conversion completada',
         },
+        detectedLabelSizes: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['4x6', '4x3'],
+          description:
+            'Tamanos detectados de ^PW/^LL (solo si se convirtio con labelSize auto)',
+        },
       },
     },
   })
@@ -330,11 +1213,36 @@ export class ZplController {
     return await this.zplService.getConversionStatus(jobId);
   }
 
+  @Sse('status/:jobId/stream')
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Stream de progreso de una conversion (SSE)',
+    description:
+      'Server-Sent Events con el progreso del trabajo: evento `progress` (fase, chunks procesados y posicion en la cola de Labelary) cada vez que cambia, y un evento final `completed` (con `downloadUrl`), `failed` o `cancelled` que cierra el stream. Si la conversion se procesa en otra instancia el progreso se lee de Firestore y no incluye posicion en cola. Tras unos minutos se envia `timeout` y el cliente debe reconectar. Requiere autenticación y ser el dueño del trabajo.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stream text/event-stream con el progreso',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Job ID no encontrado',
+  })
+  streamStatus(
+    @CurrentUser() user: FirebaseUser,
+    @Param('jobId') jobId: string,
+  ): Promise<Observable<MessageEvent>> {
+    return this.zplService.streamConversionProgress(jobId, user.uid);
+  }
+
   @Get('queue-position/:jobId')
   @ApiOperation({
     summary: 'Obtener posición en cola de Labelary',
     description:
-      'Consulta la posición actual de un trabajo en la cola de procesamiento de Labelary',
+      'Consulta la posición actual de un trabajo en la cola de procesamiento de Labelary. La cola reparte los turnos entre usuarios de forma justa (ponderada por plan), así que la espera estimada incluye los turnos de los demás usuarios activos y los chunks del trabajo que aún no se han encolado.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -374,8 +1282,10 @@ export class ZplController {
   }
 
   @Get('download/:jobId')
-  @UseGuards(FirebaseAuthGuard)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
   @ApiBearerAuth()
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: 'Descargar PDF convertido',
     description:
@@ -412,6 +1322,42 @@ export class ZplController {
     return { url, filename };
   }
 
+  @Post('cancel/:jobId')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Cancelar una conversion en curso',
+    description:
+      'Detiene una conversion pendiente o en proceso: los chunks que esperan en la cola de Labelary se descartan y los restantes ya no se renderizan. Una conversion cancelada no consume cuota. Requiere autenticación.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Conversion cancelada',
+    schema: {
+      properties: {
+        jobId: { type: 'string', example: 'abc123' },
+        status: { type: 'string', example: 'cancelled', enum: ['cancelled'] },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Job ID no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'La conversion ya termino (JOB_ALREADY_FINISHED)',
+  })
+  async cancelConversion(
+    @CurrentUser() user: FirebaseUser,
+    @Param('jobId') jobId: string,
+  ) {
+    return await this.zplService.cancelConversion(jobId, user.uid);
+  }
+
   @Post('count-labels')
   @UseGuards(FirebaseAuthGuard)
   @ApiBearerAuth()
@@ -436,6 +1382,13 @@ export class ZplController {
           description:
             'Contenido ZPL a analizar (opcional si se envia archivo)',
         },
+        labelSize: {
+          type: 'string',
+          example: '4x6',
+          description:
+            'Tamano de etiqueta (opcional, se devuelve normalizado en la respuesta)',
+        },
+        ...LABEL_DIMENSIONS_SCHEMA,
       },
     },
   })
@@ -469,13 +1422,41 @@ export class ZplController {
               description:
                 'Numero total de etiquetas incluyendo copias (considerando el comando ^PQ)',
             },
+            totalVariants: {
+              type: 'number',
+              example: 14,
+              description:
+                'Paginas distintas a renderizar: cada numero de serie de ^SN/^SF es una variante',
+            },
+            expansion: {
+              type: 'array',
+              description:
+                'Detalle de ^PQ de las etiquetas con varias copias o serializadas',
+              items: {
+                type: 'object',
+                properties: {
+                  label: { type: 'number', example: 3 },
+                  quantity: { type: 'number', example: 6 },
+                  pauseCount: { type: 'number', example: 0 },
+                  replicates: { type: 'number', example: 1 },
+                  serialized: { type: 'boolean', example: true },
+                  variants: { type: 'number', example: 3 },
+                },
+              },
+            },
+            labelSize: {
+              type: 'string',
+              example: '3.937x5.906',
+              description:
+                'Tamano resuelto en pulgadas (solo si se envio un tamano)',
+            },
           },
         },
       },
     },
   })
   async countLabels(
-    @Body() body: { zplContent?: string },
+    @Body() body: { zplContent?: string } & LabelSizeInput,
     @UploadedFile(
       new ParseFilePipe({
         validators: [
@@ -490,7 +1471,18 @@ export class ZplController {
 
     this.validateZplContent(zplContent);
 
-    return await this.zplService.countLabels(zplContent);
+    // El tamaño no afecta al conteo, pero se valida igual que en convert para
+    // que el cliente detecte un tamaño inválido antes de convertir
+    const hasSize = body.labelSize || body.labelWidth || body.labelHeight;
+    const size = hasSize
+      ? this.resolveLabelSize(body, LabelSize.TWO_BY_ONE)
+      : undefined;
+
+    const result = await this.zplService.countLabels(zplContent);
+    if (size) {
+      return { ...result, data: { ...result.data, ...size } };
+    }
+    return result;
   }
 
   @Post('preview')
@@ -524,9 +1516,25 @@ export class ZplController {
             LabelSize.TWO_BY_FOUR,
             LabelSize.FOUR_BY_TWO,
             LabelSize.FOUR_BY_SIX,
+            AUTO_LABEL_SIZE,
           ],
           default: LabelSize.TWO_BY_ONE,
-          description: 'Tamano de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas)',
+          description:
+            'Tamano de la etiqueta (2x1, 2x4, 4x2 o 4x6 pulgadas), o auto para detectarlo de ^PW/^LL',
+        },
+        ...LABEL_DIMENSIONS_SCHEMA,
+        renderer: {
+          type: 'string',
+          enum: RENDERER_MODES,
+          default: DEFAULT_RENDERER_MODE,
+          description: 'Motor de renderizado (labelary, local, local_fallback)',
+        },
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+          description:
+            'Resolucion de la impresora en puntos por mm (6, 8, 12 o 24)',
         },
       },
     },
@@ -570,7 +1578,13 @@ export class ZplController {
     description: 'Datos de entrada invalidos',
   })
   async previewZpl(
-    @Body() body: { zplContent?: string; labelSize?: string },
+    @Body()
+    body: {
+      zplContent?: string;
+      renderer?: string;
+      dpmm?: string;
+    } & LabelSizeInput &
+      ImpositionInput,
     @UploadedFile(
       new ParseFilePipe({
         validators: [
@@ -585,10 +1599,14 @@ export class ZplController {
 
     this.validateZplContent(zplContent);
 
-    const size = body.labelSize || LabelSize.TWO_BY_ONE;
+    const { labelSize } = this.resolveLabelSize(body, LabelSize.TWO_BY_ONE);
     const previews = await this.zplService.getLabelsPreview(
       zplContent,
-      size as LabelSize,
+      labelSize,
+      {
+        renderer: this.parseRendererMode(body.renderer),
+        dpmm: this.parsePrinterDpmm(body.dpmm),
+      },
     );
 
     return {
@@ -674,6 +1692,7 @@ export class ZplController {
     const result = await this.zplValidatorService.validate(zplContent, {
       language: validateDto.language || 'es',
       strictMode: validateDto.strictMode || false,
+      dpmm: validateDto.dpmm,
     });
 
     const message =
@@ -697,6 +1716,284 @@ export class ZplController {
     };
   }
 
+  @Post('image-to-zpl')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(FirebaseAuthGuard)
+  @ApiBearerAuth()
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Convertir una imagen en gráfico ZPL',
+    description:
+      'Recibe un PNG, JPEG o SVG, lo escala a los dots pedidos, lo reduce a 1 bit (umbral, Floyd–Steinberg u ordenado) y devuelve el comando ^GFA (hex o Z64) o ~DG, una etiqueta lista para imprimir y su vista previa. Requiere autenticación.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: `Imagen PNG, JPEG o SVG (max ${IMAGE_TO_GRAPHIC_LIMITS.maxFileBytes / (1024 * 1024)}MB)`,
+        },
+        width: {
+          type: 'number',
+          example: 400,
+          description:
+            'Ancho en dots; con una sola medida se conserva la proporción',
+        },
+        height: { type: 'number', example: 200, description: 'Alto en dots' },
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+          description:
+            'Resolucion de la impresora en puntos por mm (6, 8, 12 o 24)',
+        },
+        dither: {
+          type: 'string',
+          enum: DITHER_METHODS,
+          default: 'threshold',
+          description: 'Reducción a 1 bit',
+        },
+        threshold: {
+          type: 'number',
+          default: DEFAULT_MONOCHROME_OPTIONS.threshold,
+          description: 'Nivel de gris (1-254) bajo el cual se imprime',
+        },
+        format: {
+          type: 'string',
+          enum: GRAPHIC_FORMAT_VALUES,
+          default: GraphicFormat.GFA_HEX,
+          description: 'gfa_hex, gfa_z64 o dg',
+        },
+        name: {
+          type: 'string',
+          default: 'LOGO',
+          description: 'Nombre del gráfico en la impresora (solo dg)',
+        },
+        renderer: {
+          type: 'string',
+          enum: RENDERER_MODES,
+          default: DEFAULT_RENDERER_MODE,
+          description: 'Motor de la vista previa',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Gráfico generado',
+    schema: {
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: 'Gráfico ZPL generado' },
+        data: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', example: GraphicFormat.GFA_HEX },
+            width: { type: 'number', example: 400 },
+            height: { type: 'number', example: 200 },
+            bytesPerRow: { type: 'number', example: 50 },
+            totalBytes: { type: 'number', example: 10000 },
+            zpl: {
+              type: 'string',
+              example: '^GFA,10000,10000,50,...',
+              description: 'Comando ^GFA o ~DG',
+            },
+            label: {
+              type: 'string',
+              example: '^XA^PW400^LL200^FO0,0^GFA,...^FS^XZ',
+              description: 'Etiqueta completa que imprime el gráfico',
+            },
+            preview: {
+              type: 'string',
+              nullable: true,
+              example: 'data:image/png;base64,...',
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Imagen inválida o medidas fuera de límites',
+  })
+  async imageToZpl(
+    @Body() dto: ImageToZplDto,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({
+            maxSize: IMAGE_TO_GRAPHIC_LIMITS.maxFileBytes,
+          }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+  ): Promise<{
+    success: boolean;
+    message: string;
+    data: ImageToGraphicResult;
+  }> {
+    const data = await this.zplService.convertImageToGraphic(file.buffer, {
+      width: dto.width,
+      height: dto.height,
+      dpmm: dto.dpmm ?? DEFAULT_PRINTER_DPMM,
+      dither: dto.dither ?? 'threshold',
+      threshold: dto.threshold ?? DEFAULT_MONOCHROME_OPTIONS.threshold,
+      format: dto.format ?? GraphicFormat.GFA_HEX,
+      name: (dto.name ?? 'LOGO').toUpperCase(),
+      renderer: dto.renderer,
+    });
+
+    return { success: true, message: 'Gráfico ZPL generado', data };
+  }
+
+  @Post('pdf-to-zpl')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('convert')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @UseInterceptors(FilesInterceptor('files', 50))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Convertir etiquetas en PDF a ZPL',
+    description: `Rasteriza cada pagina del PDF a la resolucion de la impresora, la recorta y gira para encajar en la etiqueta y devuelve un bloque ^XA...^GF...^XZ por pagina. Con un solo PDF responde el .zpl; con varios (requiere batch en el plan) un ZIP con un .zpl por archivo. Cada pagina cuenta como una etiqueta en la cuota. Hasta ${PDF_TO_ZPL_LIMITS.maxPages} paginas por peticion. Requiere autenticacion.`,
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['files'],
+      properties: {
+        files: {
+          type: 'array',
+          items: { type: 'string', format: 'binary' },
+          description: `PDF a convertir (max ${PDF_TO_ZPL_LIMITS.maxFileBytes / (1024 * 1024)}MB cada uno)`,
+        },
+        labelSize: {
+          type: 'string',
+          enum: Object.values(LabelSize),
+          default: LabelSize.FOUR_BY_SIX,
+        },
+        ...LABEL_DIMENSIONS_SCHEMA,
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+        },
+        rotation: {
+          type: 'string',
+          enum: [...PDF_PAGE_ROTATIONS],
+          default: 'auto',
+          description:
+            'auto gira 90° las paginas cuya orientacion no coincide con la etiqueta',
+        },
+        crop: {
+          type: 'boolean',
+          default: true,
+          description: 'Recorta los margenes en blanco de cada pagina',
+        },
+        dither: {
+          type: 'string',
+          enum: DITHER_METHODS,
+          default: 'threshold',
+        },
+        threshold: {
+          type: 'number',
+          default: DEFAULT_MONOCHROME_OPTIONS.threshold,
+        },
+        encoding: {
+          type: 'string',
+          enum: GRAPHIC_ENCODINGS,
+          default: 'z64',
+          description: 'Datos de ^GF: z64 o hex',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Archivo .zpl (text/plain) o ZIP de archivos .zpl. Las cabeceras X-Job-Id y X-Label-Count identifican la conversion',
+    content: {
+      'text/plain': { schema: { type: 'string' } },
+      'application/zip': { schema: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'PDF ilegible (INVALID_PDF) o parametros invalidos',
+  })
+  @ApiResponse({
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    description: `Un PDF supera ${PDF_TO_ZPL_LIMITS.maxFileBytes / (1024 * 1024)}MB (FILE_TOO_LARGE) o hay mas de ${PDF_TO_ZPL_LIMITS.maxPages} paginas (SYNC_LABEL_LIMIT_EXCEEDED)`,
+  })
+  async pdfToZpl(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: PdfToZplDto,
+    @Res({ passthrough: true }) res: Response,
+    @UploadedFiles() files: Express.Multer.File[],
+  ): Promise<StreamableFile> {
+    if (!files || files.length === 0) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.NO_FILES,
+          message: 'Se requiere al menos un PDF',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const oversized = files.find(
+      (file) => file.size > PDF_TO_ZPL_LIMITS.maxFileBytes,
+    );
+    if (oversized) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.FILE_TOO_LARGE,
+          message: `El archivo ${oversized.originalname} supera ${PDF_TO_ZPL_LIMITS.maxFileBytes / (1024 * 1024)}MB`,
+          data: { maxFileBytes: PDF_TO_ZPL_LIMITS.maxFileBytes },
+        },
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+
+    const { labelSize, labelDimensions } = this.resolveLabelSize(
+      dto,
+      LabelSize.FOUR_BY_SIX,
+    );
+
+    const result = await this.zplService.convertPdfsToZpl(
+      files.map((file) => ({
+        fileName: file.originalname,
+        buffer: file.buffer,
+      })),
+      labelSize,
+      user.uid,
+      {
+        dpmm: dto.dpmm ?? DEFAULT_PRINTER_DPMM,
+        rotation: dto.rotation ?? 'auto',
+        crop: dto.crop ?? true,
+        dither: dto.dither ?? 'threshold',
+        threshold: dto.threshold ?? DEFAULT_MONOCHROME_OPTIONS.threshold,
+        encoding: dto.encoding ?? 'z64',
+        labelDimensions,
+      },
+    );
+
+    res.setHeader('X-Job-Id', result.jobId);
+    res.setHeader('X-Label-Count', String(result.labelCount));
+
+    return new StreamableFile(result.buffer, {
+      type: result.contentType,
+      length: result.buffer.length,
+      disposition: this.attachmentDisposition(result.filename),
+    });
+  }
+
   // ============== PUBLIC FONT PREVIEW ENDPOINT ==============
 
   @Post('font-preview')
@@ -735,8 +2032,7 @@ export class ZplController {
     this.validateZplContent(dto.zplContent);
 
     // Enforce single label for public endpoint
-    const xaCount = (dto.zplContent.match(/\^XA/g) || []).length;
-    if (xaCount !== 1) {
+    if (parseZpl(dto.zplContent).labels.length !== 1) {
       throw new HttpException(
         {
           error: ErrorCodes.INVALID_ZPL,
@@ -747,21 +2043,27 @@ export class ZplController {
     }
 
     const labelSize = dto.labelSize || LabelSize.FOUR_BY_SIX;
-    return this.zplService.getPublicFontPreview(dto.zplContent, labelSize);
+    return this.zplService.getPublicFontPreview(
+      dto.zplContent,
+      labelSize,
+      dto.dpmm,
+    );
   }
 
   // ============== BATCH PROCESSING ENDPOINTS ==============
 
   @Post('batch/convert')
   @HttpCode(HttpStatus.ACCEPTED)
-  @UseGuards(FirebaseAuthGuard)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('batch')
   @ApiBearerAuth()
+  @ApiSecurity('api-key')
   @UseInterceptors(FilesInterceptor('files', 50))
   @ApiConsumes('multipart/form-data')
   @ApiOperation({
     summary: 'Iniciar conversion batch de multiples archivos ZPL',
     description:
-      'Recibe multiples archivos ZPL y comienza un proceso asincrono de conversion. Solo disponible para usuarios Pro y Enterprise.',
+      'Recibe multiples archivos ZPL, o un solo .zip/.tar.gz que los contenga, y comienza un proceso asincrono de conversion. Del archivo comprimido se toman los .zpl y .txt (con los limites de archivos y tamano del plan) y el ZIP de resultados conserva sus carpetas. Con outputMode=merged_pdf el resultado es un solo PDF con un marcador por archivo. Solo disponible para usuarios Pro y Enterprise.',
   })
   @ApiBody({
     schema: {
@@ -770,25 +2072,64 @@ export class ZplController {
         files: {
           type: 'array',
           items: { type: 'string', format: 'binary' },
-          description: 'Archivos ZPL a convertir',
+          description:
+            'Archivos ZPL a convertir, o un unico .zip/.tar.gz con ellos',
         },
         fileIds: {
           type: 'array',
           items: { type: 'string' },
-          description: 'IDs de cada archivo (opcional)',
+          description:
+            'IDs de cada archivo (opcional; con un archivo comprimido, en el orden de sus entradas)',
         },
         labelSize: {
           type: 'string',
           example: '4x6',
-          description: 'Tamano de etiqueta',
+          description:
+            'Tamano de etiqueta, o auto para detectarlo de ^PW/^LL (requerido salvo que se envien labelWidth y labelHeight)',
         },
+        ...LABEL_DIMENSIONS_SCHEMA,
         outputFormat: {
           type: 'string',
-          enum: ['pdf', 'png', 'jpeg'],
+          enum: OUTPUT_FORMAT_VALUES,
           default: 'pdf',
         },
+        renderer: {
+          type: 'string',
+          enum: RENDERER_MODES,
+          description:
+            'Motor de renderizado (labelary, local, local_fallback). Si se omite se usa labelary',
+        },
+        dpmm: {
+          type: 'number',
+          enum: PRINTER_DPMM_VALUES,
+          default: DEFAULT_PRINTER_DPMM,
+          description:
+            'Resolucion de la impresora en puntos por mm (6, 8, 12 o 24)',
+        },
+        ...MONOCHROME_SCHEMA,
+        ...SHEET_IMPOSITION_SCHEMA,
+        outputMode: {
+          type: 'string',
+          enum: BATCH_OUTPUT_MODES,
+          default: 'zip',
+          description:
+            'zip: un archivo por cada ZPL; merged_pdf: un solo PDF con un marcador por archivo (solo salida PDF)',
+        },
+        mergeOrder: {
+          type: 'string',
+          enum: BATCH_MERGE_ORDERS,
+          default: 'upload',
+          description:
+            'Orden de los archivos en el PDF combinado: el de subida o por nombre',
+        },
+        separatorPages: {
+          type: 'boolean',
+          default: false,
+          description:
+            'Agrega una pagina con el nombre del archivo entre uno y otro (solo merged_pdf)',
+        },
       },
-      required: ['files', 'labelSize'],
+      required: ['files'],
     },
   })
   @ApiResponse({
@@ -811,7 +2152,13 @@ export class ZplController {
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
-    description: 'Datos de entrada invalidos o archivo muy grande',
+    description:
+      'Datos de entrada invalidos, o archivo comprimido danado o con rutas fuera de su carpeta (INVALID_ARCHIVE)',
+  })
+  @ApiResponse({
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    description:
+      'Un archivo excede el tamano del plan, o el contenido descomprimido excede el limite (FILE_TOO_LARGE)',
   })
   async batchConvert(
     @CurrentUser() user: FirebaseUser,
@@ -819,9 +2166,15 @@ export class ZplController {
     @Body()
     body: {
       fileIds?: string | string[];
-      labelSize: string;
       outputFormat?: string;
-    },
+      renderer?: string;
+      dpmm?: string;
+      outputMode?: string;
+      mergeOrder?: string;
+      separatorPages?: string | boolean;
+    } & LabelSizeInput &
+      ImpositionInput &
+      MonochromeInput,
   ): Promise<BatchConvertResponseDto> {
     // Validar que hay archivos
     if (!files || files.length === 0) {
@@ -834,13 +2187,59 @@ export class ZplController {
       );
     }
 
-    // Validar labelSize
-    if (!body.labelSize) {
+    // Validar labelSize (o las medidas personalizadas)
+    if (!body.labelSize && !body.labelWidth && !body.labelHeight) {
       throw new HttpException(
         { error: ErrorCodes.INVALID_INPUT, message: 'labelSize es requerido' },
         HttpStatus.BAD_REQUEST,
       );
     }
+    const { labelSize, labelDimensions } = this.resolveLabelSize(
+      body,
+      LabelSize.TWO_BY_ONE,
+    );
+    const outputFormat = (body.outputFormat || 'pdf') as OutputFormatValue;
+    if (!OUTPUT_FORMAT_VALUES.includes(outputFormat as OutputFormat)) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_INPUT,
+          message: `outputFormat debe ser uno de: ${OUTPUT_FORMAT_VALUES.join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const imposition = this.parseImposition(body, outputFormat);
+    const monochrome = this.parseMonochrome(body, outputFormat);
+    const batchOutput = this.parseBatchOutput(body, outputFormat);
+
+    // Un .zip o .tar.gz se expande en sus archivos ZPL; su ruta dentro del
+    // archivo queda como nombre para conservar las carpetas en el resultado
+    const archiveKinds = files.map((file) =>
+      detectBatchArchive(file.originalname, file.buffer),
+    );
+    let zplFiles: { fileName: string; content: string }[];
+    if (archiveKinds.some(Boolean)) {
+      if (files.length > 1) {
+        throw new HttpException(
+          {
+            error: ErrorCodes.INVALID_ARCHIVE,
+            message:
+              'El archivo comprimido debe enviarse solo, sin otros archivos',
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      zplFiles = await this.zplService.expandBatchArchive(user.uid, {
+        buffer: files[0].buffer,
+        fileName: files[0].originalname,
+        kind: archiveKinds[0],
+      });
+    } else {
+      zplFiles = files.map((file) => ({
+        fileName: file.originalname,
+        content: file.buffer.toString('utf-8'),
+      }));
+    }
 
     // Parsear fileIds (puede ser string o array según cómo llegue del FormData)
     let fileIds: string[] = [];
@@ -853,17 +2252,25 @@ export class ZplController {
     }
 
     // Transformar archivos al formato interno
-    const batchFiles = files.map((file, index) => ({
+    const batchFiles = zplFiles.map((file, index) => ({
       id: fileIds[index] || uuidv4(),
-      content: file.buffer.toString('utf-8'),
-      fileName: file.originalname,
+      content: file.content,
+      fileName: file.fileName,
     }));
 
     const result = await this.zplService.startBatchConversion(
       user.uid,
       batchFiles,
-      body.labelSize,
-      (body.outputFormat as 'pdf' | 'png' | 'jpeg') || 'pdf',
+      labelSize,
+      outputFormat,
+      {
+        renderer: this.parseRendererMode(body.renderer),
+        dpmm: this.parsePrinterDpmm(body.dpmm),
+        labelDimensions,
+        imposition,
+        monochrome,
+      },
+      batchOutput,
     );
 
     return {
@@ -900,7 +2307,7 @@ export class ZplController {
       completedFiles: result.completedFiles,
       jobs: result.jobs.map((j) => ({
         jobId: j.jobId,
-        status: j.status as 'pending' | 'processing' | 'completed' | 'failed',
+        status: j.status as BatchFileStatus,
         progress: j.progress,
         error: j.error,
       })),
@@ -908,9 +2315,67 @@ export class ZplController {
     };
   }
 
+  @Sse('batch/status/:batchId/stream')
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('batch')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Stream de progreso de un batch (SSE)',
+    description:
+      'Server-Sent Events con el estado de cada archivo del batch: evento `progress` cada vez que cambia y un evento final (`completed`, `partial`, `failed` o `cancelled`, con `downloadUrl` del ZIP si lo hay) que cierra el stream. Tras unos minutos se envia `timeout` y el cliente debe reconectar. Requiere autenticación y ser el dueño del batch.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stream text/event-stream con el progreso',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Batch no encontrado',
+  })
+  streamBatchStatus(
+    @CurrentUser() user: FirebaseUser,
+    @Param('batchId') batchId: string,
+  ): Promise<Observable<MessageEvent>> {
+    return this.zplService.streamBatchProgress(batchId, user.uid);
+  }
+
+  @Post('batch/cancel/:batchId')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('batch')
+  @ApiBearerAuth()
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Cancelar un batch en curso',
+    description:
+      'Detiene un batch en proceso: el archivo en curso se corta, los pendientes ya no se procesan y no se genera el ZIP. El uso de los archivos que ya se habian completado se reembolsa. Requiere autenticación.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Batch cancelado',
+    type: BatchCancelResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Batch no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El batch ya termino (BATCH_ALREADY_FINISHED)',
+  })
+  async cancelBatch(
+    @CurrentUser() user: FirebaseUser,
+    @Param('batchId') batchId: string,
+  ): Promise<BatchCancelResponseDto> {
+    return await this.zplService.cancelBatch(batchId, user.uid);
+  }
+
   @Get('batch/download/:batchId')
-  @UseGuards(FirebaseAuthGuard)
+  @UseGuards(ApiKeyAuthGuard)
+  @ApiKeyScopes('batch')
   @ApiBearerAuth()
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: 'Descargar archivos del batch completado',
     description:
@@ -5,11 +5,15 @@ import { ZplValidatorService } from './validation/zpl-validator.service.js';
 import { ValidationMetricsService } from './logging/validation-metrics.service.js';
 import { LabelaryQueueService } from './services/labelary-queue.service.js';
 import { LabelaryAnalyticsService } from './services/labelary-analytics.service.js';
+import { LabelaryRendererService } from './services/labelary-renderer.service.js';
+import { LocalRendererService } from './services/local-renderer.service.js';
+import { RenderCacheService } from './services/render-cache.service.js';
 import { StorageModule } from '../storage/storage.module.js';
 import { QueueModule } from '../queue/queue.module.js';
 import { CacheModule } from '../cache/cache.module.js';
 import { UtilsModule } from '../../utils/utils.module.js';
 import { UsersModule } from '../users/users.module.js';
+import { WebhookEndpointsModule } from '../webhook-endpoints/webhook-endpoints.module.js';
 import { GoogleAuthProvider } from '../../config/google-auth.provider.js';
 
 @Module({
@@ -19,6 +23,7 @@ import { GoogleAuthProvider } from '../../config/google-auth.provider.js';
     CacheModule,
     UtilsModule,
     forwardRef(() => UsersModule),
+    WebhookEndpointsModule,
   ],
   controllers: [ZplController],
   providers: [
@@ -27,6 +32,9 @@ import { GoogleAuthProvider } from '../../config/google-auth.provider.js';
     ValidationMetricsService,
     LabelaryQueueService,
     LabelaryAnalyticsService,
+    LabelaryRendererService,
+    LocalRendererService,
+    RenderCacheService,
     GoogleAuthProvider,
   ],
   exports: [
@@ -1,4 +1,9 @@
 import { PDFDocument } from 'pdf-lib';
+import sharp from 'sharp';
+import { pdfToPng } from 'pdf-to-png-converter';
+import type { Observable } from 'rxjs';
+import tar from 'tar-stream';
+import { gzipSync } from 'zlib';
 
 // Mockear dependencias pesadas/nativas que el servicio importa a nivel de
 // módulo pero que estos tests no ejercitan. Evita cargar binarios (sharp) y
@@ -19,6 +24,14 @@ jest.mock('@google-cloud/storage', () => ({
 }));
 
 import { ZplService, LabelSize } from './zpl.service';
+import { LocalTaskQueueService } from '../queue/local-task-queue.service';
+import { CONVERSION_JOB_QUEUE } from './interfaces/conversion-job-queue.interface';
+import { RenderCacheService } from './services/render-cache.service';
+import { LocalRendererService } from './services/local-renderer.service';
+import { OutputFormat } from './enums/output-format.enum';
+import { labelProducesOutput, parseZpl } from './parser/zpl-parser';
+import { GraphicFormat } from './enums/graphic-format.enum';
+import { decodeGraphicField } from './rendering/graphic-field';
 
 /**
  * Regresión: una etiqueta de envío real (Amazon Logistics) que empieza con un
@@ -36,6 +49,68 @@ const SHIPPING_LABEL_ZPL = `^FX Start of a new label-sheet
 ^FO575,480^BXN,8,200,22,22,,~^FH^FD_54_42_52_33_37_32^FS
 ^XZ`;
 
+/** PDF de `pages` páginas vacías, 4x6 por defecto (como los de Labelary) */
+async function makePdf(
+  pages: number,
+  size: [number, number] = [288, 432],
+): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) {
+    doc.addPage(size);
+  }
+  return Buffer.from(await doc.save());
+}
+
+/** UsersService de un usuario con cuota disponible en el plan indicado */
+function convertingUsersService(plan = 'pro') {
+  return {
+    checkCanConvert: jest.fn().mockResolvedValue({ allowed: true }),
+    getUserById: jest
+      .fn()
+      .mockResolvedValue({ id: 'uid-1', email: 'a@b.c', plan }),
+    getEffectivePlan: jest.fn().mockReturnValue(plan),
+    recordConversion: jest.fn().mockResolvedValue(undefined),
+    refundConversion: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+/**
+ * ZplService con las dependencias simuladas que usa cada prueba; el resto
+ * quedan vacías. El registro de errores en Firestore siempre está simulado.
+ */
+function buildZplService<
+  F extends object = object,
+  U extends object = object,
+  L extends object = object,
+>(
+  deps: {
+    firestoreService?: F;
+    usersService?: U;
+    labelaryQueueService?: L;
+    webhookDispatcher?: object;
+    taskQueue?: object;
+    renderCache?: RenderCacheService;
+  } = {},
+) {
+  const firestoreService = {
+    saveErrorLog: jest.fn().mockResolvedValue({ id: 'x', errorId: 'E' }),
+    ...deps.firestoreService,
+  } as F & { saveErrorLog: jest.Mock };
+  const usersService = (deps.usersService ?? {}) as U;
+  const labelaryQueueService = (deps.labelaryQueueService ?? {}) as L;
+  const service = new ZplService(
+    { get: jest.fn(() => 'test-bucket') } as any,
+    firestoreService as any,
+    usersService as any,
+    {} as any,
+    labelaryQueueService as any,
+    deps.webhookDispatcher as any,
+    deps.taskQueue as any,
+    deps.renderCache,
+  );
+  return { service, firestoreService, usersService, labelaryQueueService };
+}
+
 describe('ZplService — bloques de configuración sin contenido', () => {
   let service: ZplService;
 
@@ -54,9 +129,10 @@ describe('ZplService — bloques de configuración sin contenido', () => {
     );
   });
 
-  describe('blockProducesOutput', () => {
+  describe('labelProducesOutput', () => {
+    const fn = (zpl: string) => labelProducesOutput(parseZpl(zpl).labels[0]);
+
     it('clasifica un bloque solo de configuración como sin salida', () => {
-      const fn = (service as any).blockProducesOutput.bind(service);
       expect(fn('^XA^MCY^XZ')).toBe(false);
       expect(fn('^XA^MCN^XZ')).toBe(false);
       expect(fn('^XA^LH0,0^CI28^XZ')).toBe(false);
@@ -65,7 +141,6 @@ describe('ZplService — bloques de configuración sin contenido', () => {
     });
 
     it('clasifica bloques con contenido dibujable como con salida', () => {
-      const fn = (service as any).blockProducesOutput.bind(service);
       expect(fn('^XA^FO50,50^A0,30^FDhola^FS^XZ')).toBe(true); // texto
       expect(fn('^XA^FO0,0^GB100,100,2^FS^XZ')).toBe(true); // gráfico
       expect(fn('^XA^FO10,10^BCN,100^FD12345^FS^XZ')).toBe(true); // código de barras
@@ -94,6 +169,92 @@ describe('ZplService — bloques de configuración sin contenido', () => {
     });
   });
 
+  describe('prefijos y delimitador redefinidos (^CC/~CC/^CD)', () => {
+    // Exportación de ERP: cambia el caret a ~ y el delimitador a ;
+    const ERP_ZPL = [
+      '^XA^CC~~CD;~XZ',
+      '~XA~FO50;50~A0N;30;30~FDPedido 1~FS~PQ3~XZ',
+      '~XA~FO50;50~FDPedido 2~FS~XZ',
+    ].join('\n');
+
+    it('separa las etiquetas, extrae ^PQ y normaliza la sintaxis', () => {
+      const blocks = (service as any).splitAndExtractCopies(ERP_ZPL);
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0].copies).toBe(3);
+      expect(blocks[0].normalizedContent).toBe(
+        '^XA^FO50,50^A0N,30,30^FDPedido 1^FS^XZ',
+      );
+    });
+
+    it('cuenta las etiquetas con sus copias', async () => {
+      const result = await service.countLabels(ERP_ZPL);
+      expect(result.data.totalUniqueLabels).toBe(2);
+      expect(result.data.totalLabels).toBe(4);
+    });
+  });
+
+  describe('copias serializadas (^PQ con ^SN/^SF)', () => {
+    const SERIAL_ZPL = [
+      '^XA^FO10,10^FDFijo^FS^PQ2^XZ',
+      '^XA^FO10,10^SNLOTE-001,1,Y^FS^PQ5,0,1^XZ',
+    ].join('\n');
+
+    it('renderiza cada número de serie y agrupa sus réplicas', () => {
+      const blocks = (service as any).splitAndExtractCopies(SERIAL_ZPL);
+
+      expect(blocks.map((b: any) => [b.originalIndex, b.copies])).toEqual([
+        [0, 2],
+        [1, 2],
+        [1, 2],
+        [1, 1],
+      ]);
+      expect(blocks[3].normalizedContent).toBe('^XA^FO10,10^FDLOTE-003^FS^XZ');
+    });
+
+    it('muestra la expansión en el conteo', async () => {
+      const { data } = await service.countLabels(SERIAL_ZPL);
+
+      expect(data).toMatchObject({
+        totalUniqueLabels: 2,
+        totalLabels: 7,
+        totalVariants: 4,
+      });
+      expect(data.expansion).toEqual([
+        {
+          label: 1,
+          quantity: 2,
+          pauseCount: 0,
+          replicates: 0,
+          serialized: false,
+          variants: 1,
+        },
+        {
+          label: 2,
+          quantity: 5,
+          pauseCount: 0,
+          replicates: 1,
+          serialized: true,
+          variants: 3,
+        },
+      ]);
+    });
+
+    it('rechaza un ^PQ enorme serializado sin generar las variantes', async () => {
+      const started = Date.now();
+
+      await expect(
+        service.countLabels('^XA^FO10,10^SN0001,1,Y^FS^PQ99999999^XZ'),
+      ).rejects.toMatchObject({
+        response: {
+          error: 'LABEL_LIMIT_EXCEEDED',
+          data: { variants: 99999999, allowed: 10000 },
+        },
+      });
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
   describe('reconstructFinalPdf — robustez ante desajuste de páginas', () => {
     /** Crea un PDF de N páginas 4x6 con texto, simulando la salida de Labelary. */
     async function makePdf(pageCount: number): Promise<Buffer> {
@@ -367,6 +528,60 @@ describe('ZplService — userEmail en rechazos de cuota/acceso', () => {
       );
     });
 
+    it('aplica los archivos por batch del plan al expandir un .tar.gz', async () => {
+      const saveErrorLog = jest
+        .fn()
+        .mockResolvedValue({ id: 'x', errorId: 'ERR-7' });
+      const service = buildBatchService(saveErrorLog, 'pro');
+
+      async function buildTarGz(count: number): Promise<Buffer> {
+        const pack = tar.pack();
+        const chunks: Buffer[] = [];
+        pack.on('data', (chunk: Buffer) => chunks.push(chunk));
+        const done = new Promise<void>((resolve) =>
+          pack.on('end', () => resolve()),
+        );
+        for (let i = 1; i <= count; i++) {
+          pack.entry({ name: `noche/tienda-${i}/a.zpl` }, SIMPLE_ZPL);
+        }
+        pack.finalize();
+        await done;
+        return gzipSync(Buffer.concat(chunks));
+      }
+
+      // BATCH_LIMITS.pro permite 5 archivos
+      const files = await service.expandBatchArchive('uid-b', {
+        buffer: await buildTarGz(5),
+        fileName: 'export.tar.gz',
+        kind: 'tar.gz',
+      });
+      expect(files.map((file) => file.fileName)).toEqual([
+        'noche/tienda-1/a.zpl',
+        'noche/tienda-2/a.zpl',
+        'noche/tienda-3/a.zpl',
+        'noche/tienda-4/a.zpl',
+        'noche/tienda-5/a.zpl',
+      ]);
+      expect(files[0].content).toBe(SIMPLE_ZPL);
+
+      await expect(
+        service.expandBatchArchive('uid-b', {
+          buffer: await buildTarGz(6),
+          fileName: 'export.tar.gz',
+          kind: 'tar.gz',
+        }),
+      ).rejects.toMatchObject({
+        status: 403,
+        response: { error: 'BATCH_LIMIT_EXCEEDED', data: { maxFiles: 5 } },
+      });
+      expect(saveErrorLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'BATCH_LIMIT_EXCEEDED',
+          userEmail: 'batch@ejemplo.com',
+        }),
+      );
+    });
+
     it('registra USER_NOT_FOUND aunque no haya email que resolver', async () => {
       const saveErrorLog = jest
         .fn()
@@ -434,3 +649,1476 @@ describe('ZplService — userEmail en rechazos de cuota/acceso', () => {
     );
   });
 });
+
+/**
+ * labelSize "auto": el tamaño de cada etiqueta sale de ^PW/^LL (que persisten
+ * entre bloques, como en la impresora). Los tamaños distintos se renderizan en
+ * chunks separados y el PDF final conserva el orden original.
+ */
+describe('ZplService — detección de tamaño con labelSize "auto"', () => {
+  /** Como Labelary: una página por etiqueta, del tamaño pedido */
+  const sizedEnqueue = () =>
+    jest.fn(
+      (_jobId, _userId, _plan, _zpl, labelSize: string, labelCount: number) => {
+        const [width, height] = labelSize.split('x').map(Number);
+        return makePdf(labelCount, [width * 72, height * 72]);
+      },
+    );
+
+  it('agrupa por tamaño y reconstruye el PDF en el orden del ZPL', async () => {
+    const enqueue = sizedEnqueue();
+    const {
+      service,
+      firestoreService: { updateConversionStatus },
+    } = buildZplService({
+      firestoreService: {
+        updateConversionStatus: jest.fn().mockResolvedValue(undefined),
+      },
+      labelaryQueueService: { enqueue },
+    });
+
+    const zpl = [
+      '^XA^PW812^LL1218^XZ', // solo configuración: fija 4x6 para lo que sigue
+      '^XA^FO10,10^FDuno^FS^XZ',
+      '^XA^LL406^FO10,10^FDdos^FS^XZ',
+      '^XA^LL1218^FO10,10^FDtres^FS^XZ',
+    ].join('\n');
+
+    const result: Buffer = await (service as any).convertZplToPdf(
+      zpl,
+      'auto',
+      'job-auto',
+      'user1',
+      'pro',
+    );
+
+    expect(enqueue).toHaveBeenCalledTimes(2);
+    expect(enqueue.mock.calls.map((call) => [call[4], call[5]])).toEqual([
+      ['4x6', 2],
+      ['4x2', 1],
+    ]);
+    expect(updateConversionStatus).toHaveBeenCalledWith('job-auto', {
+      detectedLabelSizes: ['4x6', '4x2'],
+    });
+
+    const out = await PDFDocument.load(result);
+    expect(out.getPages().map((page) => page.getSize().height)).toEqual([
+      432, 144, 432,
+    ]);
+  });
+
+  it('aplica el mapa de tamaños por etiqueta conservando las copias de ^PQ', async () => {
+    const enqueue = sizedEnqueue();
+    const { service } = buildZplService({
+      firestoreService: {
+        updateConversionStatus: jest.fn().mockResolvedValue(undefined),
+      },
+      labelaryQueueService: { enqueue },
+    });
+
+    const zpl = [
+      '^XA^FO10,10^FDenvio^FS^PQ2^XZ',
+      '^XA^FO10,10^FDsticker^FS^XZ',
+      '^XA^FO10,10^FDotro envio^FS^XZ',
+    ].join('\n');
+
+    const result: Buffer = await (service as any).convertZplToPdf(
+      zpl,
+      '4x6',
+      'job-map',
+      'user1',
+      'pro',
+      { labelSizeMap: { '2': '2x1' } },
+    );
+
+    expect(enqueue.mock.calls.map((call) => [call[4], call[5]])).toEqual([
+      ['4x6', 2],
+      ['2x1', 1],
+    ]);
+
+    const out = await PDFDocument.load(result);
+    expect(
+      out.getPages().map((page) => {
+        const { width, height } = page.getSize();
+        return `${width}x${height}`;
+      }),
+    ).toEqual(['288x432', '288x432', '144x72', '288x432']);
+  });
+});
+
+describe('ZplService — caché de renderizado', () => {
+  // Cada etiqueta "^FD<n>" se renderiza como una página de n puntos de alto,
+  // así el orden del PDF final delata de dónde salió cada página
+  const label = (height: number) => `^XA^FO10,10^FD${height}^FS^XZ`;
+
+  async function renderBatch(zpl: string) {
+    const doc = await PDFDocument.create();
+    for (const block of zpl.split('\n')) {
+      doc.addPage([100, Number(/\^FD(\d+)/.exec(block)![1])]);
+    }
+    return Buffer.from(await doc.save());
+  }
+
+  async function pageHeights(pdf: Buffer) {
+    const doc = await PDFDocument.load(pdf);
+    return doc.getPages().map((page) => page.getSize().height);
+  }
+
+  function setup() {
+    const store = new Map<string, Buffer>();
+    const storageService: any = {
+      generateZplHash: (...parts: string[]) => parts.join('|'),
+      getCachedPdf: jest.fn(async (key: string) => store.get(key) ?? null),
+      savePdf: jest.fn(async (pdf: Buffer, key: string) => {
+        store.set(key, pdf);
+      }),
+    };
+    const analytics: any = { trackCacheLookup: jest.fn() };
+    const enqueue = jest.fn((_jobId, _userId, _plan, zpl: string) =>
+      renderBatch(zpl),
+    );
+    const { service } = buildZplService({
+      firestoreService: {
+        updateConversionStatus: jest.fn().mockResolvedValue(undefined),
+      },
+      labelaryQueueService: { enqueue },
+      renderCache: new RenderCacheService(storageService, analytics),
+    });
+    const convert = (zpl: string): Promise<Buffer> =>
+      (service as any).convertZplToPdf(zpl, '4x6', 'job-cache', 'u1', 'pro');
+
+    // Los guardados van en segundo plano
+    const stored = async (count: number) => {
+      for (let i = 0; i < 100 && store.size < count; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      expect(store.size).toBeGreaterThanOrEqual(count);
+    };
+
+    return { convert, enqueue, analytics, stored };
+  }
+
+  it('solo renderiza las etiquetas que no están en caché y respeta el orden', async () => {
+    const { convert, enqueue, analytics, stored } = setup();
+
+    await convert([label(100), label(200)].join('\n'));
+    // 2 bloques + el documento
+    await stored(3);
+    enqueue.mockClear();
+
+    const result = await convert(
+      [label(200), label(300), label(100), label(100)].join('\n'),
+    );
+
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(enqueue.mock.calls[0][3]).toBe(label(300));
+    expect(await pageHeights(result)).toEqual([200, 300, 100, 100]);
+    expect(analytics.trackCacheLookup).toHaveBeenLastCalledWith('block', 2, 1);
+  });
+
+  it('sirve una conversión idéntica desde el caché de documentos', async () => {
+    const { convert, enqueue, analytics, stored } = setup();
+    const zpl = [label(100), label(200), label(100)].join('\n');
+
+    const first = await convert(zpl);
+    await stored(3);
+    enqueue.mockClear();
+
+    const second = await convert(zpl);
+
+    expect(enqueue).not.toHaveBeenCalled();
+    expect(second.equals(first)).toBe(true);
+    expect(analytics.trackCacheLookup).toHaveBeenLastCalledWith(
+      'document',
+      1,
+      0,
+    );
+  });
+
+  it('no guarda bloques si el PDF no trae una página por etiqueta', async () => {
+    const { convert, enqueue, stored } = setup();
+    enqueue.mockImplementationOnce(async () => {
+      const doc = await PDFDocument.create();
+      doc.addPage([100, 100]);
+      return Buffer.from(await doc.save());
+    });
+
+    await convert([label(100), label(200)].join('\n'));
+    // Solo el documento
+    await stored(1);
+    enqueue.mockClear();
+
+    const zpl = [label(200), label(100), label(300)].join('\n');
+    await convert(zpl);
+
+    expect(enqueue.mock.calls[0][3]).toBe(zpl);
+  });
+});
+
+describe('ZplService — conversión síncrona', () => {
+  const SIMPLE_ZPL = '^XA^FO50,50^A0,30^FDtest^FS^XZ';
+
+  function buildService(enqueue: jest.Mock, cancelJob = jest.fn()) {
+    return buildZplService({
+      firestoreService: {
+        saveConversionStatus: jest.fn().mockResolvedValue(undefined),
+        updateConversionStatus: jest.fn().mockResolvedValue(undefined),
+      },
+      usersService: convertingUsersService(),
+      labelaryQueueService: { enqueue, cancelJob },
+    });
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('devuelve el PDF y registra la conversión en el historial', async () => {
+    const enqueue = jest.fn(() => makePdf(2));
+    const { service, usersService } = buildService(enqueue);
+
+    const result = await service.convertZplSync(
+      '^XA^FDuno^FS^PQ2^XZ',
+      '4x6',
+      'uid-1',
+    );
+
+    expect(result.contentType).toBe('application/pdf');
+    expect(result.labelCount).toBe(2);
+    expect(result.filename).toMatch(/\.pdf$/);
+    expect((await PDFDocument.load(result.buffer)).getPageCount()).toBe(2);
+    expect(usersService.recordConversion).toHaveBeenCalledWith(
+      'uid-1',
+      result.jobId,
+      2,
+      '4x6',
+      'completed',
+      'pdf',
+      undefined,
+      undefined,
+      'pro',
+      undefined,
+    );
+    // El trabajo no queda en memoria después de responder
+    expect((service as any).jobs.has(result.jobId)).toBe(false);
+  });
+
+  it('rechaza con 413 los trabajos con demasiadas etiquetas sin renderizar', async () => {
+    const enqueue = jest.fn();
+    const { service } = buildService(enqueue);
+
+    await expect(
+      service.convertZplSync('^XA^FDmuchas^FS^PQ51^XZ', '4x6', 'uid-1'),
+    ).rejects.toMatchObject({
+      status: 413,
+      response: {
+        error: 'SYNC_LABEL_LIMIT_EXCEEDED',
+        data: { requested: 51, allowed: 50 },
+      },
+    });
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('responde 504, corta el render y registra el fallo si la conversión supera el tiempo máximo', async () => {
+    jest.useFakeTimers();
+    let rejectChunk: (error: Error) => void = () => {};
+    const enqueue = jest.fn(
+      () =>
+        new Promise<Buffer>((_, reject) => {
+          rejectChunk = reject;
+        }),
+    );
+    const cancelJob = jest.fn((_jobId: string, error: Error) =>
+      rejectChunk(error),
+    );
+    const { service, usersService } = buildService(enqueue, cancelJob);
+
+    const conversion = service.convertZplSync(SIMPLE_ZPL, '4x6', 'uid-1');
+    const assertion = expect(conversion).rejects.toMatchObject({
+      status: 504,
+      response: { error: 'PROCESSING_TIMEOUT' },
+    });
+    await jest.advanceTimersByTimeAsync(25_000);
+    await assertion;
+
+    expect(usersService.recordConversion).toHaveBeenCalledWith(
+      'uid-1',
+      expect.any(String),
+      1,
+      '4x6',
+      'failed',
+      'pdf',
+      undefined,
+      undefined,
+      'pro',
+      undefined,
+    );
+    // Las solicitudes en cola del job se descartan y no queda marcado
+    const jobId = usersService.recordConversion.mock.calls[0][1];
+    expect(cancelJob).toHaveBeenCalledWith(jobId, expect.anything());
+    await jest.advanceTimersByTimeAsync(0);
+    expect((service as any).cancelledJobs.has(jobId)).toBe(false);
+    expect(enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('dibuja el SVG con el motor local, sin pasar por la cola', async () => {
+    const enqueue = jest.fn();
+    const { service } = buildService(enqueue);
+    const renderer = new LocalRendererService();
+    (service as any).labelaryQueueService.renderSvg = jest.fn(
+      (zpl: string, labelSize: string) => renderer.renderSvg(zpl, labelSize, 8),
+    );
+
+    const result = await service.convertZplSync(
+      SIMPLE_ZPL,
+      '4x6',
+      'uid-1',
+      OutputFormat.SVG,
+    );
+
+    expect(result.contentType).toBe('image/svg+xml');
+    expect(result.filename).toMatch(/\.svg$/);
+    expect(result.buffer.toString()).toContain('>test</text>');
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('reserva los formatos de imagen nuevos a los planes con canDownloadImages', async () => {
+    const enqueue = jest.fn();
+    const { service, usersService } = buildService(enqueue);
+    usersService.getEffectivePlan.mockReturnValue('lite');
+
+    for (const format of [OutputFormat.TIFF, OutputFormat.PNG_1BIT]) {
+      await expect(
+        service.convertZplSync(SIMPLE_ZPL, '4x6', 'uid-1', format),
+      ).rejects.toMatchObject({
+        status: 403,
+        response: { error: 'IMAGE_FORMAT_PRO_ONLY' },
+      });
+    }
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
+
+describe('ZplService — cola persistente y recuperación de jobs huérfanos', () => {
+  const NOW = Date.parse('2026-03-10T12:00:00.000Z');
+  const ago = (ms: number) => new Date(NOW - ms).toISOString();
+
+  function orphanedJob(overrides: Record<string, unknown> = {}) {
+    return {
+      jobId: 'job-1',
+      status: 'processing',
+      progress: 40,
+      userId: 'uid-1',
+      labelSize: '4x6',
+      outputFormat: 'pdf',
+      inputPath: 'jobs/input/job-1.zpl',
+      userPlan: 'pro',
+      labelCount: 3,
+      periodInfo: {
+        periodStart: '2026-03-01T00:00:00.000Z',
+        periodEnd: '2026-04-01T00:00:00.000Z',
+        periodId: '2026-03',
+      },
+      attempts: 1,
+      leaseOwner: 'old-instance',
+      leaseExpiresAt: ago(1000),
+      createdAt: ago(5 * 60 * 1000),
+      updatedAt: ago(3 * 60 * 1000),
+      ...overrides,
+    };
+  }
+
+  function buildService(jobs: Record<string, unknown>[], claim: unknown) {
+    const { service, firestoreService, usersService } = buildZplService({
+      firestoreService: {
+        getUnfinishedConversionJobs: jest.fn().mockResolvedValue(jobs),
+        getConversionStatus: jest.fn().mockResolvedValue(jobs[0] ?? null),
+        claimConversionJob: jest.fn().mockResolvedValue(claim),
+        markConversionJobOrphaned: jest.fn().mockResolvedValue(true),
+      },
+      usersService: {
+        recordConversion: jest.fn().mockResolvedValue(undefined),
+      },
+      taskQueue: new LocalTaskQueueService(),
+    });
+    const file = {
+      download: jest.fn().mockResolvedValue([Buffer.from('^XA^FDx^FS^XZ')]),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    (service as any).storage = { bucket: () => ({ file: () => file }) };
+    const process = jest
+      .spyOn(service as any, 'processZplConversionWithUser')
+      .mockResolvedValue(undefined);
+    return { service, firestoreService, usersService, file, process };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reencola un job cuyo lease venció y el worker lo procesa desde Storage', async () => {
+    const { service, firestoreService, file, process } = buildService(
+      [orphanedJob()],
+      { outcome: 'granted', job: orphanedJob({ attempts: 2 }) },
+    );
+
+    const result = await service.recoverConversionJobs();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(result).toMatchObject({ scanned: 1, redriven: 1, failed: 0 });
+    expect(firestoreService.claimConversionJob).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+      120_000,
+      3,
+    );
+    expect(process).toHaveBeenCalledWith(
+      '^XA^FDx^FS^XZ',
+      '4x6',
+      'job-1',
+      'uid-1',
+      3,
+      'pdf',
+      {
+        periodStart: new Date('2026-03-01T00:00:00.000Z'),
+        periodEnd: new Date('2026-04-01T00:00:00.000Z'),
+        periodId: '2026-03',
+      },
+      'pro',
+    );
+    // Al terminar, la entrada ya no hace falta y el heartbeat se detiene
+    expect(file.delete).toHaveBeenCalledWith({ ignoreNotFound: true });
+    expect((service as any).jobHeartbeats.size).toBe(0);
+  });
+
+  it('no toca jobs con lease vigente ni jobs sin lease actualizados hace poco', async () => {
+    const { service, firestoreService, process } = buildService(
+      [
+        orphanedJob({ leaseExpiresAt: new Date(NOW + 60_000).toISOString() }),
+        orphanedJob({
+          jobId: 'legacy',
+          leaseOwner: undefined,
+          leaseExpiresAt: undefined,
+          updatedAt: ago(60_000),
+        }),
+      ],
+      { outcome: 'granted', job: {} },
+    );
+
+    const result = await service.recoverConversionJobs();
+
+    expect(result).toMatchObject({ scanned: 2, redriven: 0, failed: 0 });
+    expect(firestoreService.claimConversionJob).not.toHaveBeenCalled();
+    expect(process).not.toHaveBeenCalled();
+  });
+
+  it('pagina hasta encontrar los huérfanos tras una página de jobs sanos', async () => {
+    const healthy = Array.from({ length: 200 }, (_, i) =>
+      orphanedJob({ jobId: `sano-${i}`, leaseExpiresAt: ago(-60_000) }),
+    );
+    const { service, firestoreService } = buildService([], {
+      outcome: 'granted',
+      job: orphanedJob({ attempts: 2 }),
+    });
+    firestoreService.getUnfinishedConversionJobs
+      .mockResolvedValueOnce(healthy)
+      .mockResolvedValueOnce([orphanedJob()]);
+
+    const result = await service.recoverConversionJobs();
+
+    expect(result).toMatchObject({ scanned: 201, redriven: 1 });
+    expect(
+      firestoreService.getUnfinishedConversionJobs,
+    ).toHaveBeenLastCalledWith(200, 'sano-199');
+  });
+
+  it('marca como JOB_ORPHANED el job que agotó sus intentos', async () => {
+    const { service, firestoreService, usersService, process } = buildService(
+      [orphanedJob({ attempts: 3 })],
+      {
+        outcome: 'blocked',
+        reason: 'exhausted',
+      },
+    );
+
+    const result = await service.recoverConversionJobs();
+
+    expect(result).toMatchObject({ redriven: 0, failed: 1 });
+    expect(firestoreService.claimConversionJob).not.toHaveBeenCalled();
+    expect(process).not.toHaveBeenCalled();
+    expect(firestoreService.markConversionJobOrphaned).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+      'JOB_ORPHANED',
+      expect.any(String),
+    );
+    expect(usersService.recordConversion).toHaveBeenCalledWith(
+      'uid-1',
+      'job-1',
+      3,
+      '4x6',
+      'failed',
+      'pdf',
+      undefined,
+      expect.objectContaining({ periodId: '2026-03' }),
+      'pro',
+      undefined,
+    );
+  });
+
+  it('falla sin reintentar los jobs antiguos que no guardaron su entrada', async () => {
+    const { service, firestoreService, usersService } = buildService(
+      [
+        orphanedJob({
+          inputPath: undefined,
+          labelCount: undefined,
+          leaseOwner: undefined,
+          leaseExpiresAt: undefined,
+          updatedAt: ago(20 * 60 * 1000),
+        }),
+      ],
+      { outcome: 'granted', job: {} },
+    );
+
+    const result = await service.recoverConversionJobs();
+
+    expect(result).toMatchObject({ redriven: 0, failed: 1 });
+    expect(firestoreService.claimConversionJob).not.toHaveBeenCalled();
+    expect(firestoreService.markConversionJobOrphaned).toHaveBeenCalled();
+    // Sin conteo de etiquetas no hay conversión que registrar en el historial
+    expect(usersService.recordConversion).not.toHaveBeenCalled();
+  });
+
+  it('ignora la tarea repetida de un job que ya terminó', async () => {
+    const { service, process } = buildService([], {
+      outcome: 'blocked',
+      reason: 'finished',
+    });
+
+    await expect(
+      service.processConversionTask({
+        jobId: 'job-1',
+        userId: 'uid-1',
+        userPlan: 'pro',
+        outputFormat: 'pdf',
+      }),
+    ).resolves.toBe('duplicate');
+    expect(process).not.toHaveBeenCalled();
+  });
+
+  it('pide reintento (409) si otra instancia tiene el lease del job', async () => {
+    const { service, process } = buildService([], {
+      outcome: 'blocked',
+      reason: 'leased',
+    });
+
+    await expect(
+      service.processConversionTask({
+        jobId: 'job-1',
+        userId: 'uid-1',
+        userPlan: 'pro',
+        outputFormat: 'pdf',
+      }),
+    ).rejects.toMatchObject({
+      status: 409,
+      response: { error: 'JOB_IN_PROGRESS' },
+    });
+    expect(process).not.toHaveBeenCalled();
+  });
+
+  it('no duplica la tarea si dos recuperaciones reencolan el mismo intento', async () => {
+    const { service, firestoreService } = buildService([orphanedJob()], {
+      outcome: 'blocked',
+      reason: 'finished',
+    });
+
+    await service.recoverConversionJobs();
+    await service.recoverConversionJobs();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(firestoreService.claimConversionJob).toHaveBeenCalledTimes(1);
+    // Terminada la tarea, la cola local no conserva su id
+    expect((service as any).taskQueue.enqueuedIds.size).toBe(0);
+  });
+});
+
+describe('ZplService — cancelación de conversiones y batches', () => {
+  // 60 etiquetas distintas: dos chunks de renderizado
+  const TWO_CHUNK_ZPL = Array.from(
+    { length: 60 },
+    (_, i) => `^XA^FO50,50^A0,30^FDetiqueta ${i}^FS^XZ`,
+  ).join('\n');
+
+  function buildService(enqueue: jest.Mock) {
+    const webhookDispatcher = { emit: jest.fn().mockResolvedValue(undefined) };
+    const built = buildZplService({
+      firestoreService: {
+        cancelConversionJob: jest.fn().mockResolvedValue({
+          outcome: 'cancelled',
+          job: {
+            status: 'processing',
+            labelCount: 60,
+            labelSize: '4x6',
+            outputFormat: 'pdf',
+          },
+        }),
+        cancelBatchJob: jest.fn().mockResolvedValue({ outcome: 'cancelled' }),
+        completeConversionJob: jest
+          .fn()
+          .mockResolvedValue({ outcome: 'completed' }),
+        getConversionStatus: jest.fn().mockResolvedValue(null),
+        renewConversionJobLease: jest.fn().mockResolvedValue(true),
+        getBatchJob: jest.fn(),
+        updateBatchJob: jest.fn().mockResolvedValue(undefined),
+        updateConversionStatus: jest.fn().mockResolvedValue(undefined),
+        updateZplDebugResult: jest.fn().mockResolvedValue(undefined),
+      },
+      usersService: convertingUsersService(),
+      labelaryQueueService: { enqueue, cancelJob: jest.fn() },
+      webhookDispatcher,
+    });
+    const file = {
+      save: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+      getSignedUrl: jest.fn().mockResolvedValue(['https://signed.test/x']),
+    };
+    (built.service as any).storage = { bucket: () => ({ file: () => file }) };
+    return { ...built, webhookDispatcher, file };
+  }
+
+  /** Registra un job de una etiqueta y lo procesa hasta el final */
+  async function runSingleLabelJob(service: any) {
+    const zpl = '^XA^FO50,50^FDuna^FS^XZ';
+    service.jobs.set('job-1', {
+      id: 'job-1',
+      zplContent: zpl,
+      labelSize: '4x6',
+      outputFormat: 'pdf',
+      status: 'pending',
+      progress: 0,
+      createdAt: new Date(),
+      options: {},
+    });
+    await service.processZplConversionWithUser(
+      zpl,
+      '4x6',
+      'job-1',
+      'uid-1',
+      1,
+      'pdf',
+      undefined,
+      'pro',
+    );
+  }
+
+  it('cancela un job en curso: descarta su cola, no envía más chunks y no cobra', async () => {
+    const enqueue = jest.fn();
+    const {
+      service,
+      firestoreService,
+      usersService,
+      labelaryQueueService,
+      webhookDispatcher,
+    } = buildService(enqueue);
+    enqueue.mockImplementation(async () => {
+      await service.cancelConversion('job-1', 'uid-1');
+      return makePdf(50);
+    });
+    (service as any).jobs.set('job-1', {
+      id: 'job-1',
+      zplContent: TWO_CHUNK_ZPL,
+      labelSize: '4x6',
+      outputFormat: 'pdf',
+      status: 'pending',
+      progress: 0,
+      createdAt: new Date(),
+      options: {},
+    });
+
+    await (service as any).processZplConversionWithUser(
+      TWO_CHUNK_ZPL,
+      '4x6',
+      'job-1',
+      'uid-1',
+      60,
+      'pdf',
+      undefined,
+      'pro',
+    );
+
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(labelaryQueueService.cancelJob).toHaveBeenCalledWith(
+      'job-1',
+      expect.objectContaining({ status: 409 }),
+    );
+    expect((service as any).jobs.get('job-1').status).toBe('cancelled');
+    expect(usersService.recordConversion).not.toHaveBeenCalled();
+    expect(firestoreService.updateConversionStatus).not.toHaveBeenCalledWith(
+      'job-1',
+      expect.objectContaining({ status: 'error' }),
+    );
+    expect(webhookDispatcher.emit).toHaveBeenCalledTimes(1);
+    expect(webhookDispatcher.emit).toHaveBeenCalledWith(
+      'uid-1',
+      'conversion.cancelled',
+      expect.objectContaining({ jobId: 'job-1', status: 'cancelled' }),
+      undefined,
+    );
+  });
+
+  it('completa, cobra y avisa solo después de guardar el resultado', async () => {
+    const { service, firestoreService, usersService, webhookDispatcher } =
+      buildService(jest.fn(() => makePdf(1)));
+
+    await runSingleLabelJob(service);
+
+    expect(firestoreService.completeConversionJob).toHaveBeenCalledWith(
+      'job-1',
+      { resultUrl: 'https://signed.test/x', filename: expect.any(String) },
+      undefined,
+    );
+    expect(usersService.recordConversion).toHaveBeenCalledWith(
+      'uid-1',
+      'job-1',
+      1,
+      '4x6',
+      'completed',
+      'pdf',
+      'https://signed.test/x',
+      undefined,
+      'pro',
+      undefined,
+    );
+    expect(webhookDispatcher.emit).toHaveBeenCalledWith(
+      'uid-1',
+      'conversion.completed',
+      expect.objectContaining({ jobId: 'job-1' }),
+      { path: 'label-job-1.pdf', filename: expect.any(String) },
+    );
+  });
+
+  it('no pisa una cancelación que llega durante la subida', async () => {
+    const { service, firestoreService, usersService, webhookDispatcher, file } =
+      buildService(jest.fn(() => makePdf(1)));
+    firestoreService.completeConversionJob.mockResolvedValue({
+      outcome: 'blocked',
+      reason: 'finished',
+      status: 'cancelled',
+    });
+
+    await runSingleLabelJob(service);
+
+    expect(file.save).toHaveBeenCalled();
+    expect(file.delete).toHaveBeenCalledWith({ ignoreNotFound: true });
+    expect((service as any).jobs.get('job-1').status).toBe('cancelled');
+    expect(usersService.recordConversion).not.toHaveBeenCalled();
+    expect(webhookDispatcher.emit).not.toHaveBeenCalled();
+  });
+
+  it('corta el job en cuanto no puede renovar su lease', async () => {
+    const { service, firestoreService, labelaryQueueService } = buildService(
+      jest.fn(),
+    );
+    firestoreService.renewConversionJobLease.mockResolvedValue(false);
+
+    jest.useFakeTimers();
+    try {
+      (service as any).startJobHeartbeat('job-1');
+      await jest.advanceTimersByTimeAsync(CONVERSION_JOB_QUEUE.heartbeatMs);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(labelaryQueueService.cancelJob).toHaveBeenCalledWith(
+      'job-1',
+      expect.objectContaining({ status: 409 }),
+    );
+    expect((service as any).cancelledJobs.has('job-1')).toBe(true);
+    expect((service as any).jobHeartbeats.has('job-1')).toBe(false);
+  });
+
+  it('no completa ni cobra si el lease pasó a otra instancia', async () => {
+    const { service, firestoreService, usersService, file } = buildService(
+      jest.fn(() => makePdf(1)),
+    );
+    firestoreService.completeConversionJob.mockResolvedValue({
+      outcome: 'blocked',
+      reason: 'lost',
+      status: 'processing',
+    });
+    (service as any).jobs.set('job-1', {
+      id: 'job-1',
+      zplContent: '^XA^FDuna^FS^XZ',
+      labelSize: '4x6',
+      outputFormat: 'pdf',
+      status: 'pending',
+      progress: 0,
+      createdAt: new Date(),
+      options: {},
+    });
+
+    await (service as any).processLeasedConversionJob(
+      'job-1',
+      {
+        zplContent: '^XA^FDuna^FS^XZ',
+        labelSize: '4x6',
+        userId: 'uid-1',
+        labelCount: 1,
+        outputFormat: 'pdf',
+        userPlan: 'pro',
+      },
+      true,
+    );
+
+    expect(firestoreService.completeConversionJob).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(Object),
+      (service as any).instanceId,
+    );
+    expect(usersService.recordConversion).not.toHaveBeenCalled();
+    // Solo se borra la entrada del job: el resultado en esa ruta puede ser ya
+    // el de la instancia que lo tiene ahora
+    expect(file.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('responde 409 al cancelar un job que ya terminó', async () => {
+    const { service, firestoreService, labelaryQueueService } = buildService(
+      jest.fn(),
+    );
+    firestoreService.cancelConversionJob.mockResolvedValue({
+      outcome: 'blocked',
+      reason: 'finished',
+      status: 'error',
+    });
+
+    await expect(
+      service.cancelConversion('job-1', 'uid-1'),
+    ).rejects.toMatchObject({
+      status: 409,
+      response: {
+        error: 'JOB_ALREADY_FINISHED',
+        data: { jobId: 'job-1', currentStatus: 'failed' },
+      },
+    });
+    expect(labelaryQueueService.cancelJob).not.toHaveBeenCalled();
+  });
+
+  it('al cancelar un batch reembolsa los archivos ya completados y no genera el ZIP', async () => {
+    const enqueue = jest.fn(() => makePdf(1));
+    const { service, firestoreService, usersService, webhookDispatcher } =
+      buildService(enqueue);
+    const periodInfo = {
+      periodStart: new Date('2026-03-01T00:00:00.000Z'),
+      periodEnd: new Date('2026-04-01T00:00:00.000Z'),
+      periodId: '2026-03',
+    };
+    // Inicio y comprobación antes del primer archivo; la cancelación llega
+    // (desde otra instancia) mientras se convierte el primero
+    firestoreService.getBatchJob
+      .mockResolvedValueOnce({ userId: 'uid-1', status: 'processing' })
+      .mockResolvedValueOnce({ userId: 'uid-1', status: 'processing' })
+      .mockResolvedValue({ userId: 'uid-1', status: 'cancelled' });
+    const finalize = jest.spyOn(service as any, 'finalizeBatch');
+    const jobs = [
+      { jobId: 'job-a', fileId: 'a', fileName: 'a.zpl', status: 'pending' },
+      { jobId: 'job-b', fileId: 'b', fileName: 'b.zpl', status: 'pending' },
+    ];
+
+    await (service as any).processBatchFiles(
+      'batch-1',
+      [
+        { id: 'a', content: '^XA^FDa^FS^XZ', fileName: 'a.zpl' },
+        { id: 'b', content: '^XA^FDb^FS^XZ', fileName: 'b.zpl' },
+      ],
+      jobs,
+      '4x6',
+      'pdf',
+      periodInfo,
+    );
+
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(usersService.refundConversion).toHaveBeenCalledWith(
+      'uid-1',
+      'job-a',
+      1,
+      periodInfo,
+    );
+    expect(jobs.map((job) => job.status)).toEqual(['cancelled', 'cancelled']);
+    expect(firestoreService.updateBatchJob).toHaveBeenLastCalledWith(
+      'batch-1',
+      { jobs },
+    );
+    expect(finalize).not.toHaveBeenCalled();
+    expect(webhookDispatcher.emit).toHaveBeenCalledWith(
+      'uid-1',
+      'batch.cancelled',
+      expect.objectContaining({ batchId: 'batch-1', refundedFiles: 1 }),
+      undefined,
+    );
+  });
+
+  it('corta el archivo en curso si el batch se procesa en esta instancia', async () => {
+    const { service, labelaryQueueService } = buildService(jest.fn());
+    (service as any).activeBatchFiles.set('batch-1', 'job-a');
+
+    await expect(service.cancelBatch('batch-1', 'uid-1')).resolves.toEqual({
+      batchId: 'batch-1',
+      status: 'cancelled',
+    });
+    expect(labelaryQueueService.cancelJob).toHaveBeenCalledWith(
+      'job-a',
+      expect.objectContaining({ status: 409 }),
+    );
+    expect((service as any).cancelledJobs.has('job-a')).toBe(true);
+  });
+});
+
+describe('ZplService — batch en un solo PDF', () => {
+  it('une los PDF por nombre y entrega un .pdf en lugar del ZIP', async () => {
+    const { service, firestoreService } = buildZplService({
+      firestoreService: {
+        updateBatchJob: jest.fn().mockResolvedValue(undefined),
+      },
+    });
+    const temp: Record<string, Buffer> = {
+      'temp/10.pdf': await makePdf(2),
+      'temp/2.pdf': await makePdf(1),
+    };
+    const save = jest.fn().mockResolvedValue(undefined);
+    (service as any).storage = {
+      bucket: () => ({
+        file: (path: string) => ({
+          download: jest.fn().mockResolvedValue([temp[path]]),
+          save: (buffer: Buffer, options: unknown) =>
+            save(path, buffer, options),
+          delete: jest.fn().mockResolvedValue(undefined),
+        }),
+      }),
+    };
+    jest
+      .spyOn(service, 'generateSignedUrl')
+      .mockResolvedValue('https://storage.example/batch.pdf');
+    const jobs = [
+      {
+        jobId: 'job-10',
+        fileId: '10',
+        fileName: 'tienda/10.zpl',
+        status: 'completed',
+        progress: 100,
+        tempStoragePath: 'temp/10.pdf',
+      },
+      {
+        jobId: 'job-2',
+        fileId: '2',
+        fileName: 'tienda/2.zpl',
+        status: 'completed',
+        progress: 100,
+        tempStoragePath: 'temp/2.pdf',
+      },
+    ];
+
+    await (service as any).finalizeBatch(
+      'batch-1',
+      jobs,
+      2,
+      0,
+      'pdf',
+      undefined,
+      { mode: 'merged_pdf', order: 'name', separatorPages: true },
+    );
+
+    const [path, buffer, options] = save.mock.calls[0];
+    expect(path).toMatch(/^batches\/batch-1\/zpl-batch-.+\.pdf$/);
+    expect(options).toEqual({ contentType: 'application/pdf' });
+    // 2.zpl (1 página) + separador + 10.zpl (2 páginas); solo el
+    // separador tiene contenido
+    const merged = await PDFDocument.load(buffer);
+    expect(merged.getPageCount()).toBe(4);
+    expect(merged.getPages().map((page) => !!page.node.Contents())).toEqual([
+      false,
+      true,
+      false,
+      false,
+    ]);
+    expect(firestoreService.updateBatchJob).toHaveBeenCalledWith(
+      'batch-1',
+      expect.objectContaining({
+        status: 'completed',
+        downloadUrl: 'https://storage.example/batch.pdf',
+        zipFilename: expect.stringMatching(/\.pdf$/),
+      }),
+    );
+  });
+});
+
+describe('ZplService — stream de progreso (SSE)', () => {
+  function buildService() {
+    const firestoreService = {
+      getConversionStatus: jest.fn().mockResolvedValue(null),
+      getBatchJob: jest.fn().mockResolvedValue(null),
+    };
+    const labelaryQueueService = {
+      getQueuePosition: jest.fn().mockReturnValue({
+        jobId: 'job-1',
+        status: 'queued',
+        position: 2,
+        estimatedWaitSeconds: 4,
+        queueLength: { pro: 2, free: 0 },
+      }),
+    };
+    return buildZplService({ firestoreService, labelaryQueueService });
+  }
+
+  function collect(stream: Observable<any>) {
+    const events: any[] = [];
+    let completed = false;
+    const subscription = stream.subscribe({
+      next: (event) => events.push(event),
+      complete: () => (completed = true),
+    });
+    return { events, isCompleted: () => completed, subscription };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('envía el progreso local solo cuando cambia y cierra con la URL de descarga', async () => {
+    const { service } = buildService();
+    const job: any = {
+      id: 'job-1',
+      status: 'processing',
+      progress: 30,
+      phase: 'processing',
+      chunksCompleted: 1,
+      chunksTotal: 3,
+      userId: 'uid-1',
+      options: {},
+    };
+    (service as any).jobs.set('job-1', job);
+
+    const { events, isCompleted } = collect(
+      await service.streamConversionProgress('job-1', 'uid-1'),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    // Sin cambios no se repite el evento
+    await jest.advanceTimersByTimeAsync(2000);
+
+    Object.assign(job, {
+      status: 'completed',
+      progress: 100,
+      resultUrl: 'https://storage.example.com/label.pdf',
+      filename: 'label.pdf',
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toEqual({
+      type: 'progress',
+      data: expect.objectContaining({
+        status: 'processing',
+        chunksCompleted: 1,
+        chunksTotal: 3,
+        queue: { status: 'queued', position: 2, estimatedWaitSeconds: 4 },
+      }),
+    });
+    expect(events[1]).toEqual({
+      type: 'completed',
+      data: expect.objectContaining({
+        downloadUrl: 'https://storage.example.com/label.pdf',
+      }),
+    });
+    expect(isCompleted()).toBe(true);
+  });
+
+  it('lee de Firestore el job que procesa otra instancia', async () => {
+    const { service, firestoreService, labelaryQueueService } = buildService();
+    firestoreService.getConversionStatus.mockResolvedValue({
+      status: 'error',
+      progress: 40,
+      userId: 'uid-1',
+      errorMessage: 'Labelary caído',
+    });
+
+    const { events, isCompleted } = collect(
+      await service.streamConversionProgress('job-1', 'uid-1'),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(events).toEqual([
+      {
+        type: 'failed',
+        data: expect.objectContaining({
+          status: 'failed',
+          error: 'Labelary caído',
+        }),
+      },
+    ]);
+    expect(events[0].data.queue).toBeUndefined();
+    expect(labelaryQueueService.getQueuePosition).not.toHaveBeenCalled();
+    expect(isCompleted()).toBe(true);
+  });
+
+  it('rechaza el stream de un job de otro usuario', async () => {
+    const { service, firestoreService } = buildService();
+    firestoreService.getConversionStatus.mockResolvedValue({
+      status: 'processing',
+      userId: 'uid-2',
+    });
+
+    await expect(
+      service.streamConversionProgress('job-1', 'uid-1'),
+    ).rejects.toMatchObject({
+      status: 403,
+      response: { error: 'ACCESS_DENIED' },
+    });
+  });
+
+  it('pide reconectar al cumplirse la duración máxima del stream', async () => {
+    const { service, firestoreService } = buildService();
+    const batch = {
+      id: 'batch-1',
+      userId: 'uid-1',
+      status: 'processing',
+      totalFiles: 1,
+      completedFiles: 0,
+      failedFiles: 0,
+      jobs: [
+        {
+          jobId: 'job-a',
+          fileName: 'a.zpl',
+          fileId: 'a',
+          status: 'processing',
+          progress: 10,
+        },
+      ],
+    };
+    firestoreService.getBatchJob.mockResolvedValue(batch);
+
+    const { events, isCompleted } = collect(
+      await service.streamBatchProgress('batch-1', 'uid-1'),
+    );
+    await jest.advanceTimersByTimeAsync(270_000);
+
+    expect(events[0]).toMatchObject({
+      type: 'progress',
+      data: { batchId: 'batch-1', files: [{ jobId: 'job-a', progress: 10 }] },
+    });
+    expect(events[events.length - 1]).toEqual({
+      type: 'timeout',
+      data: { reconnect: true },
+    });
+    expect(isCompleted()).toBe(true);
+  });
+});
+
+describe('ZplService — imagen a ZPL', () => {
+  const realSharp = jest.requireActual('sharp');
+
+  beforeEach(() => {
+    (sharp as unknown as jest.Mock).mockImplementation((...args: any[]) =>
+      realSharp(...args),
+    );
+  });
+
+  afterEach(() => {
+    (sharp as unknown as jest.Mock).mockReset();
+  });
+
+  /** PNG de 80x40 con la mitad izquierda negra */
+  function halfBlackPng(): Promise<Buffer> {
+    return realSharp({
+      create: {
+        width: 80,
+        height: 40,
+        channels: 3,
+        background: '#ffffff',
+      },
+    })
+      .composite([
+        {
+          input: {
+            create: { width: 40, height: 40, channels: 3, background: '#000' },
+          },
+          left: 0,
+          top: 0,
+        },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  function buildService() {
+    return buildZplService({
+      labelaryQueueService: {
+        enqueuePngDirect: jest.fn().mockResolvedValue(Buffer.from('png')),
+      },
+    });
+  }
+
+  const OPTIONS = {
+    dpmm: 8,
+    dither: 'threshold',
+    threshold: 128,
+    format: GraphicFormat.GFA_HEX,
+    name: 'LOGO',
+  } as const;
+
+  it('escala conservando la proporción y devuelve ^GFA con vista previa', async () => {
+    const { service, labelaryQueueService } = buildService();
+
+    const result = await service.convertImageToGraphic(await halfBlackPng(), {
+      ...OPTIONS,
+      width: 40,
+    });
+
+    expect(result).toMatchObject({
+      width: 40,
+      height: 20,
+      bytesPerRow: 5,
+      totalBytes: 100,
+      preview: `data:image/png;base64,${Buffer.from('png').toString('base64')}`,
+    });
+    expect(result.label).toBe(`^XA^PW40^LL20^FO0,0${result.zpl}^FS^XZ`);
+
+    const data = result.zpl.split(',').slice(4).join(',');
+    const decoded = decodeGraphicField('A', 100, 5, data);
+    // Cada fila: 20 dots negros y 20 blancos
+    expect(Array.from(decoded.data.subarray(0, 5))).toEqual([
+      0xff, 0xff, 0xf0, 0, 0,
+    ]);
+    expect(Buffer.from(decoded.data.subarray(95))).toEqual(
+      Buffer.from(decoded.data.subarray(0, 5)),
+    );
+
+    expect(labelaryQueueService.enqueuePngDirect).toHaveBeenCalledWith(
+      result.label,
+      '0.197x0.1',
+      { renderer: undefined, dpmm: 8 },
+    );
+  });
+
+  it('con ~DG la etiqueta recupera el gráfico y la vista previa usa ^GF', async () => {
+    const { service, labelaryQueueService } = buildService();
+
+    const result = await service.convertImageToGraphic(await halfBlackPng(), {
+      ...OPTIONS,
+      format: GraphicFormat.DG,
+      height: 40,
+    });
+
+    expect(result.zpl.startsWith('~DGR:LOGO.GRF,400,10,')).toBe(true);
+    expect(result.label).toBe(
+      `${result.zpl}\n^XA^PW80^LL40^FO0,0^XGR:LOGO.GRF,1,1^FS^XZ`,
+    );
+    const [previewZpl] = labelaryQueueService.enqueuePngDirect.mock.calls[0];
+    expect(previewZpl).toMatch(/^\^XA\^PW80\^LL40\^FO0,0\^GFA,400,400,10,/);
+  });
+
+  it('rechaza archivos que no son imágenes y tamaños excesivos', async () => {
+    const { service } = buildService();
+
+    await expect(
+      service.convertImageToGraphic(Buffer.from('^XA^XZ'), OPTIONS),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { error: 'INVALID_IMAGE' },
+    });
+    await expect(
+      service.convertImageToGraphic(await halfBlackPng(), {
+        ...OPTIONS,
+        width: 5000,
+      }),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { error: 'INVALID_INPUT', data: { maxDots: 3045 } },
+    });
+  });
+});
+
+describe('ZplService — PDF a ZPL', () => {
+  const realSharp = jest.requireActual('sharp');
+
+  beforeEach(() => {
+    (sharp as unknown as jest.Mock).mockImplementation((...args: any[]) =>
+      realSharp(...args),
+    );
+  });
+
+  afterEach(() => {
+    (sharp as unknown as jest.Mock).mockReset();
+    (pdfToPng as jest.Mock).mockReset();
+  });
+
+  /** Página rasterizada vertical de 100x300 con margen blanco y un bloque negro */
+  function portraitPagePng(): Promise<Buffer> {
+    return realSharp({
+      create: { width: 140, height: 340, channels: 3, background: '#fff' },
+    })
+      .composite([
+        {
+          input: {
+            create: {
+              width: 100,
+              height: 300,
+              channels: 3,
+              background: '#000',
+            },
+          },
+          left: 20,
+          top: 20,
+        },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  function buildService(plan = 'pro') {
+    return buildZplService({ usersService: convertingUsersService(plan) });
+  }
+
+  const OPTIONS = {
+    dpmm: 8,
+    rotation: 'auto',
+    crop: true,
+    dither: 'threshold',
+    threshold: 128,
+    encoding: 'hex',
+  } as const;
+
+  it('recorta, gira y centra cada página y la cuenta como etiqueta', async () => {
+    const page = await portraitPagePng();
+    (pdfToPng as jest.Mock).mockResolvedValue([{ content: page }]);
+    const { service, usersService } = buildService();
+
+    const result = await service.convertPdfsToZpl(
+      [{ fileName: 'envio.pdf', buffer: await makePdf(2) }],
+      '2x1',
+      'uid-1',
+      OPTIONS,
+    );
+
+    expect(result).toMatchObject({
+      filename: 'envio.zpl',
+      contentType: 'text/plain; charset=utf-8',
+      labelCount: 2,
+    });
+    const blocks = result.buffer.toString().trim().split('\n');
+    expect(blocks).toHaveLength(2);
+    // 2x1 a 8 dpmm = 406x203; la página recortada (100x300) se gira a 300x100
+    expect(blocks[0]).toMatch(
+      /^\^XA\^PW406\^LL203\^FO53,51\^GFA,3800,3800,38,.*\^FS\^XZ$/,
+    );
+    const [, graphic] = blocks[0].split('^GFA,');
+    const data = graphic
+      .split(',')
+      .slice(3)
+      .join(',')
+      .replace(/\^FS.*/, '');
+    const decoded = decodeGraphicField('A', 3800, 38, data);
+    expect(
+      decoded.data.every((byte, i) => i % 38 === 37 || byte === 0xff),
+    ).toBe(true);
+    // Se rasteriza de una en una
+    expect(
+      (pdfToPng as jest.Mock).mock.calls.map(
+        ([, props]) => props.pagesToProcess,
+      ),
+    ).toEqual([[1], [2]]);
+    expect(usersService.checkCanConvert).toHaveBeenCalledWith('uid-1', 2);
+    expect(usersService.recordConversion).toHaveBeenCalledWith(
+      'uid-1',
+      result.jobId,
+      2,
+      '2x1',
+      'completed',
+      'zpl',
+      undefined,
+      undefined,
+      'pro',
+      undefined,
+    );
+  });
+
+  it('rechaza un PDF ilegible sin consumir cuota', async () => {
+    const { service, usersService } = buildService();
+
+    await expect(
+      service.convertPdfsToZpl(
+        [{ fileName: 'roto.pdf', buffer: Buffer.from('no es un pdf') }],
+        '4x6',
+        'uid-1',
+        OPTIONS,
+      ),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { error: 'INVALID_PDF', data: { fileName: 'roto.pdf' } },
+    });
+    expect(usersService.checkCanConvert).not.toHaveBeenCalled();
+  });
+
+  it('rasteriza una página mucho mayor que la etiqueta a menos resolución', async () => {
+    (pdfToPng as jest.Mock).mockResolvedValue([
+      { content: await portraitPagePng() },
+    ]);
+    const { service } = buildService();
+
+    await service.convertPdfsToZpl(
+      [{ fileName: 'hoja.pdf', buffer: await makePdf(1, [1440, 1440]) }],
+      '2x1',
+      'uid-1',
+      OPTIONS,
+    );
+
+    // Lado mayor de 3 veces el de la etiqueta (406 dots) y no 8 dpmm
+    const [, props] = (pdfToPng as jest.Mock).mock.calls[0];
+    expect(props.viewportScale).toBeCloseTo(1218 / 1440);
+  });
+
+  it('rechaza páginas que no caben en memoria sin rasterizarlas', async () => {
+    const { service, usersService } = buildService();
+
+    await expect(
+      service.convertPdfsToZpl(
+        [{ fileName: 'enorme.pdf', buffer: await makePdf(1, [14400, 14400]) }],
+        '4x6',
+        'uid-1',
+        { ...OPTIONS, dpmm: 24 },
+      ),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { error: 'INVALID_PDF', data: { page: 1 } },
+    });
+    expect(pdfToPng).not.toHaveBeenCalled();
+    expect(usersService.checkCanConvert).not.toHaveBeenCalled();
+  });
+
+  it('varios PDF requieren un plan con batch', async () => {
+    const { service, usersService } = buildService('lite');
+    const pdf = await makePdf(1);
+
+    await expect(
+      service.convertPdfsToZpl(
+        [
+          { fileName: 'a.pdf', buffer: pdf },
+          { fileName: 'b.pdf', buffer: pdf },
+        ],
+        '4x6',
+        'uid-1',
+        OPTIONS,
+      ),
+    ).rejects.toMatchObject({
+      status: 403,
+      response: { error: 'BATCH_NOT_ALLOWED' },
+    });
+    expect(usersService.recordConversion).not.toHaveBeenCalled();
+  });
+});
@@ -7,14 +7,19 @@ import {
   forwardRef,
   ForbiddenException,
   Optional,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
 } from '@nestjs/common';
+import type { MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import {
   ErrorCodes,
+  ErrorMessagesEs,
   getErrorTypeFromCode,
 } from '../../common/constants/error-codes.js';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, PDFPage } from 'pdf-lib';
 import { Storage } from '@google-cloud/storage';
 import { ConfigService } from '@nestjs/config';
 import archiver from 'archiver';
@@ -25,11 +30,106 @@ import {
   ConversionStatus,
 } from '../cache/firestore.service.js';
 import { UsersService } from '../users/users.service.js';
+import { WebhookDispatcherService } from '../webhook-endpoints/webhook-dispatcher.service.js';
+import type {
+  WebhookDownloadRef,
+  WebhookEventType,
+} from '../../common/interfaces/webhook-endpoint.interface.js';
 import type { PeriodInfo } from '../../common/services/period-calculator.service.js';
-import { OutputFormat } from './enums/output-format.enum.js';
-import type { BatchJob, BatchFileJob } from './interfaces/batch.interface.js';
-import { BATCH_LIMITS } from './interfaces/batch.interface.js';
+import {
+  MONOCHROME_OUTPUT_FORMATS,
+  OUTPUT_FORMAT_FILES,
+  OutputFormat,
+  ZPL_OUTPUT_FORMAT,
+} from './enums/output-format.enum.js';
+import type { OutputFormatValue } from './enums/output-format.enum.js';
+import {
+  DEFAULT_PRINTER_DPMM,
+  PRINTER_DPI,
+  PrinterDpmm,
+  printerDpi,
+} from './enums/printer-dpmm.enum.js';
+import type {
+  BatchJob,
+  BatchFileJob,
+  BatchLimits,
+  BatchOutputOptions,
+} from './interfaces/batch.interface.js';
+import {
+  BATCH_ARCHIVE_LIMITS,
+  BATCH_LIMITS,
+} from './interfaces/batch.interface.js';
+import {
+  BatchArchiveError,
+  batchZipEntryName,
+  extractBatchArchive,
+} from './utils/batch-archive.util.js';
+import type {
+  BatchArchiveEntry,
+  BatchArchiveKind,
+} from './utils/batch-archive.util.js';
 import { LabelaryQueueService } from './services/labelary-queue.service.js';
+import { LabelaryUnavailableError } from './services/labelary-rate-controller.js';
+import { RenderCacheService } from './services/render-cache.service.js';
+import { RENDER_CACHE_LIMITS } from './interfaces/render-cache.interface.js';
+import { DEFAULT_RENDERER_MODE } from './interfaces/label-renderer.interface.js';
+import type { ConversionOptions } from './interfaces/conversion-options.interface.js';
+import type { LabelDimensions } from './interfaces/label-dimensions.interface.js';
+import {
+  AUTO_LABEL_SIZE,
+  LABEL_DIMENSION_LIMITS,
+} from './interfaces/label-dimensions.interface.js';
+import {
+  describeLabelSize,
+  detectLabelSize,
+  labelSizeFromDots,
+  labelSizeFromMap,
+  labelSizeInDots,
+  parseLabelSize,
+  readPrintDimensions,
+} from './utils/label-size.util.js';
+import { UnsupportedZplError } from './rendering/render-primitives.js';
+import { imposeOnSheets } from './rendering/sheet-imposition.js';
+import { mergeBatchPdfs } from './rendering/batch-pdf-merge.js';
+import type { BatchPdfSource } from './rendering/batch-pdf-merge.js';
+import {
+  DEFAULT_MONOCHROME_OPTIONS,
+  ditherToBilevel,
+  toBilevel,
+} from './rendering/monochrome.js';
+import type { BilevelImage } from './rendering/monochrome.js';
+import { encodeBilevelPng } from './rendering/png-encoder.js';
+import { encodeBilevelBmp } from './rendering/bmp-encoder.js';
+import { encodeMultipageTiff } from './rendering/tiff-encoder.js';
+import {
+  downloadGraphicCommand,
+  graphicFieldCommand,
+} from './rendering/graphic-encoder.js';
+import { GraphicFormat } from './enums/graphic-format.enum.js';
+import { IMAGE_TO_GRAPHIC_LIMITS } from './interfaces/image-graphic.interface.js';
+import type {
+  ImageToGraphicOptions,
+  ImageToGraphicResult,
+} from './interfaces/image-graphic.interface.js';
+import { PDF_TO_ZPL_LIMITS } from './interfaces/pdf-zpl.interface.js';
+import type {
+  PdfToZplFile,
+  PdfToZplOptions,
+} from './interfaces/pdf-zpl.interface.js';
+import {
+  completeLabels,
+  labelProducesOutput,
+  normalizeZplSyntax,
+  parseZpl,
+  serializeLabel,
+} from './parser/zpl-parser.js';
+import {
+  expandLabelCopies,
+  isSerialized,
+  readPrintQuantity,
+  SERIALIZATION_LIMITS,
+  serialVariantCount,
+} from './parser/zpl-serialization.js';
 import type {
   UserPlan,
   QueuePositionResponse,
@@ -38,7 +138,30 @@ import {
   DEFAULT_PLAN_LIMITS,
   PLAN_FEATURES,
 } from '../../common/interfaces/user.interface.js';
-import type { PlanType } from '../../common/interfaces/user.interface.js';
+import type { PlanType, User } from '../../common/interfaces/user.interface.js';
+import { SYNC_CONVERSION_LIMITS } from './interfaces/sync-conversion.interface.js';
+import { PROGRESS_STREAM } from './interfaces/progress-stream.interface.js';
+import type {
+  BatchProgressSnapshot,
+  ConversionPhase,
+  ConversionProgressSnapshot,
+  ProgressQueueInfo,
+  ProgressSnapshot,
+} from './interfaces/progress-stream.interface.js';
+import type { SyncConversionResult } from './interfaces/sync-conversion.interface.js';
+import { CONVERSION_JOB_QUEUE } from './interfaces/conversion-job-queue.interface.js';
+import type {
+  ConversionJobCompletion,
+  ConversionTaskOutcome,
+  RecoverConversionJobsResult,
+} from './interfaces/conversion-job-queue.interface.js';
+import { CONVERSION_TASK_QUEUE } from '../queue/interfaces/conversion-task.interface.js';
+import type {
+  ConversionTask,
+  ConversionTaskQueue,
+} from '../queue/interfaces/conversion-task.interface.js';
+
+const POINTS_PER_INCH = 72;
 
 export enum LabelSize {
   TWO_BY_ONE = '2x1',
@@ -51,16 +174,38 @@ export enum LabelSize {
 interface ConversionJob {
   id: string;
   zplContent: string;
-  labelSize: LabelSize;
+  labelSize: string;
   outputFormat: OutputFormat;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
+  phase?: ConversionPhase;
+  /** Dueño del job (para autorizar el stream de progreso) */
+  userId?: string;
   resultUrl?: string;
   filename?: string;
+  /** Ruta del resultado en el bucket (para volver a firmar la descarga) */
+  storagePath?: string;
   error?: string;
   createdAt: Date;
   originalFilename?: string;
   userPlan?: string;
+  options: ConversionOptions;
+  /** Tamaños usados con labelSize "auto" o labelSizeMap (sin repetir) */
+  detectedLabelSizes?: string[];
+  /** Chunks enviados a renderizar / total (para estimar la espera en cola) */
+  chunksCompleted?: number;
+  chunksTotal?: number;
+}
+
+/** Lo necesario para ejecutar (o reanudar) una conversión asíncrona */
+interface ConversionJobRun {
+  zplContent: string;
+  labelSize: string;
+  userId: string;
+  labelCount: number;
+  outputFormat: OutputFormat;
+  periodInfo?: PeriodInfo;
+  userPlan?: UserPlan;
 }
 
 // Nuevo tipo para guardar contenido sin ^PQ y la cantidad de copias
@@ -68,11 +213,31 @@ interface ParsedZplBlock {
   normalizedContent: string;
   copies: number;
   originalIndex: number;
+  /** Tamaño propio del bloque (modo auto o mapa de tamaños) */
+  labelSize?: string;
+}
+
+/** Cómo se expanden las copias de ^PQ de una etiqueta */
+export interface LabelCopiesExpansion {
+  /** Número de etiqueta (desde 1, sin contar bloques de configuración) */
+  label: number;
+  /** Total de copias (^PQ q) */
+  quantity: number;
+  /** Copias entre pausas (^PQ p); no afecta al PDF */
+  pauseCount: number;
+  /** Repeticiones de cada número de serie (^PQ r) */
+  replicates: number;
+  /** true si la etiqueta usa ^SN/^SF */
+  serialized: boolean;
+  /** Páginas distintas que se renderizan */
+  variants: number;
 }
 
 interface ChunkRange {
   start: number;
   end: number;
+  /** Tamaño con el que se renderiza el chunk si difiere del de la conversión */
+  labelSize?: string;
 }
 
 interface UniqueBlocksResult {
@@ -83,6 +248,7 @@ interface UniqueBlocksResult {
 interface ZplPreviewItemDto {
   img: string;
   qty: number;
+  labelSize?: string;
 }
 
 interface PreparedZplBlocks {
@@ -90,28 +256,30 @@ interface PreparedZplBlocks {
   originalSequence: number[];
   chunkRanges: ChunkRange[];
   totalChunks: number;
+  detectedLabelSizes?: string[];
 }
 
 @Injectable()
-export class ZplService {
+export class ZplService implements OnApplicationBootstrap, OnModuleDestroy {
   private readonly logger = new Logger(ZplService.name);
   private readonly CHUNK_SIZE = 50;
   private readonly jobs = new Map<string, ConversionJob>();
+  // Identifica a esta instancia como dueña de los leases de la cola persistente
+  private readonly instanceId: string;
+  // Heartbeats de los jobs que esta instancia está procesando
+  private readonly jobHeartbeats = new Map<string, NodeJS.Timeout>();
+  // Jobs que esta instancia procesa con lease (solo ella puede completarlos)
+  private readonly leasedJobs = new Set<string>();
+  // Jobs (o archivos de batch) cancelados mientras esta instancia los procesa
+  private readonly cancelledJobs = new Set<string>();
+  // Archivo que se está convirtiendo en cada batch que procesa esta instancia
+  private readonly activeBatchFiles = new Map<string, string>();
   private readonly storage: Storage;
   private readonly bucket: string;
   private readonly storageBasePath: string;
   private readonly URL_EXPIRATION_TIME = 15 * 60 * 1000; // 15 minutos en milisegundos
 
-  // Mapas de conversión para tamaños de etiqueta
-  private readonly LABEL_SIZE_NORMALIZE_MAP: Record<string, string> = {
-    small: '2x1',
-    '2x1': '2x1',
-    '2x4': '2x4',
-    '4x2': '4x2',
-    large: '4x6',
-    '4x6': '4x6',
-  };
-
+  // Mapa de conversión para tamaños de etiqueta
   private readonly LABEL_SIZE_ENUM_MAP: Record<string, LabelSize> = {
     small: LabelSize.TWO_BY_ONE,
     '2x1': LabelSize.TWO_BY_ONE,
@@ -128,6 +296,11 @@ export class ZplService {
     private usersService: UsersService,
     @Inject('GOOGLE_AUTH_OPTIONS') @Optional() private googleAuthOptions: any,
     private labelaryQueueService: LabelaryQueueService,
+    @Optional() private webhookDispatcher?: WebhookDispatcherService,
+    @Optional()
+    @Inject(CONVERSION_TASK_QUEUE)
+    private taskQueue?: ConversionTaskQueue,
+    @Optional() private renderCache?: RenderCacheService,
   ) {
     // Inicializar el cliente de Storage usando GoogleAuthProvider
     // En Cloud Run, si no hay credenciales, usará ADC automáticamente
@@ -141,6 +314,14 @@ export class ZplService {
     // Configurar la URL base para acceder a los archivos
     this.storageBasePath = `https://storage.googleapis.com/${this.bucket}/`;
 
+    // Cloud Run expone la revisión; el sufijo distingue instancias de la misma
+    this.instanceId = `${
+      this.configService.get<string>('K_REVISION') || 'local'
+    }-${uuidv4().slice(0, 8)}`;
+
+    // Con el adaptador local las tareas se ejecutan aquí mismo
+    this.taskQueue?.bindWorker((task) => this.processConversionTask(task));
+
     // Verificar que el bucket existe
     this.storage
       .bucket(this.bucket)
@@ -157,6 +338,32 @@ export class ZplService {
       });
   }
 
+  /**
+   * Al arrancar, retoma los jobs que dejó huérfanos una instancia anterior.
+   * No bloquea el arranque: si Firestore no responde, el cron lo reintentará.
+   */
+  onApplicationBootstrap() {
+    this.recoverConversionJobs()
+      .then((result) => {
+        if (result.redriven || result.failed) {
+          this.logger.log(
+            `Recuperación de jobs al arrancar: ${result.redriven} reanudados, ${result.failed} fallidos`,
+          );
+        }
+      })
+      .catch((err) =>
+        this.logger.warn(`Failed to recover conversion jobs: ${err.message}`),
+      );
+  }
+
+  onModuleDestroy() {
+    // Los leases vencerán solos y otra instancia retomará los jobs
+    for (const timer of this.jobHeartbeats.values()) {
+      clearInterval(timer);
+    }
+    this.jobHeartbeats.clear();
+  }
+
   /**
    * Marca una excepción como ya registrada en error_logs para que el catch
    * genérico de processZplConversion no la vuelva a guardar. Evita el doble
@@ -297,99 +504,50 @@ export class ZplService {
     userId: string,
     outputFormat: OutputFormat = OutputFormat.PDF,
     originalFilename?: string,
+    options: ConversionOptions = {},
   ): Promise<string> {
     try {
-      if (!zplContent) {
-        throw new HttpException(
-          'Debe proporcionar el contenido ZPL ya sea como texto o como archivo',
-          HttpStatus.BAD_REQUEST,
-        );
-      }
-
-      // Count labels in ZPL content
-      const countResult = await this.countLabels(zplContent);
-      const labelCount = countResult.data.totalLabels;
-
-      // Check user limits before processing
-      const canConvert = await this.usersService.checkCanConvert(
-        userId,
-        labelCount,
-      );
-      if (!canConvert.allowed) {
-        // Log conversion-gate rejection. El `type` se deriva del código real
-        // (no se hardcodea LIMIT_EXCEEDED) para que el dashboard distinga
-        // fricción de acceso (email sin verificar) de presión de cuota.
-        const errorCode =
-          canConvert.errorCode || ErrorCodes.MONTHLY_LIMIT_EXCEEDED;
-        await this.logError(
-          getErrorTypeFromCode(errorCode),
-          errorCode,
-          canConvert.error,
-          'warning',
-          { labelCount, ...canConvert.data },
-          userId,
-          // El email viene de checkCanConvert (que ya cargó el usuario). Sin él
-          // el dashboard no puede identificar quién agotó la cuota: /admin/users
-          // busca por email o displayName, nunca por uid.
-          canConvert.userEmail ?? undefined,
-        );
-        throw new HttpException(
-          {
-            error: canConvert.errorCode,
-            message: canConvert.error,
-            data: canConvert.data,
-          },
-          HttpStatus.FORBIDDEN,
-        );
-      }
-
-      // Obtener información del usuario y plan efectivo (considera simulación para admins)
-      const user = await this.usersService.getUserById(userId);
-      const userPlan = user ? this.usersService.getEffectivePlan(user) : 'free';
-
-      // Validate image formats by capability (canDownloadImages), NOT by plan literal.
-      // Free y Lite no descargan imágenes; Pro/Pro Max/Enterprise sí.
-      if (outputFormat !== OutputFormat.PDF) {
-        if (!user || !DEFAULT_PLAN_LIMITS[userPlan].canDownloadImages) {
-          throw new HttpException(
-            {
-              error: ErrorCodes.IMAGE_FORMAT_PRO_ONLY,
-              message:
-                'PNG and JPEG formats are only available for Pro and Enterprise plans',
-            },
-            HttpStatus.FORBIDDEN,
-          );
-        }
-      }
+      const { labelCount, periodInfo, user, userPlan } =
+        await this.authorizeConversion(zplContent, userId, outputFormat);
 
-      const size = this.getLabelSize(labelSize);
       const jobId = uuidv4();
       const now = new Date();
 
-      // Crear y guardar el trabajo en memoria (cache local)
-      this.jobs.set(jobId, {
-        id: jobId,
-        zplContent,
-        labelSize: size,
-        outputFormat,
-        status: 'pending',
-        progress: 0,
-        createdAt: now,
-        originalFilename,
-        userPlan,
-      });
+      // El ZPL va a Storage: el worker que tome la tarea (u otra instancia, si
+      // la que procesa se recicla) lo lee de ahí
+      const inputPath = await this.persistConversionInput(jobId, zplContent);
 
-      // Guardar en Firestore para persistencia entre instancias
+      // Guardar en Firestore para persistencia entre instancias. Sin lease:
+      // lo toma el worker que reclame la tarea.
+      let persisted = false;
       try {
         await this.firestoreService.saveConversionStatus(jobId, {
           status: 'pending',
           progress: 0,
           userId: userId,
           labelSize: labelSize,
+          ...(options.labelDimensions && {
+            labelDimensions: options.labelDimensions,
+          }),
+          dpmm: options.dpmm ?? DEFAULT_PRINTER_DPMM,
           outputFormat: outputFormat,
           createdAt: now.toISOString(),
           updatedAt: now.toISOString(),
+          ...(inputPath && { inputPath }),
+          originalFilename,
+          options,
+          userPlan,
+          labelCount,
+          ...(periodInfo && {
+            periodInfo: {
+              periodStart: periodInfo.periodStart.toISOString(),
+              periodEnd: periodInfo.periodEnd.toISOString(),
+              periodId: periodInfo.periodId,
+            },
+          }),
+          attempts: 0,
         });
+        persisted = true;
       } catch (firestoreError) {
         this.logger.error(
           `Error al guardar en Firestore: ${firestoreError.message}`,
@@ -397,20 +555,44 @@ export class ZplService {
         // Continuar aunque falle Firestore - el job puede procesarse con el cache local
       }
 
-      // Encolar el trabajo para procesamiento asincrono
-      const periodInfo = canConvert.periodInfo;
-      setTimeout(() => {
-        this.processZplConversionWithUser(
+      const enqueued =
+        !!inputPath &&
+        persisted &&
+        (await this.enqueueConversionTask(
+          { jobId, userId, userPlan, outputFormat },
+          0,
+        ));
+
+      if (!enqueued) {
+        // Sin cola, o sin la entrada persistida que necesita el worker: se
+        // procesa en esta instancia con el caché local
+        this.jobs.set(jobId, {
+          id: jobId,
           zplContent,
-          labelSize,
-          jobId,
-          userId,
-          labelCount,
+          labelSize: this.getLabelSize(labelSize),
           outputFormat,
-          periodInfo,
-          userPlan as UserPlan,
-        );
-      }, 100);
+          status: 'pending',
+          progress: 0,
+          userId,
+          createdAt: now,
+          originalFilename,
+          userPlan,
+          options,
+        });
+        setTimeout(() => {
+          this.runConversionJob(jobId, {
+            zplContent,
+            labelSize,
+            userId,
+            labelCount,
+            outputFormat,
+            periodInfo,
+            userPlan: userPlan as UserPlan,
+          }).catch((err) =>
+            this.logger.error(`Error al ejecutar job ${jobId}: ${err.message}`),
+          );
+        }, 100);
+      }
 
       // Guardar ZPL para debugging de forma asíncrona (no bloquea)
       this.saveZplForDebug(
@@ -439,78 +621,182 @@ export class ZplService {
   }
 
   /**
-   * Procesa la conversion ZPL con tracking de usuario
+   * Convierte ZPL dentro de la propia petición y devuelve el archivo, sin
+   * subirlo a Storage. Aplica los mismos límites de plan que
+   * startZplConversion más un tope de etiquetas y de tiempo; el uso y el
+   * historial se registran igual que en la conversión asíncrona.
+   * @returns Archivo generado con su tipo de contenido y nombre de descarga
    */
-  private async processZplConversionWithUser(
+  async convertZplSync(
     zplContent: string,
     labelSize: string,
-    jobId: string,
     userId: string,
-    labelCount: number,
     outputFormat: OutputFormat = OutputFormat.PDF,
-    periodInfo?: PeriodInfo,
-    userPlan?: UserPlan,
-  ): Promise<void> {
+    originalFilename?: string,
+    options: ConversionOptions = {},
+  ): Promise<SyncConversionResult> {
+    const { labelCount, periodInfo, userPlan } = await this.authorizeConversion(
+      zplContent,
+      userId,
+      outputFormat,
+    );
+
+    if (labelCount > SYNC_CONVERSION_LIMITS.maxLabels) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.SYNC_LABEL_LIMIT_EXCEEDED,
+          message: `Synchronous conversion supports up to ${SYNC_CONVERSION_LIMITS.maxLabels} labels. Use /zpl/convert for larger jobs`,
+          data: {
+            requested: labelCount,
+            allowed: SYNC_CONVERSION_LIMITS.maxLabels,
+          },
+        },
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+
+    const size = this.getLabelSize(labelSize);
+    const jobId = uuidv4();
+    const now = new Date();
+
+    // El trabajo se registra como uno normal para que el progreso, los
+    // tamaños detectados y /status funcionen igual
+    const job: ConversionJob = {
+      id: jobId,
+      zplContent,
+      labelSize: size,
+      outputFormat,
+      status: 'processing',
+      progress: 0,
+      userId,
+      createdAt: now,
+      originalFilename,
+      userPlan,
+      options,
+    };
+    this.jobs.set(jobId, job);
+
     try {
-      await this.processZplConversion(
-        zplContent,
+      await this.firestoreService.saveConversionStatus(jobId, {
+        status: 'processing',
+        progress: 0,
+        userId,
         labelSize,
+        ...(options.labelDimensions && {
+          labelDimensions: options.labelDimensions,
+        }),
+        dpmm: options.dpmm ?? DEFAULT_PRINTER_DPMM,
+        outputFormat,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      });
+    } catch (firestoreError) {
+      this.logger.error(
+        `Error al guardar en Firestore: ${firestoreError.message}`,
+      );
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          // El render no se detiene solo al perder la carrera: se corta como
+          // una cancelación para no seguir encolando chunks en Labelary
+          this.abortConversion(jobId);
+          reject(
+            new HttpException(
+              {
+                error: ErrorCodes.PROCESSING_TIMEOUT,
+                message: `Conversion did not finish within ${SYNC_CONVERSION_LIMITS.timeoutMs / 1000}s. Use /zpl/convert instead`,
+                data: { timeoutMs: SYNC_CONVERSION_LIMITS.timeoutMs },
+              },
+              HttpStatus.GATEWAY_TIMEOUT,
+            ),
+          );
+        }, SYNC_CONVERSION_LIMITS.timeoutMs);
+      });
+      const render = this.renderSyncOutput(
+        zplContent,
+        size,
         jobId,
         outputFormat,
         userId,
+        userPlan as UserPlan,
+        labelCount,
+        options,
+      );
+      // La marca de cancelado se mantiene hasta que el render corta
+      render
+        .catch(() => undefined)
+        .finally(() => this.cancelledJobs.delete(jobId));
+      const { buffer, contentType, fileExtension } = await Promise.race([
+        render,
+        timeout,
+      ]);
+
+      const filenameSize = !job.detectedLabelSizes
+        ? labelSize
+        : job.detectedLabelSizes.length === 1
+          ? job.detectedLabelSizes[0]
+          : 'mixed';
+      const { downloadFilename } = this.generateFilenames(
+        jobId,
+        filenameSize,
+        outputFormat,
+        fileExtension,
+        originalFilename,
         userPlan,
+        options.labelDimensions,
       );
 
-      // Get the job to check if it completed successfully
-      const job = this.jobs.get(jobId);
-      if (job && job.status === 'completed') {
-        // Record successful conversion
-        await this.usersService.recordConversion(
-          userId,
-          jobId,
-          labelCount,
-          labelSize,
-          'completed',
-          outputFormat,
-          job.resultUrl,
-          periodInfo,
-          userPlan,
-        );
-        // Update ZPL debug result
-        this.firestoreService
-          .updateZplDebugResult(jobId, 'success')
-          .catch((err) =>
-            this.logger.warn(
-              `Failed to update ZPL debug result: ${err.message}`,
-            ),
-          );
-      } else if (job && job.status === 'failed') {
-        // Record failed conversion
-        await this.usersService.recordConversion(
-          userId,
-          jobId,
-          labelCount,
-          labelSize,
-          'failed',
-          outputFormat,
-          undefined,
-          periodInfo,
-          userPlan,
+      this.firestoreService
+        .updateConversionStatus(jobId, {
+          status: 'completed',
+          progress: 100,
+          filename: downloadFilename,
+        })
+        .catch((err) =>
+          this.logger.error(`Error actualizando Firestore: ${err.message}`),
         );
-        // Update ZPL debug result
-        this.firestoreService
-          .updateZplDebugResult(jobId, 'error', job?.error)
-          .catch((err) =>
-            this.logger.warn(
-              `Failed to update ZPL debug result: ${err.message}`,
-            ),
-          );
-      }
+
+      await this.usersService.recordConversion(
+        userId,
+        jobId,
+        labelCount,
+        labelSize,
+        'completed',
+        outputFormat,
+        undefined,
+        periodInfo,
+        userPlan,
+        options.labelDimensions,
+      );
+
+      this.logger.log(
+        `Conversión síncrona completada para trabajo ${jobId} (formato: ${outputFormat})`,
+      );
+
+      return {
+        jobId,
+        buffer,
+        contentType,
+        filename: downloadFilename,
+        labelCount,
+      };
     } catch (error) {
       this.logger.error(
-        `Error in processZplConversionWithUser: ${error.message}`,
+        `Error en conversión síncrona ${jobId}: ${error.message}`,
       );
-      // Record failed conversion
+
+      this.firestoreService
+        .updateConversionStatus(jobId, {
+          status: 'error',
+          errorMessage: error.message,
+        })
+        .catch((err) =>
+          this.logger.error(`Error actualizando Firestore: ${err.message}`),
+        );
+
       try {
         await this.usersService.recordConversion(
           userId,
@@ -522,45 +808,963 @@ export class ZplService {
           undefined,
           periodInfo,
           userPlan,
+          options.labelDimensions,
         );
-        // Update ZPL debug result
-        this.firestoreService
-          .updateZplDebugResult(jobId, 'error', error.message)
-          .catch((err) =>
-            this.logger.warn(
-              `Failed to update ZPL debug result: ${err.message}`,
-            ),
-          );
       } catch (recordError) {
         this.logger.error(
           `Error recording failed conversion: ${recordError.message}`,
         );
       }
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error en la conversion ZPL',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    } finally {
+      clearTimeout(timer);
+      this.jobs.delete(jobId);
     }
   }
 
   /**
-   * Procesa la conversión ZPL a PDF/PNG/JPEG (método que sería llamado por un worker)
-   * @param zplContent Contenido ZPL a convertir
-   * @param labelSize Tamaño de la etiqueta
-   * @param jobId ID del trabajo
-   * @param outputFormat Formato de salida
-   * @param userId ID del usuario (para sistema de colas)
-   * @param userPlan Plan del usuario (para prioridad en cola)
+   * Genera el archivo de una conversión síncrona. Igual que la cola salvo que
+   * una sola etiqueta en un formato de imagen se devuelve como imagen y no
+   * como ZIP (TIFF siempre es un archivo multipágina).
    */
-  async processZplConversion(
+  private async renderSyncOutput(
     zplContent: string,
     labelSize: string,
     jobId: string,
-    outputFormat: OutputFormat = OutputFormat.PDF,
-    userId?: string,
-    userPlan?: UserPlan,
-  ): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) {
-      this.logger.error(`Trabajo no encontrado: ${jobId}`);
-      return;
-    }
+    outputFormat: OutputFormat,
+    userId: string,
+    userPlan: UserPlan,
+    labelCount: number,
+    options: ConversionOptions,
+  ): Promise<{ buffer: Buffer; contentType: string; fileExtension: string }> {
+    if (outputFormat === OutputFormat.PDF) {
+      return {
+        buffer: await this.convertZplToPdf(
+          zplContent,
+          labelSize,
+          jobId,
+          userId,
+          userPlan,
+          options,
+        ),
+        contentType: 'application/pdf',
+        fileExtension: 'pdf',
+      };
+    }
+
+    const file = OUTPUT_FORMAT_FILES[outputFormat];
+    if (labelCount === 1 && !file.multiPage) {
+      const { images, sequence } = await this.renderLabelImages(
+        zplContent,
+        labelSize,
+        outputFormat,
+        jobId,
+        userId,
+        userPlan,
+        options,
+      );
+      return {
+        buffer: await this.encodeImage(
+          images[sequence[0]],
+          outputFormat,
+          options,
+        ),
+        contentType: file.contentType,
+        fileExtension: file.extension,
+      };
+    }
+
+    return {
+      buffer: await this.convertZplToImages(
+        zplContent,
+        labelSize,
+        outputFormat,
+        jobId,
+        userId,
+        userPlan,
+        options,
+      ),
+      ...this.conversionFile(outputFormat),
+    };
+  }
+
+  /**
+   * Archivo que produce una conversión: PDF y TIFF guardan todas las
+   * etiquetas en un solo archivo; el resto, una imagen por etiqueta en un ZIP
+   */
+  private conversionFile(outputFormat: OutputFormat): {
+    contentType: string;
+    fileExtension: string;
+  } {
+    const file = OUTPUT_FORMAT_FILES[outputFormat];
+    return file.multiPage
+      ? { contentType: file.contentType, fileExtension: file.extension }
+      : { contentType: 'application/zip', fileExtension: 'zip' };
+  }
+
+  /**
+   * Comprobaciones previas a cualquier conversión: cuenta las etiquetas,
+   * aplica los límites del plan y valida el formato de salida
+   * @returns Número de etiquetas, periodo de facturación y plan efectivo
+   */
+  private async authorizeConversion(
+    zplContent: string,
+    userId: string,
+    outputFormat: OutputFormat,
+  ): Promise<{
+    labelCount: number;
+    periodInfo?: PeriodInfo;
+    user: User | null;
+    userPlan: PlanType;
+  }> {
+    if (!zplContent) {
+      throw new HttpException(
+        'Debe proporcionar el contenido ZPL ya sea como texto o como archivo',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Count labels in ZPL content
+    const countResult = await this.countLabels(zplContent);
+    const labelCount = countResult.data.totalLabels;
+
+    // Check user limits before processing
+    const periodInfo = await this.checkConversionQuota(userId, labelCount);
+
+    // Obtener información del usuario y plan efectivo (considera simulación para admins)
+    const user = await this.usersService.getUserById(userId);
+    const userPlan = user ? this.usersService.getEffectivePlan(user) : 'free';
+
+    // Validate image formats by capability (canDownloadImages), NOT by plan literal.
+    // Free y Lite no descargan imágenes; Pro/Pro Max/Enterprise sí.
+    if (outputFormat !== OutputFormat.PDF) {
+      if (!user || !DEFAULT_PLAN_LIMITS[userPlan].canDownloadImages) {
+        throw new HttpException(
+          {
+            error: ErrorCodes.IMAGE_FORMAT_PRO_ONLY,
+            message:
+              'Image formats (PNG, JPEG, TIFF, BMP, SVG) are only available for Pro and Enterprise plans',
+          },
+          HttpStatus.FORBIDDEN,
+        );
+      }
+    }
+
+    return {
+      labelCount,
+      periodInfo,
+      user,
+      userPlan,
+    };
+  }
+
+  /**
+   * Gate de cuota del plan: rechaza (y registra el rechazo) si el usuario no
+   * puede convertir `labelCount` etiquetas más
+   * @returns Periodo de facturación en el que se contará la conversión
+   */
+  private async checkConversionQuota(
+    userId: string,
+    labelCount: number,
+  ): Promise<PeriodInfo | undefined> {
+    const canConvert = await this.usersService.checkCanConvert(
+      userId,
+      labelCount,
+    );
+    if (!canConvert.allowed) {
+      // Log conversion-gate rejection. El `type` se deriva del código real
+      // (no se hardcodea LIMIT_EXCEEDED) para que el dashboard distinga
+      // fricción de acceso (email sin verificar) de presión de cuota.
+      const errorCode =
+        canConvert.errorCode || ErrorCodes.MONTHLY_LIMIT_EXCEEDED;
+      await this.logError(
+        getErrorTypeFromCode(errorCode),
+        errorCode,
+        canConvert.error,
+        'warning',
+        { labelCount, ...canConvert.data },
+        userId,
+        // El email viene de checkCanConvert (que ya cargó el usuario). Sin él
+        // el dashboard no puede identificar quién agotó la cuota: /admin/users
+        // busca por email o displayName, nunca por uid.
+        canConvert.userEmail ?? undefined,
+      );
+      throw new HttpException(
+        {
+          error: canConvert.errorCode,
+          message: canConvert.error,
+          data: canConvert.data,
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return canConvert.periodInfo;
+  }
+
+  /**
+   * Avisa a los webhooks del usuario sin bloquear ni hacer fallar la
+   * conversión si el envío falla. `download` apunta al resultado en el
+   * bucket para que cada intento lleve su propia URL firmada.
+   */
+  private emitWebhookEvent(
+    userId: string | undefined,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+    download?: WebhookDownloadRef,
+  ): void {
+    if (!userId || !this.webhookDispatcher) {
+      return;
+    }
+    this.webhookDispatcher
+      .emit(userId, type, data, download)
+      .catch((err) =>
+        this.logger.warn(`Failed to emit webhook ${type}: ${err.message}`),
+      );
+  }
+
+  /**
+   * Guarda el ZPL de un job asíncrono hasta que termine.
+   * @returns Ruta en Storage, o `undefined` si no se pudo guardar (el job se
+   *   procesa igual, pero no podrá reanudarse en otra instancia)
+   */
+  private async persistConversionInput(
+    jobId: string,
+    zplContent: string,
+  ): Promise<string | undefined> {
+    const inputPath = `${CONVERSION_JOB_QUEUE.inputPrefix}/${jobId}.zpl`;
+    try {
+      await this.storage
+        .bucket(this.bucket)
+        .file(inputPath)
+        .save(zplContent, { contentType: 'text/plain' });
+      return inputPath;
+    } catch (error) {
+      this.logger.error(
+        `Error al guardar la entrada del job ${jobId}: ${error.message}`,
+      );
+      return undefined;
+    }
+  }
+
+  private deleteConversionInput(jobId: string): void {
+    this.storage
+      .bucket(this.bucket)
+      .file(`${CONVERSION_JOB_QUEUE.inputPrefix}/${jobId}.zpl`)
+      .delete({ ignoreNotFound: true })
+      .catch((err) =>
+        this.logger.warn(
+          `Failed to delete input of job ${jobId}: ${err.message}`,
+        ),
+      );
+  }
+
+  /**
+   * Procesa en esta instancia un job que no se pudo encolar. Lo reclama si
+   * puede; si Firestore no responde o el documento no llegó a guardarse, se
+   * procesa igual sin lease con el caché local. Si otra instancia ya lo
+   * tiene, no se hace nada.
+   */
+  private async runConversionJob(
+    jobId: string,
+    run: ConversionJobRun,
+  ): Promise<void> {
+    let leased = false;
+    try {
+      const claim = await this.firestoreService.claimConversionJob(
+        jobId,
+        this.instanceId,
+        CONVERSION_JOB_QUEUE.leaseMs,
+        CONVERSION_JOB_QUEUE.maxAttempts,
+      );
+      if (claim.outcome === 'granted') {
+        leased = true;
+      } else if (claim.reason !== 'missing') {
+        this.logger.warn(`Job ${jobId} no reclamado: ${claim.reason}`);
+        this.cancelledJobs.delete(jobId);
+        return;
+      }
+    } catch (error) {
+      this.logger.error(`Error al reclamar job ${jobId}: ${error.message}`);
+    }
+
+    await this.processLeasedConversionJob(jobId, run, leased);
+  }
+
+  /**
+   * Procesa un job ya reclamado renovando su lease hasta que termina. Al
+   * terminar (con éxito o con error) la entrada persistida ya no hace falta.
+   */
+  private async processLeasedConversionJob(
+    jobId: string,
+    run: ConversionJobRun,
+    leased: boolean,
+  ): Promise<void> {
+    if (leased) {
+      this.leasedJobs.add(jobId);
+      this.startJobHeartbeat(jobId);
+    }
+    try {
+      await this.processZplConversionWithUser(
+        run.zplContent,
+        run.labelSize,
+        jobId,
+        run.userId,
+        run.labelCount,
+        run.outputFormat,
+        run.periodInfo,
+        run.userPlan,
+      );
+    } finally {
+      this.stopJobHeartbeat(jobId);
+      this.leasedJobs.delete(jobId);
+      this.deleteConversionInput(jobId);
+      this.cancelledJobs.delete(jobId);
+    }
+  }
+
+  private startJobHeartbeat(jobId: string): void {
+    const timer = setInterval(() => {
+      this.firestoreService
+        .renewConversionJobLease(
+          jobId,
+          this.instanceId,
+          CONVERSION_JOB_QUEUE.leaseMs,
+        )
+        .then((renewed) => {
+          if (!renewed) {
+            // Otra instancia lo reclamó (p. ej. tras una pausa larga de esta)
+            // o el usuario lo canceló desde otra instancia: se corta aquí para
+            // no subir ni cobrar un resultado que ya no es de esta ejecución
+            this.logger.warn(`Lease perdido para job ${jobId}`);
+            this.stopJobHeartbeat(jobId);
+            this.abortConversion(jobId);
+          }
+        })
+        .catch((err) =>
+          this.logger.warn(
+            `Failed to renew lease of job ${jobId}: ${err.message}`,
+          ),
+        );
+    }, CONVERSION_JOB_QUEUE.heartbeatMs);
+    timer.unref();
+    this.jobHeartbeats.set(jobId, timer);
+  }
+
+  private stopJobHeartbeat(jobId: string): void {
+    const timer = this.jobHeartbeats.get(jobId);
+    if (timer) {
+      clearInterval(timer);
+      this.jobHeartbeats.delete(jobId);
+    }
+  }
+
+  /**
+   * Cancela una conversión asíncrona que aún no termina. Lo que espera en la
+   * cola de Labelary se descarta y los chunks restantes ya no se renderizan.
+   * El uso solo se cobra al completarse, así que una conversión cancelada no
+   * consume cuota.
+   * @param jobId ID del trabajo
+   * @param userId ID del usuario autenticado (dueño del job)
+   */
+  async cancelConversion(
+    jobId: string,
+    userId: string,
+  ): Promise<{ jobId: string; status: 'cancelled' }> {
+    const result = await this.firestoreService.cancelConversionJob(
+      jobId,
+      userId,
+    );
+
+    if (result.outcome === 'blocked') {
+      switch (result.reason) {
+        case 'forbidden':
+          throw new HttpException(
+            {
+              error: ErrorCodes.ACCESS_DENIED,
+              message: 'No tienes acceso a este recurso',
+            },
+            HttpStatus.FORBIDDEN,
+          );
+        case 'finished':
+          throw new HttpException(
+            {
+              error: ErrorCodes.JOB_ALREADY_FINISHED,
+              message: ErrorMessagesEs[ErrorCodes.JOB_ALREADY_FINISHED],
+              data: {
+                jobId,
+                currentStatus:
+                  result.status === 'error' ? 'failed' : result.status,
+              },
+            },
+            HttpStatus.CONFLICT,
+          );
+        default:
+          throw new HttpException(
+            {
+              error: ErrorCodes.JOB_NOT_FOUND,
+              message: 'Trabajo no encontrado',
+              data: { jobId },
+            },
+            HttpStatus.NOT_FOUND,
+          );
+      }
+    }
+
+    // Si lo procesa esta instancia se corta ya; otra instancia lo nota al no
+    // poder renovar el lease, y un job aún sin reclamar ya no se reclamará
+    if (this.jobs.has(jobId)) {
+      this.abortConversion(jobId);
+    }
+    this.deleteConversionInput(jobId);
+
+    const { job } = result;
+    this.logger.log(`Conversión ${jobId} cancelada (estaba en ${job.status})`);
+    this.emitWebhookEvent(userId, 'conversion.cancelled', {
+      jobId,
+      status: 'cancelled',
+      labelCount: job.labelCount,
+      labelSize: job.labelSize,
+      outputFormat: job.outputFormat,
+    });
+
+    return { jobId, status: 'cancelled' };
+  }
+
+  /**
+   * Corta en esta instancia un job cancelado: sus solicitudes en cola se
+   * rechazan y no se envían más chunks
+   */
+  private abortConversion(jobId: string): void {
+    this.cancelledJobs.add(jobId);
+    this.labelaryQueueService.cancelJob(
+      jobId,
+      this.conversionCancelledException(jobId),
+    );
+
+    const job = this.jobs.get(jobId);
+    if (job && (job.status === 'pending' || job.status === 'processing')) {
+      job.status = 'cancelled';
+    }
+  }
+
+  /**
+   * Indica si un job que procesa esta instancia fue cancelado, aquí o desde
+   * otra instancia (en ese caso lo corta también aquí)
+   */
+  private async isConversionCancelled(jobId: string): Promise<boolean> {
+    if (this.cancelledJobs.has(jobId)) {
+      return true;
+    }
+    try {
+      const status = await this.firestoreService.getConversionStatus(jobId);
+      if (status?.status === 'cancelled') {
+        this.abortConversion(jobId);
+        return true;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo consultar si el job ${jobId} fue cancelado: ${error.message}`,
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Guarda el resultado del job solo si no se canceló mientras tanto ni perdió
+   * el lease. Si Firestore no responde se da por completado, como el resto
+   * del progreso del job, salvo que esta instancia ya lo haya cancelado.
+   */
+  private async completeConversionJob(
+    jobId: string,
+    result: Pick<ConversionStatus, 'resultUrl' | 'filename'>,
+  ): Promise<ConversionJobCompletion> {
+    if (this.cancelledJobs.has(jobId)) {
+      return { outcome: 'blocked', reason: 'finished', status: 'cancelled' };
+    }
+    try {
+      return await this.firestoreService.completeConversionJob(
+        jobId,
+        result,
+        this.leasedJobs.has(jobId) ? this.instanceId : undefined,
+      );
+    } catch (error) {
+      this.logger.error(`Error actualizando Firestore: ${error.message}`);
+      return { outcome: 'completed' };
+    }
+  }
+
+  private conversionCancelledException(jobId: string): HttpException {
+    return new HttpException(
+      {
+        error: ErrorCodes.JOB_CANCELLED,
+        message: ErrorMessagesEs[ErrorCodes.JOB_CANCELLED],
+        data: { jobId },
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  /**
+   * Busca jobs asíncronos cuya instancia dejó de renovar el lease (o que
+   * ningún worker reclamó) y los vuelve a encolar. Los que agotaron sus
+   * intentos, o que no guardaron su entrada, se marcan como fallidos con
+   * JOB_ORPHANED.
+   */
+  async recoverConversionJobs(): Promise<RecoverConversionJobsResult> {
+    const now = Date.now();
+
+    // Se recorren todas las páginas: con muchos jobs sanos en curso los
+    // huérfanos pueden quedar más allá de la primera
+    const unfinished: Array<ConversionStatus & { jobId: string }> = [];
+    for (let page = 0; page < CONVERSION_JOB_QUEUE.recoveryMaxPages; page++) {
+      const jobs = await this.firestoreService.getUnfinishedConversionJobs(
+        CONVERSION_JOB_QUEUE.recoveryBatchSize,
+        unfinished[unfinished.length - 1]?.jobId,
+      );
+      unfinished.push(...jobs);
+      if (jobs.length < CONVERSION_JOB_QUEUE.recoveryBatchSize) {
+        break;
+      }
+    }
+
+    const result: RecoverConversionJobsResult = {
+      scanned: unfinished.length,
+      redriven: 0,
+      failed: 0,
+      executedAt: new Date(now),
+    };
+
+    for (const job of unfinished) {
+      if (
+        this.jobHeartbeats.has(job.jobId) ||
+        !this.isOrphanedConversionJob(job, now)
+      ) {
+        continue;
+      }
+      try {
+        const outcome = await this.redriveConversionJob(job);
+        if (outcome !== 'skipped') {
+          result[outcome]++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error al recuperar job ${job.jobId}: ${error.message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Un job está huérfano cuando su lease venció. Los que nunca se reclamaron
+   * solo tienen la fecha de su última actualización.
+   */
+  private isOrphanedConversionJob(job: ConversionStatus, now: number): boolean {
+    if (job.leaseExpiresAt) {
+      return new Date(job.leaseExpiresAt).getTime() <= now;
+    }
+    return (
+      now - new Date(job.updatedAt).getTime() >
+      CONVERSION_JOB_QUEUE.unclaimedStaleMs
+    );
+  }
+
+  /**
+   * Vuelve a encolar un job huérfano. El id de la tarea lleva el número de
+   * intentos, así que dos pasadas de recuperación sobre el mismo job antes de
+   * que un worker lo reclame generan una sola tarea.
+   */
+  private async redriveConversionJob(
+    job: ConversionStatus & { jobId: string },
+  ): Promise<'redriven' | 'failed' | 'skipped'> {
+    const attempts = job.attempts ?? 0;
+    if (
+      !job.inputPath ||
+      !job.userId ||
+      attempts >= CONVERSION_JOB_QUEUE.maxAttempts
+    ) {
+      return (await this.failOrphanedConversionJob(job)) ? 'failed' : 'skipped';
+    }
+
+    this.logger.warn(
+      `Reencolando job huérfano ${job.jobId} (intentos: ${attempts}/${CONVERSION_JOB_QUEUE.maxAttempts})`,
+    );
+    const enqueued = await this.enqueueConversionTask(
+      {
+        jobId: job.jobId,
+        userId: job.userId,
+        userPlan: (job.userPlan as PlanType) || 'free',
+        outputFormat: job.outputFormat || OutputFormat.PDF,
+      },
+      attempts,
+    );
+    return enqueued ? 'redriven' : 'skipped';
+  }
+
+  /**
+   * @returns `false` si no hay cola o no se pudo encolar; quien llama decide
+   *   si procesa el job en proceso o lo deja para la siguiente recuperación
+   */
+  private async enqueueConversionTask(
+    task: ConversionTask,
+    attempts: number,
+  ): Promise<boolean> {
+    if (!this.taskQueue) {
+      return false;
+    }
+    try {
+      await this.taskQueue.enqueue(task, `${task.jobId}-${attempts}`);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Error al encolar la tarea del job ${task.jobId}: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Worker de la cola de conversiones. Es idempotente por jobId: el lease de
+   * Firestore decide quién procesa, así que una tarea repetida (reintento de
+   * Cloud Tasks, recuperación) sobre un job terminado no hace nada.
+   */
+  async processConversionTask(
+    task: ConversionTask,
+  ): Promise<ConversionTaskOutcome> {
+    const claim = await this.firestoreService.claimConversionJob(
+      task.jobId,
+      this.instanceId,
+      CONVERSION_JOB_QUEUE.leaseMs,
+      CONVERSION_JOB_QUEUE.maxAttempts,
+    );
+
+    if (claim.outcome === 'blocked') {
+      switch (claim.reason) {
+        case 'leased':
+          // Responder con error hace que la cola reintente más tarde; si la
+          // instancia que lo tiene muere, esa entrega lo encontrará libre
+          throw new HttpException(
+            {
+              error: ErrorCodes.JOB_IN_PROGRESS,
+              message: 'El trabajo se está procesando en otra instancia',
+              data: { jobId: task.jobId },
+            },
+            HttpStatus.CONFLICT,
+          );
+        case 'exhausted': {
+          const job = await this.firestoreService.getConversionStatus(
+            task.jobId,
+          );
+          const failed =
+            job &&
+            (await this.failOrphanedConversionJob({
+              ...job,
+              jobId: task.jobId,
+            }));
+          return failed ? 'failed' : 'duplicate';
+        }
+        case 'finished':
+          return 'duplicate';
+        default:
+          this.logger.warn(`Tarea de un job inexistente: ${task.jobId}`);
+          return 'skipped';
+      }
+    }
+
+    const job = { ...claim.job, jobId: task.jobId };
+    let zplContent: string;
+    try {
+      const [contents] = await this.storage
+        .bucket(this.bucket)
+        .file(job.inputPath)
+        .download();
+      zplContent = contents.toString('utf8');
+    } catch (error) {
+      this.logger.error(
+        `No se pudo leer la entrada del job ${job.jobId}: ${error.message}`,
+      );
+      return (await this.failOrphanedConversionJob(job)) ? 'failed' : 'skipped';
+    }
+
+    const outputFormat = task.outputFormat as OutputFormat;
+    const userPlan = task.userPlan as UserPlan;
+    this.jobs.set(job.jobId, {
+      id: job.jobId,
+      zplContent,
+      labelSize: this.getLabelSize(job.labelSize),
+      outputFormat,
+      status: 'pending',
+      progress: 0,
+      userId: task.userId,
+      createdAt: new Date(job.createdAt),
+      originalFilename: job.originalFilename,
+      userPlan,
+      options: job.options ?? {},
+    });
+
+    await this.processLeasedConversionJob(
+      job.jobId,
+      {
+        zplContent,
+        labelSize: job.labelSize,
+        userId: task.userId,
+        labelCount: job.labelCount ?? 0,
+        outputFormat,
+        periodInfo: job.periodInfo && {
+          periodStart: new Date(job.periodInfo.periodStart),
+          periodEnd: new Date(job.periodInfo.periodEnd),
+          periodId: job.periodInfo.periodId,
+        },
+        userPlan,
+      },
+      true,
+    );
+    return 'processed';
+  }
+
+  /**
+   * Da por perdido un job huérfano y lo registra como cualquier conversión
+   * fallida (historial, webhooks, dashboard de errores).
+   * @returns `false` si otra instancia lo terminó o lo retomó antes
+   */
+  private async failOrphanedConversionJob(
+    job: ConversionStatus & { jobId: string },
+  ): Promise<boolean> {
+    const message = ErrorMessagesEs[ErrorCodes.JOB_ORPHANED];
+    const marked = await this.firestoreService.markConversionJobOrphaned(
+      job.jobId,
+      this.instanceId,
+      ErrorCodes.JOB_ORPHANED,
+      message,
+    );
+    if (!marked) {
+      return false;
+    }
+
+    this.logger.warn(`Job huérfano marcado como fallido: ${job.jobId}`);
+    await this.logError(
+      'SERVER_ERROR',
+      ErrorCodes.JOB_ORPHANED,
+      message,
+      'error',
+      { attempts: job.attempts ?? 0, labelSize: job.labelSize },
+      job.userId,
+      undefined,
+      job.jobId,
+    );
+    this.deleteConversionInput(job.jobId);
+
+    // Sin userId ni conteo (jobs anteriores a la cola) no hay qué registrar
+    if (job.userId && job.labelCount) {
+      const outputFormat =
+        (job.outputFormat as OutputFormat) || OutputFormat.PDF;
+      await this.usersService
+        .recordConversion(
+          job.userId,
+          job.jobId,
+          job.labelCount,
+          job.labelSize,
+          'failed',
+          outputFormat,
+          undefined,
+          job.periodInfo && {
+            periodStart: new Date(job.periodInfo.periodStart),
+            periodEnd: new Date(job.periodInfo.periodEnd),
+            periodId: job.periodInfo.periodId,
+          },
+          job.userPlan as UserPlan | undefined,
+          job.labelDimensions,
+        )
+        .catch((err) =>
+          this.logger.error(
+            `Error recording failed conversion: ${err.message}`,
+          ),
+        );
+      this.emitWebhookEvent(job.userId, 'conversion.failed', {
+        jobId: job.jobId,
+        status: 'failed',
+        labelCount: job.labelCount,
+        labelSize: job.labelSize,
+        outputFormat,
+        error: message,
+        errorCode: ErrorCodes.JOB_ORPHANED,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Procesa la conversion ZPL con tracking de usuario
+   */
+  private async processZplConversionWithUser(
+    zplContent: string,
+    labelSize: string,
+    jobId: string,
+    userId: string,
+    labelCount: number,
+    outputFormat: OutputFormat = OutputFormat.PDF,
+    periodInfo?: PeriodInfo,
+    userPlan?: UserPlan,
+  ): Promise<void> {
+    const labelDimensions = this.jobs.get(jobId)?.options.labelDimensions;
+
+    try {
+      await this.processZplConversion(
+        zplContent,
+        labelSize,
+        jobId,
+        outputFormat,
+        userId,
+        userPlan,
+      );
+
+      // Get the job to check if it completed successfully. Una cancelada no
+      // entra en ninguna rama: no se cobra ni cuenta como fallo, y su webhook
+      // ya se emitió al cancelarla
+      const job = this.jobs.get(jobId);
+      if (job && job.status === 'completed') {
+        // Record successful conversion
+        await this.usersService.recordConversion(
+          userId,
+          jobId,
+          labelCount,
+          labelSize,
+          'completed',
+          outputFormat,
+          job.resultUrl,
+          periodInfo,
+          userPlan,
+          labelDimensions,
+        );
+        this.emitWebhookEvent(
+          userId,
+          'conversion.completed',
+          {
+            jobId,
+            status: 'completed',
+            labelCount,
+            labelSize,
+            outputFormat,
+            filename: job.filename,
+            // Respaldo si la URL firmada del envío ya caducó
+            downloadPath: `/api/zpl/download/${jobId}`,
+          },
+          job.storagePath
+            ? { path: job.storagePath, filename: job.filename }
+            : undefined,
+        );
+        // Update ZPL debug result
+        this.firestoreService
+          .updateZplDebugResult(jobId, 'success')
+          .catch((err) =>
+            this.logger.warn(
+              `Failed to update ZPL debug result: ${err.message}`,
+            ),
+          );
+      } else if (job && job.status === 'failed') {
+        // Record failed conversion
+        await this.usersService.recordConversion(
+          userId,
+          jobId,
+          labelCount,
+          labelSize,
+          'failed',
+          outputFormat,
+          undefined,
+          periodInfo,
+          userPlan,
+          labelDimensions,
+        );
+        this.emitWebhookEvent(userId, 'conversion.failed', {
+          jobId,
+          status: 'failed',
+          labelCount,
+          labelSize,
+          outputFormat,
+          error: job.error,
+        });
+        // Update ZPL debug result
+        this.firestoreService
+          .updateZplDebugResult(jobId, 'error', job?.error)
+          .catch((err) =>
+            this.logger.warn(
+              `Failed to update ZPL debug result: ${err.message}`,
+            ),
+          );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error in processZplConversionWithUser: ${error.message}`,
+      );
+      this.emitWebhookEvent(userId, 'conversion.failed', {
+        jobId,
+        status: 'failed',
+        labelCount,
+        labelSize,
+        outputFormat,
+        error: error.message,
+      });
+      // Record failed conversion
+      try {
+        await this.usersService.recordConversion(
+          userId,
+          jobId,
+          labelCount,
+          labelSize,
+          'failed',
+          outputFormat,
+          undefined,
+          periodInfo,
+          userPlan,
+          labelDimensions,
+        );
+        // Update ZPL debug result
+        this.firestoreService
+          .updateZplDebugResult(jobId, 'error', error.message)
+          .catch((err) =>
+            this.logger.warn(
+              `Failed to update ZPL debug result: ${err.message}`,
+            ),
+          );
+      } catch (recordError) {
+        this.logger.error(
+          `Error recording failed conversion: ${recordError.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Procesa la conversión ZPL a PDF/PNG/JPEG (método que sería llamado por un worker)
+   * @param zplContent Contenido ZPL a convertir
+   * @param labelSize Tamaño de la etiqueta
+   * @param jobId ID del trabajo
+   * @param outputFormat Formato de salida
+   * @param userId ID del usuario (para sistema de colas)
+   * @param userPlan Plan del usuario (para prioridad en cola)
+   */
+  async processZplConversion(
+    zplContent: string,
+    labelSize: string,
+    jobId: string,
+    outputFormat: OutputFormat = OutputFormat.PDF,
+    userId?: string,
+    userPlan?: UserPlan,
+  ): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      this.logger.error(`Trabajo no encontrado: ${jobId}`);
+      return;
+    }
 
     try {
       // Actualizar estado a procesando (el progreso se actualiza en los métodos de conversión)
@@ -593,11 +1797,12 @@ export class ZplService {
           jobId,
           effectiveUserId,
           effectiveUserPlan,
+          job.options,
         );
         contentType = 'application/pdf';
         fileExtension = 'pdf';
       } else {
-        // PNG o JPEG - crear archivo ZIP con las imágenes
+        // Imágenes: un ZIP con una por etiqueta, o un TIFF multipágina
         resultBuffer = await this.convertZplToImages(
           zplContent,
           size,
@@ -605,25 +1810,38 @@ export class ZplService {
           jobId,
           effectiveUserId,
           effectiveUserPlan,
+          job.options,
         );
-        contentType = 'application/zip';
-        fileExtension = 'zip';
+        ({ contentType, fileExtension } = this.conversionFile(outputFormat));
       }
 
       // Generar nombres de archivo
       this.logger.log(
         `Generando nombre: originalFilename=${job.originalFilename}, userPlan=${job.userPlan}`,
       );
+      // Con tamaños por etiqueta, el nombre refleja el único tamaño usado o
+      // indica que el documento los mezcla
+      const filenameSize = !job.detectedLabelSizes
+        ? labelSize
+        : job.detectedLabelSizes.length === 1
+          ? job.detectedLabelSizes[0]
+          : 'mixed';
       const { storageFilename, downloadFilename } = this.generateFilenames(
         jobId,
-        labelSize,
+        filenameSize,
         outputFormat,
         fileExtension,
         job.originalFilename,
         job.userPlan,
+        job.options.labelDimensions,
       );
       this.logger.log(`Nombre generado: ${downloadFilename}`);
 
+      // Cancelado durante el último chunk: no se sube ni se cobra
+      if (await this.isConversionCancelled(jobId)) {
+        throw this.conversionCancelledException(jobId);
+      }
+
       // Fase 4: Subiendo archivo (90%)
       this.updateProgress(jobId, 90, 'uploading');
 
@@ -641,29 +1859,57 @@ export class ZplService {
         downloadFilename,
       );
 
+      // La cancelación pudo llegar durante la subida o la firma: solo se
+      // completa (y después se cobra) si el job sigue vivo en Firestore
+      const completion = await this.completeConversionJob(jobId, {
+        resultUrl: signedUrl,
+        filename: downloadFilename,
+      });
+      if (completion.outcome === 'blocked') {
+        this.logger.warn(
+          completion.reason === 'lost'
+            ? `Resultado del job ${jobId} descartado: lease perdido`
+            : `Resultado del job ${jobId} descartado: ya estaba en ${completion.status}`,
+        );
+        // Si lo completó (o lo procesa) otra ejecución, el archivo de esa
+        // ruta es el suyo
+        if (
+          completion.reason === 'finished' &&
+          completion.status !== 'completed'
+        ) {
+          this.storage
+            .bucket(this.bucket)
+            .file(storageFilename)
+            .delete({ ignoreNotFound: true })
+            .catch((err) =>
+              this.logger.warn(
+                `Failed to delete result of job ${jobId}: ${err.message}`,
+              ),
+            );
+        }
+        this.cancelledJobs.add(jobId);
+        throw this.conversionCancelledException(jobId);
+      }
+
       // Actualizar estado a completado
       job.status = 'completed';
       job.progress = 100;
       job.resultUrl = signedUrl;
       job.filename = downloadFilename;
+      job.storagePath = storageFilename;
       this.jobs.set(jobId, job);
 
-      // Actualizar Firestore con resultado
-      this.firestoreService
-        .updateConversionStatus(jobId, {
-          status: 'completed',
-          progress: 100,
-          resultUrl: signedUrl,
-          filename: downloadFilename,
-        })
-        .catch((err) =>
-          this.logger.error(`Error actualizando Firestore: ${err.message}`),
-        );
-
       this.logger.log(
         `Conversión completada para trabajo ${jobId} (formato: ${outputFormat})`,
       );
     } catch (error) {
+      if (this.cancelledJobs.has(jobId)) {
+        // Firestore ya quedó en 'cancelled' al cancelarlo
+        job.status = 'cancelled';
+        this.logger.log(`Conversión cancelada para trabajo ${jobId}`);
+        return;
+      }
+
       this.logger.error(`Error al procesar conversión ZPL: ${error.message}`);
 
       // Log error for admin dashboard. Si el error ya fue registrado en una
@@ -727,6 +1973,12 @@ export class ZplService {
             status: mappedStatus,
             progress: firestoreStatus.progress || 0,
             message: this.getStatusMessageFromFirestore(firestoreStatus),
+            ...(firestoreStatus.detectedLabelSizes && {
+              detectedLabelSizes: firestoreStatus.detectedLabelSizes,
+            }),
+            ...(firestoreStatus.errorCode && {
+              errorCode: firestoreStatus.errorCode,
+            }),
           };
         }
       } catch (firestoreError) {
@@ -748,6 +2000,9 @@ export class ZplService {
       status: job.status,
       progress: job.progress,
       message: this.getStatusMessage(job),
+      ...(job.detectedLabelSizes && {
+        detectedLabelSizes: job.detectedLabelSizes,
+      }),
     };
   }
 
@@ -767,6 +2022,8 @@ export class ZplService {
         );
       case 'completed':
         return 'Conversión completada';
+      case 'cancelled':
+        return 'Conversión cancelada';
       case 'error':
         return `Error: ${status.errorMessage || 'Desconocido'}`;
       default:
@@ -790,14 +2047,189 @@ export class ZplService {
         if (chunksCompleted && chunksTotal) {
           return `Procesando etiquetas (${chunksCompleted}/${chunksTotal})...`;
         }
-        return 'Procesando etiquetas...';
-      case 'merging':
-        return 'Generando archivo...';
-      case 'uploading':
-        return 'Subiendo archivo...';
-      default:
-        return `Procesando (${progress || 0}%)`;
-    }
+        return 'Procesando etiquetas...';
+      case 'merging':
+        return 'Generando archivo...';
+      case 'uploading':
+        return 'Subiendo archivo...';
+      default:
+        return `Procesando (${progress || 0}%)`;
+    }
+  }
+
+  /**
+   * Stream SSE del progreso de una conversión del usuario: fase, chunks,
+   * posición en cola y, al terminar, la URL de descarga. Si el job se procesa
+   * en otra instancia el progreso se lee de Firestore (sin posición en cola).
+   * @param jobId ID del trabajo
+   * @param userId ID del usuario autenticado (dueño del job)
+   */
+  async streamConversionProgress(
+    jobId: string,
+    userId: string,
+  ): Promise<Observable<MessageEvent>> {
+    const local = this.jobs.get(jobId);
+    const persisted = local
+      ? null
+      : await this.firestoreService.getConversionStatus(jobId);
+
+    if (!local && !persisted) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.JOB_NOT_FOUND,
+          message: 'Trabajo no encontrado',
+          data: { jobId },
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    const owner = local ? local.userId : persisted!.userId;
+    if (owner && owner !== userId) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.ACCESS_DENIED,
+          message: 'No tienes acceso a este recurso',
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return this.progressStream(
+      () => this.conversionProgressSnapshot(jobId),
+      (snapshot) =>
+        snapshot.status !== 'pending' && snapshot.status !== 'processing',
+    );
+  }
+
+  /**
+   * Estado de un job para el stream: de la memoria si esta instancia lo
+   * procesa, si no de Firestore
+   */
+  private async conversionProgressSnapshot(
+    jobId: string,
+  ): Promise<ProgressSnapshot<ConversionProgressSnapshot> | null> {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      return {
+        local: true,
+        value: {
+          jobId,
+          status: job.status,
+          progress: job.progress,
+          phase: job.phase,
+          chunksCompleted: job.chunksCompleted,
+          chunksTotal: job.chunksTotal,
+          message: this.getStatusMessage(job),
+          queue:
+            job.status === 'processing'
+              ? this.progressQueueInfo(jobId)
+              : undefined,
+          downloadUrl: job.resultUrl,
+          filename: job.filename,
+          error: job.error,
+        },
+      };
+    }
+
+    const status = await this.firestoreService.getConversionStatus(jobId);
+    if (!status) {
+      return null;
+    }
+    return {
+      local: false,
+      value: {
+        jobId,
+        status: status.status === 'error' ? 'failed' : status.status,
+        progress: status.progress || 0,
+        phase: status.phase,
+        chunksCompleted: status.chunksCompleted,
+        chunksTotal: status.chunksTotal,
+        message: this.getStatusMessageFromFirestore(status),
+        downloadUrl: status.resultUrl,
+        filename: status.filename,
+        error: status.errorMessage,
+      },
+    };
+  }
+
+  /**
+   * Posición en la cola de esta instancia, o undefined si el job no tiene
+   * nada en cola ni en vuelo
+   */
+  private progressQueueInfo(jobId: string): ProgressQueueInfo | undefined {
+    const { status, position, estimatedWaitSeconds } =
+      this.getQueuePosition(jobId);
+    return status === 'not_found'
+      ? undefined
+      : { status, position, estimatedWaitSeconds };
+  }
+
+  /**
+   * Convierte fotos periódicas del estado en eventos SSE. Solo se envía una
+   * foto cuando cambia; la que cumple `isFinal` sale con el nombre de su
+   * estado (`completed`, `failed`...) y cierra el stream. Pasado
+   * PROGRESS_STREAM.maxDurationMs se envía `timeout` para que el cliente
+   * reconecte.
+   */
+  private progressStream<T extends { status: string }>(
+    snapshot: () => Promise<ProgressSnapshot<T> | null>,
+    isFinal: (value: T) => boolean,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      const deadline = Date.now() + PROGRESS_STREAM.maxDurationMs;
+      let timer: NodeJS.Timeout | undefined;
+      let closed = false;
+      let last: string | undefined;
+
+      const tick = async () => {
+        const current = await snapshot().catch((err) => {
+          // Un fallo puntual de Firestore no corta el stream
+          this.logger.warn(`Error leyendo progreso: ${err.message}`);
+          return undefined;
+        });
+        if (closed) {
+          return;
+        }
+        if (current === null) {
+          subscriber.complete();
+          return;
+        }
+
+        if (current) {
+          const serialized = JSON.stringify(current.value);
+          if (serialized !== last) {
+            last = serialized;
+            const final = isFinal(current.value);
+            subscriber.next({
+              type: final ? current.value.status : 'progress',
+              data: current.value,
+            });
+            if (final) {
+              subscriber.complete();
+              return;
+            }
+          }
+        }
+
+        if (Date.now() >= deadline) {
+          subscriber.next({ type: 'timeout', data: { reconnect: true } });
+          subscriber.complete();
+          return;
+        }
+        timer = setTimeout(
+          () => void tick(),
+          current?.local
+            ? PROGRESS_STREAM.localIntervalMs
+            : PROGRESS_STREAM.remoteIntervalMs,
+        );
+      };
+
+      void tick();
+      return () => {
+        closed = true;
+        clearTimeout(timer);
+      };
+    });
   }
 
   /**
@@ -896,6 +2328,8 @@ export class ZplService {
         return `Procesando (${job.progress}%)`;
       case 'completed':
         return 'Conversión completada';
+      case 'cancelled':
+        return 'Conversión cancelada';
       case 'failed':
         return `Error: ${job.error || 'Desconocido'}`;
       default:
@@ -909,13 +2343,23 @@ export class ZplService {
   private updateProgress(
     jobId: string,
     progress: number,
-    phase: 'validating' | 'processing' | 'merging' | 'uploading',
+    phase: ConversionPhase,
     chunksCompleted?: number,
     chunksTotal?: number,
   ): void {
+    // Un job cortado puede terminar su chunk en curso: no reabrir su progreso
+    if (this.cancelledJobs.has(jobId)) {
+      return;
+    }
+
     const job = this.jobs.get(jobId);
     if (job) {
       job.progress = progress;
+      job.phase = phase;
+      if (chunksTotal !== undefined) {
+        job.chunksCompleted = chunksCompleted;
+        job.chunksTotal = chunksTotal;
+      }
       this.jobs.set(jobId, job);
     }
 
@@ -935,9 +2379,16 @@ export class ZplService {
    * Prepara los bloques ZPL para conversión (validación, deduplicación, chunking)
    * @param zplRaw Contenido ZPL crudo
    * @param jobId ID del trabajo para actualizar progreso
+   * @param labelSize Tamaño de etiqueta; con "auto" se detecta por bloque
+   * @param options Opciones de la conversión (resolución, mapa de tamaños)
    * @returns Bloques únicos, secuencia original y rangos de chunks
    */
-  private prepareZplBlocks(zplRaw: string, jobId: string): PreparedZplBlocks {
+  private prepareZplBlocks(
+    zplRaw: string,
+    jobId: string,
+    labelSize?: string,
+    options: ConversionOptions = {},
+  ): PreparedZplBlocks {
     if (!zplRaw) {
       throw new HttpException(
         'ZPL content is required',
@@ -957,21 +2408,98 @@ export class ZplService {
       );
     }
 
-    // 2. Identificar bloques únicos y su secuencia original
-    const { uniqueBlocks, originalSequence } =
-      this.identifyUniqueBlocks(parsedBlocks);
+    // Con "auto" o un mapa de tamaños cada etiqueta lleva su propio tamaño,
+    // compartido por todas sus variantes serializadas
+    const labelCount = parsedBlocks[parsedBlocks.length - 1].originalIndex + 1;
+    const sizes = this.resolveBlockLabelSizes(
+      zplRaw,
+      labelCount,
+      labelSize,
+      options,
+    );
+    if (sizes) {
+      for (const block of parsedBlocks) {
+        block.labelSize = sizes[block.originalIndex];
+      }
+    }
+
+    // 2. Identificar bloques únicos y su secuencia original. Los tamaños
+    // distintos se agrupan para que cada chunk se renderice con uno solo.
+    const unique = this.identifyUniqueBlocks(parsedBlocks);
+    const { uniqueBlocks, originalSequence } = sizes
+      ? this.groupBlocksBySize(unique)
+      : unique;
 
     // 3. Dividir bloques únicos en chunks de 50 (límite de Labelary)
-    const chunkRanges = this.calculateChunkRanges(uniqueBlocks.length);
+    const chunkRanges = this.calculateSizedChunkRanges(uniqueBlocks);
+
+    let detectedLabelSizes: string[] | undefined;
+    if (sizes) {
+      detectedLabelSizes = [
+        ...new Set(uniqueBlocks.map((block) => block.labelSize!)),
+      ];
+      this.recordDetectedLabelSizes(jobId, detectedLabelSizes);
+    }
 
     return {
       uniqueBlocks,
       originalSequence,
       chunkRanges,
       totalChunks: chunkRanges.length,
+      detectedLabelSizes,
     };
   }
 
+  /**
+   * Tamaño de cada bloque imprimible cuando la conversión no usa uno único:
+   * parte de ^PW/^LL (modo auto) o del labelSize común, y aplica encima el
+   * mapa de tamaños por etiqueta si se envió.
+   * @returns Un tamaño por bloque, o null si todos usan labelSize
+   */
+  private resolveBlockLabelSizes(
+    zplRaw: string,
+    blockCount: number,
+    labelSize: string | undefined,
+    options: ConversionOptions,
+  ): string[] | null {
+    const autoSize = labelSize === AUTO_LABEL_SIZE;
+    if (!autoSize && !options.labelSizeMap) {
+      return null;
+    }
+
+    const sizes = autoSize
+      ? this.detectBlockLabelSizes(zplRaw, options.dpmm ?? DEFAULT_PRINTER_DPMM)
+      : new Array<string>(blockCount).fill(labelSize!);
+
+    if (options.labelSizeMap) {
+      for (let i = 0; i < sizes.length; i++) {
+        sizes[i] = labelSizeFromMap(options.labelSizeMap, i + 1) ?? sizes[i];
+      }
+    }
+
+    return sizes;
+  }
+
+  /**
+   * Guarda los tamaños detectados (modo auto o mapa de tamaños) para
+   * reportarlos en /status
+   */
+  private recordDetectedLabelSizes(
+    jobId: string,
+    detectedLabelSizes: string[],
+  ): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.detectedLabelSizes = detectedLabelSizes;
+    }
+
+    this.firestoreService
+      .updateConversionStatus(jobId, { detectedLabelSizes })
+      .catch((err) =>
+        this.logger.error(`Error guardando tamaños detectados: ${err.message}`),
+      );
+  }
+
   /**
    * Convierte ZPL a PDF
    * @param zplRaw Contenido ZPL
@@ -979,56 +2507,68 @@ export class ZplService {
    * @param jobId ID del trabajo
    * @param userId ID del usuario
    * @param userPlan Plan del usuario
+   * @param options Opciones de renderizado de la conversión
    * @returns Buffer del PDF
    */
   private async convertZplToPdf(
     zplRaw: string,
-    labelSize: LabelSize,
+    labelSize: string,
     jobId: string,
     userId: string,
     userPlan: UserPlan,
+    options: ConversionOptions = {},
   ): Promise<Buffer> {
     try {
       // Preparar bloques ZPL (validación, deduplicación, chunking)
-      const { uniqueBlocks, originalSequence, chunkRanges, totalChunks } =
-        this.prepareZplBlocks(zplRaw, jobId);
-
-      // Convertir cada chunk de bloques únicos a PDF
-      const chunkPdfs: Buffer[] = [];
-      for (let i = 0; i < chunkRanges.length; i++) {
-        const range = chunkRanges[i];
+      const prepared = this.prepareZplBlocks(zplRaw, jobId, labelSize, options);
 
-        // Fase 2: Procesamiento de chunks (10-75%)
-        const progress = Math.round(10 + ((i + 1) / totalChunks) * 65);
-        this.updateProgress(jobId, progress, 'processing', i + 1, totalChunks);
-
-        const chunkBlocks = uniqueBlocks.slice(range.start, range.end);
-
-        const formattedBlocks = chunkBlocks.map(({ normalizedContent }) => {
-          let content = normalizedContent;
-          if (!content.startsWith('^XA')) content = '^XA' + content;
-          if (!content.endsWith('^XZ')) content += '^XZ';
-          return content;
-        });
+      // Una conversión idéntica ya renderizada se sirve tal cual
+      const documentKey = this.renderCache?.key(
+        'document',
+        zplRaw,
+        labelSize,
+        ...this.renderVariant(options),
+        JSON.stringify(options.labelSizeMap ?? null),
+        JSON.stringify(options.imposition ?? null),
+      );
+      if (documentKey) {
+        const cached = await this.renderCache!.getDocument(documentKey);
+        if (cached) {
+          this.updateProgress(jobId, 80, 'merging');
+          return cached;
+        }
+      }
 
-        const chunkZpl = formattedBlocks.join('\n');
-        const labelCount = chunkBlocks.length;
-        const pdfBuffer = await this.callLabelary(
-          chunkZpl,
+      // Convertir a PDF los bloques únicos que no estén en caché
+      const { chunkPdfs, chunkRanges, originalSequence } =
+        await this.renderUniqueBlocks(
+          prepared,
           labelSize,
           jobId,
           userId,
           userPlan,
-          labelCount,
+          options,
         );
-        chunkPdfs.push(pdfBuffer);
-      }
 
       // Fase 3: Fusión de PDF (80%)
       this.updateProgress(jobId, 80, 'merging');
 
       // 5. Reconstruir el PDF final (replicando cada bloque según copies)
-      return this.reconstructFinalPdf(chunkPdfs, originalSequence);
+      const labelsPdf = await this.reconstructFinalPdf(
+        chunkPdfs,
+        originalSequence,
+        chunkRanges,
+      );
+
+      // 6. Imposición opcional sobre hojas de oficina
+      const finalPdf = options.imposition
+        ? await imposeOnSheets(labelsPdf, options.imposition)
+        : labelsPdf;
+
+      if (documentKey) {
+        this.renderCache!.saveDocument(documentKey, finalPdf);
+      }
+      return finalPdf;
     } catch (error) {
       if (error instanceof HttpException) {
         throw error;
@@ -1041,74 +2581,47 @@ export class ZplService {
   }
 
   /**
-   * Convierte ZPL a imágenes PNG o JPEG y las empaqueta en un archivo ZIP
+   * Convierte ZPL a imágenes y las empaqueta en un archivo ZIP, o en un solo
+   * TIFF multipágina
    * Usa la misma lógica de batch que PDF para reducir llamadas a Labelary
    * @param zplRaw Contenido ZPL
    * @param labelSize Tamaño de etiqueta
-   * @param outputFormat Formato de imagen (png o jpeg)
+   * @param outputFormat Formato de imagen (cualquiera salvo pdf)
    * @param jobId ID del trabajo
    * @param userId ID del usuario
    * @param userPlan Plan del usuario
-   * @returns Buffer del archivo ZIP
+   * @param options Opciones de renderizado de la conversión
+   * @returns Buffer del archivo ZIP o TIFF
    */
   private async convertZplToImages(
     zplRaw: string,
-    labelSize: LabelSize,
+    labelSize: string,
     outputFormat: OutputFormat,
     jobId: string,
     userId: string,
     userPlan: UserPlan,
+    options: ConversionOptions = {},
   ): Promise<Buffer> {
     try {
-      // Preparar bloques ZPL (validación, deduplicación, chunking)
-      const { uniqueBlocks, originalSequence, chunkRanges, totalChunks } =
-        this.prepareZplBlocks(zplRaw, jobId);
-
-      // Obtener PDFs por chunks y convertir a imágenes
-      const allUniqueImages: Buffer[] = [];
-      for (let i = 0; i < chunkRanges.length; i++) {
-        const range = chunkRanges[i];
-
-        // Fase 2: Procesamiento de chunks (10-75%)
-        const progress = Math.round(10 + ((i + 1) / totalChunks) * 65);
-        this.updateProgress(jobId, progress, 'processing', i + 1, totalChunks);
-
-        const chunkBlocks = uniqueBlocks.slice(range.start, range.end);
-
-        const formattedBlocks = chunkBlocks.map(({ normalizedContent }) => {
-          let content = normalizedContent;
-          if (!content.startsWith('^XA')) content = '^XA' + content;
-          if (!content.endsWith('^XZ')) content += '^XZ';
-          return content;
-        });
-
-        const chunkZpl = formattedBlocks.join('\n');
-        const labelCount = chunkBlocks.length;
-
-        // Obtener PDF del chunk desde Labelary
-        const pdfBuffer = await this.callLabelary(
-          chunkZpl,
-          labelSize,
-          jobId,
-          userId,
-          userPlan,
-          labelCount,
-        );
-
-        // Convertir PDF a imágenes PNG
-        const images = await this.pdfToImages(pdfBuffer);
-        allUniqueImages.push(...images);
-      }
+      const { images, sequence } = await this.renderLabelImages(
+        zplRaw,
+        labelSize,
+        outputFormat,
+        jobId,
+        userId,
+        userPlan,
+        options,
+      );
 
       // Fase 3: Generando ZIP (80%)
       this.updateProgress(jobId, 80, 'merging');
 
-      // 5. Crear ZIP con imágenes duplicadas según secuencia original
-      return this.createImagesZip(
-        allUniqueImages,
-        originalSequence,
-        outputFormat,
-      );
+      if (outputFormat === OutputFormat.TIFF) {
+        return this.createMultipageTiff(images, sequence, options);
+      }
+
+      // Crear ZIP con imágenes duplicadas según secuencia original
+      return this.createImagesZip(images, sequence, outputFormat, options);
     } catch (error) {
       this.logger.error(`Error converting ZPL to images: ${error.message}`);
       if (error instanceof HttpException) {
@@ -1121,12 +2634,293 @@ export class ZplService {
     }
   }
 
+  /**
+   * Renderiza cada etiqueta única como imagen: SVG con el motor local, o PNG
+   * rasterizando el PDF. Los formatos monocromo se rasterizan a la resolución
+   * de la impresora, un pixel por punto, para que el umbral no invente grises.
+   * @returns Imágenes únicas y la secuencia original que las referencia
+   */
+  private async renderLabelImages(
+    zplRaw: string,
+    labelSize: string,
+    outputFormat: OutputFormat,
+    jobId: string,
+    userId: string,
+    userPlan: UserPlan,
+    options: ConversionOptions,
+  ): Promise<{ images: Buffer[]; sequence: number[] }> {
+    // Preparar bloques ZPL (validación, deduplicación, chunking)
+    const prepared = this.prepareZplBlocks(zplRaw, jobId, labelSize, options);
+
+    if (outputFormat === OutputFormat.SVG) {
+      return {
+        images: await this.renderSvgBlocks(prepared, labelSize, jobId, options),
+        sequence: prepared.originalSequence,
+      };
+    }
+
+    // Obtener PDFs por chunks (o del caché) y convertir a imágenes
+    const { chunkPdfs, originalSequence } = await this.renderUniqueBlocks(
+      prepared,
+      labelSize,
+      jobId,
+      userId,
+      userPlan,
+      options,
+    );
+
+    const viewportScale = MONOCHROME_OUTPUT_FORMATS.includes(outputFormat)
+      ? printerDpi(options.dpmm ?? DEFAULT_PRINTER_DPMM) / POINTS_PER_INCH
+      : undefined;
+    const images: Buffer[] = [];
+    for (const pdfBuffer of chunkPdfs) {
+      images.push(...(await this.pdfToImages(pdfBuffer, viewportScale)));
+    }
+    return { images, sequence: originalSequence };
+  }
+
+  /**
+   * SVG de cada bloque único, por chunks. Labelary no genera SVG: se dibuja
+   * siempre con el motor local, sin importar el renderer del plan, y un
+   * comando que no sabe dibujar rechaza la conversión.
+   */
+  private async renderSvgBlocks(
+    prepared: PreparedZplBlocks,
+    labelSize: string,
+    jobId: string,
+    options: ConversionOptions,
+  ): Promise<Buffer[]> {
+    const { uniqueBlocks, chunkRanges } = prepared;
+    const images: Buffer[] = [];
+
+    for (const [i, range] of chunkRanges.entries()) {
+      if (this.cancelledJobs.has(jobId)) {
+        throw this.conversionCancelledException(jobId);
+      }
+
+      const progress = Math.round(10 + ((i + 1) / chunkRanges.length) * 65);
+      this.updateProgress(
+        jobId,
+        progress,
+        'processing',
+        i + 1,
+        chunkRanges.length,
+      );
+
+      try {
+        const svgs = await this.labelaryQueueService.renderSvg(
+          this.chunkZpl(uniqueBlocks.slice(range.start, range.end)),
+          range.labelSize ?? labelSize,
+          options,
+        );
+        images.push(...svgs.map((svg) => Buffer.from(svg, 'utf8')));
+      } catch (error) {
+        if (error instanceof UnsupportedZplError) {
+          throw new HttpException(
+            {
+              error: ErrorCodes.UNSUPPORTED_ZPL_COMMAND,
+              message: error.message,
+              data: { command: error.command },
+            },
+            HttpStatus.BAD_REQUEST,
+          );
+        }
+        throw error;
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Parámetros de renderizado que, además del ZPL y el tamaño, cambian el
+   * PDF resultante y por tanto forman parte de las claves del caché
+   */
+  private renderVariant(options: ConversionOptions) {
+    return [
+      String(options.dpmm ?? DEFAULT_PRINTER_DPMM),
+      options.renderer ?? DEFAULT_RENDERER_MODE,
+    ];
+  }
+
+  /**
+   * Obtiene el PDF de cada bloque único. Con el caché de bloques solo se
+   * renderizan los que no están en él: los encontrados se añaden como un
+   * chunk más al final y la secuencia original se reindexa para apuntar a la
+   * nueva posición de cada bloque.
+   * @returns PDFs por chunk, sus rangos y la secuencia que los referencia
+   */
+  private async renderUniqueBlocks(
+    prepared: PreparedZplBlocks,
+    labelSize: string,
+    jobId: string,
+    userId: string,
+    userPlan: UserPlan,
+    options: ConversionOptions,
+  ): Promise<{
+    chunkPdfs: Buffer[];
+    chunkRanges: ChunkRange[];
+    originalSequence: number[];
+  }> {
+    const { uniqueBlocks, originalSequence, chunkRanges } = prepared;
+    const renderAll = async () => ({
+      chunkPdfs: await this.renderChunks(
+        uniqueBlocks,
+        chunkRanges,
+        labelSize,
+        jobId,
+        userId,
+        userPlan,
+        options,
+      ),
+      chunkRanges,
+      originalSequence,
+    });
+
+    const cache = this.renderCache;
+    if (!cache || uniqueBlocks.length > RENDER_CACHE_LIMITS.maxBlocksPerJob) {
+      return renderAll();
+    }
+
+    const variant = this.renderVariant(options);
+    const keys = uniqueBlocks.map((block) =>
+      cache.key(
+        'block',
+        block.normalizedContent,
+        block.labelSize ?? labelSize,
+        ...variant,
+      ),
+    );
+    const cached = await cache.getBlocks(keys);
+
+    const missIndices: number[] = [];
+    const hitIndices: number[] = [];
+    cached.forEach((pdf, index) =>
+      (pdf ? hitIndices : missIndices).push(index),
+    );
+
+    // Un bloque en caché dañado no debe tumbar la conversión: se renderiza todo
+    let hitsPdf: Buffer | undefined;
+    if (hitIndices.length > 0) {
+      try {
+        hitsPdf = await cache.mergePages(
+          hitIndices.map((index) => cached[index]!),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Bloques en caché ilegibles para job ${jobId} (${error.message}), renderizando todo`,
+        );
+        return renderAll();
+      }
+    }
+
+    // Los que faltan se agrupan por tamaño igual que en prepareZplBlocks
+    const missBlocks = missIndices.map((index) => uniqueBlocks[index]);
+    const missRanges = this.calculateSizedChunkRanges(missBlocks);
+    const chunkPdfs = await this.renderChunks(
+      missBlocks,
+      missRanges,
+      labelSize,
+      jobId,
+      userId,
+      userPlan,
+      options,
+    );
+
+    missRanges.forEach((range, i) =>
+      cache.saveChunkBlocks(
+        chunkPdfs[i],
+        missIndices.slice(range.start, range.end).map((index) => keys[index]),
+      ),
+    );
+
+    const ranges = [...missRanges];
+    if (hitsPdf) {
+      chunkPdfs.push(hitsPdf);
+      ranges.push({ start: missBlocks.length, end: uniqueBlocks.length });
+    }
+
+    // Posición de cada bloque único en el nuevo orden (faltantes, luego hits)
+    const position = new Array<number>(uniqueBlocks.length);
+    [...missIndices, ...hitIndices].forEach((blockIdx, newIdx) => {
+      position[blockIdx] = newIdx;
+    });
+
+    return {
+      chunkPdfs,
+      chunkRanges: ranges,
+      originalSequence: originalSequence.map((blockIdx) => position[blockIdx]),
+    };
+  }
+
+  /**
+   * Renderiza cada chunk de bloques con el motor de la conversión
+   * @returns Un PDF por chunk, en el orden de los rangos
+   */
+  private async renderChunks(
+    blocks: ParsedZplBlock[],
+    chunkRanges: ChunkRange[],
+    labelSize: string,
+    jobId: string,
+    userId: string,
+    userPlan: UserPlan,
+    options: ConversionOptions,
+  ): Promise<Buffer[]> {
+    const totalChunks = chunkRanges.length;
+    const chunkPdfs: Buffer[] = [];
+
+    for (let i = 0; i < totalChunks; i++) {
+      const range = chunkRanges[i];
+
+      if (this.cancelledJobs.has(jobId)) {
+        throw this.conversionCancelledException(jobId);
+      }
+
+      // Fase 2: Procesamiento de chunks (10-75%)
+      const progress = Math.round(10 + ((i + 1) / totalChunks) * 65);
+      this.updateProgress(jobId, progress, 'processing', i + 1, totalChunks);
+
+      const chunkBlocks = blocks.slice(range.start, range.end);
+      const labelCount = chunkBlocks.length;
+      const pdfBuffer = await this.callLabelary(
+        this.chunkZpl(chunkBlocks),
+        range.labelSize ?? labelSize,
+        jobId,
+        userId,
+        userPlan,
+        labelCount,
+        options,
+      );
+      chunkPdfs.push(pdfBuffer);
+    }
+
+    return chunkPdfs;
+  }
+
+  /** ZPL de un chunk: un bloque ^XA...^XZ por etiqueta */
+  private chunkZpl(blocks: ParsedZplBlock[]): string {
+    return blocks
+      .map(({ normalizedContent }) => {
+        let content = normalizedContent;
+        if (!content.startsWith('^XA')) content = '^XA' + content;
+        if (!content.endsWith('^XZ')) content += '^XZ';
+        return content;
+      })
+      .join('\n');
+  }
+
   /**
    * Convierte un PDF multi-página a un array de imágenes PNG
    * @param pdfBuffer Buffer del PDF
+   * @param viewportScale Pixeles por punto PDF (2 = 144 dpi)
+   * @param pagesToProcess Páginas a convertir (desde 1); sin ellas, todas
    * @returns Array de buffers PNG (uno por página)
    */
-  private async pdfToImages(pdfBuffer: Buffer): Promise<Buffer[]> {
+  private async pdfToImages(
+    pdfBuffer: Buffer,
+    viewportScale = 2.0,
+    pagesToProcess?: number[],
+  ): Promise<Buffer[]> {
     try {
       // Convert Buffer to ArrayBuffer for pdfToPng compatibility
       const arrayBuffer = pdfBuffer.buffer.slice(
@@ -1136,7 +2930,8 @@ export class ZplService {
       const pages: PngPageOutput[] = await pdfToPng(arrayBuffer, {
         disableFontFace: true,
         useSystemFonts: true,
-        viewportScale: 2.0, // Mayor resolución
+        viewportScale,
+        pagesToProcess,
       });
 
       return pages.map((page) => page.content);
@@ -1149,17 +2944,88 @@ export class ZplService {
     }
   }
 
+  /**
+   * Codifica una página renderizada en el formato de imagen pedido. Llega en
+   * PNG, salvo en SVG, que ya viene en su formato.
+   */
+  private async encodeImage(
+    pngBuffer: Buffer,
+    outputFormat: OutputFormat,
+    options: ConversionOptions = {},
+  ): Promise<Buffer> {
+    const dpmm = options.dpmm ?? DEFAULT_PRINTER_DPMM;
+    switch (outputFormat) {
+      case OutputFormat.JPEG:
+        // Convertir PNG a JPEG usando sharp
+        return sharp(pngBuffer).jpeg({ quality: 90 }).toBuffer();
+      case OutputFormat.BMP:
+        return encodeBilevelBmp(
+          await this.toBilevelImage(pngBuffer, options),
+          dpmm,
+        );
+      case OutputFormat.PNG_1BIT:
+        return encodeBilevelPng(
+          await this.toBilevelImage(pngBuffer, options),
+          dpmm,
+        );
+      default:
+        return pngBuffer;
+    }
+  }
+
+  /**
+   * Reduce una página PNG a 1 bit (umbral o dithering de la conversión)
+   */
+  private async toBilevelImage(
+    pngBuffer: Buffer,
+    options: ConversionOptions,
+  ): Promise<BilevelImage> {
+    const { data, info } = await sharp(pngBuffer)
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return toBilevel(
+      data,
+      info.width,
+      info.height,
+      options.monochrome ?? DEFAULT_MONOCHROME_OPTIONS,
+    );
+  }
+
+  /**
+   * Crea un TIFF G4 con una página por etiqueta, en el orden original
+   * @param uniqueImages Array de buffers PNG de imágenes únicas
+   * @param sequence Secuencia de índices que representa el orden y repetición de las imágenes
+   */
+  private async createMultipageTiff(
+    uniqueImages: Buffer[],
+    sequence: number[],
+    options: ConversionOptions,
+  ): Promise<Buffer> {
+    const pages: BilevelImage[] = [];
+    for (const pngBuffer of uniqueImages) {
+      pages.push(await this.toBilevelImage(pngBuffer, options));
+    }
+    return encodeMultipageTiff(
+      sequence.map((blockIdx) => pages[blockIdx]),
+      PRINTER_DPI[options.dpmm ?? DEFAULT_PRINTER_DPMM],
+    );
+  }
+
   /**
    * Crea un archivo ZIP con las imágenes
    * @param uniqueImages Array de buffers PNG de imágenes únicas
    * @param sequence Secuencia de índices que representa el orden y repetición de las imágenes
-   * @param outputFormat Formato de imagen (png o jpeg)
+   * @param outputFormat Formato de imagen
+   * @param options Opciones de la conversión (resolución, umbral de 1 bit)
    * @returns Buffer del archivo ZIP
    */
   private async createImagesZip(
     uniqueImages: Buffer[],
     sequence: number[],
     outputFormat: OutputFormat,
+    options: ConversionOptions = {},
   ): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       const chunks: Buffer[] = [];
@@ -1183,23 +3049,19 @@ export class ZplService {
 
       archive.pipe(writableStream);
 
-      // Procesar imágenes secuencialmente para conversión JPEG
+      // Procesar imágenes secuencialmente para la conversión de formato
       const processImages = async () => {
-        const extension = outputFormat === OutputFormat.JPEG ? 'jpg' : 'png';
+        const { extension } = OUTPUT_FORMAT_FILES[outputFormat];
 
         for (let i = 0; i < sequence.length; i++) {
           const blockIdx = sequence[i];
           const pngBuffer = uniqueImages[blockIdx];
 
-          let imageBuffer: Buffer;
-          if (outputFormat === OutputFormat.JPEG) {
-            // Convertir PNG a JPEG usando sharp
-            imageBuffer = await sharp(pngBuffer)
-              .jpeg({ quality: 90 })
-              .toBuffer();
-          } else {
-            imageBuffer = pngBuffer;
-          }
+          const imageBuffer = await this.encodeImage(
+            pngBuffer,
+            outputFormat,
+            options,
+          );
 
           // Nombre del archivo con índice secuencial (1-based)
           const filename = `label_${String(i + 1).padStart(4, '0')}.${extension}`;
@@ -1214,61 +3076,51 @@ export class ZplService {
   }
 
   /**
-   * Determina si un bloque ZPL produce una etiqueta imprimible.
-   *
-   * Labelary NO genera página para bloques que solo contienen comandos de
-   * configuración (p.ej. `^XA^MCY^XZ`, una etiqueta de "Map Clear" sin nada
-   * dibujable). Si esos bloques se cuentan como etiquetas, el número de páginas
-   * que esperamos deja de coincidir con las que Labelary devuelve, lo que
-   * desalinea el mapeo en `reconstructFinalPdf` y puede vaciar el PDF final.
-   *
-   * Se considera que un bloque dibuja contenido si incluye al menos un comando
-   * de salida visible: datos de campo (`^FD`/`^FV`), datos serializados que se
-   * imprimen sin `^FD` (`^SN`), primitivas gráficas
-   * (`^GB`/`^GC`/`^GD`/`^GE`/`^GF`/`^GS`), imágenes (`^XG`/`^IM`) o un código de
-   * barras real (`^BC`, `^BX`, `^B3`, ...).
-   *
-   * `^BY` (Bar Code Field Default) se excluye de forma explícita: aunque empieza
-   * con `B`, es solo configuración de los códigos de barras y no dibuja nada por
-   * sí mismo, así que no debe mantener vivo un bloque vacío.
-   *
-   * @param block Bloque ZPL normalizado
-   * @returns true si el bloque produce una página en Labelary
-   */
-  private blockProducesOutput(block: string): boolean {
-    return /\^(FD|FV|SN|GB|GC|GD|GE|GF|GS|XG|IM|B(?!Y)[0-9A-Z])/i.test(block);
-  }
-
-  /**
-   * Divide ZPL en bloques, extrae copias ^PQ y elimina ^PQ del contenido
+   * Divide ZPL en bloques y expande las copias de ^PQ. Una etiqueta
+   * serializada (^SN/^SF) produce un bloque por número de serie, todos con
+   * el mismo originalIndex; el resto produce un único bloque con sus copias.
    * @param zpl Contenido ZPL
-   * @returns Bloques ZPL procesados
+   * @returns Bloques ZPL procesados, sin ^PQ
    */
   private splitAndExtractCopies(zpl: string): ParsedZplBlock[] {
-    const blockMatches = zpl.match(/\^XA.*?\^XZ/gs) || [];
-    const parsed: ParsedZplBlock[] = [];
-    blockMatches.forEach((rawBlock) => {
-      const normalized = this.normalizeZplBlock(rawBlock);
-
-      // Descartar bloques de pura configuración (no producen página en
-      // Labelary). Incluirlos provoca un desajuste de índices que vacía el PDF.
-      if (!this.blockProducesOutput(normalized)) {
-        return;
-      }
+    // Descartar bloques de pura configuración (no producen página en
+    // Labelary). Incluirlos provoca un desajuste de índices que vacía el PDF.
+    const labels = completeLabels(parseZpl(zpl)).filter(labelProducesOutput);
+
+    // Las páginas serializadas se cuentan antes de construirlas: esto corre
+    // antes de comprobar el plan y un ^PQ enorme con ^SN bloquearía el proceso
+    const variantCount = labels.reduce(
+      (sum, label) => sum + serialVariantCount(label),
+      0,
+    );
+    if (variantCount > SERIALIZATION_LIMITS.maxVariants) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.LABEL_LIMIT_EXCEEDED,
+          message: `El ZPL genera ${variantCount} etiquetas serializadas distintas; el máximo es ${SERIALIZATION_LIMITS.maxVariants}`,
+          data: {
+            variants: variantCount,
+            allowed: SERIALIZATION_LIMITS.maxVariants,
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
 
-      const pqMatch = normalized.match(/\^PQ(\d+)/i);
-      let copies = 1;
-      if (pqMatch && pqMatch[1]) {
-        copies = parseInt(pqMatch[1], 10) || 1;
+    const parsed: ParsedZplBlock[] = [];
+    let labelIndex = 0;
+    for (const label of labels) {
+      // Las variantes se reescriben en sintaxis estándar: el ZPL puede haber
+      // cambiado el prefijo o el delimitador con ^CC/~CC/^CD
+      for (const variant of expandLabelCopies(label)) {
+        parsed.push({
+          normalizedContent: this.normalizeZplBlock(variant.zpl),
+          copies: variant.copies,
+          originalIndex: labelIndex,
+        });
       }
-      const cleaned = normalized.replace(/\^PQ[^\^]+/i, '');
-
-      parsed.push({
-        normalizedContent: cleaned.trim(),
-        copies,
-        originalIndex: parsed.length,
-      });
-    });
+      labelIndex++;
+    }
     return parsed;
   }
 
@@ -1282,15 +3134,19 @@ export class ZplService {
     const originalSequence: number[] = [];
 
     for (const pb of blocks) {
-      const contentKey = pb.normalizedContent;
+      // El mismo ZPL con distinto tamaño (^PW/^LL heredados) no es duplicado
+      const contentKey = pb.labelSize
+        ? `${pb.labelSize}|${pb.normalizedContent}`
+        : pb.normalizedContent;
       let idx = blockMap.get(contentKey);
       if (idx === undefined) {
         idx = uniqueBlocks.length;
         blockMap.set(contentKey, idx);
         uniqueBlocks.push({
-          normalizedContent: contentKey,
+          normalizedContent: pb.normalizedContent,
           copies: pb.copies,
           originalIndex: pb.originalIndex,
+          labelSize: pb.labelSize,
         });
       }
       for (let c = 0; c < pb.copies; c++) {
@@ -1304,6 +3160,93 @@ export class ZplService {
     };
   }
 
+  /**
+   * Detecta el tamaño de cada bloque imprimible a partir de ^PW/^LL. Como en la
+   * impresora, los valores persisten entre etiquetas hasta que otro bloque los
+   * cambia (incluidos bloques de pura configuración, que no generan página).
+   * @param zplRaw Contenido ZPL crudo
+   * @param dpmm Resolución con la que se interpretan los dots
+   * @returns Tamaños alineados con los bloques de splitAndExtractCopies
+   */
+  private detectBlockLabelSizes(zplRaw: string, dpmm: PrinterDpmm): string[] {
+    const sizes: string[] = [];
+    let widthDots: number | undefined;
+    let lengthDots: number | undefined;
+
+    for (const label of completeLabels(parseZpl(zplRaw))) {
+      const dimensions = readPrintDimensions(label);
+      widthDots = dimensions.widthDots ?? widthDots;
+      lengthDots = dimensions.lengthDots ?? lengthDots;
+
+      if (labelProducesOutput(label)) {
+        sizes.push(labelSizeFromDots(widthDots, lengthDots, dpmm));
+      }
+    }
+
+    return sizes;
+  }
+
+  /**
+   * Reordena los bloques únicos para que los del mismo tamaño queden
+   * contiguos (en orden de primera aparición), remapeando la secuencia
+   * original para que el documento final conserve el orden del ZPL.
+   */
+  private groupBlocksBySize({
+    uniqueBlocks,
+    originalSequence,
+  }: UniqueBlocksResult): UniqueBlocksResult {
+    const sizeOrder = [...new Set(uniqueBlocks.map((b) => b.labelSize))];
+    const sortedIndices = uniqueBlocks
+      .map((_, i) => i)
+      .sort(
+        (a, b) =>
+          sizeOrder.indexOf(uniqueBlocks[a].labelSize) -
+            sizeOrder.indexOf(uniqueBlocks[b].labelSize) || a - b,
+      );
+
+    const newIndex: number[] = [];
+    sortedIndices.forEach((oldIdx, idx) => (newIndex[oldIdx] = idx));
+
+    return {
+      uniqueBlocks: sortedIndices.map((i) => uniqueBlocks[i]),
+      originalSequence: originalSequence.map((i) => newIndex[i]),
+    };
+  }
+
+  /**
+   * Calcula rangos de chunks respetando los cambios de tamaño: un chunk nunca
+   * mezcla bloques de distinto labelSize
+   * @param uniqueBlocks Bloques únicos (agrupados por tamaño)
+   * @returns Array de rangos de chunks con su tamaño
+   */
+  private calculateSizedChunkRanges(
+    uniqueBlocks: ParsedZplBlock[],
+  ): ChunkRange[] {
+    const ranges: ChunkRange[] = [];
+    let runStart = 0;
+
+    for (let i = 1; i <= uniqueBlocks.length; i++) {
+      if (
+        i < uniqueBlocks.length &&
+        uniqueBlocks[i].labelSize === uniqueBlocks[runStart].labelSize
+      ) {
+        continue;
+      }
+
+      const { labelSize } = uniqueBlocks[runStart];
+      for (const range of this.calculateChunkRanges(i - runStart)) {
+        ranges.push({
+          start: runStart + range.start,
+          end: runStart + range.end,
+          ...(labelSize && { labelSize }),
+        });
+      }
+      runStart = i;
+    }
+
+    return ranges;
+  }
+
   /**
    * Calcula rangos de chunks para procesar bloques en lotes
    * @param totalBlocks Número total de bloques a procesar
@@ -1350,18 +3293,20 @@ export class ZplService {
    * @param userId ID del usuario
    * @param userPlan Plan del usuario (para prioridad en cola)
    * @param labelCount Número de etiquetas en el batch
+   * @param options Opciones de renderizado (motor, resolución)
    * @returns Buffer del PDF
    */
   private async callLabelary(
     zplBatch: string,
-    labelSize: LabelSize,
+    labelSize: string,
     jobId: string,
     userId: string,
     userPlan: UserPlan,
     labelCount: number,
+    options: ConversionOptions = {},
   ): Promise<Buffer> {
     // Validar límite de etiquetas por solicitud
-    const actualLabelCount = (zplBatch.match(/\^XA/g) || []).length;
+    const actualLabelCount = parseZpl(zplBatch).labels.length;
     if (actualLabelCount > this.CHUNK_SIZE) {
       throw new HttpException(
         `El número de etiquetas (${actualLabelCount}) excede el límite permitido (${this.CHUNK_SIZE} etiquetas por solicitud)`,
@@ -1378,6 +3323,7 @@ export class ZplService {
         zplBatch,
         labelSize,
         labelCount,
+        options,
       );
     } catch (error: any) {
       // Manejar errores específicos
@@ -1385,6 +3331,23 @@ export class ZplService {
         throw error;
       }
 
+      // Solo llega aquí en modo `local`: con `local_fallback` la cola ya
+      // derivó la etiqueta a Labelary
+      if (error instanceof UnsupportedZplError) {
+        throw new HttpException(
+          {
+            error: ErrorCodes.UNSUPPORTED_ZPL_COMMAND,
+            message: error.message,
+            data: { command: error.command },
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      if (error instanceof LabelaryUnavailableError) {
+        throw this.labelaryUnavailableException(error);
+      }
+
       if (error.response?.status === 413) {
         const logged = await this.logError(
           'LABEL_LIMIT_EXCEEDED',
@@ -1429,7 +3392,13 @@ export class ZplService {
    * @returns Información de posición en cola
    */
   getQueuePosition(jobId: string): QueuePositionResponse {
-    return this.labelaryQueueService.getQueuePosition(jobId);
+    // El job encola sus chunks de uno en uno: los que faltan también esperan
+    const job = this.jobs.get(jobId);
+    const remainingChunks = job?.chunksTotal
+      ? Math.max(0, job.chunksTotal - (job.chunksCompleted ?? 0))
+      : 0;
+
+    return this.labelaryQueueService.getQueuePosition(jobId, remainingChunks);
   }
 
   /**
@@ -1437,11 +3406,13 @@ export class ZplService {
    * OPTIMIZADO: Pre-carga chunks en paralelo y agrupa operaciones por chunk
    * @param chunkPdfs Array de buffers PDF de chunks
    * @param originalSequence Array de índices que representan el orden original
+   * @param chunkRanges Rangos reales de cada chunk (si se omite, chunks fijos de CHUNK_SIZE)
    * @returns Buffer del PDF final fusionado
    */
   private async reconstructFinalPdf(
     chunkPdfs: Buffer[],
     originalSequence: number[],
+    chunkRanges?: ChunkRange[],
   ): Promise<Buffer> {
     const startTime = Date.now();
     try {
@@ -1492,9 +3463,26 @@ export class ZplService {
         }
       >();
 
+      // Con tamaños agrupados los chunks pueden quedar incompletos, así que la
+      // posición de cada bloque se resuelve con los rangos reales
+      const locateBlock = (blockIdx: number) => {
+        if (!chunkRanges) {
+          return {
+            chunkNumber: Math.floor(blockIdx / this.CHUNK_SIZE),
+            pageInChunk: blockIdx % this.CHUNK_SIZE,
+          };
+        }
+        const chunkNumber = chunkRanges.findIndex(
+          (range) => blockIdx >= range.start && blockIdx < range.end,
+        );
+        return {
+          chunkNumber,
+          pageInChunk: blockIdx - (chunkRanges[chunkNumber]?.start ?? 0),
+        };
+      };
+
       originalSequence.forEach((blockIdx, outputPosition) => {
-        const chunkNumber = Math.floor(blockIdx / this.CHUNK_SIZE);
-        const pageInChunk = blockIdx % this.CHUNK_SIZE;
+        const { chunkNumber, pageInChunk } = locateBlock(blockIdx);
 
         if (!chunkPageGroups.has(chunkNumber)) {
           chunkPageGroups.set(chunkNumber, {
@@ -1621,6 +3609,7 @@ export class ZplService {
    * @param fileExtension Extensión del archivo
    * @param originalFilename Nombre original del archivo (opcional)
    * @param userPlan Plan del usuario (free, pro, enterprise)
+   * @param labelDimensions Medidas personalizadas, para nombrar en su unidad
    * @returns Objeto con nombres de archivo
    */
   private generateFilenames(
@@ -1630,6 +3619,7 @@ export class ZplService {
     fileExtension: string = 'pdf',
     originalFilename?: string,
     userPlan?: string,
+    labelDimensions?: LabelDimensions,
   ): { storageFilename: string; downloadFilename: string } {
     const storageFilename = `label-${jobId}.${fileExtension}`;
 
@@ -1649,8 +3639,7 @@ export class ZplService {
     }
 
     // Para usuarios Free, usar formato estándar zplpdf_size_timestamp
-    const size =
-      this.LABEL_SIZE_NORMALIZE_MAP[labelSize.toLowerCase()] ?? labelSize;
+    const size = describeLabelSize(labelSize, labelDimensions);
     const timestamp = new Date()
       .toISOString()
       .replace(/[:.]/g, '')
@@ -1696,18 +3685,30 @@ export class ZplService {
   }
 
   /**
-   * Obtiene el tamaño de etiqueta correspondiente del enum
-   * @param labelSize Tamaño de etiqueta en string
-   * @returns LabelSize enum value
+   * Obtiene el tamaño de etiqueta canónico ("WxH" en pulgadas)
+   * @param labelSize Tamaño de etiqueta en string (preset, alias o personalizado)
+   * @returns Valor del enum para los presets, o el tamaño personalizado tal cual
    */
-  private getLabelSize(labelSize: string): LabelSize {
-    return (
-      this.LABEL_SIZE_ENUM_MAP[labelSize.toLowerCase()] ?? LabelSize.TWO_BY_ONE
-    );
+  private getLabelSize(labelSize: string): string {
+    if (labelSize.toLowerCase() === AUTO_LABEL_SIZE) {
+      return AUTO_LABEL_SIZE;
+    }
+
+    const preset = this.LABEL_SIZE_ENUM_MAP[labelSize.toLowerCase()];
+    if (preset) {
+      return preset;
+    }
+
+    // Tamaños personalizados: el controller ya los normalizó a pulgadas
+    return parseLabelSize(labelSize)
+      ? labelSize.trim().toLowerCase()
+      : LabelSize.TWO_BY_ONE;
   }
 
   /**
-   * Cuenta el número total de etiquetas y copias en el contenido ZPL
+   * Cuenta el número total de etiquetas y copias en el contenido ZPL. Las
+   * etiquetas con ^PQ de varias copias o serializadas (^SN/^SF) se detallan
+   * en `expansion`.
    * @param zplContent Contenido ZPL a analizar
    * @returns Objeto con la respuesta formateada según estándares REST
    */
@@ -1717,6 +3718,8 @@ export class ZplService {
     data: {
       totalUniqueLabels: number;
       totalLabels: number;
+      totalVariants: number;
+      expansion: LabelCopiesExpansion[];
     };
   }> {
     try {
@@ -1730,12 +3733,15 @@ export class ZplService {
         );
       }
 
-      // Calcular totales
-      const totalUniqueLabels = parsedBlocks.length;
+      // Calcular totales: cada variante serializada es una página distinta
+      const totalUniqueLabels =
+        parsedBlocks[parsedBlocks.length - 1].originalIndex + 1;
+      const totalVariants = parsedBlocks.length;
       const totalLabels = parsedBlocks.reduce(
         (sum, block) => sum + block.copies,
         0,
       );
+      const expansion = this.describeCopiesExpansion(zplContent);
 
       return {
         success: true,
@@ -1743,6 +3749,8 @@ export class ZplService {
         data: {
           totalUniqueLabels,
           totalLabels,
+          totalVariants,
+          expansion,
         },
       };
     } catch (error) {
@@ -1756,28 +3764,81 @@ export class ZplService {
     }
   }
 
+  /**
+   * Detalle de ^PQ de las etiquetas que no se imprimen una sola vez
+   * @param zplContent Contenido ZPL a analizar
+   * @returns Una entrada por etiqueta con varias copias o serializada
+   */
+  private describeCopiesExpansion(zplContent: string): LabelCopiesExpansion[] {
+    const expansion: LabelCopiesExpansion[] = [];
+    const labels = completeLabels(parseZpl(zplContent)).filter(
+      labelProducesOutput,
+    );
+
+    labels.forEach((label, index) => {
+      const { quantity, pauseCount, replicates } = readPrintQuantity(label);
+      const serialized = isSerialized(label);
+      if (quantity === 1 && !serialized) {
+        return;
+      }
+
+      expansion.push({
+        label: index + 1,
+        quantity,
+        pauseCount,
+        replicates,
+        serialized,
+        variants: serialized ? Math.ceil(quantity / (replicates + 1)) : 1,
+      });
+    });
+
+    return expansion;
+  }
+
   /**
    * Obtiene una imagen PNG de una etiqueta ZPL desde Labelary
    * @param zplContent Contenido ZPL de una sola etiqueta
    * @param labelSize Tamaño de la etiqueta
+   * @param options Opciones de renderizado (motor, resolución)
    * @returns Buffer de la imagen PNG
    */
   private async getSingleLabelaryPngImage(
     zplContent: string,
-    labelSize: LabelSize,
+    labelSize: string,
+    options: ConversionOptions = {},
   ): Promise<Buffer> {
     try {
       this.logger.debug(`Enviando solicitud a Labelary para una etiqueta PNG`);
       return await this.labelaryQueueService.enqueuePngDirect(
         zplContent,
         labelSize,
+        options,
       );
     } catch (error) {
       this.logger.error(`Error en Labelary API (PNG): ${error.message}`);
+      if (error instanceof LabelaryUnavailableError) {
+        throw this.labelaryUnavailableException(error);
+      }
       throw error;
     }
   }
 
+  /**
+   * 503 para el cliente mientras el circuito hacia Labelary está abierto
+   */
+  private labelaryUnavailableException(
+    error: LabelaryUnavailableError,
+  ): HttpException {
+    return new HttpException(
+      {
+        error: ErrorCodes.LABELARY_UNAVAILABLE,
+        message: ErrorMessagesEs[ErrorCodes.LABELARY_UNAVAILABLE],
+        data: { retryAfterSeconds: Math.ceil(error.retryAfterMs / 1000) },
+      },
+      HttpStatus.SERVICE_UNAVAILABLE,
+    );
+  }
+
   /**
    * Obtiene las imágenes PNG de las etiquetas desde Labelary
    * @param zplContent Contenido ZPL a convertir
@@ -1786,12 +3847,14 @@ export class ZplService {
    */
   private async getLabelaryPngImages(
     zplContent: string,
-    labelSize: LabelSize,
+    labelSize: string,
   ): Promise<Buffer[]> {
     try {
       // Extraer etiquetas individuales
-      const labelMatches = zplContent.match(/\^XA.*?\^XZ/gs);
-      if (!labelMatches) {
+      const labelMatches = completeLabels(parseZpl(zplContent)).map(
+        serializeLabel,
+      );
+      if (labelMatches.length === 0) {
         throw new HttpException(
           'No se encontraron etiquetas válidas en el contenido ZPL',
           HttpStatus.BAD_REQUEST,
@@ -1826,52 +3889,36 @@ export class ZplService {
    * Obtiene las previsualizaciones de las etiquetas únicas con sus cantidades
    * @param zplContent Contenido ZPL a analizar
    * @param labelSize Tamaño de la etiqueta
+   * @param options Opciones de renderizado
    * @returns Array de objetos con imagen y cantidad de cada etiqueta única
    */
   async getLabelsPreview(
     zplContent: string,
-    labelSize: LabelSize,
+    labelSize: string,
+    options: ConversionOptions = {},
   ): Promise<ZplPreviewItemDto[]> {
     try {
-      // 1. Extraer etiquetas individuales (separar por ^XA...^XZ)
-      const labelMatches = zplContent.match(/\^XA.*?\^XZ/gs);
-      if (!labelMatches) {
+      // 1. Extraer etiquetas individuales con sus copias (^PQ)
+      const parsedBlocks = this.splitAndExtractCopies(zplContent);
+      if (parsedBlocks.length === 0) {
         throw new HttpException(
           'No se encontraron etiquetas válidas en el contenido ZPL',
           HttpStatus.BAD_REQUEST,
         );
       }
 
-      // 2. Procesar etiquetas y contar duplicados
+      // 2. Contar duplicados
       const uniqueLabels = new Map<string, number>();
-      const normalizedLabels: string[] = [];
-
-      for (const label of labelMatches) {
-        let normalized = label
-          .replace(/[\r\n]+/g, '') // Eliminar saltos de línea
-          .replace(/\s+/g, ' ') // Normalizar espacios
-          .trim();
-
-        // Extraer y eliminar ^PQ para contar copias
-        const pqMatch = normalized.match(/\^PQ(\d+)/);
-        const copies = pqMatch ? parseInt(pqMatch[1], 10) : 1;
-        normalized = normalized.replace(/\^PQ\d+,?\d*,?\d*,?\d*/g, '');
-
-        // Asegurar formato ZPL correcto
-        if (!normalized.startsWith('^XA')) normalized = '^XA' + normalized;
-        if (!normalized.endsWith('^XZ')) normalized += '^XZ';
-
+      for (const block of parsedBlocks) {
         uniqueLabels.set(
-          normalized,
-          (uniqueLabels.get(normalized) || 0) + copies,
+          block.normalizedContent,
+          (uniqueLabels.get(block.normalizedContent) || 0) + block.copies,
         );
-        if (!normalizedLabels.includes(normalized)) {
-          normalizedLabels.push(normalized);
-        }
       }
+      const normalizedLabels = [...uniqueLabels.keys()];
 
       this.logger.debug(
-        `Total de etiquetas encontradas: ${labelMatches.length}`,
+        `Total de etiquetas encontradas: ${parsedBlocks.length}`,
       );
       this.logger.debug(
         `Total de etiquetas únicas: ${normalizedLabels.length}`,
@@ -1883,10 +3930,20 @@ export class ZplService {
       // Procesar cada etiqueta única individualmente, pero secuencialmente para evitar errores de rate limit
       for (const zpl of normalizedLabels) {
         try {
-          const buffer = await this.getSingleLabelaryPngImage(zpl, labelSize);
+          // En modo auto cada etiqueta se previsualiza con sus ^PW/^LL
+          const size =
+            labelSize === AUTO_LABEL_SIZE
+              ? detectLabelSize(zpl, options.dpmm ?? DEFAULT_PRINTER_DPMM)
+              : labelSize;
+          const buffer = await this.getSingleLabelaryPngImage(
+            zpl,
+            size,
+            options,
+          );
           labelPreviews.push({
             img: `data:image/png;base64,${buffer.toString('base64')}`,
             qty: uniqueLabels.get(zpl) || 0,
+            ...(labelSize === AUTO_LABEL_SIZE && { labelSize: size }),
           });
         } catch (error) {
           this.logger.error(`Error al procesar etiqueta: ${error.message}`);
@@ -1918,30 +3975,488 @@ export class ZplService {
    */
   async getPublicFontPreview(
     zplContent: string,
-    labelSize: LabelSize,
+    labelSize: string,
+    dpmm: PrinterDpmm = DEFAULT_PRINTER_DPMM,
   ): Promise<{ image: string }> {
     try {
       const buffer = await this.getSingleLabelaryPngImage(
-        zplContent,
+        normalizeZplSyntax(zplContent),
         labelSize,
+        { dpmm },
+      );
+
+      return {
+        image: `data:image/png;base64,${buffer.toString('base64')}`,
+      };
+    } catch (error: any) {
+      this.logger.error(`Public font preview error: ${error.message}`);
+      throw new HttpException(
+        {
+          error: ErrorCodes.SERVER_ERROR,
+          message: 'Error generating font preview',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ============== IMAGE TO ZPL ==============
+
+  /**
+   * Convierte una imagen en un gráfico ZPL: la escala a los dots pedidos, la
+   * reduce a 1 bit con el método de dithering elegido y la codifica como
+   * ^GFA (hex o Z64) o ~DG. La vista previa pasa por el mismo camino que
+   * /preview, con una etiqueta del tamaño exacto de la imagen.
+   * @param image Archivo PNG, JPEG o SVG
+   */
+  async convertImageToGraphic(
+    image: Buffer,
+    options: ImageToGraphicOptions,
+  ): Promise<ImageToGraphicResult> {
+    const invalidImage = (message: string): never => {
+      throw new HttpException(
+        { error: ErrorCodes.INVALID_IMAGE, message },
+        HttpStatus.BAD_REQUEST,
+      );
+    };
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(image).metadata();
+    } catch {
+      return invalidImage('La imagen no se pudo leer');
+    }
+    const inputFormats: readonly string[] =
+      IMAGE_TO_GRAPHIC_LIMITS.inputFormats;
+    if (!inputFormats.includes(metadata.format ?? '') || !metadata.width) {
+      return invalidImage('La imagen debe ser PNG, JPEG o SVG');
+    }
+
+    const { width, height } = this.graphicSize(
+      metadata.width,
+      metadata.height ?? metadata.width,
+      options,
+    );
+
+    let bilevel: BilevelImage;
+    try {
+      // El SVG se rasteriza ya a la resolución final para que no se pixele
+      const density =
+        metadata.format === 'svg'
+          ? Math.max(1, ((metadata.density ?? 72) * width) / metadata.width)
+          : undefined;
+      const { data, info } = await sharp(image, density ? { density } : {})
+        .resize(width, height, { fit: 'fill' })
+        .flatten({ background: '#ffffff' })
+        .greyscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      bilevel = ditherToBilevel(
+        data,
+        info.width,
+        info.height,
+        options.dither,
+        options.threshold,
+      );
+    } catch (error: any) {
+      this.logger.warn(`Imagen a ZPL: no se pudo procesar (${error.message})`);
+      return invalidImage('La imagen no se pudo procesar');
+    }
+
+    const labelHeader = `^XA^PW${width}^LL${height}^FO0,0`;
+    const hexField = graphicFieldCommand(bilevel, 'hex');
+    let zpl: string;
+    let label: string;
+    switch (options.format) {
+      case GraphicFormat.DG:
+        zpl = downloadGraphicCommand(bilevel, options.name);
+        label = `${zpl}\n${labelHeader}^XGR:${options.name}.GRF,1,1^FS^XZ`;
+        break;
+      case GraphicFormat.GFA_Z64:
+        zpl = graphicFieldCommand(bilevel, 'z64');
+        label = `${labelHeader}${zpl}^FS^XZ`;
+        break;
+      default:
+        zpl = hexField;
+        label = `${labelHeader}${zpl}^FS^XZ`;
+    }
+
+    // ~DG/^XG no lo dibuja el renderizador local: la vista previa usa el
+    // mismo mapa de bits como ^GF, que se imprime idéntico
+    const previews = await this.getLabelsPreview(
+      `${labelHeader}${hexField}^FS^XZ`,
+      labelSizeFromDots(width, height, options.dpmm),
+      { renderer: options.renderer, dpmm: options.dpmm },
+    );
+
+    return {
+      format: options.format,
+      width,
+      height,
+      bytesPerRow: bilevel.bytesPerRow,
+      totalBytes: bilevel.bytesPerRow * height,
+      zpl,
+      label,
+      preview: previews.length > 0 ? previews[0].img : null,
+    };
+  }
+
+  /**
+   * Tamaño final del gráfico en dots. Con una sola medida se conserva la
+   * proporción de la imagen; sin ninguna se usa su tamaño en pixeles.
+   * @throws HttpException si algún lado no cabe en la etiqueta más grande
+   */
+  private graphicSize(
+    sourceWidth: number,
+    sourceHeight: number,
+    options: Pick<ImageToGraphicOptions, 'width' | 'height' | 'dpmm'>,
+  ): { width: number; height: number } {
+    const ratio = sourceHeight / sourceWidth;
+    const width =
+      options.width ??
+      (options.height ? Math.round(options.height / ratio) : sourceWidth);
+    const height = options.height ?? Math.round(width * ratio);
+
+    const maxDots = Math.floor(
+      LABEL_DIMENSION_LIMITS.maxInches * PRINTER_DPI[options.dpmm],
+    );
+    if (width > maxDots || height > maxDots) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_INPUT,
+          message: `El gráfico no puede medir más de ${maxDots} dots por lado a ${options.dpmm} dpmm`,
+          data: { width, height, maxDots },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return { width: Math.max(1, width), height: Math.max(1, height) };
+  }
+
+  // ============== PDF TO ZPL ==============
+
+  /**
+   * Convierte PDF (etiquetas de paquetería de marketplaces) en ZPL: cada
+   * página se rasteriza a la resolución de la impresora, se recorta y gira
+   * para encajar en la etiqueta y sale como un bloque ^XA...^GF...^XZ. Cada
+   * página cuenta como una etiqueta en la cuota del plan. Varios PDF a la vez
+   * siguen los límites de batch del plan y se devuelven en un ZIP con un .zpl
+   * por archivo.
+   */
+  async convertPdfsToZpl(
+    files: PdfToZplFile[],
+    labelSize: string,
+    userId: string,
+    options: PdfToZplOptions,
+  ): Promise<SyncConversionResult> {
+    if (files.length > 1) {
+      await this.resolveBatchPlan(userId, files.length);
+    }
+
+    const label = labelSizeInDots(labelSize, options.dpmm);
+    if (!label) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_LABEL_SIZE,
+          message: `Tamaño de etiqueta inválido: ${labelSize}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Un punto PDF por pulgada/72: a esta escala cada pixel es un dot
+    const printerScale = printerDpi(options.dpmm) / POINTS_PER_INCH;
+    const maxPageSide =
+      PDF_TO_ZPL_LIMITS.maxPageToLabelRatio *
+      Math.max(label.widthDots, label.heightDots);
+
+    // Las páginas se cuentan y miden con pdf-lib antes de rasterizar nada: un
+    // PDF ilegible, cifrado o con páginas desmesuradas se rechaza sin
+    // consumir cuota
+    let labelCount = 0;
+    const pageScales: number[][] = [];
+    for (const file of files) {
+      let pages: PDFPage[] = [];
+      try {
+        pages = (await PDFDocument.load(file.buffer)).getPages();
+      } catch (error: any) {
+        this.logger.warn(
+          `PDF a ZPL: no se pudo leer ${file.fileName} (${error.message})`,
+        );
+      }
+      if (pages.length === 0) {
+        throw new HttpException(
+          {
+            error: ErrorCodes.INVALID_PDF,
+            message: `No se pudo leer el PDF ${file.fileName} (¿está dañado o protegido con contraseña?)`,
+            data: { fileName: file.fileName },
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      pageScales.push(
+        pages.map((page, index) =>
+          this.pdfPageScale(page, printerScale, maxPageSide, file, index),
+        ),
+      );
+      labelCount += pages.length;
+    }
+
+    if (labelCount > PDF_TO_ZPL_LIMITS.maxPages) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.SYNC_LABEL_LIMIT_EXCEEDED,
+          message: `PDF to ZPL conversion supports up to ${PDF_TO_ZPL_LIMITS.maxPages} pages per request`,
+          data: { requested: labelCount, allowed: PDF_TO_ZPL_LIMITS.maxPages },
+        },
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+
+    const periodInfo = await this.checkConversionQuota(userId, labelCount);
+    const user = await this.usersService.getUserById(userId);
+    const userPlan = user ? this.usersService.getEffectivePlan(user) : 'free';
+
+    // Página a página, cada una a su escala: solo una rasterizada en memoria
+    const usedNames = new Set<string>();
+    const outputs: { fileName: string; zpl: string }[] = [];
+    for (const [fileIndex, file] of files.entries()) {
+      const blocks: string[] = [];
+      for (const [index, scale] of pageScales[fileIndex].entries()) {
+        const [page] = await this.pdfToImages(file.buffer, scale, [index + 1]);
+        blocks.push(await this.pdfPageToZpl(page, label, options));
+      }
+      outputs.push({
+        fileName: batchZipEntryName(
+          file.fileName.replace(/\.pdf$/i, ''),
+          ZPL_OUTPUT_FORMAT,
+          usedNames,
+        ),
+        zpl: `${blocks.join('\n')}\n`,
+      });
+    }
+
+    const jobId = uuidv4();
+    await this.usersService.recordConversion(
+      userId,
+      jobId,
+      labelCount,
+      labelSize,
+      'completed',
+      ZPL_OUTPUT_FORMAT,
+      undefined,
+      periodInfo,
+      userPlan,
+      options.labelDimensions,
+    );
+
+    this.logger.log(
+      `PDF a ZPL completado para ${userId}: ${files.length} archivo(s), ${labelCount} página(s)`,
+    );
+
+    if (outputs.length === 1) {
+      return {
+        jobId,
+        buffer: Buffer.from(outputs[0].zpl, 'utf-8'),
+        contentType: 'text/plain; charset=utf-8',
+        filename: outputs[0].fileName,
+        labelCount,
+      };
+    }
+    return {
+      jobId,
+      buffer: await this.createZplZip(outputs),
+      contentType: 'application/zip',
+      filename: `zpl_${jobId.slice(0, 8)}.zip`,
+      labelCount,
+    };
+  }
+
+  /**
+   * Escala a la que se rasteriza una página: la de la impresora, salvo que
+   * la página sea mucho mayor que la etiqueta (se reduciría igualmente al
+   * encajarla). Rechaza las páginas que aun así no caben en memoria.
+   */
+  private pdfPageScale(
+    page: PDFPage,
+    printerScale: number,
+    maxPageSide: number,
+    file: PdfToZplFile,
+    index: number,
+  ): number {
+    const { width, height } = page.getCropBox();
+    const longSide = Math.max(width, height, 1);
+    const scale = Math.min(printerScale, maxPageSide / longSide);
+    const pixels = Math.ceil(width * scale) * Math.ceil(height * scale);
+    if (pixels > PDF_TO_ZPL_LIMITS.maxPagePixels) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.INVALID_PDF,
+          message: `La página ${index + 1} de ${file.fileName} es demasiado grande para convertirla en etiqueta`,
+          data: {
+            fileName: file.fileName,
+            page: index + 1,
+            widthPoints: width,
+            heightPoints: height,
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return scale;
+  }
+
+  /**
+   * Una página rasterizada como etiqueta ZPL: quita los márgenes en blanco,
+   * la gira si hace falta y la reduce (nunca la agranda, para no deformar los
+   * códigos de barras) hasta que quepa, centrada, en la etiqueta
+   */
+  private async pdfPageToZpl(
+    pagePng: Buffer,
+    label: { widthDots: number; heightDots: number },
+    options: PdfToZplOptions,
+  ): Promise<string> {
+    let page = sharp(pagePng).flatten({ background: '#ffffff' }).greyscale();
+    if (options.crop) {
+      page = page.trim({ background: '#ffffff', threshold: 10 });
+    }
+    const cropped = await page.raw().toBuffer({ resolveWithObject: true });
+
+    const landscape = (width: number, height: number) => width > height;
+    const angle =
+      options.rotation === 'auto'
+        ? landscape(cropped.info.width, cropped.info.height) !==
+          landscape(label.widthDots, label.heightDots)
+          ? 90
+          : 0
+        : Number(options.rotation);
+
+    const { data, info } = await sharp(cropped.data, {
+      raw: {
+        width: cropped.info.width,
+        height: cropped.info.height,
+        channels: cropped.info.channels,
+      },
+    })
+      .rotate(angle)
+      .resize(label.widthDots, label.heightDots, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const bilevel = ditherToBilevel(
+      data,
+      info.width,
+      info.height,
+      options.dither,
+      options.threshold,
+    );
+    const x = Math.floor((label.widthDots - info.width) / 2);
+    const y = Math.floor((label.heightDots - info.height) / 2);
+    return `^XA^PW${label.widthDots}^LL${label.heightDots}^FO${x},${y}${graphicFieldCommand(bilevel, options.encoding)}^FS^XZ`;
+  }
+
+  /** ZIP con un .zpl por PDF convertido */
+  private async createZplZip(
+    outputs: { fileName: string; zpl: string }[],
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const archive = archiver('zip', { zlib: { level: 9 } });
+
+      const writableStream = new Writable({
+        write(chunk, encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      });
+
+      writableStream.on('finish', () => {
+        resolve(Buffer.concat(chunks));
+      });
+
+      archive.on('error', reject);
+      archive.pipe(writableStream);
+
+      for (const output of outputs) {
+        archive.append(output.zpl, { name: output.fileName });
+      }
+      archive.finalize();
+    });
+  }
+
+  // ============== BATCH PROCESSING ==============
+
+  /**
+   * Expande un .zip o .tar.gz subido a /batch/convert en los archivos ZPL que
+   * contiene, con su ruta relativa como nombre. La extracción ya corta con
+   * los límites del plan (archivos por batch y tamaño por archivo) para no
+   * descomprimir de más; startBatchConversion los vuelve a validar.
+   * @param userId ID del usuario
+   * @param archive Archivo subido y su tipo (ver detectBatchArchive)
+   * @returns Archivos ZPL en el orden en que aparecen en el archivo
+   */
+  async expandBatchArchive(
+    userId: string,
+    archive: { buffer: Buffer; fileName: string; kind: BatchArchiveKind },
+  ): Promise<{ fileName: string; content: string }[]> {
+    const { userEmail, effectivePlan, planLimits } =
+      await this.resolveBatchPlan(userId, 1);
+
+    let entries: BatchArchiveEntry[];
+    try {
+      entries = await extractBatchArchive(archive.buffer, archive.kind, {
+        maxFiles: planLimits.maxFilesPerBatch,
+        maxFileSizeBytes: planLimits.maxFileSizeBytes,
+        maxEntries: BATCH_ARCHIVE_LIMITS.maxEntries,
+        maxTotalBytes: BATCH_ARCHIVE_LIMITS.maxUncompressedBytes,
+      });
+    } catch (error) {
+      if (!(error instanceof BatchArchiveError)) throw error;
+
+      const [code, status] =
+        error.reason === 'too_many_files'
+          ? [ErrorCodes.BATCH_LIMIT_EXCEEDED, HttpStatus.FORBIDDEN]
+          : error.reason === 'file_too_large' ||
+              error.reason === 'archive_too_large'
+            ? [ErrorCodes.FILE_TOO_LARGE, HttpStatus.PAYLOAD_TOO_LARGE]
+            : [ErrorCodes.INVALID_ARCHIVE, HttpStatus.BAD_REQUEST];
+      throw await this.batchRejection(
+        userId,
+        userEmail,
+        code,
+        { error: code, message: error.message, data: error.data },
+        status,
+        {
+          plan: effectivePlan,
+          archive: archive.fileName,
+          reason: error.reason,
+        },
       );
+    }
 
-      return {
-        image: `data:image/png;base64,${buffer.toString('base64')}`,
-      };
-    } catch (error: any) {
-      this.logger.error(`Public font preview error: ${error.message}`);
+    if (entries.length === 0) {
       throw new HttpException(
         {
-          error: ErrorCodes.SERVER_ERROR,
-          message: 'Error generating font preview',
+          error: ErrorCodes.NO_FILES,
+          message: `${archive.fileName} no contiene archivos .zpl ni .txt`,
         },
-        HttpStatus.INTERNAL_SERVER_ERROR,
+        HttpStatus.BAD_REQUEST,
       );
     }
-  }
 
-  // ============== BATCH PROCESSING ==============
+    this.logger.log(
+      `Archivo ${archive.fileName} expandido: ${entries.length} archivos ZPL`,
+    );
+    return entries.map((entry) => ({
+      fileName: entry.path,
+      content: entry.content.toString('utf-8'),
+    }));
+  }
 
   /**
    * Inicia una conversión batch de múltiples archivos ZPL
@@ -1949,72 +4464,21 @@ export class ZplService {
    * @param files Array de archivos ZPL
    * @param labelSize Tamaño de etiqueta
    * @param outputFormat Formato de salida
+   * @param options Opciones de renderizado (aplican a todos los archivos)
+   * @param output Entrega del resultado (ZIP si se omite)
    * @returns Objeto con batchId y array de jobs
    */
   async startBatchConversion(
     userId: string,
     files: { id: string; content: string; fileName: string }[],
     labelSize: string,
-    outputFormat: 'pdf' | 'png' | 'jpeg' = 'pdf',
+    outputFormat: OutputFormatValue = 'pdf',
+    options: ConversionOptions = {},
+    output?: BatchOutputOptions,
   ): Promise<{ batchId: string; jobs: { fileId: string; jobId: string }[] }> {
     try {
-      // Validar plan del usuario
-      const user = await this.usersService.getUserById(userId);
-      if (!user) {
-        // Sin documento de usuario no hay email que registrar, pero el evento
-        // sí debe quedar: es un rechazo de acceso como los demás.
-        throw await this.batchRejection(
-          userId,
-          null,
-          ErrorCodes.USER_NOT_FOUND,
-          {
-            error: ErrorCodes.USER_NOT_FOUND,
-            message: 'Usuario no encontrado',
-          },
-          HttpStatus.NOT_FOUND,
-          { fileCount: files.length },
-        );
-      }
-
-      // A partir de aquí el usuario existe: su email acompaña a todo rechazo
-      // para que el dashboard admin pueda enlazar a su ficha.
-      const userEmail = user.email || null;
-
-      // Usar plan efectivo (considera simulación para admins)
-      const effectivePlan = this.usersService.getEffectivePlan(user);
-      const planLimits = BATCH_LIMITS[effectivePlan] || BATCH_LIMITS.free;
-
-      if (!planLimits.batchAllowed) {
-        throw await this.batchRejection(
-          userId,
-          userEmail,
-          ErrorCodes.BATCH_NOT_ALLOWED,
-          {
-            error: ErrorCodes.BATCH_NOT_ALLOWED,
-            message: 'El procesamiento batch no está disponible para tu plan',
-          },
-          HttpStatus.FORBIDDEN,
-          { plan: effectivePlan, fileCount: files.length },
-        );
-      }
-
-      if (files.length > planLimits.maxFilesPerBatch) {
-        throw await this.batchRejection(
-          userId,
-          userEmail,
-          ErrorCodes.BATCH_LIMIT_EXCEEDED,
-          {
-            error: ErrorCodes.BATCH_LIMIT_EXCEEDED,
-            message: `Excedes el límite de ${planLimits.maxFilesPerBatch} archivos por batch`,
-            data: {
-              maxFiles: planLimits.maxFilesPerBatch,
-              requestedFiles: files.length,
-            },
-          },
-          HttpStatus.FORBIDDEN,
-          { plan: effectivePlan },
-        );
-      }
+      const { userEmail, effectivePlan, planLimits } =
+        await this.resolveBatchPlan(userId, files.length);
 
       // Validar tamaño de cada archivo
       for (const file of files) {
@@ -2100,6 +4564,11 @@ export class ZplService {
         failedFiles: 0,
         outputFormat,
         labelSize,
+        ...(options.labelDimensions && {
+          labelDimensions: options.labelDimensions,
+        }),
+        dpmm: options.dpmm ?? DEFAULT_PRINTER_DPMM,
+        ...(output && { output }),
         jobs: batchJobs,
         createdAt: now,
         updatedAt: now,
@@ -2122,6 +4591,7 @@ export class ZplService {
         labelSize,
         outputFormat,
         userLimits.periodInfo,
+        options,
       );
 
       return { batchId, jobs: jobsMapping };
@@ -2135,6 +4605,80 @@ export class ZplService {
     }
   }
 
+  /**
+   * Busca al usuario y los límites batch de su plan efectivo; rechaza (y
+   * registra) si no existe, si su plan no incluye batch o si el intento trae
+   * más archivos de los que permite
+   * @param fileCount Archivos del intento
+   */
+  private async resolveBatchPlan(
+    userId: string,
+    fileCount: number,
+  ): Promise<{
+    userEmail: string | null;
+    effectivePlan: PlanType;
+    planLimits: BatchLimits;
+  }> {
+    const user = await this.usersService.getUserById(userId);
+    if (!user) {
+      // Sin documento de usuario no hay email que registrar, pero el evento
+      // sí debe quedar: es un rechazo de acceso como los demás.
+      throw await this.batchRejection(
+        userId,
+        null,
+        ErrorCodes.USER_NOT_FOUND,
+        {
+          error: ErrorCodes.USER_NOT_FOUND,
+          message: 'Usuario no encontrado',
+        },
+        HttpStatus.NOT_FOUND,
+        { fileCount },
+      );
+    }
+
+    // A partir de aquí el usuario existe: su email acompaña a todo rechazo
+    // para que el dashboard admin pueda enlazar a su ficha.
+    const userEmail = user.email || null;
+
+    // Usar plan efectivo (considera simulación para admins)
+    const effectivePlan = this.usersService.getEffectivePlan(user);
+    const planLimits = BATCH_LIMITS[effectivePlan] || BATCH_LIMITS.free;
+
+    if (!planLimits.batchAllowed) {
+      throw await this.batchRejection(
+        userId,
+        userEmail,
+        ErrorCodes.BATCH_NOT_ALLOWED,
+        {
+          error: ErrorCodes.BATCH_NOT_ALLOWED,
+          message: 'El procesamiento batch no está disponible para tu plan',
+        },
+        HttpStatus.FORBIDDEN,
+        { plan: effectivePlan, fileCount },
+      );
+    }
+
+    if (fileCount > planLimits.maxFilesPerBatch) {
+      throw await this.batchRejection(
+        userId,
+        userEmail,
+        ErrorCodes.BATCH_LIMIT_EXCEEDED,
+        {
+          error: ErrorCodes.BATCH_LIMIT_EXCEEDED,
+          message: `Excedes el límite de ${planLimits.maxFilesPerBatch} archivos por batch`,
+          data: {
+            maxFiles: planLimits.maxFilesPerBatch,
+            requestedFiles: fileCount,
+          },
+        },
+        HttpStatus.FORBIDDEN,
+        { plan: effectivePlan },
+      );
+    }
+
+    return { userEmail, effectivePlan, planLimits };
+  }
+
   /**
    * Procesa los archivos de un batch de forma asíncrona
    */
@@ -2143,8 +4687,9 @@ export class ZplService {
     files: { id: string; content: string; fileName: string }[],
     jobs: BatchFileJob[],
     labelSize: string,
-    outputFormat: 'pdf' | 'png' | 'jpeg',
+    outputFormat: OutputFormatValue,
     periodInfo?: PeriodInfo,
+    options: ConversionOptions = {},
   ): Promise<void> {
     const size = this.getLabelSize(labelSize);
     let completedCount = 0;
@@ -2165,10 +4710,30 @@ export class ZplService {
       }
     }
 
+    // La cancelación puede llegar por otra instancia: el batch se consulta
+    // antes de cada archivo y antes de generar el ZIP
+    const finishIfCancelled = async (): Promise<boolean> => {
+      if (!(await this.isBatchCancelled(batchId))) {
+        return false;
+      }
+      await this.finishCancelledBatch(
+        batchId,
+        jobs,
+        outputFormat,
+        userId,
+        periodInfo,
+      );
+      return true;
+    };
+
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
       const job = jobs[i];
 
+      if (await finishIfCancelled()) {
+        return;
+      }
+
       // Contar labels en el archivo actual
       let labelCount = 1;
       try {
@@ -2180,6 +4745,7 @@ export class ZplService {
         );
       }
 
+      this.activeBatchFiles.set(batchId, job.jobId);
       try {
         // Actualizar estado a procesando
         job.status = 'processing';
@@ -2203,6 +4769,7 @@ export class ZplService {
             job.jobId,
             userId || 'batch',
             userPlan,
+            options,
           );
           contentType = 'application/pdf';
           fileExtension = 'pdf';
@@ -2210,13 +4777,19 @@ export class ZplService {
           resultBuffer = await this.convertZplToImages(
             file.content,
             size,
-            outputFormat === 'png' ? OutputFormat.PNG : OutputFormat.JPEG,
+            outputFormat as OutputFormat,
             job.jobId,
             userId || 'batch',
             userPlan,
+            options,
           );
-          contentType = 'application/zip';
-          fileExtension = 'zip';
+          ({ contentType, fileExtension } = this.conversionFile(
+            outputFormat as OutputFormat,
+          ));
+        }
+
+        if (this.cancelledJobs.has(job.jobId)) {
+          throw this.conversionCancelledException(job.jobId);
         }
 
         // Guardar archivo temporal en GCS
@@ -2230,6 +4803,7 @@ export class ZplService {
         job.status = 'completed';
         job.progress = 100;
         job.tempStoragePath = tempPath;
+        job.labelCount = labelCount;
         completedCount++;
 
         // Registrar conversión exitosa para este archivo del batch
@@ -2243,6 +4817,8 @@ export class ZplService {
             outputFormat,
             undefined,
             periodInfo,
+            undefined,
+            options.labelDimensions,
           );
         }
 
@@ -2250,32 +4826,42 @@ export class ZplService {
           `Batch ${batchId}: Archivo ${file.fileName} completado`,
         );
       } catch (error) {
-        this.logger.error(
-          `Batch ${batchId}: Error procesando ${file.fileName}: ${error.message}`,
-        );
-        job.status = 'failed';
-        job.error = error.message;
-        failedCount++;
-
-        // Registrar conversión fallida
-        if (userId) {
-          try {
-            await this.usersService.recordConversion(
-              userId,
-              job.jobId,
-              labelCount,
-              labelSize,
-              'failed',
-              outputFormat,
-              undefined,
-              periodInfo,
-            );
-          } catch (recordError) {
-            this.logger.error(
-              `Error registrando conversión fallida: ${recordError.message}`,
-            );
+        if (this.cancelledJobs.has(job.jobId)) {
+          // Batch cancelado con este archivo en curso: no cuenta como fallo
+          job.status = 'cancelled';
+        } else {
+          this.logger.error(
+            `Batch ${batchId}: Error procesando ${file.fileName}: ${error.message}`,
+          );
+          job.status = 'failed';
+          job.error = error.message;
+          failedCount++;
+
+          // Registrar conversión fallida
+          if (userId) {
+            try {
+              await this.usersService.recordConversion(
+                userId,
+                job.jobId,
+                labelCount,
+                labelSize,
+                'failed',
+                outputFormat,
+                undefined,
+                periodInfo,
+                undefined,
+                options.labelDimensions,
+              );
+            } catch (recordError) {
+              this.logger.error(
+                `Error registrando conversión fallida: ${recordError.message}`,
+              );
+            }
           }
         }
+      } finally {
+        this.activeBatchFiles.delete(batchId);
+        this.cancelledJobs.delete(job.jobId);
       }
 
       await this.updateBatchJobProgress(
@@ -2286,6 +4872,10 @@ export class ZplService {
       );
     }
 
+    if (await finishIfCancelled()) {
+      return;
+    }
+
     // Finalizar el batch
     await this.finalizeBatch(
       batchId,
@@ -2293,6 +4883,131 @@ export class ZplService {
       completedCount,
       failedCount,
       outputFormat,
+      userId,
+      batch?.output,
+    );
+  }
+
+  /**
+   * Cancela un batch en proceso. El archivo en curso se corta si lo procesa
+   * esta instancia; si no, la que lo procesa lo detecta antes del siguiente
+   * archivo y cierra el batch (ver finishCancelledBatch).
+   * @param batchId ID del batch
+   * @param userId ID del usuario autenticado (dueño del batch)
+   */
+  async cancelBatch(
+    batchId: string,
+    userId: string,
+  ): Promise<{ batchId: string; status: 'cancelled' }> {
+    const result = await this.firestoreService.cancelBatchJob(batchId, userId);
+
+    if (result.outcome === 'blocked') {
+      switch (result.reason) {
+        case 'forbidden':
+          throw new HttpException(
+            {
+              error: ErrorCodes.ACCESS_DENIED,
+              message: 'No tienes acceso a este recurso',
+            },
+            HttpStatus.FORBIDDEN,
+          );
+        case 'finished':
+          throw new HttpException(
+            {
+              error: ErrorCodes.BATCH_ALREADY_FINISHED,
+              message: ErrorMessagesEs[ErrorCodes.BATCH_ALREADY_FINISHED],
+              data: { batchId, currentStatus: result.status },
+            },
+            HttpStatus.CONFLICT,
+          );
+        default:
+          throw new HttpException(
+            {
+              error: ErrorCodes.BATCH_NOT_FOUND,
+              message: 'Batch no encontrado',
+              data: { batchId },
+            },
+            HttpStatus.NOT_FOUND,
+          );
+      }
+    }
+
+    const activeJobId = this.activeBatchFiles.get(batchId);
+    if (activeJobId) {
+      this.abortConversion(activeJobId);
+    }
+
+    this.logger.log(`Batch ${batchId} cancelado`);
+    return { batchId, status: 'cancelled' };
+  }
+
+  private async isBatchCancelled(batchId: string): Promise<boolean> {
+    try {
+      const batch = await this.firestoreService.getBatchJob(batchId);
+      return batch?.status === 'cancelled';
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo consultar si el batch ${batchId} fue cancelado: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Cierra un batch cancelado. Los archivos pendientes ya no se procesan y
+   * los completados se descartan sin llegar al ZIP: como el usuario no
+   * recibe nada, el uso que cobraron se reembolsa.
+   */
+  private async finishCancelledBatch(
+    batchId: string,
+    jobs: BatchFileJob[],
+    outputFormat: OutputFormatValue,
+    userId?: string,
+    periodInfo?: PeriodInfo,
+  ): Promise<void> {
+    const discarded = jobs.filter((job) => job.status === 'completed');
+    for (const job of jobs) {
+      if (job.status !== 'failed') {
+        job.status = 'cancelled';
+      }
+    }
+
+    if (userId) {
+      for (const job of discarded) {
+        await this.usersService
+          .refundConversion(userId, job.jobId, job.labelCount ?? 0, periodInfo)
+          .catch((err) =>
+            this.logger.error(
+              `Error reembolsando ${job.jobId} del batch ${batchId}: ${err.message}`,
+            ),
+          );
+      }
+    }
+
+    await this.firestoreService
+      .updateBatchJob(batchId, { jobs })
+      .catch((err) =>
+        this.logger.error(
+          `Error guardando el batch cancelado ${batchId}: ${err.message}`,
+        ),
+      );
+    this.cleanupBatchTempFiles(batchId, discarded);
+
+    this.emitWebhookEvent(userId, 'batch.cancelled', {
+      batchId,
+      status: 'cancelled',
+      totalFiles: jobs.length,
+      refundedFiles: discarded.length,
+      outputFormat,
+      files: jobs.map(({ jobId, fileName, status, error }) => ({
+        jobId,
+        fileName,
+        status,
+        error,
+      })),
+    });
+    this.logger.log(
+      `Batch ${batchId} cancelado: ${discarded.length} archivos reembolsados`,
     );
   }
 
@@ -2313,15 +5028,46 @@ export class ZplService {
   }
 
   /**
-   * Finaliza un batch creando el ZIP con todos los archivos
+   * Finaliza un batch creando el ZIP con todos los archivos, o el PDF
+   * combinado si se pidió merged_pdf
    */
   private async finalizeBatch(
     batchId: string,
     jobs: BatchFileJob[],
     completedCount: number,
     failedCount: number,
-    outputFormat: 'pdf' | 'png' | 'jpeg',
+    outputFormat: OutputFormatValue,
+    userId?: string,
+    output?: BatchOutputOptions,
   ): Promise<void> {
+    const emitBatchEvent = (
+      status: 'completed' | 'partial' | 'failed',
+      download?: WebhookDownloadRef,
+    ) =>
+      this.emitWebhookEvent(
+        userId,
+        `batch.${status}`,
+        {
+          batchId,
+          status,
+          totalFiles: jobs.length,
+          completedFiles: completedCount,
+          failedFiles: failedCount,
+          outputFormat,
+          // Respaldo si la URL firmada del envío ya caducó
+          downloadPath: download
+            ? `/api/zpl/batch/download/${batchId}`
+            : undefined,
+          files: jobs.map(({ jobId, fileName, status, error }) => ({
+            jobId,
+            fileName,
+            status,
+            error,
+          })),
+        },
+        download,
+      );
+
     try {
       const completedJobs = jobs.filter(
         (j) => j.status === 'completed' && j.tempStoragePath,
@@ -2334,27 +5080,30 @@ export class ZplService {
           completedFiles: completedCount,
           failedFiles: failedCount,
         });
+        emitBatchEvent('failed');
         return;
       }
 
-      // Crear ZIP con todos los archivos completados
-      const zipBuffer = await this.createBatchZip(
-        batchId,
-        completedJobs,
-        outputFormat,
-      );
+      // Crear ZIP (o PDF combinado) con todos los archivos completados
+      const merged = output?.mode === 'merged_pdf';
+      const resultBuffer = merged
+        ? await this.createBatchMergedPdf(batchId, completedJobs, output)
+        : await this.createBatchZip(batchId, completedJobs, outputFormat);
 
-      // Guardar ZIP en GCS
+      // Guardar resultado en GCS
       const timestamp = new Date()
         .toISOString()
         .replace(/[:.]/g, '')
         .slice(0, 14);
-      const zipFilename = `zpl-batch-${timestamp}.zip`;
+      const zipFilename = `zpl-batch-${timestamp}.${merged ? 'pdf' : 'zip'}`;
       const zipPath = `batches/${batchId}/${zipFilename}`;
 
-      await this.storage.bucket(this.bucket).file(zipPath).save(zipBuffer, {
-        contentType: 'application/zip',
-      });
+      await this.storage
+        .bucket(this.bucket)
+        .file(zipPath)
+        .save(resultBuffer, {
+          contentType: merged ? 'application/pdf' : 'application/zip',
+        });
 
       // Generar URL firmada
       const downloadUrl = await this.generateSignedUrl(zipPath, zipFilename);
@@ -2376,6 +5125,8 @@ export class ZplService {
         zipFilename,
       });
 
+      emitBatchEvent(status, { path: zipPath, filename: zipFilename });
+
       // Limpiar archivos temporales
       this.cleanupBatchTempFiles(batchId, completedJobs);
 
@@ -2388,7 +5139,47 @@ export class ZplService {
         completedFiles: completedCount,
         failedFiles: failedCount,
       });
+      emitBatchEvent('failed');
+    }
+  }
+
+  /**
+   * Une los PDF del batch en uno solo, con un marcador por archivo, en el
+   * orden de subida o por nombre (natural: 2.zpl antes que 10.zpl)
+   */
+  private async createBatchMergedPdf(
+    batchId: string,
+    jobs: BatchFileJob[],
+    output: BatchOutputOptions,
+  ): Promise<Buffer> {
+    const ordered =
+      output.order === 'name'
+        ? [...jobs].sort((a, b) =>
+            a.fileName.localeCompare(b.fileName, undefined, {
+              numeric: true,
+              sensitivity: 'base',
+            }),
+          )
+        : jobs;
+
+    const sources: BatchPdfSource[] = [];
+    for (const job of ordered) {
+      try {
+        const [pdf] = await this.storage
+          .bucket(this.bucket)
+          .file(job.tempStoragePath)
+          .download();
+        sources.push({ title: job.fileName, pdf });
+      } catch (error) {
+        this.logger.error(
+          `Error agregando archivo ${job.fileName} al PDF del batch ${batchId}: ${error.message}`,
+        );
+      }
     }
+
+    return mergeBatchPdfs(sources, {
+      separatorPages: output.separatorPages,
+    });
   }
 
   /**
@@ -2397,7 +5188,7 @@ export class ZplService {
   private async createBatchZip(
     batchId: string,
     jobs: BatchFileJob[],
-    outputFormat: 'pdf' | 'png' | 'jpeg',
+    outputFormat: OutputFormatValue,
   ): Promise<Buffer> {
     return new Promise(async (resolve, reject) => {
       const chunks: Buffer[] = [];
@@ -2417,7 +5208,9 @@ export class ZplService {
       archive.on('error', reject);
       archive.pipe(writableStream);
 
-      // Agregar cada archivo al ZIP
+      // Agregar cada archivo al ZIP, con las carpetas de su nombre original
+      // (las de un .zip/.tar.gz subido)
+      const usedNames = new Set<string>();
       for (const job of jobs) {
         if (!job.tempStoragePath) continue;
 
@@ -2428,9 +5221,14 @@ export class ZplService {
           const [fileBuffer] = await file.download();
 
           // Determinar extensión según el formato
-          const extension = outputFormat === 'pdf' ? 'pdf' : 'zip';
-          const fileName =
-            job.fileName.replace(/\.(zpl|txt)$/i, '') + `.${extension}`;
+          const { fileExtension } = this.conversionFile(
+            outputFormat as OutputFormat,
+          );
+          const fileName = batchZipEntryName(
+            job.fileName,
+            fileExtension,
+            usedNames,
+          );
 
           archive.append(fileBuffer, { name: fileName });
         } catch (error) {
@@ -2567,6 +5365,79 @@ export class ZplService {
     };
   }
 
+  /**
+   * Stream SSE del progreso de un batch del usuario: estado de cada archivo,
+   * posición en cola del archivo en curso (si esta instancia procesa el
+   * batch) y la URL del ZIP al terminar. El estado se lee de Firestore, que
+   * la instancia que procesa el batch actualiza por archivo.
+   * @param batchId ID del batch
+   * @param userId ID del usuario autenticado (dueño del batch)
+   */
+  async streamBatchProgress(
+    batchId: string,
+    userId: string,
+  ): Promise<Observable<MessageEvent>> {
+    const batch = await this.firestoreService.getBatchJob(batchId);
+
+    if (!batch) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.BATCH_NOT_FOUND,
+          message: 'Batch no encontrado',
+          data: { batchId },
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    if (batch.userId !== userId) {
+      throw new HttpException(
+        {
+          error: ErrorCodes.ACCESS_DENIED,
+          message: 'No tienes acceso a este recurso',
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return this.progressStream(
+      () => this.batchProgressSnapshot(batchId),
+      (snapshot) => snapshot.status !== 'processing',
+    );
+  }
+
+  private async batchProgressSnapshot(
+    batchId: string,
+  ): Promise<ProgressSnapshot<BatchProgressSnapshot> | null> {
+    const batch = await this.firestoreService.getBatchJob(batchId);
+    if (!batch) {
+      return null;
+    }
+
+    const activeJobId = this.activeBatchFiles.get(batchId);
+    return {
+      // Siempre sale de Firestore, aunque el batch se procese aquí
+      local: false,
+      value: {
+        batchId: batch.id,
+        status: batch.status,
+        totalFiles: batch.totalFiles,
+        completedFiles: batch.completedFiles,
+        failedFiles: batch.failedFiles,
+        files: batch.jobs.map(
+          ({ jobId, fileName, status, progress, error }) => ({
+            jobId,
+            fileName,
+            status,
+            progress,
+            error,
+          }),
+        ),
+        queue: activeJobId ? this.progressQueueInfo(activeJobId) : undefined,
+        downloadUrl: batch.downloadUrl,
+      },
+    };
+  }
+
   /**
    * Obtiene la URL de descarga de un batch completado
    * @param batchId ID del batch